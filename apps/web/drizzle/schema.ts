@@ -7,18 +7,80 @@ import {
   integer,
   boolean,
   timestamp,
+  time,
+  jsonb,
+  bigserial,
   uniqueIndex,
   index,
 } from 'drizzle-orm/pg-core'
-import { relations } from 'drizzle-orm'
+import { relations, sql } from 'drizzle-orm'
 
 // Enums
 export const userRoleEnum = pgEnum('user_role', ['member', 'manager', 'admin'])
 export const userStatusEnum = pgEnum('user_status', ['active', 'suspended'])
+export const checkoutStatusEnum = pgEnum('checkout_status', [
+  'active',
+  'revoked',
+  'renewed',
+])
+export const userTokenPurposeEnum = pgEnum('user_token_purpose', [
+  'password_reset',
+  'email_verification',
+])
 export const reservationStatusEnum = pgEnum('reservation_status', [
   'confirmed',
   'cancelled',
   'completed',
+  'no_show',
+])
+
+export const noShowSourceEnum = pgEnum('no_show_source', [
+  'missed_check_in',
+  'manager',
+  'calcom',
+])
+
+export const recurrenceFrequencyEnum = pgEnum('recurrence_frequency', ['weekly', 'biweekly'])
+
+export const issueSeverityEnum = pgEnum('issue_severity', ['low', 'medium', 'high', 'critical'])
+
+export const issueStatusEnum = pgEnum('issue_status', [
+  'open',
+  'acknowledged',
+  'in_progress',
+  'resolved',
+  'dismissed',
+])
+
+export const waitlistStatusEnum = pgEnum('waitlist_status', [
+  'waiting',
+  'offered',
+  'booked',
+  'expired',
+  'cancelled',
+])
+
+export const webhookDeliveryStatusEnum = pgEnum('webhook_delivery_status', [
+  'processing',
+  'processed',
+  'failed',
+  'rejected',
+])
+
+export const reconciliationKindEnum = pgEnum('reconciliation_kind', [
+  'cancel_not_sent', // cancelled here but still active at the provider
+  'orphaned_booking', // made by this app at the provider, with no reservation here
+  'unknown_booking', // at the provider, not made by this app
+  'cancelled_at_provider', // cancelled at the provider, still confirmed here
+  'time_changed', // moved at the provider, old times here
+  'missing_at_provider', // confirmed here, not found at the provider
+])
+
+export const reconciliationStatusEnum = pgEnum('reconciliation_status', [
+  'open',
+  'fixed',
+  'resolved',
+  'dismissed',
 ])
 
 // Users table
@@ -26,24 +88,150 @@ export const users = pgTable('users', {
   id: uuid('id').primaryKey().defaultRandom(),
   email: varchar('email', { length: 255 }).unique().notNull(),
   passwordHash: varchar('password_hash', { length: 255 }),
+  oidcSubject: varchar('oidc_subject', { length: 255 }).unique(), // `sub` claim of the linked IdP account
   name: varchar('name', { length: 255 }),
   role: userRoleEnum('role').default('member').notNull(),
   status: userStatusEnum('status').default('active').notNull(),
+  // Defaults to now so accounts that predate verification (and SSO accounts,
+  // verified by the IdP) count as verified; registration sets it to null
+  emailVerifiedAt: timestamp('email_verified_at').defaultNow(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 })
 
+// A machine's requirements as an expression: groups need all or any of their
+// rules; clauses need a training module or a checkout on another machine.
+// Members with an exempt role count a clause as met.
+export type RequirementRule =
+  | { type: 'all' | 'any'; rules: RequirementRule[] }
+  | {
+      type: 'module'
+      moduleId: string
+      requiredWatchPercent: number
+      exemptRoles?: UserRole[]
+    }
+  | { type: 'checkout'; machineId: string; exemptRoles?: UserRole[] }
+
+// Machine categories - groups of interchangeable machines. Members of a category
+// inherit its requirements, and a checkout on the category covers all of them.
+export const machineCategories = pgTable(
+  'machine_categories',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    name: varchar('name', { length: 255 }).notNull(),
+    description: text('description'),
+    // Required on top of each machine's own requirements; null = none
+    requirementRule: jsonb('requirement_rule').$type<RequirementRule>(),
+    checkoutValidityMonths: integer('checkout_validity_months'), // null = never expires
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    nameIdx: uniqueIndex('machine_category_name_idx').on(table.name),
+  })
+)
+
 // Machines table
 export const machines = pgTable('machines', {
   id: uuid('id').primaryKey().defaultRandom(),
   name: varchar('name', { length: 255 }).notNull(),
   description: text('description'),
+  categoryId: uuid('category_id').references(() => machineCategories.id, {
+    onDelete: 'set null',
+  }),
   calcomEventTypeId: integer('calcom_event_type_id'),
+  slotMinutes: integer('slot_minutes').default(60).notNull(),
+  minBookingMinutes: integer('min_booking_minutes').default(60).notNull(),
+  maxBookingMinutes: integer('max_booking_minutes').default(60).notNull(),
+  checkoutValidityMonths: integer('checkout_validity_months'), // null = never expires
+  // Fair-use limits per member; null = no limit
+  maxHoursPerWeek: integer('max_hours_per_week'),
+  maxActiveReservations: integer('max_active_reservations'),
+  maxAdvanceDays: integer('max_advance_days'),
+  minNoticeMinutes: integer('min_notice_minutes'),
+  // Set while the machine is out of service; it stays listed but can't be booked
+  outOfServiceAt: timestamp('out_of_service_at'),
+  outOfServiceReason: text('out_of_service_reason'),
+  expectedBackAt: timestamp('expected_back_at'), // null = unknown
+  refresherModuleId: uuid('refresher_module_id').references(() => trainingModules.id, {
+    onDelete: 'set null',
+  }),
+  // null = every module in machine_requirements; otherwise machine_requirements
+  // lists the modules the rule mentions
+  requirementRule: jsonb('requirement_rule').$type<RequirementRule>(),
   active: boolean('active').default(true).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 })
 
+// Machine opening hours - weekly schedule the native scheduler builds slots from
+export const machineOpeningHours = pgTable(
+  'machine_opening_hours',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    machineId: uuid('machine_id')
+      .references(() => machines.id, { onDelete: 'cascade' })
+      .notNull(),
+    dayOfWeek: integer('day_of_week').notNull(), // 0 = Sunday
+    opensAt: time('opens_at').notNull(),
+    closesAt: time('closes_at').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    machineDayIdx: index('opening_hours_machine_day_idx').on(
+      table.machineId,
+      table.dayOfWeek
+    ),
+  })
+)
+
+// Maintenance windows - scheduled blackouts when a machine can't be booked
+export const maintenanceWindows = pgTable(
+  'maintenance_windows',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    machineId: uuid('machine_id')
+      .references(() => machines.id, { onDelete: 'cascade' })
+      .notNull(),
+    startTime: timestamp('start_time').notNull(),
+    endTime: timestamp('end_time').notNull(),
+    reason: text('reason').notNull(),
+    createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    machineStartIdx: index('maintenance_machine_start_idx').on(
+      table.machineId,
+      table.startTime
+    ),
+  })
+)
+
+// Machine issues - problems reported by members, triaged by managers
+export const machineIssues = pgTable(
+  'machine_issues',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    machineId: uuid('machine_id')
+      .references(() => machines.id, { onDelete: 'cascade' })
+      .notNull(),
+    reportedBy: uuid('reported_by').references(() => users.id, { onDelete: 'set null' }),
+    severity: issueSeverityEnum('severity').notNull(),
+    description: text('description').notNull(),
+    photoPath: varchar('photo_path', { length: 255 }), // file name under the upload directory
+    status: issueStatusEnum('status').default('open').notNull(),
+    resolutionNote: text('resolution_note'),
+    handledBy: uuid('handled_by').references(() => users.id, { onDelete: 'set null' }),
+    resolvedAt: timestamp('resolved_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    statusIdx: index('issue_status_idx').on(table.status, table.createdAt),
+    machineIdx: index('issue_machine_idx').on(table.machineId, table.status),
+  })
+)
+
 // Training modules table
 export const trainingModules = pgTable('training_modules', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -51,11 +239,64 @@ export const trainingModules = pgTable('training_modules', {
   description: text('description'),
   youtubeVideoId: varchar('youtube_video_id', { length: 20 }).notNull(),
   durationSeconds: integer('duration_seconds').notNull(),
+  quizPassPercent: integer('quiz_pass_percent').default(80).notNull(),
+  quizCooldownMinutes: integer('quiz_cooldown_minutes').default(60).notNull(),
   active: boolean('active').default(true).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 })
 
+// Quiz questions - multiple choice questions taken after watching a module
+export const quizQuestions = pgTable(
+  'quiz_questions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    moduleId: uuid('module_id')
+      .references(() => trainingModules.id, { onDelete: 'cascade' })
+      .notNull(),
+    prompt: text('prompt').notNull(),
+    options: jsonb('options').$type<string[]>().notNull(),
+    correctOption: integer('correct_option').notNull(), // index into options
+    sortOrder: integer('sort_order').default(0).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    moduleIdx: index('quiz_question_module_idx').on(table.moduleId),
+  })
+)
+
+export interface QuizAnswer {
+  questionId: string
+  prompt: string
+  selectedOption: number
+  correct: boolean
+}
+
+// Quiz attempts - graded submissions, answers are kept as submitted
+export const quizAttempts = pgTable(
+  'quiz_attempts',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    moduleId: uuid('module_id')
+      .references(() => trainingModules.id, { onDelete: 'cascade' })
+      .notNull(),
+    answers: jsonb('answers').$type<QuizAnswer[]>().notNull(),
+    scorePercent: integer('score_percent').notNull(),
+    passed: boolean('passed').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    userModuleIdx: index('quiz_attempt_user_module_idx').on(
+      table.userId,
+      table.moduleId,
+      table.createdAt
+    ),
+  })
+)
+
 // Machine requirements - which modules needed for each machine
 export const machineRequirements = pgTable(
   'machine_requirements',
@@ -78,6 +319,12 @@ export const machineRequirements = pgTable(
   })
 )
 
+// A stretch of a video played straight through, in seconds from the start
+export interface WatchedInterval {
+  start: number
+  end: number
+}
+
 // Training progress - user watch progress
 export const trainingProgress = pgTable(
   'training_progress',
@@ -89,9 +336,13 @@ export const trainingProgress = pgTable(
     moduleId: uuid('module_id')
       .references(() => trainingModules.id, { onDelete: 'cascade' })
       .notNull(),
+    // Sorted and merged; watchedSeconds is how much of the video they cover
+    watchedIntervals: jsonb('watched_intervals').$type<WatchedInterval[]>().default([]).notNull(),
     watchedSeconds: integer('watched_seconds').default(0).notNull(),
     lastPosition: integer('last_position').default(0).notNull(),
     completedAt: timestamp('completed_at'),
+    // Real time the saved coverage has used up, for limiting how fast it grows
+    creditedUntil: timestamp('credited_until'),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
   },
   (table) => ({
@@ -99,7 +350,40 @@ export const trainingProgress = pgTable(
   })
 )
 
-// Manager checkouts - approval records
+// Refresher progress - a member's pass through a refresher module for a
+// checkout renewal, kept apart from training_progress so the original
+// completion still counts wherever the module is a regular requirement
+export const refresherProgress = pgTable(
+  'refresher_progress',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    moduleId: uuid('module_id')
+      .references(() => trainingModules.id, { onDelete: 'cascade' })
+      .notNull(),
+    // Start of the renewal window this pass is for; an earlier one is stale
+    windowStart: timestamp('window_start').notNull(),
+    watchedIntervals: jsonb('watched_intervals').$type<WatchedInterval[]>().default([]).notNull(),
+    watchedSeconds: integer('watched_seconds').default(0).notNull(),
+    lastPosition: integer('last_position').default(0).notNull(),
+    completedAt: timestamp('completed_at'),
+    // Real time the saved coverage has used up, for limiting how fast it grows
+    creditedUntil: timestamp('credited_until'),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    userModuleIdx: uniqueIndex('refresher_progress_user_module_idx').on(
+      table.userId,
+      table.moduleId
+    ),
+  })
+)
+
+// Manager checkouts - approval history. Rows are never deleted: revoking or
+// renewing closes the active row, and re-approval starts a new one.
+// Each row is for either one machine or a whole machine category.
 export const managerCheckouts = pgTable(
   'manager_checkouts',
   {
@@ -107,24 +391,103 @@ export const managerCheckouts = pgTable(
     userId: uuid('user_id')
       .references(() => users.id, { onDelete: 'cascade' })
       .notNull(),
-    machineId: uuid('machine_id')
-      .references(() => machines.id, { onDelete: 'cascade' })
-      .notNull(),
+    machineId: uuid('machine_id').references(() => machines.id, { onDelete: 'cascade' }),
+    categoryId: uuid('category_id').references(() => machineCategories.id, {
+      onDelete: 'cascade',
+    }),
     approvedBy: uuid('approved_by')
       .references(() => users.id)
       .notNull(),
     approvedAt: timestamp('approved_at').defaultNow().notNull(),
     notes: text('notes'),
+    status: checkoutStatusEnum('status').default('active').notNull(),
+    revokedBy: uuid('revoked_by').references(() => users.id),
+    revokedAt: timestamp('revoked_at'),
+    revocationReason: text('revocation_reason'),
   },
   (table) => ({
-    userMachineIdx: uniqueIndex('checkout_user_machine_idx').on(
+    // At most one active checkout per user and machine
+    activeUserMachineIdx: uniqueIndex('checkout_active_user_machine_idx')
+      .on(table.userId, table.machineId)
+      .where(sql`${table.status} = 'active'`),
+    activeUserCategoryIdx: uniqueIndex('checkout_active_user_category_idx')
+      .on(table.userId, table.categoryId)
+      .where(sql`${table.status} = 'active'`),
+    userMachineIdx: index('checkout_user_machine_idx').on(
+      table.userId,
+      table.machineId,
+      table.approvedAt
+    ),
+  })
+)
+
+export interface RequirementStatus {
+  moduleId: string
+  moduleTitle: string
+  requiredPercent: number
+  watchedPercent: number
+  completed: boolean
+  quizRequired: boolean
+  quizPassed: boolean
+  refresher?: boolean
+  alternative?: boolean // one of several modules that would each do
+}
+
+// Everything in an eligibility result except the flag, as stored in the cache
+export interface EligibilityReasons {
+  reasons: string[]
+  requirementsMet: boolean
+  requirements: RequirementStatus[]
+  hasCheckout: boolean
+  checkoutExpiresAt: string | null
+}
+
+// Eligibility cache - the last computed eligibility per user and machine,
+// recomputed when anything it depends on changes
+export const eligibilityCache = pgTable(
+  'eligibility_cache',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    machineId: uuid('machine_id')
+      .references(() => machines.id, { onDelete: 'cascade' })
+      .notNull(),
+    eligible: boolean('eligible').notNull(),
+    reasonJson: jsonb('reason_json').$type<EligibilityReasons>().notNull(),
+    computedAt: timestamp('computed_at').defaultNow().notNull(),
+    // When the result changes through time passing alone, e.g. a checkout expiring
+    validUntil: timestamp('valid_until'),
+  },
+  (table) => ({
+    userMachineIdx: uniqueIndex('eligibility_cache_user_machine_idx').on(
       table.userId,
       table.machineId
     ),
+    validUntilIdx: index('eligibility_cache_valid_until_idx').on(table.validUntil),
   })
 )
 
-// Reservations - booking records synced with Cal.com
+// Reservation series - a repeating booking; each occurrence is its own reservation
+export const reservationSeries = pgTable('reservation_series', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  userId: uuid('user_id')
+    .references(() => users.id, { onDelete: 'cascade' })
+    .notNull(),
+  machineId: uuid('machine_id')
+    .references(() => machines.id, { onDelete: 'cascade' })
+    .notNull(),
+  frequency: recurrenceFrequencyEnum('frequency').notNull(),
+  firstStartTime: timestamp('first_start_time').notNull(),
+  durationMinutes: integer('duration_minutes').notNull(),
+  until: timestamp('until').notNull(), // no occurrence starts after this
+  cancelledAt: timestamp('cancelled_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+})
+
+// Reservations - booking records synced with the scheduling provider
 export const reservations = pgTable(
   'reservations',
   {
@@ -135,11 +498,23 @@ export const reservations = pgTable(
     machineId: uuid('machine_id')
       .references(() => machines.id, { onDelete: 'cascade' })
       .notNull(),
+    // Provider booking references (native scheduler bookings reuse these columns)
     calcomBookingId: varchar('calcom_booking_id', { length: 100 }),
     calcomBookingUid: varchar('calcom_booking_uid', { length: 100 }),
     startTime: timestamp('start_time').notNull(),
     endTime: timestamp('end_time').notNull(),
     status: reservationStatusEnum('status').default('confirmed').notNull(),
+    // Actual use of the machine, recorded at check-in and check-out
+    checkedInAt: timestamp('checked_in_at'),
+    checkedOutAt: timestamp('checked_out_at'),
+    // Whether a missed check-in makes this a no-show: false for bookings made
+    // before check-in existed, or after their time had already passed
+    checkInRequired: boolean('check_in_required').default(false).notNull(),
+    // Set when status is no_show: how the no-show was recorded
+    noShowSource: noShowSourceEnum('no_show_source'),
+    seriesId: uuid('series_id').references(() => reservationSeries.id, {
+      onDelete: 'set null',
+    }),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
   },
@@ -147,6 +522,132 @@ export const reservations = pgTable(
     userStartIdx: index('user_start_idx').on(table.userId, table.startTime),
     machineStartIdx: index('machine_start_idx').on(table.machineId, table.startTime),
     calcomBookingIdx: index('calcom_booking_idx').on(table.calcomBookingId),
+    seriesIdx: index('reservation_series_idx').on(table.seriesId),
+  })
+)
+
+// Waitlist entries - members waiting for a machine to free up within a time window
+export const waitlistEntries = pgTable(
+  'waitlist_entries',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    machineId: uuid('machine_id')
+      .references(() => machines.id, { onDelete: 'cascade' })
+      .notNull(),
+    // The member takes any free time of the given length inside the window
+    windowStart: timestamp('window_start').notNull(),
+    windowEnd: timestamp('window_end').notNull(),
+    durationMinutes: integer('duration_minutes').notNull(),
+    status: waitlistStatusEnum('status').default('waiting').notNull(),
+    // Set when status is offered: the freed time held for the member until holdExpiresAt
+    offeredStart: timestamp('offered_start'),
+    offeredEnd: timestamp('offered_end'),
+    holdExpiresAt: timestamp('hold_expires_at'),
+    reservationId: uuid('reservation_id').references(() => reservations.id, {
+      onDelete: 'set null',
+    }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    machineStatusIdx: index('waitlist_machine_status_idx').on(
+      table.machineId,
+      table.status,
+      table.createdAt
+    ),
+    userIdx: index('waitlist_user_idx').on(table.userId, table.status),
+  })
+)
+
+// Audit events - append-only record of privileged changes
+export const auditEvents = pgTable(
+  'audit_events',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    actorId: uuid('actor_id').references(() => users.id, { onDelete: 'set null' }),
+    actorEmail: varchar('actor_email', { length: 255 }).notNull(), // kept if the actor is deleted
+    action: varchar('action', { length: 100 }).notNull(),
+    entityType: varchar('entity_type', { length: 50 }).notNull(),
+    entityId: varchar('entity_id', { length: 100 }).notNull(),
+    before: jsonb('before'),
+    after: jsonb('after'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    createdAtIdx: index('audit_created_idx').on(table.createdAt),
+    actorIdx: index('audit_actor_idx').on(table.actorId, table.createdAt),
+    entityIdx: index('audit_entity_idx').on(table.entityType, table.entityId),
+  })
+)
+
+// Drift found between reservations and the scheduling provider's bookings;
+// one row per booking and kind, updated on every reconciliation run
+export const reconciliationFindings = pgTable(
+  'reconciliation_findings',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    machineId: uuid('machine_id')
+      .references(() => machines.id, { onDelete: 'cascade' })
+      .notNull(),
+    reservationId: uuid('reservation_id').references(() => reservations.id, {
+      onDelete: 'set null',
+    }),
+    bookingUid: varchar('booking_uid', { length: 255 }).notNull(),
+    kind: reconciliationKindEnum('kind').notNull(),
+    status: reconciliationStatusEnum('status').default('open').notNull(),
+    detail: text('detail').notNull(),
+    firstSeenAt: timestamp('first_seen_at').defaultNow().notNull(),
+    lastSeenAt: timestamp('last_seen_at').defaultNow().notNull(),
+    resolvedAt: timestamp('resolved_at'), // fixed automatically or no longer seen
+  },
+  (table) => ({
+    bookingIdx: uniqueIndex('reconciliation_booking_idx').on(table.kind, table.bookingUid),
+    statusIdx: index('reconciliation_status_idx').on(table.status, table.lastSeenAt),
+  })
+)
+
+// Real-time events kept for a while so SSE clients can catch up after reconnecting
+export const realtimeEvents = pgTable(
+  'realtime_events',
+  {
+    id: bigserial('id', { mode: 'number' }).primaryKey(), // sent as the SSE event id
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }), // null = every user
+    event: varchar('event', { length: 50 }).notNull(),
+    data: jsonb('data').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    createdAtIdx: index('realtime_events_created_idx').on(table.createdAt),
+    userIdx: index('realtime_events_user_idx').on(table.userId, table.id),
+  })
+)
+
+// Every inbound webhook, with what was sent and how it was handled
+export const webhookDeliveries = pgTable(
+  'webhook_deliveries',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    provider: varchar('provider', { length: 50 }).notNull(),
+    // SHA-256 of the raw body, set on accepted deliveries so replays are refused
+    bodyHash: varchar('body_hash', { length: 64 }),
+    triggerEvent: varchar('trigger_event', { length: 100 }), // null if the body didn't parse
+    headers: jsonb('headers').$type<Record<string, string>>().notNull(),
+    body: text('body').notNull(),
+    status: webhookDeliveryStatusEnum('status').default('processing').notNull(),
+    result: jsonb('result'), // what the handler returned
+    error: text('error'),
+    attempts: integer('attempts').default(1).notNull(),
+    receivedAt: timestamp('received_at').defaultNow().notNull(),
+    startedAt: timestamp('started_at').defaultNow().notNull(), // when the latest attempt began
+    processedAt: timestamp('processed_at'),
+  },
+  (table) => ({
+    bodyIdx: uniqueIndex('webhook_deliveries_body_idx').on(table.provider, table.bodyHash),
+    receivedAtIdx: index('webhook_deliveries_received_idx').on(table.receivedAt),
+    statusIdx: index('webhook_deliveries_status_idx').on(table.status, table.receivedAt),
   })
 )
 
@@ -167,24 +668,127 @@ export const sessions = pgTable(
   })
 )
 
+// Single-use tokens emailed to users; only a SHA-256 hash of the token is stored
+export const userTokens = pgTable(
+  'user_tokens',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    purpose: userTokenPurposeEnum('purpose').notNull(),
+    tokenHash: varchar('token_hash', { length: 64 }).unique().notNull(),
+    expiresAt: timestamp('expires_at').notNull(),
+    usedAt: timestamp('used_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => ({
+    userPurposeIdx: index('user_token_user_purpose_idx').on(table.userId, table.purpose),
+  })
+)
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   trainingProgress: many(trainingProgress),
+  refresherProgress: many(refresherProgress),
+  quizAttempts: many(quizAttempts),
   managerCheckouts: many(managerCheckouts, { relationName: 'userCheckouts' }),
   approvedCheckouts: many(managerCheckouts, { relationName: 'approverCheckouts' }),
+  revokedCheckouts: many(managerCheckouts, { relationName: 'revokerCheckouts' }),
   reservations: many(reservations),
+  reservationSeries: many(reservationSeries),
+  reportedIssues: many(machineIssues, { relationName: 'reportedIssues' }),
+  handledIssues: many(machineIssues, { relationName: 'handledIssues' }),
+  waitlistEntries: many(waitlistEntries),
   sessions: many(sessions),
+  tokens: many(userTokens),
 }))
 
-export const machinesRelations = relations(machines, ({ many }) => ({
+export const machineCategoriesRelations = relations(machineCategories, ({ many }) => ({
+  machines: many(machines),
+  checkouts: many(managerCheckouts),
+}))
+
+export const machinesRelations = relations(machines, ({ one, many }) => ({
+  category: one(machineCategories, {
+    fields: [machines.categoryId],
+    references: [machineCategories.id],
+  }),
+  refresherModule: one(trainingModules, {
+    fields: [machines.refresherModuleId],
+    references: [trainingModules.id],
+  }),
   requirements: many(machineRequirements),
+  openingHours: many(machineOpeningHours),
+  maintenanceWindows: many(maintenanceWindows),
+  issues: many(machineIssues),
   checkouts: many(managerCheckouts),
   reservations: many(reservations),
+  waitlistEntries: many(waitlistEntries),
+}))
+
+export const machineOpeningHoursRelations = relations(
+  machineOpeningHours,
+  ({ one }) => ({
+    machine: one(machines, {
+      fields: [machineOpeningHours.machineId],
+      references: [machines.id],
+    }),
+  })
+)
+
+export const maintenanceWindowsRelations = relations(maintenanceWindows, ({ one }) => ({
+  machine: one(machines, {
+    fields: [maintenanceWindows.machineId],
+    references: [machines.id],
+  }),
+  creator: one(users, {
+    fields: [maintenanceWindows.createdBy],
+    references: [users.id],
+  }),
+}))
+
+export const machineIssuesRelations = relations(machineIssues, ({ one }) => ({
+  machine: one(machines, {
+    fields: [machineIssues.machineId],
+    references: [machines.id],
+  }),
+  reporter: one(users, {
+    fields: [machineIssues.reportedBy],
+    references: [users.id],
+    relationName: 'reportedIssues',
+  }),
+  handler: one(users, {
+    fields: [machineIssues.handledBy],
+    references: [users.id],
+    relationName: 'handledIssues',
+  }),
 }))
 
 export const trainingModulesRelations = relations(trainingModules, ({ many }) => ({
   requirements: many(machineRequirements),
   progress: many(trainingProgress),
+  refresherProgress: many(refresherProgress),
+  quizQuestions: many(quizQuestions),
+  quizAttempts: many(quizAttempts),
+}))
+
+export const quizQuestionsRelations = relations(quizQuestions, ({ one }) => ({
+  module: one(trainingModules, {
+    fields: [quizQuestions.moduleId],
+    references: [trainingModules.id],
+  }),
+}))
+
+export const quizAttemptsRelations = relations(quizAttempts, ({ one }) => ({
+  user: one(users, {
+    fields: [quizAttempts.userId],
+    references: [users.id],
+  }),
+  module: one(trainingModules, {
+    fields: [quizAttempts.moduleId],
+    references: [trainingModules.id],
+  }),
 }))
 
 export const machineRequirementsRelations = relations(
@@ -212,6 +816,17 @@ export const trainingProgressRelations = relations(trainingProgress, ({ one }) =
   }),
 }))
 
+export const refresherProgressRelations = relations(refresherProgress, ({ one }) => ({
+  user: one(users, {
+    fields: [refresherProgress.userId],
+    references: [users.id],
+  }),
+  module: one(trainingModules, {
+    fields: [refresherProgress.moduleId],
+    references: [trainingModules.id],
+  }),
+}))
+
 export const managerCheckoutsRelations = relations(managerCheckouts, ({ one }) => ({
   user: one(users, {
     fields: [managerCheckouts.userId],
@@ -222,11 +837,32 @@ export const managerCheckoutsRelations = relations(managerCheckouts, ({ one }) =
     fields: [managerCheckouts.machineId],
     references: [machines.id],
   }),
+  category: one(machineCategories, {
+    fields: [managerCheckouts.categoryId],
+    references: [machineCategories.id],
+  }),
   approver: one(users, {
     fields: [managerCheckouts.approvedBy],
     references: [users.id],
     relationName: 'approverCheckouts',
   }),
+  revoker: one(users, {
+    fields: [managerCheckouts.revokedBy],
+    references: [users.id],
+    relationName: 'revokerCheckouts',
+  }),
+}))
+
+export const reservationSeriesRelations = relations(reservationSeries, ({ one, many }) => ({
+  user: one(users, {
+    fields: [reservationSeries.userId],
+    references: [users.id],
+  }),
+  machine: one(machines, {
+    fields: [reservationSeries.machineId],
+    references: [machines.id],
+  }),
+  reservations: many(reservations),
 }))
 
 export const reservationsRelations = relations(reservations, ({ one }) => ({
@@ -238,6 +874,43 @@ export const reservationsRelations = relations(reservations, ({ one }) => ({
     fields: [reservations.machineId],
     references: [machines.id],
   }),
+  series: one(reservationSeries, {
+    fields: [reservations.seriesId],
+    references: [reservationSeries.id],
+  }),
+}))
+
+export const waitlistEntriesRelations = relations(waitlistEntries, ({ one }) => ({
+  user: one(users, {
+    fields: [waitlistEntries.userId],
+    references: [users.id],
+  }),
+  machine: one(machines, {
+    fields: [waitlistEntries.machineId],
+    references: [machines.id],
+  }),
+  reservation: one(reservations, {
+    fields: [waitlistEntries.reservationId],
+    references: [reservations.id],
+  }),
+}))
+
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  actor: one(users, {
+    fields: [auditEvents.actorId],
+    references: [users.id],
+  }),
+}))
+
+export const reconciliationFindingsRelations = relations(reconciliationFindings, ({ one }) => ({
+  machine: one(machines, {
+    fields: [reconciliationFindings.machineId],
+    references: [machines.id],
+  }),
+  reservation: one(reservations, {
+    fields: [reconciliationFindings.reservationId],
+    references: [reservations.id],
+  }),
 }))
 
 export const sessionsRelations = relations(sessions, ({ one }) => ({
@@ -247,16 +920,45 @@ export const sessionsRelations = relations(sessions, ({ one }) => ({
   }),
 }))
 
+export const userTokensRelations = relations(userTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [userTokens.userId],
+    references: [users.id],
+  }),
+}))
+
 // Type exports
 export type User = typeof users.$inferSelect
+export type UserRole = User['role']
 export type NewUser = typeof users.$inferInsert
 export type Machine = typeof machines.$inferSelect
 export type NewMachine = typeof machines.$inferInsert
+export type MachineCategory = typeof machineCategories.$inferSelect
+export type MachineOpeningHours = typeof machineOpeningHours.$inferSelect
+export type MaintenanceWindow = typeof maintenanceWindows.$inferSelect
+export type MachineIssue = typeof machineIssues.$inferSelect
+export type IssueSeverity = MachineIssue['severity']
+export type IssueStatus = MachineIssue['status']
 export type TrainingModule = typeof trainingModules.$inferSelect
 export type NewTrainingModule = typeof trainingModules.$inferInsert
 export type MachineRequirement = typeof machineRequirements.$inferSelect
 export type TrainingProgress = typeof trainingProgress.$inferSelect
+export type RefresherProgress = typeof refresherProgress.$inferSelect
+export type QuizQuestion = typeof quizQuestions.$inferSelect
+export type QuizAttempt = typeof quizAttempts.$inferSelect
 export type ManagerCheckout = typeof managerCheckouts.$inferSelect
+export type EligibilityCacheEntry = typeof eligibilityCache.$inferSelect
 export type Reservation = typeof reservations.$inferSelect
 export type NewReservation = typeof reservations.$inferInsert
+export type ReservationSeries = typeof reservationSeries.$inferSelect
+export type RecurrenceFrequency = ReservationSeries['frequency']
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect
+export type AuditEvent = typeof auditEvents.$inferSelect
+export type RealtimeEvent = typeof realtimeEvents.$inferSelect
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect
+export type WebhookDeliveryStatus = WebhookDelivery['status']
+export type ReconciliationFinding = typeof reconciliationFindings.$inferSelect
+export type ReconciliationKind = ReconciliationFinding['kind']
 export type Session = typeof sessions.$inferSelect
+export type UserToken = typeof userTokens.$inferSelect
+export type UserTokenPurpose = UserToken['purpose']
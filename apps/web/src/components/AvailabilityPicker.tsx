@@ -8,9 +8,23 @@ interface AvailabilityPickerProps {
   slots: Slot[]
   onSelect: (slot: string) => void
   selectedSlot?: string
+  slotMinutes: number
+  minMinutes: number
+  maxMinutes: number
+  durationMinutes: number
+  onDurationChange: (minutes: number) => void
 }
 
-export function AvailabilityPicker({ slots, onSelect, selectedSlot }: AvailabilityPickerProps) {
+export function AvailabilityPicker({
+  slots,
+  onSelect,
+  selectedSlot,
+  slotMinutes,
+  minMinutes,
+  maxMinutes,
+  durationMinutes,
+  onDurationChange,
+}: AvailabilityPickerProps) {
   const [selectedDate, setSelectedDate] = useState<string>(() => {
     if (slots.length > 0) {
       return new Date(slots[0].time).toISOString().split('T')[0]
@@ -18,10 +32,33 @@ export function AvailabilityPicker({ slots, onSelect, selectedSlot }: Availabili
     return new Date().toISOString().split('T')[0]
   })
 
+  const durationOptions = useMemo(() => {
+    const options: number[] = []
+    for (let minutes = minMinutes; minutes <= maxMinutes; minutes += slotMinutes) {
+      options.push(minutes)
+    }
+    return options
+  }, [slotMinutes, minMinutes, maxMinutes])
+
+  // Only offer start times followed by enough consecutive free slots
+  const bookableSlots = useMemo(() => {
+    const slotMs = slotMinutes * 60 * 1000
+    const slotsNeeded = Math.max(1, Math.round(durationMinutes / slotMinutes))
+    const freeTimes = new Set(slots.map((slot) => new Date(slot.time).getTime()))
+
+    return slots.filter((slot) => {
+      const start = new Date(slot.time).getTime()
+      for (let i = 1; i < slotsNeeded; i++) {
+        if (!freeTimes.has(start + i * slotMs)) return false
+      }
+      return true
+    })
+  }, [slots, slotMinutes, durationMinutes])
+
   // Group slots by date
   const slotsByDate = useMemo(() => {
     const grouped: Record<string, Slot[]> = {}
-    for (const slot of slots) {
+    for (const slot of bookableSlots) {
       const date = new Date(slot.time).toISOString().split('T')[0]
       if (!grouped[date]) {
         grouped[date] = []
@@ -29,7 +66,7 @@ export function AvailabilityPicker({ slots, onSelect, selectedSlot }: Availabili
       grouped[date].push(slot)
     }
     return grouped
-  }, [slots])
+  }, [bookableSlots])
 
   const availableDates = Object.keys(slotsByDate).sort()
   const currentDateSlots = slotsByDate[selectedDate] || []
@@ -43,6 +80,14 @@ export function AvailabilityPicker({ slots, onSelect, selectedSlot }: Availabili
     })
   }
 
+  const formatDuration = (minutes: number) => {
+    const hours = Math.floor(minutes / 60)
+    const rest = minutes % 60
+    if (hours === 0) return `${rest} min`
+    if (rest === 0) return `${hours} hr`
+    return `${hours} hr ${rest} min`
+  }
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString + 'T00:00:00')
     return date.toLocaleDateString('en-US', {
@@ -62,6 +107,25 @@ export function AvailabilityPicker({ slots, onSelect, selectedSlot }: Availabili
 
   return (
     <div>
+      {/* Duration selector */}
+      {durationOptions.length > 1 && (
+        <div className="mb-2">
+          <label className="form-label">Duration</label>
+          <select
+            className="form-input"
+            style={{ width: 'auto' }}
+            value={durationMinutes}
+            onChange={(e) => onDurationChange(parseInt(e.target.value))}
+          >
+            {durationOptions.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {formatDuration(minutes)}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Date selector */}
       <div className="mb-2">
         <label className="form-label">Select Date</label>
@@ -82,6 +146,11 @@ export function AvailabilityPicker({ slots, onSelect, selectedSlot }: Availabili
       {/* Time slots */}
       <div className="mb-2">
         <label className="form-label">Select Time</label>
+        {currentDateSlots.length === 0 && (
+          <p className="text-small text-muted">
+            No start times on this date fit a {formatDuration(durationMinutes)} booking.
+          </p>
+        )}
         <div className="availability-grid">
           {currentDateSlots.map((slot) => (
             <button
@@ -99,7 +168,7 @@ export function AvailabilityPicker({ slots, onSelect, selectedSlot }: Availabili
       {selectedSlot && (
         <div className="alert alert-info">
           Selected: {formatDate(new Date(selectedSlot).toISOString().split('T')[0])} at{' '}
-          {formatTime(selectedSlot)}
+          {formatTime(selectedSlot)} for {formatDuration(durationMinutes)}
         </div>
       )}
     </div>
@@ -2,7 +2,10 @@ import { Link } from '@tanstack/react-router'
 import { useState, useEffect } from 'react'
 import type { AuthUser } from '~/server/auth/types'
 import { Header } from './Header'
+import { useLiveEvents } from '~/lib/live-events'
 import { getPendingCheckoutCount } from '~/server/api/admin'
+import { getCheckoutExpiryWarnings } from '~/server/api/machines'
+import { getEmailVerificationStatus, resendVerificationEmail } from '~/server/api/auth'
 
 interface DashboardProps {
   user: AuthUser
@@ -10,6 +13,17 @@ interface DashboardProps {
 
 export function Dashboard({ user }: DashboardProps) {
   const [pendingCount, setPendingCount] = useState(0)
+  const [expiryWarnings, setExpiryWarnings] = useState<
+    Array<{
+      machineId: string | null
+      categoryId: string | null
+      machineName: string
+      expiresAt: Date
+      expired: boolean
+    }>
+  >([])
+  const [emailVerified, setEmailVerified] = useState(true)
+  const [verificationSent, setVerificationSent] = useState(false)
 
   useEffect(() => {
     if (user.role === 'manager' || user.role === 'admin') {
@@ -17,6 +31,42 @@ export function Dashboard({ user }: DashboardProps) {
     }
   }, [user.role])
 
+  const loadExpiryWarnings = () => {
+    getCheckoutExpiryWarnings().then((r) => setExpiryWarnings(r.warnings))
+  }
+
+  useEffect(() => {
+    loadExpiryWarnings()
+    getEmailVerificationStatus().then((r) => setEmailVerified(r.verified))
+  }, [user.id])
+
+  // Approved, renewed or revoked checkouts change the expiry warnings
+  useLiveEvents({
+    checkout: () => loadExpiryWarnings(),
+    resync: () => loadExpiryWarnings(),
+  })
+
+  const handleResendVerification = async () => {
+    try {
+      const result = await resendVerificationEmail()
+      if (result.success) {
+        setVerificationSent(true)
+      } else {
+        alert(result.error || 'Failed to send email')
+      }
+    } catch (error) {
+      alert('Failed to send email')
+    }
+  }
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    })
+  }
+
   return (
     <div>
       <Header user={user} />
@@ -25,6 +75,37 @@ export function Dashboard({ user }: DashboardProps) {
         <div className="container">
           <h1 className="mb-3">Welcome, {user.name || user.email}</h1>
 
+          {!emailVerified && (
+            <div className="alert alert-warning mb-2">
+              Please verify your email address before reserving machines. We sent a
+              link to {user.email}.{' '}
+              {verificationSent ? (
+                'A new link is on its way.'
+              ) : (
+                <button className="btn btn-secondary" onClick={handleResendVerification}>
+                  Resend Email
+                </button>
+              )}
+            </div>
+          )}
+
+          {expiryWarnings.map((warning) => (
+            <div
+              key={warning.machineId ?? warning.categoryId}
+              className={`alert ${warning.expired ? 'alert-danger' : 'alert-warning'} mb-2`}
+            >
+              Your checkout for{' '}
+              {warning.machineId ? (
+                <Link to="/machines/$machineId" params={{ machineId: warning.machineId }}>
+                  {warning.machineName}
+                </Link>
+              ) : (
+                <>all {warning.machineName} machines</>
+              )}{' '}
+              {warning.expired ? 'expired' : 'expires'} on {formatDate(warning.expiresAt)}.
+            </div>
+          ))}
+
           <div className="grid grid-3">
             <Link to="/training" className="card" style={{ textDecoration: 'none', color: 'inherit' }}>
               <div className="card-header">
@@ -75,6 +156,26 @@ export function Dashboard({ user }: DashboardProps) {
                   </p>
                 </Link>
 
+                <Link to="/admin/usage" className="card" style={{ textDecoration: 'none', color: 'inherit' }}>
+                  <div className="card-header">
+                    <h3 className="card-title">Machine Usage</h3>
+                    <span className="badge badge-info">Manager</span>
+                  </div>
+                  <p className="text-muted text-small">
+                    Check members in and out and see who used each machine.
+                  </p>
+                </Link>
+
+                <Link to="/admin/issues" className="card" style={{ textDecoration: 'none', color: 'inherit' }}>
+                  <div className="card-header">
+                    <h3 className="card-title">Machine Issues</h3>
+                    <span className="badge badge-info">Manager</span>
+                  </div>
+                  <p className="text-muted text-small">
+                    Triage problems members report with the machines.
+                  </p>
+                </Link>
+
                 {user.role === 'admin' && (
                   <>
                     <Link to="/admin/machines" className="card" style={{ textDecoration: 'none', color: 'inherit' }}>
@@ -106,6 +207,36 @@ export function Dashboard({ user }: DashboardProps) {
                         Manage user accounts and roles.
                       </p>
                     </Link>
+
+                    <Link to="/admin/audit" className="card" style={{ textDecoration: 'none', color: 'inherit' }}>
+                      <div className="card-header">
+                        <h3 className="card-title">Audit Log</h3>
+                        <span className="badge badge-warning">Admin</span>
+                      </div>
+                      <p className="text-muted text-small">
+                        Review who changed checkouts, machines, training and users.
+                      </p>
+                    </Link>
+
+                    <Link to="/admin/webhooks" className="card" style={{ textDecoration: 'none', color: 'inherit' }}>
+                      <div className="card-header">
+                        <h3 className="card-title">Webhooks</h3>
+                        <span className="badge badge-warning">Admin</span>
+                      </div>
+                      <p className="text-muted text-small">
+                        Inspect Cal.com deliveries and reprocess failed ones.
+                      </p>
+                    </Link>
+
+                    <Link to="/admin/reconciliation" className="card" style={{ textDecoration: 'none', color: 'inherit' }}>
+                      <div className="card-header">
+                        <h3 className="card-title">Reconciliation</h3>
+                        <span className="badge badge-warning">Admin</span>
+                      </div>
+                      <p className="text-muted text-small">
+                        See where reservations and Cal.com bookings disagree.
+                      </p>
+                    </Link>
                   </>
                 )}
               </div>
@@ -1,6 +1,8 @@
 import { Link, useNavigate } from '@tanstack/react-router'
 import { useState, useEffect } from 'react'
 import type { AuthUser } from '~/server/auth/types'
+import type { IssueEvent } from '~/server/services/events'
+import { useLiveEvents } from '~/lib/live-events'
 import { logout } from '~/server/api/auth'
 import { getPendingCheckoutCount } from '~/server/api/admin'
 
@@ -11,6 +13,7 @@ interface HeaderProps {
 export function Header({ user }: HeaderProps) {
   const navigate = useNavigate()
   const [pendingCount, setPendingCount] = useState(0)
+  const [criticalIssues, setCriticalIssues] = useState<IssueEvent[]>([])
 
   useEffect(() => {
     if (user.role === 'manager' || user.role === 'admin') {
@@ -18,6 +21,18 @@ export function Header({ user }: HeaderProps) {
     }
   }, [user.role])
 
+  // Critical issue reports are pushed to managers as they come in
+  useLiveEvents(
+    {
+      issue: (issue) => {
+        if (issue.severity === 'critical') {
+          setCriticalIssues((prev) => [...prev, issue])
+        }
+      },
+    },
+    user.role === 'manager' || user.role === 'admin'
+  )
+
   const handleLogout = async () => {
     await logout()
     navigate({ to: '/' })
@@ -35,6 +50,10 @@ export function Header({ user }: HeaderProps) {
           <Link to="/machines">Machines</Link>
           <Link to="/reservations">Reservations</Link>
 
+          {(user.role === 'manager' || user.role === 'admin') && (
+            <Link to="/admin/issues">Issues</Link>
+          )}
+
           {(user.role === 'manager' || user.role === 'admin') && (
             <Link to="/admin/checkouts" style={{ position: 'relative' }}>
               Checkouts
@@ -52,6 +71,28 @@ export function Header({ user }: HeaderProps) {
           </button>
         </nav>
       </div>
+
+      {criticalIssues.length > 0 && (
+        <div className="container">
+          {criticalIssues.map((issue) => (
+            <div key={issue.issueId} className="alert alert-danger mt-1 flex flex-between flex-center">
+              <span>
+                <strong>Critical issue on {issue.machineName}:</strong> {issue.description}
+                {issue.outOfService && ' The machine has been taken out of service.'}{' '}
+                <Link to="/admin/issues">Open the queue</Link>
+              </span>
+              <button
+                className="btn btn-secondary"
+                onClick={() =>
+                  setCriticalIssues((prev) => prev.filter((i) => i.issueId !== issue.issueId))
+                }
+              >
+                Dismiss
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
     </header>
   )
 }
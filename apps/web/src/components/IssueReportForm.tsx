@@ -0,0 +1,98 @@
+import { useState } from 'react'
+import { useRouter } from '@tanstack/react-router'
+import { reportMachineIssue } from '~/server/api/issues'
+
+interface IssueReportFormProps {
+  machineId: string
+}
+
+export function IssueReportForm({ machineId }: IssueReportFormProps) {
+  const router = useRouter()
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [reported, setReported] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    const formData = new FormData(e.currentTarget)
+    formData.set('machineId', machineId)
+
+    try {
+      const result = await reportMachineIssue({ data: formData })
+
+      if (result.success) {
+        setReported(true)
+        // A critical report may have taken the machine out of service
+        router.invalidate()
+      } else {
+        setError(result.error || 'Failed to report the issue')
+      }
+    } catch (err) {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (reported) {
+    return (
+      <div className="alert alert-success">
+        Thanks, the issue has been reported to the managers.{' '}
+        <button type="button" className="btn btn-secondary" onClick={() => setReported(false)}>
+          Report Another
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      {error && <div className="alert alert-danger mb-2">{error}</div>}
+
+      <div className="form-group">
+        <label className="form-label">Severity</label>
+        <select name="severity" className="form-input" defaultValue="medium">
+          <option value="low">Low – cosmetic or minor</option>
+          <option value="medium">Medium – works, but needs attention</option>
+          <option value="high">High – unreliable or hard to use</option>
+          <option value="critical">Critical – unsafe or unusable</option>
+        </select>
+      </div>
+
+      <div className="form-group">
+        <label className="form-label">Description</label>
+        <textarea
+          name="description"
+          className="form-input"
+          rows={3}
+          minLength={10}
+          maxLength={2000}
+          placeholder="What's wrong, and what were you doing when you noticed it?"
+          required
+        />
+      </div>
+
+      <div className="form-group">
+        <label className="form-label">Photo (optional)</label>
+        <input
+          type="file"
+          name="photo"
+          className="form-input"
+          accept="image/jpeg,image/png,image/webp"
+        />
+        <p className="text-small text-muted mt-1">JPEG, PNG or WebP, up to 5 MB.</p>
+      </div>
+
+      <p className="text-small text-muted mb-2">
+        Critical issues alert the managers right away and may take the machine out of service.
+      </p>
+
+      <button type="submit" className="btn btn-danger" disabled={loading}>
+        {loading ? 'Sending...' : 'Report Issue'}
+      </button>
+    </form>
+  )
+}
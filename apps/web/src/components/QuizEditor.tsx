@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react'
+import { getModuleQuiz, setModuleQuiz } from '~/server/api/admin'
+
+interface QuizEditorProps {
+  moduleId: string
+  onSaved: (questionCount: number, passPercent: number) => void
+  onClose: () => void
+}
+
+interface DraftQuestion {
+  prompt: string
+  options: string[]
+  correctOption: number
+}
+
+const emptyQuestion = (): DraftQuestion => ({
+  prompt: '',
+  options: ['', ''],
+  correctOption: 0,
+})
+
+export function QuizEditor({ moduleId, onSaved, onClose }: QuizEditorProps) {
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [passPercent, setPassPercent] = useState('80')
+  const [cooldownMinutes, setCooldownMinutes] = useState('60')
+  const [questions, setQuestions] = useState<DraftQuestion[]>([])
+
+  useEffect(() => {
+    getModuleQuiz({ data: { moduleId } })
+      .then((quiz) => {
+        setPassPercent(quiz.passPercent.toString())
+        setCooldownMinutes(quiz.cooldownMinutes.toString())
+        setQuestions(
+          quiz.questions.map((q) => ({
+            prompt: q.prompt,
+            options: q.options,
+            correctOption: q.correctOption,
+          }))
+        )
+      })
+      .catch(() => setError('Failed to load quiz'))
+      .finally(() => setLoading(false))
+  }, [moduleId])
+
+  const updateQuestion = (index: number, changes: Partial<DraftQuestion>) => {
+    setQuestions((prev) => prev.map((q, i) => (i === index ? { ...q, ...changes } : q)))
+  }
+
+  const updateOption = (index: number, optionIndex: number, value: string) => {
+    const question = questions[index]
+    updateQuestion(index, {
+      options: question.options.map((o, i) => (i === optionIndex ? value : o)),
+    })
+  }
+
+  const removeOption = (index: number, optionIndex: number) => {
+    const question = questions[index]
+    const correctOption =
+      question.correctOption === optionIndex
+        ? 0
+        : question.correctOption > optionIndex
+          ? question.correctOption - 1
+          : question.correctOption
+
+    updateQuestion(index, {
+      options: question.options.filter((_, i) => i !== optionIndex),
+      correctOption,
+    })
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSaving(true)
+
+    try {
+      const result = await setModuleQuiz({
+        data: {
+          moduleId,
+          passPercent: parseInt(passPercent),
+          cooldownMinutes: parseInt(cooldownMinutes),
+          questions: questions.map((q) => ({
+            prompt: q.prompt.trim(),
+            options: q.options.map((o) => o.trim()),
+            correctOption: q.correctOption,
+          })),
+        },
+      })
+
+      if (!result.success) {
+        setError(result.error || 'Failed to save quiz')
+        return
+      }
+
+      onSaved(questions.length, parseInt(passPercent))
+    } catch (err) {
+      setError('Failed to save quiz. Check that every question and option is filled in.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading) {
+    return <p className="text-small text-muted">Loading quiz...</p>
+  }
+
+  return (
+    <form onSubmit={handleSave}>
+      {error && <div className="alert alert-danger">{error}</div>}
+
+      <p className="text-small text-muted mb-2">
+        Members take the quiz after watching the video. A module with questions
+        only counts as complete once the quiz is passed. Leave it empty for no quiz.
+      </p>
+
+      <div className="grid grid-2">
+        <div className="form-group">
+          <label className="form-label">Pass Mark (%)</label>
+          <input
+            type="number"
+            className="form-input"
+            min="1"
+            max="100"
+            value={passPercent}
+            onChange={(e) => setPassPercent(e.target.value)}
+            required
+          />
+        </div>
+        <div className="form-group">
+          <label className="form-label">Retry Cooldown (minutes)</label>
+          <input
+            type="number"
+            className="form-input"
+            min="0"
+            value={cooldownMinutes}
+            onChange={(e) => setCooldownMinutes(e.target.value)}
+            required
+          />
+        </div>
+      </div>
+
+      {questions.map((question, index) => (
+        <div key={index} className="card mb-2">
+          <div className="flex flex-between flex-center mb-1">
+            <h4 className="card-title">Question {index + 1}</h4>
+            <button
+              type="button"
+              className="btn btn-danger"
+              onClick={() => setQuestions((prev) => prev.filter((_, i) => i !== index))}
+            >
+              Remove
+            </button>
+          </div>
+
+          <div className="form-group">
+            <input
+              type="text"
+              className="form-input"
+              value={question.prompt}
+              onChange={(e) => updateQuestion(index, { prompt: e.target.value })}
+              placeholder="Question"
+              required
+            />
+          </div>
+
+          {question.options.map((option, optionIndex) => (
+            <div key={optionIndex} className="flex gap-1 flex-center mb-1">
+              <input
+                type="radio"
+                name={`correct-${index}`}
+                checked={question.correctOption === optionIndex}
+                onChange={() => updateQuestion(index, { correctOption: optionIndex })}
+                title="Correct answer"
+              />
+              <input
+                type="text"
+                className="form-input"
+                value={option}
+                onChange={(e) => updateOption(index, optionIndex, e.target.value)}
+                placeholder={`Option ${optionIndex + 1}`}
+                required
+              />
+              {question.options.length > 2 && (
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={() => removeOption(index, optionIndex)}
+                >
+                  &times;
+                </button>
+              )}
+            </div>
+          ))}
+
+          {question.options.length < 6 && (
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={() => updateQuestion(index, { options: [...question.options, ''] })}
+            >
+              Add Option
+            </button>
+          )}
+          <p className="text-small text-muted mt-1">Select the correct answer.</p>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          className="btn btn-secondary"
+          onClick={() => setQuestions((prev) => [...prev, emptyQuestion()])}
+        >
+          Add Question
+        </button>
+        <button type="submit" className="btn btn-success" disabled={saving}>
+          {saving ? 'Saving...' : 'Save Quiz'}
+        </button>
+        <button type="button" className="btn btn-secondary" onClick={onClose}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,230 @@
+import type { RequirementRule, UserRole } from '~/lib/db'
+
+type RuleGroup = Extract<RequirementRule, { type: 'all' | 'any' }>
+type RuleClause = Exclude<RequirementRule, RuleGroup>
+
+function isGroup(rule: RequirementRule): rule is RuleGroup {
+  return rule.type === 'all' || rule.type === 'any'
+}
+
+interface RequirementRuleEditorProps {
+  rule: RuleGroup
+  onChange: (rule: RuleGroup) => void
+  modules: Array<{ id: string; title: string }>
+  // Other machines a checkout can be required on
+  machines: Array<{ id: string; name: string }>
+  depth?: number
+  onRemove?: () => void
+}
+
+// Mirrors MAX_RULE_DEPTH in the requirement rules service
+const MAX_DEPTH = 3
+
+const EXEMPTABLE_ROLES: Array<{ role: UserRole; label: string }> = [
+  { role: 'manager', label: 'Managers' },
+  { role: 'admin', label: 'Admins' },
+]
+
+function ExemptRoles({
+  roles,
+  onChange,
+}: {
+  roles: UserRole[] | undefined
+  onChange: (roles: UserRole[]) => void
+}) {
+  return (
+    <span className="text-small text-muted">
+      Exempt:{' '}
+      {EXEMPTABLE_ROLES.map(({ role, label }) => (
+        <label key={role} style={{ marginRight: '0.5rem' }}>
+          <input
+            type="checkbox"
+            checked={!!roles?.includes(role)}
+            onChange={(e) =>
+              onChange(
+                e.target.checked
+                  ? [...(roles ?? []), role]
+                  : (roles ?? []).filter((r) => r !== role)
+              )
+            }
+          />{' '}
+          {label}
+        </label>
+      ))}
+    </span>
+  )
+}
+
+function ClauseEditor({
+  clause,
+  onChange,
+  onRemove,
+  modules,
+  machines,
+}: {
+  clause: RuleClause
+  onChange: (clause: RuleClause) => void
+  onRemove: () => void
+  modules: RequirementRuleEditorProps['modules']
+  machines: RequirementRuleEditorProps['machines']
+}) {
+  return (
+    <div className="flex gap-1 flex-center mb-1">
+      {clause.type === 'module' ? (
+        <>
+          <select
+            className="form-input"
+            style={{ width: 'auto' }}
+            value={clause.moduleId}
+            onChange={(e) => onChange({ ...clause, moduleId: e.target.value })}
+          >
+            {modules.map((module) => (
+              <option key={module.id} value={module.id}>
+                {module.title}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            className="form-input"
+            style={{ width: '80px' }}
+            min="1"
+            max="100"
+            value={clause.requiredWatchPercent}
+            onChange={(e) =>
+              onChange({ ...clause, requiredWatchPercent: parseInt(e.target.value) || 90 })
+            }
+          />
+          <span className="text-small text-muted">%</span>
+        </>
+      ) : (
+        <>
+          <span className="text-small">Checkout on</span>
+          <select
+            className="form-input"
+            style={{ width: 'auto' }}
+            value={clause.machineId}
+            onChange={(e) => onChange({ ...clause, machineId: e.target.value })}
+          >
+            {machines.map((machine) => (
+              <option key={machine.id} value={machine.id}>
+                {machine.name}
+              </option>
+            ))}
+          </select>
+        </>
+      )}
+      <ExemptRoles
+        roles={clause.exemptRoles}
+        onChange={(exemptRoles) => onChange({ ...clause, exemptRoles })}
+      />
+      <button type="button" className="btn btn-secondary" onClick={onRemove}>
+        Remove
+      </button>
+    </div>
+  )
+}
+
+export function RequirementRuleEditor({
+  rule,
+  onChange,
+  modules,
+  machines,
+  depth = 1,
+  onRemove,
+}: RequirementRuleEditorProps) {
+  const updateChild = (index: number, child: RequirementRule) => {
+    onChange({ ...rule, rules: rule.rules.map((r, i) => (i === index ? child : r)) })
+  }
+
+  const removeChild = (index: number) => {
+    onChange({ ...rule, rules: rule.rules.filter((_, i) => i !== index) })
+  }
+
+  const addChild = (child: RequirementRule) => {
+    onChange({ ...rule, rules: [...rule.rules, child] })
+  }
+
+  return (
+    <div
+      className="mb-2"
+      style={depth > 1 ? { borderLeft: '3px solid #e0e0e0', paddingLeft: '1rem' } : undefined}
+    >
+      <div className="flex gap-1 flex-center mb-1">
+        <select
+          className="form-input"
+          style={{ width: 'auto' }}
+          value={rule.type}
+          onChange={(e) => onChange({ ...rule, type: e.target.value as RuleGroup['type'] })}
+        >
+          <option value="all">All of</option>
+          <option value="any">Any one of</option>
+        </select>
+        {onRemove && (
+          <button type="button" className="btn btn-secondary" onClick={onRemove}>
+            Remove Group
+          </button>
+        )}
+      </div>
+
+      {rule.rules.length === 0 && (
+        <p className="text-small text-muted mb-1">
+          {rule.type === 'all' ? 'No requirements.' : 'Add at least one option.'}
+        </p>
+      )}
+
+      {rule.rules.map((child, index) =>
+        isGroup(child) ? (
+          <RequirementRuleEditor
+            key={index}
+            rule={child}
+            onChange={(updated) => updateChild(index, updated)}
+            modules={modules}
+            machines={machines}
+            depth={depth + 1}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <ClauseEditor
+            key={index}
+            clause={child}
+            onChange={(updated) => updateChild(index, updated)}
+            onRemove={() => removeChild(index)}
+            modules={modules}
+            machines={machines}
+          />
+        )
+      )}
+
+      <div className="flex gap-1">
+        <button
+          type="button"
+          className="btn btn-secondary"
+          disabled={modules.length === 0}
+          onClick={() =>
+            addChild({ type: 'module', moduleId: modules[0].id, requiredWatchPercent: 90 })
+          }
+        >
+          + Training Module
+        </button>
+        <button
+          type="button"
+          className="btn btn-secondary"
+          disabled={machines.length === 0}
+          onClick={() => addChild({ type: 'checkout', machineId: machines[0].id })}
+        >
+          + Checkout on Machine
+        </button>
+        {depth < MAX_DEPTH && (
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={() => addChild({ type: rule.type === 'all' ? 'any' : 'all', rules: [] })}
+          >
+            + Group
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import { joinMachineWaitlist } from '~/server/api/waitlist'
+
+interface WaitlistFormProps {
+  machineId: string
+  slotMinutes: number
+  minMinutes: number
+  maxMinutes: number
+}
+
+export function WaitlistForm({
+  machineId,
+  slotMinutes,
+  minMinutes,
+  maxMinutes,
+}: WaitlistFormProps) {
+  const [date, setDate] = useState(() => new Date().toISOString().split('T')[0])
+  const [from, setFrom] = useState('09:00')
+  const [to, setTo] = useState('17:00')
+  const [durationMinutes, setDurationMinutes] = useState(minMinutes)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [joined, setJoined] = useState(false)
+
+  const durationOptions: number[] = []
+  for (let minutes = minMinutes; minutes <= maxMinutes; minutes += slotMinutes) {
+    durationOptions.push(minutes)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    try {
+      // Times are entered in the member's local time zone
+      const result = await joinMachineWaitlist({
+        data: {
+          machineId,
+          windowStart: new Date(`${date}T${from}`).toISOString(),
+          windowEnd: new Date(`${date}T${to}`).toISOString(),
+          durationMinutes,
+        },
+      })
+
+      if (result.success) {
+        setJoined(true)
+      } else {
+        setError(result.error || 'Failed to join the waitlist')
+      }
+    } catch (err) {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (joined) {
+    return (
+      <div className="alert alert-success">
+        You're on the waitlist. If the machine frees up in that window, we'll hold
+        the time for you and let you know; confirm it from My Reservations.
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      {error && <div className="alert alert-danger mb-2">{error}</div>}
+
+      <div className="grid grid-3">
+        <div className="form-group">
+          <label className="form-label">Date</label>
+          <input
+            type="date"
+            className="form-input"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            required
+          />
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">Between</label>
+          <input
+            type="time"
+            className="form-input"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            required
+          />
+        </div>
+
+        <div className="form-group">
+          <label className="form-label">And</label>
+          <input
+            type="time"
+            className="form-input"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            required
+          />
+        </div>
+      </div>
+
+      {durationOptions.length > 1 && (
+        <div className="form-group">
+          <label className="form-label">Duration (minutes)</label>
+          <select
+            className="form-input"
+            style={{ width: 'auto' }}
+            value={durationMinutes}
+            onChange={(e) => setDurationMinutes(parseInt(e.target.value))}
+          >
+            {durationOptions.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <button type="submit" className="btn btn-secondary" disabled={loading}>
+        {loading ? 'Joining...' : 'Join Waitlist'}
+      </button>
+    </form>
+  )
+}
@@ -0,0 +1,47 @@
+import type { WatchedInterval } from '~/lib/db'
+import { missingIntervals } from '~/lib/watch-intervals'
+import { formatDuration } from '~/lib/youtube'
+
+interface WatchCoverageProps {
+  intervals: WatchedInterval[]
+  durationSeconds: number
+  complete: boolean
+}
+
+// How many unwatched stretches to name before summarizing the rest
+const MAX_LISTED_GAPS = 3
+
+export function WatchCoverage({ intervals, durationSeconds, complete }: WatchCoverageProps) {
+  if (durationSeconds <= 0) return null
+
+  const gaps = missingIntervals(intervals, durationSeconds)
+  const toPercent = (seconds: number) => `${(seconds / durationSeconds) * 100}%`
+
+  return (
+    <div>
+      <div className="progress coverage">
+        {intervals.map((interval) => (
+          <div
+            key={interval.start}
+            className={`coverage-segment ${complete ? 'complete' : ''}`}
+            style={{
+              left: toPercent(interval.start),
+              width: toPercent(interval.end - interval.start),
+            }}
+          />
+        ))}
+      </div>
+
+      {gaps.length > 0 && intervals.length > 0 && (
+        <p className="text-small text-muted mt-1">
+          Still to watch:{' '}
+          {gaps
+            .slice(0, MAX_LISTED_GAPS)
+            .map((gap) => `${formatDuration(Math.floor(gap.start))}–${formatDuration(Math.ceil(gap.end))}`)
+            .join(', ')}
+          {gaps.length > MAX_LISTED_GAPS && ` and ${gaps.length - MAX_LISTED_GAPS} more`}
+        </p>
+      )}
+    </div>
+  )
+}
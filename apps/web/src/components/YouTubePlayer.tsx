@@ -1,5 +1,6 @@
 import { useEffect, useRef, useCallback, useState } from 'react'
 import { loadYouTubeIframeAPI } from '~/lib/youtube-iframe'
+import type { WatchedInterval } from '~/lib/db'
 
 declare global {
   interface Window {
@@ -18,19 +19,27 @@ const PAUSED = 2
 
 interface YouTubePlayerProps {
   videoId: string
-  onProgress: (watchedSeconds: number, currentPosition: number, sessionDuration: number, videoDuration: number) => void
+  // Receives the stretches played since the previous report
+  onProgress: (intervals: WatchedInterval[], currentPosition: number, sessionDuration: number, videoDuration: number) => void
   initialPosition?: number
-  initialWatchedSeconds?: number
 }
 
-export function YouTubePlayer({ videoId, onProgress, initialPosition = 0, initialWatchedSeconds = 0 }: YouTubePlayerProps) {
+// Tenths of a second are plenty, and keep reports small
+function roundInterval(interval: WatchedInterval): WatchedInterval {
+  return {
+    start: Math.round(interval.start * 10) / 10,
+    end: Math.round(interval.end * 10) / 10,
+  }
+}
+
+export function YouTubePlayer({ videoId, onProgress, initialPosition = 0 }: YouTubePlayerProps) {
   const containerRef = useRef<HTMLDivElement>(null)
   const playerRef = useRef<YT.Player | null>(null)
   const [isReady, setIsReady] = useState(false)
   const [speedWarning, setSpeedWarning] = useState(false)
 
   // Progress tracking refs
-  const watchedSecondsRef = useRef(initialWatchedSeconds)
+  const watchedIntervalsRef = useRef<WatchedInterval[]>([]) // played since the last report
   const lastPositionRef = useRef(initialPosition)
   const lastTickWallRef = useRef(0) // wall-clock ms of last tick; 0 = not actively tracking
   const lastReportWallRef = useRef(Date.now())
@@ -55,10 +64,13 @@ export function YouTubePlayer({ videoId, onProgress, initialPosition = 0, initia
     // Only credit forward, continuous playback (rejects seeks and backwards jumps)
     if (videoDelta > 0 && videoDelta <= expectedDelta + 2) {
       const duration = player.getDuration() || 0
-      watchedSecondsRef.current = Math.min(
-        watchedSecondsRef.current + videoDelta,
-        duration > 0 ? duration : watchedSecondsRef.current + videoDelta
-      )
+      const end = duration > 0 ? Math.min(currentTime, duration) : currentTime
+      const last = watchedIntervalsRef.current.at(-1)
+      if (last && last.end === lastPositionRef.current) {
+        last.end = end
+      } else {
+        watchedIntervalsRef.current.push({ start: lastPositionRef.current, end })
+      }
     }
 
     lastPositionRef.current = currentTime
@@ -73,8 +85,11 @@ export function YouTubePlayer({ videoId, onProgress, initialPosition = 0, initia
 
     const videoDuration = Math.floor(playerRef.current?.getDuration() || 0)
 
+    const intervals = watchedIntervalsRef.current.map(roundInterval)
+    watchedIntervalsRef.current = []
+
     onProgressRef.current(
-      Math.floor(watchedSecondsRef.current),
+      intervals,
       Math.floor(lastPositionRef.current),
       sessionDuration,
       videoDuration
@@ -8,8 +8,8 @@ if (!connectionString) {
   throw new Error('DATABASE_URL environment variable is required')
 }
 
-// Create postgres connection
-const client = postgres(connectionString, {
+// Create postgres connection; exported for what drizzle doesn't cover (LISTEN/NOTIFY)
+export const client = postgres(connectionString, {
   max: 10,
   idle_timeout: 20,
   connect_timeout: 10,
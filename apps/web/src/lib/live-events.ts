@@ -0,0 +1,91 @@
+import { useEffect, useRef } from 'react'
+import type {
+  BookingEvent,
+  CheckoutEvent,
+  EligibilityEvent,
+  IssueEvent,
+  WaitlistEvent,
+} from '~/server/services/events'
+
+// Events pushed over /api/sse/bookings, by name
+export interface LiveEventMap {
+  booking: BookingEvent
+  checkout: CheckoutEvent
+  waitlist: WaitlistEvent
+  issue: IssueEvent
+  eligibility: EligibilityEvent
+  machine_availability: { machineId: string }
+  // Sent after a reconnect when missed events can't all be replayed; reload instead
+  resync: Record<string, never>
+}
+
+export type LiveEventHandlers = {
+  [K in keyof LiveEventMap]?: (data: LiveEventMap[K]) => void
+}
+
+type Listener = (event: string, data: unknown) => void
+
+// One connection per tab, shared by every component using the hook. The
+// browser reconnects on its own and sends Last-Event-ID so missed events replay.
+let source: EventSource | null = null
+const listeners = new Set<Listener>()
+
+// Replays after a reconnect overlap what was already received, so recently
+// handled event ids are remembered and skipped
+const MAX_HANDLED_IDS = 500
+const handledIds = new Set<number>()
+
+function alreadyHandled(id: unknown): boolean {
+  if (typeof id !== 'number') return false
+  if (handledIds.has(id)) return true
+
+  handledIds.add(id)
+  if (handledIds.size > MAX_HANDLED_IDS) {
+    handledIds.delete(handledIds.values().next().value!)
+  }
+  return false
+}
+
+function connect(): EventSource {
+  const eventSource = new EventSource('/api/sse/bookings')
+
+  eventSource.onmessage = (message) => {
+    const payload = JSON.parse(message.data)
+    if (typeof payload.event !== 'string' || alreadyHandled(payload.id)) return
+
+    for (const listener of listeners) {
+      listener(payload.event, payload.data)
+    }
+  }
+
+  return eventSource
+}
+
+// Calls the matching handler for each live event while the component is mounted
+export function useLiveEvents(handlers: LiveEventHandlers, enabled = true): void {
+  // Handlers may close over fresh state on every render without reconnecting
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const listener: Listener = (event, data) => {
+      const handler = handlersRef.current[event as keyof LiveEventMap] as
+        | ((data: unknown) => void)
+        | undefined
+      handler?.(data)
+    }
+
+    listeners.add(listener)
+    source ??= connect()
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0) {
+        source?.close()
+        source = null
+      }
+    }
+  }, [enabled])
+}
@@ -0,0 +1,58 @@
+import type { WatchedInterval } from '~/lib/db'
+
+// Gaps this short are rounding between reports, not worth showing as missing.
+// They still aren't counted as watched.
+const SLIVER_SECONDS = 1
+
+// Sorted, with overlapping and touching intervals joined
+export function mergeIntervals(intervals: WatchedInterval[]): WatchedInterval[] {
+  const sorted = intervals
+    .filter((i) => i.end > i.start)
+    .sort((a, b) => a.start - b.start)
+
+  const merged: WatchedInterval[] = []
+  for (const interval of sorted) {
+    const last = merged.at(-1)
+    if (last && interval.start <= last.end) {
+      last.end = Math.max(last.end, interval.end)
+    } else {
+      merged.push({ ...interval })
+    }
+  }
+
+  return merged
+}
+
+// Drops whatever lies past the end of the video
+export function clipIntervals(intervals: WatchedInterval[], duration: number): WatchedInterval[] {
+  return intervals
+    .map((i) => ({ start: Math.max(0, i.start), end: Math.min(i.end, duration) }))
+    .filter((i) => i.end > i.start)
+}
+
+// Seconds of the video covered by merged intervals
+export function coveredSeconds(intervals: WatchedInterval[]): number {
+  return intervals.reduce((total, i) => total + (i.end - i.start), 0)
+}
+
+// The parts of the video merged intervals don't cover, ignoring slivers
+export function missingIntervals(
+  intervals: WatchedInterval[],
+  duration: number
+): WatchedInterval[] {
+  const missing: WatchedInterval[] = []
+  let position = 0
+
+  for (const interval of intervals) {
+    if (interval.start - position > SLIVER_SECONDS) {
+      missing.push({ start: position, end: interval.start })
+    }
+    position = Math.max(position, interval.end)
+  }
+
+  if (duration - position > SLIVER_SECONDS) {
+    missing.push({ start: position, end: duration })
+  }
+
+  return missing
+}
@@ -9,24 +9,48 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as VerifyEmailRouteImport } from './routes/verify-email'
+import { Route as ResetPasswordRouteImport } from './routes/reset-password'
 import { Route as RegisterRouteImport } from './routes/register'
 import { Route as LoginRouteImport } from './routes/login'
+import { Route as ForgotPasswordRouteImport } from './routes/forgot-password'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as TrainingIndexRouteImport } from './routes/training/index'
 import { Route as ReservationsIndexRouteImport } from './routes/reservations/index'
 import { Route as MachinesIndexRouteImport } from './routes/machines/index'
 import { Route as TrainingModuleIdRouteImport } from './routes/training/$moduleId'
 import { Route as MachinesMachineIdRouteImport } from './routes/machines/$machineId'
+import { Route as AdminWebhooksRouteImport } from './routes/admin/webhooks'
 import { Route as AdminUsersRouteImport } from './routes/admin/users'
+import { Route as AdminUsageRouteImport } from './routes/admin/usage'
 import { Route as AdminTrainingRouteImport } from './routes/admin/training'
+import { Route as AdminReconciliationRouteImport } from './routes/admin/reconciliation'
 import { Route as AdminMachinesRouteImport } from './routes/admin/machines'
+import { Route as AdminIssuesRouteImport } from './routes/admin/issues'
 import { Route as AdminCheckoutsRouteImport } from './routes/admin/checkouts'
+import { Route as AdminCategoriesRouteImport } from './routes/admin/categories'
+import { Route as AdminAuditRouteImport } from './routes/admin/audit'
 import { Route as MachinesMachineIdReserveRouteImport } from './routes/machines/$machineId.reserve'
 import { Route as ApiWebhooksCalcomRouteImport } from './routes/api/webhooks.calcom'
 import { Route as ApiSseBookingsRouteImport } from './routes/api/sse.bookings'
+import { Route as ApiAuditExportRouteImport } from './routes/api/audit.export'
 import { Route as AdminMachinesMachineIdRouteImport } from './routes/admin/machines.$machineId'
 import { Route as AdminCheckoutsUserIdRouteImport } from './routes/admin/checkouts.$userId'
+import { Route as AdminCategoriesCategoryIdRouteImport } from './routes/admin/categories.$categoryId'
+import { Route as ApiIssuesIssueIdPhotoRouteImport } from './routes/api/issues.$issueId.photo'
+import { Route as ApiAuthOidcLoginRouteImport } from './routes/api/auth.oidc.login'
+import { Route as ApiAuthOidcCallbackRouteImport } from './routes/api/auth.oidc.callback'
 
+const VerifyEmailRoute = VerifyEmailRouteImport.update({
+  id: '/verify-email',
+  path: '/verify-email',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ResetPasswordRoute = ResetPasswordRouteImport.update({
+  id: '/reset-password',
+  path: '/reset-password',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const RegisterRoute = RegisterRouteImport.update({
   id: '/register',
   path: '/register',
@@ -37,6 +61,11 @@ const LoginRoute = LoginRouteImport.update({
   path: '/login',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ForgotPasswordRoute = ForgotPasswordRouteImport.update({
+  id: '/forgot-password',
+  path: '/forgot-password',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
@@ -67,26 +96,56 @@ const MachinesMachineIdRoute = MachinesMachineIdRouteImport.update({
   path: '/machines/$machineId',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AdminWebhooksRoute = AdminWebhooksRouteImport.update({
+  id: '/admin/webhooks',
+  path: '/admin/webhooks',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AdminUsersRoute = AdminUsersRouteImport.update({
   id: '/admin/users',
   path: '/admin/users',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AdminUsageRoute = AdminUsageRouteImport.update({
+  id: '/admin/usage',
+  path: '/admin/usage',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AdminTrainingRoute = AdminTrainingRouteImport.update({
   id: '/admin/training',
   path: '/admin/training',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AdminReconciliationRoute = AdminReconciliationRouteImport.update({
+  id: '/admin/reconciliation',
+  path: '/admin/reconciliation',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AdminMachinesRoute = AdminMachinesRouteImport.update({
   id: '/admin/machines',
   path: '/admin/machines',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AdminIssuesRoute = AdminIssuesRouteImport.update({
+  id: '/admin/issues',
+  path: '/admin/issues',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AdminCheckoutsRoute = AdminCheckoutsRouteImport.update({
   id: '/admin/checkouts',
   path: '/admin/checkouts',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AdminCategoriesRoute = AdminCategoriesRouteImport.update({
+  id: '/admin/categories',
+  path: '/admin/categories',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const AdminAuditRoute = AdminAuditRouteImport.update({
+  id: '/admin/audit',
+  path: '/admin/audit',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const MachinesMachineIdReserveRoute =
   MachinesMachineIdReserveRouteImport.update({
     id: '/reserve',
@@ -103,6 +162,11 @@ const ApiSseBookingsRoute = ApiSseBookingsRouteImport.update({
   path: '/api/sse/bookings',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiAuditExportRoute = ApiAuditExportRouteImport.update({
+  id: '/api/audit/export',
+  path: '/api/audit/export',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AdminMachinesMachineIdRoute = AdminMachinesMachineIdRouteImport.update({
   id: '/$machineId',
   path: '/$machineId',
@@ -113,144 +177,276 @@ const AdminCheckoutsUserIdRoute = AdminCheckoutsUserIdRouteImport.update({
   path: '/$userId',
   getParentRoute: () => AdminCheckoutsRoute,
 } as any)
+const AdminCategoriesCategoryIdRoute =
+  AdminCategoriesCategoryIdRouteImport.update({
+    id: '/$categoryId',
+    path: '/$categoryId',
+    getParentRoute: () => AdminCategoriesRoute,
+  } as any)
+const ApiIssuesIssueIdPhotoRoute = ApiIssuesIssueIdPhotoRouteImport.update({
+  id: '/api/issues/$issueId/photo',
+  path: '/api/issues/$issueId/photo',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAuthOidcLoginRoute = ApiAuthOidcLoginRouteImport.update({
+  id: '/api/auth/oidc/login',
+  path: '/api/auth/oidc/login',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAuthOidcCallbackRoute = ApiAuthOidcCallbackRouteImport.update({
+  id: '/api/auth/oidc/callback',
+  path: '/api/auth/oidc/callback',
+  getParentRoute: () => rootRouteImport,
+} as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/forgot-password': typeof ForgotPasswordRoute
   '/login': typeof LoginRoute
   '/register': typeof RegisterRoute
+  '/reset-password': typeof ResetPasswordRoute
+  '/verify-email': typeof VerifyEmailRoute
+  '/admin/audit': typeof AdminAuditRoute
+  '/admin/categories': typeof AdminCategoriesRouteWithChildren
   '/admin/checkouts': typeof AdminCheckoutsRouteWithChildren
+  '/admin/issues': typeof AdminIssuesRoute
   '/admin/machines': typeof AdminMachinesRouteWithChildren
+  '/admin/reconciliation': typeof AdminReconciliationRoute
   '/admin/training': typeof AdminTrainingRoute
+  '/admin/usage': typeof AdminUsageRoute
   '/admin/users': typeof AdminUsersRoute
+  '/admin/webhooks': typeof AdminWebhooksRoute
   '/machines/$machineId': typeof MachinesMachineIdRouteWithChildren
   '/training/$moduleId': typeof TrainingModuleIdRoute
   '/machines/': typeof MachinesIndexRoute
   '/reservations/': typeof ReservationsIndexRoute
   '/training/': typeof TrainingIndexRoute
+  '/admin/categories/$categoryId': typeof AdminCategoriesCategoryIdRoute
   '/admin/checkouts/$userId': typeof AdminCheckoutsUserIdRoute
   '/admin/machines/$machineId': typeof AdminMachinesMachineIdRoute
+  '/api/audit/export': typeof ApiAuditExportRoute
   '/api/sse/bookings': typeof ApiSseBookingsRoute
   '/api/webhooks/calcom': typeof ApiWebhooksCalcomRoute
   '/machines/$machineId/reserve': typeof MachinesMachineIdReserveRoute
+  '/api/auth/oidc/callback': typeof ApiAuthOidcCallbackRoute
+  '/api/auth/oidc/login': typeof ApiAuthOidcLoginRoute
+  '/api/issues/$issueId/photo': typeof ApiIssuesIssueIdPhotoRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/forgot-password': typeof ForgotPasswordRoute
   '/login': typeof LoginRoute
   '/register': typeof RegisterRoute
+  '/reset-password': typeof ResetPasswordRoute
+  '/verify-email': typeof VerifyEmailRoute
+  '/admin/audit': typeof AdminAuditRoute
+  '/admin/categories': typeof AdminCategoriesRouteWithChildren
   '/admin/checkouts': typeof AdminCheckoutsRouteWithChildren
+  '/admin/issues': typeof AdminIssuesRoute
   '/admin/machines': typeof AdminMachinesRouteWithChildren
+  '/admin/reconciliation': typeof AdminReconciliationRoute
   '/admin/training': typeof AdminTrainingRoute
+  '/admin/usage': typeof AdminUsageRoute
   '/admin/users': typeof AdminUsersRoute
+  '/admin/webhooks': typeof AdminWebhooksRoute
   '/machines/$machineId': typeof MachinesMachineIdRouteWithChildren
   '/training/$moduleId': typeof TrainingModuleIdRoute
   '/machines': typeof MachinesIndexRoute
   '/reservations': typeof ReservationsIndexRoute
   '/training': typeof TrainingIndexRoute
+  '/admin/categories/$categoryId': typeof AdminCategoriesCategoryIdRoute
   '/admin/checkouts/$userId': typeof AdminCheckoutsUserIdRoute
   '/admin/machines/$machineId': typeof AdminMachinesMachineIdRoute
+  '/api/audit/export': typeof ApiAuditExportRoute
   '/api/sse/bookings': typeof ApiSseBookingsRoute
   '/api/webhooks/calcom': typeof ApiWebhooksCalcomRoute
   '/machines/$machineId/reserve': typeof MachinesMachineIdReserveRoute
+  '/api/auth/oidc/callback': typeof ApiAuthOidcCallbackRoute
+  '/api/auth/oidc/login': typeof ApiAuthOidcLoginRoute
+  '/api/issues/$issueId/photo': typeof ApiIssuesIssueIdPhotoRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/forgot-password': typeof ForgotPasswordRoute
   '/login': typeof LoginRoute
   '/register': typeof RegisterRoute
+  '/reset-password': typeof ResetPasswordRoute
+  '/verify-email': typeof VerifyEmailRoute
+  '/admin/audit': typeof AdminAuditRoute
+  '/admin/categories': typeof AdminCategoriesRouteWithChildren
   '/admin/checkouts': typeof AdminCheckoutsRouteWithChildren
+  '/admin/issues': typeof AdminIssuesRoute
   '/admin/machines': typeof AdminMachinesRouteWithChildren
+  '/admin/reconciliation': typeof AdminReconciliationRoute
   '/admin/training': typeof AdminTrainingRoute
+  '/admin/usage': typeof AdminUsageRoute
   '/admin/users': typeof AdminUsersRoute
+  '/admin/webhooks': typeof AdminWebhooksRoute
   '/machines/$machineId': typeof MachinesMachineIdRouteWithChildren
   '/training/$moduleId': typeof TrainingModuleIdRoute
   '/machines/': typeof MachinesIndexRoute
   '/reservations/': typeof ReservationsIndexRoute
   '/training/': typeof TrainingIndexRoute
+  '/admin/categories/$categoryId': typeof AdminCategoriesCategoryIdRoute
   '/admin/checkouts/$userId': typeof AdminCheckoutsUserIdRoute
   '/admin/machines/$machineId': typeof AdminMachinesMachineIdRoute
+  '/api/audit/export': typeof ApiAuditExportRoute
   '/api/sse/bookings': typeof ApiSseBookingsRoute
   '/api/webhooks/calcom': typeof ApiWebhooksCalcomRoute
   '/machines/$machineId/reserve': typeof MachinesMachineIdReserveRoute
+  '/api/auth/oidc/callback': typeof ApiAuthOidcCallbackRoute
+  '/api/auth/oidc/login': typeof ApiAuthOidcLoginRoute
+  '/api/issues/$issueId/photo': typeof ApiIssuesIssueIdPhotoRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/forgot-password'
     | '/login'
     | '/register'
+    | '/reset-password'
+    | '/verify-email'
+    | '/admin/audit'
+    | '/admin/categories'
     | '/admin/checkouts'
+    | '/admin/issues'
     | '/admin/machines'
+    | '/admin/reconciliation'
     | '/admin/training'
+    | '/admin/usage'
     | '/admin/users'
+    | '/admin/webhooks'
     | '/machines/$machineId'
     | '/training/$moduleId'
     | '/machines/'
     | '/reservations/'
     | '/training/'
+    | '/admin/categories/$categoryId'
     | '/admin/checkouts/$userId'
     | '/admin/machines/$machineId'
+    | '/api/audit/export'
     | '/api/sse/bookings'
     | '/api/webhooks/calcom'
     | '/machines/$machineId/reserve'
+    | '/api/auth/oidc/callback'
+    | '/api/auth/oidc/login'
+    | '/api/issues/$issueId/photo'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/forgot-password'
     | '/login'
     | '/register'
+    | '/reset-password'
+    | '/verify-email'
+    | '/admin/audit'
+    | '/admin/categories'
     | '/admin/checkouts'
+    | '/admin/issues'
     | '/admin/machines'
+    | '/admin/reconciliation'
     | '/admin/training'
+    | '/admin/usage'
     | '/admin/users'
+    | '/admin/webhooks'
     | '/machines/$machineId'
     | '/training/$moduleId'
     | '/machines'
     | '/reservations'
     | '/training'
+    | '/admin/categories/$categoryId'
     | '/admin/checkouts/$userId'
     | '/admin/machines/$machineId'
+    | '/api/audit/export'
     | '/api/sse/bookings'
     | '/api/webhooks/calcom'
     | '/machines/$machineId/reserve'
+    | '/api/auth/oidc/callback'
+    | '/api/auth/oidc/login'
+    | '/api/issues/$issueId/photo'
   id:
     | '__root__'
     | '/'
+    | '/forgot-password'
     | '/login'
     | '/register'
+    | '/reset-password'
+    | '/verify-email'
+    | '/admin/audit'
+    | '/admin/categories'
     | '/admin/checkouts'
+    | '/admin/issues'
     | '/admin/machines'
+    | '/admin/reconciliation'
     | '/admin/training'
+    | '/admin/usage'
     | '/admin/users'
+    | '/admin/webhooks'
     | '/machines/$machineId'
     | '/training/$moduleId'
     | '/machines/'
     | '/reservations/'
     | '/training/'
+    | '/admin/categories/$categoryId'
     | '/admin/checkouts/$userId'
     | '/admin/machines/$machineId'
+    | '/api/audit/export'
     | '/api/sse/bookings'
     | '/api/webhooks/calcom'
     | '/machines/$machineId/reserve'
+    | '/api/auth/oidc/callback'
+    | '/api/auth/oidc/login'
+    | '/api/issues/$issueId/photo'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  ForgotPasswordRoute: typeof ForgotPasswordRoute
   LoginRoute: typeof LoginRoute
   RegisterRoute: typeof RegisterRoute
+  ResetPasswordRoute: typeof ResetPasswordRoute
+  VerifyEmailRoute: typeof VerifyEmailRoute
+  AdminAuditRoute: typeof AdminAuditRoute
+  AdminCategoriesRoute: typeof AdminCategoriesRouteWithChildren
   AdminCheckoutsRoute: typeof AdminCheckoutsRouteWithChildren
+  AdminIssuesRoute: typeof AdminIssuesRoute
   AdminMachinesRoute: typeof AdminMachinesRouteWithChildren
+  AdminReconciliationRoute: typeof AdminReconciliationRoute
   AdminTrainingRoute: typeof AdminTrainingRoute
+  AdminUsageRoute: typeof AdminUsageRoute
   AdminUsersRoute: typeof AdminUsersRoute
+  AdminWebhooksRoute: typeof AdminWebhooksRoute
   MachinesMachineIdRoute: typeof MachinesMachineIdRouteWithChildren
   TrainingModuleIdRoute: typeof TrainingModuleIdRoute
   MachinesIndexRoute: typeof MachinesIndexRoute
   ReservationsIndexRoute: typeof ReservationsIndexRoute
   TrainingIndexRoute: typeof TrainingIndexRoute
+  ApiAuditExportRoute: typeof ApiAuditExportRoute
   ApiSseBookingsRoute: typeof ApiSseBookingsRoute
   ApiWebhooksCalcomRoute: typeof ApiWebhooksCalcomRoute
+  ApiAuthOidcCallbackRoute: typeof ApiAuthOidcCallbackRoute
+  ApiAuthOidcLoginRoute: typeof ApiAuthOidcLoginRoute
+  ApiIssuesIssueIdPhotoRoute: typeof ApiIssuesIssueIdPhotoRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/verify-email': {
+      id: '/verify-email'
+      path: '/verify-email'
+      fullPath: '/verify-email'
+      preLoaderRoute: typeof VerifyEmailRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/reset-password': {
+      id: '/reset-password'
+      path: '/reset-password'
+      fullPath: '/reset-password'
+      preLoaderRoute: typeof ResetPasswordRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/register': {
       id: '/register'
       path: '/register'
@@ -265,6 +461,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof LoginRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/forgot-password': {
+      id: '/forgot-password'
+      path: '/forgot-password'
+      fullPath: '/forgot-password'
+      preLoaderRoute: typeof ForgotPasswordRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -307,6 +510,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof MachinesMachineIdRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/admin/webhooks': {
+      id: '/admin/webhooks'
+      path: '/admin/webhooks'
+      fullPath: '/admin/webhooks'
+      preLoaderRoute: typeof AdminWebhooksRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/admin/users': {
       id: '/admin/users'
       path: '/admin/users'
@@ -314,6 +524,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AdminUsersRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/admin/usage': {
+      id: '/admin/usage'
+      path: '/admin/usage'
+      fullPath: '/admin/usage'
+      preLoaderRoute: typeof AdminUsageRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/admin/training': {
       id: '/admin/training'
       path: '/admin/training'
@@ -321,6 +538,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AdminTrainingRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/admin/reconciliation': {
+      id: '/admin/reconciliation'
+      path: '/admin/reconciliation'
+      fullPath: '/admin/reconciliation'
+      preLoaderRoute: typeof AdminReconciliationRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/admin/machines': {
       id: '/admin/machines'
       path: '/admin/machines'
@@ -328,6 +552,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AdminMachinesRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/admin/issues': {
+      id: '/admin/issues'
+      path: '/admin/issues'
+      fullPath: '/admin/issues'
+      preLoaderRoute: typeof AdminIssuesRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/admin/checkouts': {
       id: '/admin/checkouts'
       path: '/admin/checkouts'
@@ -335,6 +566,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AdminCheckoutsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/admin/categories': {
+      id: '/admin/categories'
+      path: '/admin/categories'
+      fullPath: '/admin/categories'
+      preLoaderRoute: typeof AdminCategoriesRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/admin/audit': {
+      id: '/admin/audit'
+      path: '/admin/audit'
+      fullPath: '/admin/audit'
+      preLoaderRoute: typeof AdminAuditRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/machines/$machineId/reserve': {
       id: '/machines/$machineId/reserve'
       path: '/reserve'
@@ -356,6 +601,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiSseBookingsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/audit/export': {
+      id: '/api/audit/export'
+      path: '/api/audit/export'
+      fullPath: '/api/audit/export'
+      preLoaderRoute: typeof ApiAuditExportRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/admin/machines/$machineId': {
       id: '/admin/machines/$machineId'
       path: '/$machineId'
@@ -370,9 +622,49 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AdminCheckoutsUserIdRouteImport
       parentRoute: typeof AdminCheckoutsRoute
     }
+    '/admin/categories/$categoryId': {
+      id: '/admin/categories/$categoryId'
+      path: '/$categoryId'
+      fullPath: '/admin/categories/$categoryId'
+      preLoaderRoute: typeof AdminCategoriesCategoryIdRouteImport
+      parentRoute: typeof AdminCategoriesRoute
+    }
+    '/api/issues/$issueId/photo': {
+      id: '/api/issues/$issueId/photo'
+      path: '/api/issues/$issueId/photo'
+      fullPath: '/api/issues/$issueId/photo'
+      preLoaderRoute: typeof ApiIssuesIssueIdPhotoRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/auth/oidc/login': {
+      id: '/api/auth/oidc/login'
+      path: '/api/auth/oidc/login'
+      fullPath: '/api/auth/oidc/login'
+      preLoaderRoute: typeof ApiAuthOidcLoginRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/auth/oidc/callback': {
+      id: '/api/auth/oidc/callback'
+      path: '/api/auth/oidc/callback'
+      fullPath: '/api/auth/oidc/callback'
+      preLoaderRoute: typeof ApiAuthOidcCallbackRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
+interface AdminCategoriesRouteChildren {
+  AdminCategoriesCategoryIdRoute: typeof AdminCategoriesCategoryIdRoute
+}
+
+const AdminCategoriesRouteChildren: AdminCategoriesRouteChildren = {
+  AdminCategoriesCategoryIdRoute: AdminCategoriesCategoryIdRoute,
+}
+
+const AdminCategoriesRouteWithChildren = AdminCategoriesRoute._addFileChildren(
+  AdminCategoriesRouteChildren,
+)
+
 interface AdminCheckoutsRouteChildren {
   AdminCheckoutsUserIdRoute: typeof AdminCheckoutsUserIdRoute
 }
@@ -410,19 +702,32 @@ const MachinesMachineIdRouteWithChildren =
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  ForgotPasswordRoute: ForgotPasswordRoute,
   LoginRoute: LoginRoute,
   RegisterRoute: RegisterRoute,
+  ResetPasswordRoute: ResetPasswordRoute,
+  VerifyEmailRoute: VerifyEmailRoute,
+  AdminAuditRoute: AdminAuditRoute,
+  AdminCategoriesRoute: AdminCategoriesRouteWithChildren,
   AdminCheckoutsRoute: AdminCheckoutsRouteWithChildren,
+  AdminIssuesRoute: AdminIssuesRoute,
   AdminMachinesRoute: AdminMachinesRouteWithChildren,
+  AdminReconciliationRoute: AdminReconciliationRoute,
   AdminTrainingRoute: AdminTrainingRoute,
+  AdminUsageRoute: AdminUsageRoute,
   AdminUsersRoute: AdminUsersRoute,
+  AdminWebhooksRoute: AdminWebhooksRoute,
   MachinesMachineIdRoute: MachinesMachineIdRouteWithChildren,
   TrainingModuleIdRoute: TrainingModuleIdRoute,
   MachinesIndexRoute: MachinesIndexRoute,
   ReservationsIndexRoute: ReservationsIndexRoute,
   TrainingIndexRoute: TrainingIndexRoute,
+  ApiAuditExportRoute: ApiAuditExportRoute,
   ApiSseBookingsRoute: ApiSseBookingsRoute,
   ApiWebhooksCalcomRoute: ApiWebhooksCalcomRoute,
+  ApiAuthOidcCallbackRoute: ApiAuthOidcCallbackRoute,
+  ApiAuthOidcLoginRoute: ApiAuthOidcLoginRoute,
+  ApiIssuesIssueIdPhotoRoute: ApiIssuesIssueIdPhotoRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
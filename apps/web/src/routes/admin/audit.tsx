@@ -0,0 +1,246 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { createServerFn } from '@tanstack/react-start'
+import { asc } from 'drizzle-orm'
+import { Fragment, useState } from 'react'
+import { requireAdmin } from '~/server/auth/middleware'
+import { db, auditEvents } from '~/lib/db'
+import type { AuditEntityType, AuditFilter } from '~/server/services/audit'
+import { Header } from '~/components/Header'
+import { getAuditEvents } from '~/server/api/admin'
+
+const ENTITY_TYPES: AuditEntityType[] = [
+  'category',
+  'checkout',
+  'issue',
+  'machine',
+  'module',
+  'reconciliation',
+  'reservation',
+  'user',
+  'webhook',
+]
+
+const getAuditPageData = createServerFn({ method: 'GET' }).handler(async () => {
+  const user = await requireAdmin()
+
+  // Everyone who has ever appeared in the log, including since-deleted accounts
+  const actors = await db
+    .selectDistinct({ id: auditEvents.actorId, email: auditEvents.actorEmail })
+    .from(auditEvents)
+    .orderBy(asc(auditEvents.actorEmail))
+
+  return { user, actors }
+})
+
+export const Route = createFileRoute('/admin/audit')({
+  component: AuditLogPage,
+  loader: async () => {
+    const [pageData, { events }] = await Promise.all([
+      getAuditPageData(),
+      getAuditEvents({ data: {} }),
+    ])
+    return { ...pageData, events }
+  },
+})
+
+function AuditLogPage() {
+  const { user, actors, events: initialEvents } = Route.useLoaderData()
+  const [events, setEvents] = useState(initialEvents)
+  const [filter, setFilter] = useState<AuditFilter>({})
+  const [loading, setLoading] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const updateFilter = (changes: Partial<AuditFilter>) => {
+    setFilter((prev) => ({ ...prev, ...changes }))
+  }
+
+  const handleFilter = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+
+    try {
+      const result = await getAuditEvents({ data: filter })
+      setEvents(result.events)
+    } catch (error) {
+      alert('Failed to load audit events')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const exportParams = new URLSearchParams(
+    Object.entries(filter).filter((entry): entry is [string, string] => !!entry[1])
+  )
+
+  const formatTimestamp = (date: Date) => {
+    return new Date(date).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+  }
+
+  return (
+    <div>
+      <Header user={user} />
+
+      <main className="main">
+        <div className="container">
+          <div className="flex flex-between flex-center mb-3">
+            <h1>Audit Log</h1>
+            <a href={`/api/audit/export?${exportParams}`} className="btn btn-secondary">
+              Export CSV
+            </a>
+          </div>
+
+          <form className="card mb-3" onSubmit={handleFilter}>
+            <div className="grid grid-3">
+              <div className="form-group">
+                <label className="form-label">Actor</label>
+                <select
+                  className="form-input"
+                  value={filter.actorId || ''}
+                  onChange={(e) => updateFilter({ actorId: e.target.value || undefined })}
+                >
+                  <option value="">Anyone</option>
+                  {actors
+                    .filter((actor) => actor.id)
+                    .map((actor) => (
+                      <option key={actor.id} value={actor.id!}>
+                        {actor.email}
+                      </option>
+                    ))}
+                </select>
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">Entity Type</label>
+                <select
+                  className="form-input"
+                  value={filter.entityType || ''}
+                  onChange={(e) =>
+                    updateFilter({
+                      entityType: (e.target.value || undefined) as AuditFilter['entityType'],
+                    })
+                  }
+                >
+                  <option value="">All</option>
+                  {ENTITY_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">Entity ID</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={filter.entityId || ''}
+                  onChange={(e) => updateFilter({ entityId: e.target.value || undefined })}
+                  placeholder="Any"
+                />
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">From</label>
+                <input
+                  type="date"
+                  className="form-input"
+                  value={filter.from || ''}
+                  onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+                />
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">To</label>
+                <input
+                  type="date"
+                  className="form-input"
+                  value={filter.to || ''}
+                  onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+                />
+              </div>
+            </div>
+
+            <button type="submit" className="btn btn-primary" disabled={loading}>
+              {loading ? 'Loading...' : 'Apply Filters'}
+            </button>
+            <p className="text-small text-muted mt-1">
+              Dates are in UTC. The table shows the 200 most recent matching events;
+              the CSV export includes all of them.
+            </p>
+          </form>
+
+          {events.length > 0 ? (
+            <div className="card">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Time</th>
+                    <th>Actor</th>
+                    <th>Action</th>
+                    <th>Entity</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {events.map((event) => (
+                    <Fragment key={event.id}>
+                      <tr>
+                        <td className="text-small">{formatTimestamp(event.createdAt)}</td>
+                        <td className="text-small">{event.actorEmail}</td>
+                        <td>
+                          <span className="badge badge-info">{event.action}</span>
+                        </td>
+                        <td className="text-small">
+                          <div>{event.entityType}</div>
+                          <div className="text-muted">{event.entityId}</div>
+                        </td>
+                        <td>
+                          <button
+                            className="btn btn-secondary"
+                            onClick={() =>
+                              setExpandedId(expandedId === event.id ? null : event.id)
+                            }
+                          >
+                            {expandedId === event.id ? 'Hide' : 'Details'}
+                          </button>
+                        </td>
+                      </tr>
+                      {expandedId === event.id && (
+                        <tr>
+                          <td colSpan={5}>
+                            <div className="grid grid-2">
+                              <div>
+                                <h4 className="text-small mb-1">Before</h4>
+                                <pre className="text-small" style={{ whiteSpace: 'pre-wrap' }}>{event.before ?? '—'}</pre>
+                              </div>
+                              <div>
+                                <h4 className="text-small mb-1">After</h4>
+                                <pre className="text-small" style={{ whiteSpace: 'pre-wrap' }}>{event.after ?? '—'}</pre>
+                              </div>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="card">
+              <p className="text-center text-muted">No audit events match these filters.</p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,247 @@
+import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
+import { createServerFn } from '@tanstack/react-start'
+import { eq, asc, or, inArray } from 'drizzle-orm'
+import { useState } from 'react'
+import { requireAdmin } from '~/server/auth/middleware'
+import { db, machines, machineCategories, trainingModules } from '~/lib/db'
+import { getRuleModules } from '~/server/services/requirement-rules'
+import { Header } from '~/components/Header'
+import { RequirementRuleEditor } from '~/components/RequirementRuleEditor'
+import { updateMachineCategory, setCategoryRequirementRule } from '~/server/api/admin'
+
+const getCategoryEditData = createServerFn({ method: 'GET' })
+  .inputValidator((data: { categoryId: string }) => data)
+  .handler(async ({ data }) => {
+    const user = await requireAdmin()
+
+    const category = await db.query.machineCategories.findFirst({
+      where: eq(machineCategories.id, data.categoryId),
+      with: {
+        machines: {
+          columns: { id: true, name: true, active: true },
+          orderBy: [asc(machines.name)],
+        },
+      },
+    })
+
+    if (!category) {
+      throw new Response('Category not found', { status: 404 })
+    }
+
+    const rule = category.requirementRule ?? { type: 'all' as const, rules: [] }
+    const ruleModuleIds = [...getRuleModules(rule).keys()]
+
+    // Inactive modules still show when the rule mentions them
+    const moduleList = await db.query.trainingModules.findMany({
+      where:
+        ruleModuleIds.length > 0
+          ? or(eq(trainingModules.active, true), inArray(trainingModules.id, ruleModuleIds))
+          : eq(trainingModules.active, true),
+      orderBy: [asc(trainingModules.title)],
+    })
+
+    // A category can't require a checkout on one of its own machines
+    const memberIds = new Set(category.machines.map((m) => m.id))
+    const otherMachines = (
+      await db.query.machines.findMany({
+        columns: { id: true, name: true },
+        orderBy: [asc(machines.name)],
+      })
+    ).filter((m) => !memberIds.has(m.id))
+
+    return {
+      user,
+      category,
+      // The editor edits a top-level group
+      requirementRule:
+        rule.type === 'all' || rule.type === 'any'
+          ? rule
+          : { type: 'all' as const, rules: [rule] },
+      modules: moduleList,
+      otherMachines,
+    }
+  })
+
+export const Route = createFileRoute('/admin/categories/$categoryId')({
+  component: EditCategoryPage,
+  loader: async ({ params }) => {
+    return await getCategoryEditData({ data: { categoryId: params.categoryId } })
+  },
+})
+
+function EditCategoryPage() {
+  const {
+    user,
+    category,
+    requirementRule: initialRule,
+    modules,
+    otherMachines,
+  } = Route.useLoaderData()
+  const navigate = useNavigate()
+
+  const [name, setName] = useState(category.name)
+  const [description, setDescription] = useState(category.description || '')
+  const [validityMonths, setValidityMonths] = useState(
+    category.checkoutValidityMonths?.toString() || ''
+  )
+  const [requirementRule, setRequirementRule] = useState(initialRule)
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const result = await updateMachineCategory({
+        data: {
+          categoryId: category.id,
+          name,
+          description: description || undefined,
+          checkoutValidityMonths: validityMonths ? parseInt(validityMonths) : null,
+        },
+      })
+
+      if (!result.success) {
+        alert(result.error || 'Failed to save changes')
+        return
+      }
+
+      const ruleResult = await setCategoryRequirementRule({
+        data: { categoryId: category.id, rule: requirementRule },
+      })
+
+      if (!ruleResult.success) {
+        alert(ruleResult.error || 'Failed to save requirements')
+        return
+      }
+
+      navigate({ to: '/admin/categories' })
+    } catch (error) {
+      alert('Failed to save changes')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div>
+      <Header user={user} />
+
+      <main className="main">
+        <div className="container">
+          <div className="mb-2">
+            <Link to="/admin/categories" className="text-small">
+              &larr; Back to Categories
+            </Link>
+          </div>
+
+          <h1 className="mb-3">Edit Category</h1>
+
+          <form onSubmit={handleSave}>
+            <div className="card mb-3">
+              <h3 className="card-title mb-2">Category Details</h3>
+
+              <div className="form-group">
+                <label className="form-label">Name</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">Description</label>
+                <input
+                  type="text"
+                  className="form-input"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="card mb-3">
+              <h3 className="card-title mb-2">Machines</h3>
+              <p className="text-small text-muted mb-2">
+                Move a machine in or out of this category from its own edit page.
+                Its checkouts and requirements are kept either way.
+              </p>
+
+              {category.machines.length > 0 ? (
+                <ul className="eligibility-list">
+                  {category.machines.map((machine) => (
+                    <li key={machine.id} className="eligibility-item">
+                      <Link
+                        to="/admin/machines/$machineId"
+                        params={{ machineId: machine.id }}
+                        className="text-small"
+                      >
+                        {machine.name}
+                      </Link>
+                      {!machine.active && (
+                        <span className="badge badge-danger" style={{ marginLeft: '0.5rem' }}>
+                          Inactive
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-small text-muted">No machines in this category.</p>
+              )}
+            </div>
+
+            <div className="card mb-3">
+              <h3 className="card-title mb-2">Category Checkouts</h3>
+              <p className="text-small text-muted mb-2">
+                A manager can check a member out on the whole category instead of
+                one machine at a time. Category checkouts can lapse after a set
+                time, like machine checkouts; each machine's refresher module
+                applies when one is due.
+              </p>
+
+              <div className="form-group">
+                <label className="form-label">Valid For (months)</label>
+                <input
+                  type="number"
+                  className="form-input"
+                  min="1"
+                  value={validityMonths}
+                  onChange={(e) => setValidityMonths(e.target.value)}
+                  placeholder="Leave empty to never expire"
+                />
+              </div>
+            </div>
+
+            <div className="card mb-3">
+              <h3 className="card-title mb-2">Shared Requirements</h3>
+              <p className="text-small text-muted mb-2">
+                Every machine in the category requires these on top of its own
+                requirements.
+              </p>
+
+              <RequirementRuleEditor
+                rule={requirementRule}
+                onChange={setRequirementRule}
+                modules={modules}
+                machines={otherMachines}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <button type="submit" className="btn btn-primary" disabled={saving}>
+                {saving ? 'Saving...' : 'Save Changes'}
+              </button>
+              <Link to="/admin/categories" className="btn btn-secondary">
+                Cancel
+              </Link>
+            </div>
+          </form>
+        </div>
+      </main>
+    </div>
+  )
+}
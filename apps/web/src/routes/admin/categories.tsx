@@ -0,0 +1,187 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { createServerFn } from '@tanstack/react-start'
+import { asc } from 'drizzle-orm'
+import { useState } from 'react'
+import { requireAdmin } from '~/server/auth/middleware'
+import { db, machineCategories } from '~/lib/db'
+import { Header } from '~/components/Header'
+import { createMachineCategory } from '~/server/api/admin'
+
+const getAdminCategoriesData = createServerFn({ method: 'GET' }).handler(async () => {
+  const user = await requireAdmin()
+
+  const categoryList = await db.query.machineCategories.findMany({
+    with: {
+      machines: {
+        columns: { id: true, name: true },
+      },
+    },
+    orderBy: [asc(machineCategories.name)],
+  })
+
+  return { user, categories: categoryList }
+})
+
+export const Route = createFileRoute('/admin/categories')({
+  component: AdminCategoriesPage,
+  loader: async () => {
+    return await getAdminCategoriesData()
+  },
+})
+
+function AdminCategoriesPage() {
+  const { user, categories: initialCategories } = Route.useLoaderData()
+  const [categoryList, setCategoryList] = useState(initialCategories)
+  const [showCreate, setShowCreate] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const [newName, setNewName] = useState('')
+  const [newDescription, setNewDescription] = useState('')
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+
+    try {
+      const result = await createMachineCategory({
+        data: {
+          name: newName,
+          description: newDescription || undefined,
+        },
+      })
+
+      if (result.success && result.category) {
+        setCategoryList((prev) =>
+          [...prev, { ...result.category, machines: [] }].sort((a, b) =>
+            a.name.localeCompare(b.name)
+          )
+        )
+        setNewName('')
+        setNewDescription('')
+        setShowCreate(false)
+      } else {
+        alert(result.error || 'Failed to create category')
+      }
+    } catch (error) {
+      alert('Failed to create category')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div>
+      <Header user={user} />
+
+      <main className="main">
+        <div className="container">
+          <div className="mb-2">
+            <Link to="/admin/machines" className="text-small">
+              &larr; Back to Machines
+            </Link>
+          </div>
+
+          <div className="flex flex-between flex-center mb-3">
+            <h1>Machine Categories</h1>
+            <button
+              className="btn btn-primary"
+              onClick={() => setShowCreate(!showCreate)}
+            >
+              {showCreate ? 'Cancel' : 'Add Category'}
+            </button>
+          </div>
+
+          <p className="text-muted mb-3">
+            Group interchangeable machines, such as several identical 3D printers.
+            Machines in a category need the category's requirements as well as their
+            own, and one checkout on the category covers all of them.
+          </p>
+
+          {showCreate && (
+            <div className="card mb-3">
+              <h3 className="card-title mb-2">New Category</h3>
+              <form onSubmit={handleCreate}>
+                <div className="form-group">
+                  <label className="form-label">Name</label>
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    placeholder="e.g. FDM Printers"
+                    required
+                  />
+                </div>
+                <div className="form-group">
+                  <label className="form-label">Description</label>
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={newDescription}
+                    onChange={(e) => setNewDescription(e.target.value)}
+                  />
+                </div>
+                <button type="submit" className="btn btn-primary" disabled={saving}>
+                  {saving ? 'Creating...' : 'Create Category'}
+                </button>
+              </form>
+            </div>
+          )}
+
+          <div className="grid grid-2">
+            {categoryList.map((category) => (
+              <div key={category.id} className="card">
+                <div className="card-header">
+                  <h3 className="card-title">{category.name}</h3>
+                  {category.requirementRule && (
+                    <span className="badge badge-info">Shared requirements</span>
+                  )}
+                </div>
+
+                {category.description && (
+                  <p className="text-small text-muted mb-2">{category.description}</p>
+                )}
+
+                <div className="text-small mb-2">
+                  <strong>Checkout Validity:</strong>{' '}
+                  {category.checkoutValidityMonths
+                    ? `${category.checkoutValidityMonths} months`
+                    : 'Never expires'}
+                </div>
+
+                <div className="mb-2">
+                  <strong className="text-small">Machines:</strong>
+                  {category.machines.length > 0 ? (
+                    <ul className="eligibility-list">
+                      {category.machines.map((machine) => (
+                        <li key={machine.id} className="eligibility-item">
+                          <span className="text-small">{machine.name}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-small text-muted">No machines yet</p>
+                  )}
+                </div>
+
+                <Link
+                  to="/admin/categories/$categoryId"
+                  params={{ categoryId: category.id }}
+                  className="btn btn-secondary"
+                >
+                  Edit
+                </Link>
+              </div>
+            ))}
+          </div>
+
+          {categoryList.length === 0 && (
+            <div className="card">
+              <p className="text-center text-muted">No categories configured.</p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -1,13 +1,40 @@
 import { createFileRoute, Link } from '@tanstack/react-router'
 import { createServerFn } from '@tanstack/react-start'
-import { eq } from 'drizzle-orm'
+import { eq, asc, desc } from 'drizzle-orm'
 import { useState } from 'react'
 import { requireManager } from '~/server/auth/middleware'
-import { db, users, machines } from '~/lib/db'
-import { checkEligibility } from '~/server/services/eligibility'
+import {
+  db,
+  users,
+  machines,
+  machineCategories,
+  managerCheckouts,
+  quizAttempts,
+} from '~/lib/db'
+import {
+  checkEligibilityBatch,
+  getCheckoutExpiry,
+  getCheckoutTimeline,
+  getPairEligibility,
+  type CheckoutTimelineEvent,
+} from '~/server/services/eligibility'
 import { Header } from '~/components/Header'
 import { approveCheckout, revokeCheckout } from '~/server/api/admin'
 
+const TIMELINE_LABELS: Record<CheckoutTimelineEvent['type'], string> = {
+  approved: 'Approved',
+  reapproved: 'Re-approved',
+  expired: 'Expired',
+  revoked: 'Revoked',
+}
+
+const TIMELINE_BADGES: Record<CheckoutTimelineEvent['type'], string> = {
+  approved: 'badge-success',
+  reapproved: 'badge-success',
+  expired: 'badge-warning',
+  revoked: 'badge-danger',
+}
+
 const getUserCheckoutData = createServerFn({ method: 'GET' })
   .inputValidator((data: { userId: string }) => data)
   .handler(async ({ data }) => {
@@ -22,11 +49,20 @@ const getUserCheckoutData = createServerFn({ method: 'GET' })
           },
         },
         managerCheckouts: {
+          where: eq(managerCheckouts.status, 'active'),
           with: {
             machine: true,
+            category: true,
             approver: true,
           },
         },
+        quizAttempts: {
+          with: {
+            module: true,
+          },
+          orderBy: [desc(quizAttempts.createdAt)],
+          limit: 20,
+        },
       },
     })
 
@@ -38,25 +74,66 @@ const getUserCheckoutData = createServerFn({ method: 'GET' })
       where: eq(machines.active, true),
     })
 
+    const eligibilityMatrix = await checkEligibilityBatch(
+      [member.id],
+      allMachines.map((machine) => machine.id)
+    )
+    const now = new Date()
+
+    // hasCheckout is for the machine's own checkout; category checkouts are
+    // listed separately
     const machineStatuses = await Promise.all(
       allMachines.map(async (machine) => {
-        const eligibility = await checkEligibility(member.id, machine.id)
-        const hasCheckout = member.managerCheckouts.some(
-          (c) => c.machineId === machine.id
-        )
+        const eligibility = getPairEligibility(eligibilityMatrix, member.id, machine.id)
         const checkout = member.managerCheckouts.find(
           (c) => c.machineId === machine.id
         )
+        const expiresAt = checkout
+          ? getCheckoutExpiry(checkout.approvedAt, machine.checkoutValidityMonths)
+          : null
+        const timeline = await getCheckoutTimeline(member.id, machine.id)
         return {
           machine,
           eligibility,
-          hasCheckout,
+          hasCheckout: !!checkout && !(expiresAt && expiresAt <= now),
           checkout,
+          expiresAt,
+          timeline,
         }
       })
     )
 
-    return { user: currentUser, member, machineStatuses }
+    const categories = await db.query.machineCategories.findMany({
+      with: {
+        machines: {
+          where: eq(machines.active, true),
+          columns: { id: true },
+        },
+      },
+      orderBy: [asc(machineCategories.name)],
+    })
+
+    const categoryStatuses = categories
+      .filter((category) => category.machines.length > 0)
+      .map((category) => {
+        const checkout = member.managerCheckouts.find((c) => c.categoryId === category.id)
+        const expiresAt = checkout
+          ? getCheckoutExpiry(checkout.approvedAt, category.checkoutValidityMonths)
+          : null
+        return {
+          category: { id: category.id, name: category.name },
+          machineCount: category.machines.length,
+          // Ready once the training for every machine in the category is done
+          requirementsMet: category.machines.every(
+            (m) => getPairEligibility(eligibilityMatrix, member.id, m.id).requirementsMet
+          ),
+          hasCheckout: !!checkout && !(expiresAt && expiresAt <= now),
+          approvedAt: checkout?.approvedAt ?? null,
+          expiresAt,
+        }
+      })
+
+    return { user: currentUser, member, machineStatuses, categoryStatuses }
   })
 
 export const Route = createFileRoute('/admin/checkouts/$userId')({
@@ -67,9 +144,16 @@ export const Route = createFileRoute('/admin/checkouts/$userId')({
 })
 
 function UserCheckoutPage() {
-  const { user, member, machineStatuses: initialStatuses } = Route.useLoaderData()
+  const {
+    user,
+    member,
+    machineStatuses: initialStatuses,
+    categoryStatuses: initialCategoryStatuses,
+  } = Route.useLoaderData()
   const [machineStatuses, setMachineStatuses] = useState(initialStatuses)
+  const [categoryStatuses, setCategoryStatuses] = useState(initialCategoryStatuses)
   const [processing, setProcessing] = useState<string | null>(null)
+  const managerName = user.name || user.email
 
   const handleApprove = async (machineId: string) => {
     setProcessing(machineId)
@@ -80,6 +164,13 @@ function UserCheckoutPage() {
       })
 
       if (result.success) {
+        const approval = (timeline: CheckoutTimelineEvent[]): CheckoutTimelineEvent => ({
+          type: timeline.length > 0 ? 'reapproved' : 'approved',
+          at: result.checkout.approvedAt,
+          by: managerName,
+          notes: result.checkout.notes,
+        })
+
         setMachineStatuses((prev) =>
           prev.map((s) =>
             s.machine.id === machineId
@@ -87,7 +178,8 @@ function UserCheckoutPage() {
                   ...s,
                   hasCheckout: true,
                   checkout: result.checkout,
-                  eligibility: { ...s.eligibility, hasCheckout: true },
+                  expiresAt: result.expiresAt ?? null,
+                  timeline: [...s.timeline, approval(s.timeline)],
                 }
               : s
           )
@@ -103,16 +195,24 @@ function UserCheckoutPage() {
   }
 
   const handleRevoke = async (machineId: string) => {
-    if (!confirm('Are you sure you want to revoke this checkout?')) return
+    const reason = prompt('Why is this checkout being revoked? The member will see this reason.')
+    if (!reason?.trim()) return
 
     setProcessing(machineId)
 
     try {
       const result = await revokeCheckout({
-        data: { userId: member.id, machineId },
+        data: { userId: member.id, machineId, reason },
       })
 
       if (result.success) {
+        const revocation: CheckoutTimelineEvent = {
+          type: 'revoked',
+          at: new Date(),
+          by: managerName,
+          notes: reason.trim(),
+        }
+
         setMachineStatuses((prev) =>
           prev.map((s) =>
             s.machine.id === machineId
@@ -120,7 +220,8 @@ function UserCheckoutPage() {
                   ...s,
                   hasCheckout: false,
                   checkout: undefined,
-                  eligibility: { ...s.eligibility, hasCheckout: false },
+                  expiresAt: null,
+                  timeline: [...s.timeline, revocation],
                 }
               : s
           )
@@ -135,6 +236,78 @@ function UserCheckoutPage() {
     }
   }
 
+  const handleApproveCategory = async (categoryId: string) => {
+    setProcessing(categoryId)
+
+    try {
+      const result = await approveCheckout({
+        data: { userId: member.id, categoryId },
+      })
+
+      if (result.success) {
+        setCategoryStatuses((prev) =>
+          prev.map((s) =>
+            s.category.id === categoryId
+              ? {
+                  ...s,
+                  hasCheckout: true,
+                  approvedAt: result.checkout.approvedAt,
+                  expiresAt: result.expiresAt ?? null,
+                }
+              : s
+          )
+        )
+      } else {
+        alert(result.error || 'Failed to approve')
+      }
+    } catch (error) {
+      alert('An error occurred')
+    } finally {
+      setProcessing(null)
+    }
+  }
+
+  const handleRevokeCategory = async (categoryId: string) => {
+    const reason = prompt('Why is this checkout being revoked? The member will see this reason.')
+    if (!reason?.trim()) return
+
+    setProcessing(categoryId)
+
+    try {
+      const result = await revokeCheckout({
+        data: { userId: member.id, categoryId, reason },
+      })
+
+      if (result.success) {
+        setCategoryStatuses((prev) =>
+          prev.map((s) =>
+            s.category.id === categoryId
+              ? { ...s, hasCheckout: false, approvedAt: null, expiresAt: null }
+              : s
+          )
+        )
+      } else {
+        alert(result.error || 'Failed to revoke')
+      }
+    } catch (error) {
+      alert('An error occurred')
+    } finally {
+      setProcessing(null)
+    }
+  }
+
+  // The current category checkout that covers a machine, if any
+  const coveringCategory = (categoryId: string | null) =>
+    categoryStatuses.find((s) => s.hasCheckout && s.category.id === categoryId)
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    })
+  }
+
   return (
     <div>
       <Header user={user} />
@@ -198,6 +371,46 @@ function UserCheckoutPage() {
             )}
           </div>
 
+          {/* Quiz Attempts */}
+          {member.quizAttempts.length > 0 && (
+            <div className="card mb-3">
+              <h3 className="card-title mb-2">Quiz Attempts</h3>
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Date</th>
+                    <th>Module</th>
+                    <th>Score</th>
+                    <th>Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {member.quizAttempts.map((attempt) => (
+                    <tr key={attempt.id}>
+                      <td className="text-small">{formatDate(attempt.createdAt)}</td>
+                      <td>{attempt.module.title}</td>
+                      <td>
+                        {attempt.scorePercent}%
+                        <span className="text-small text-muted">
+                          {' '}
+                          ({attempt.answers.filter((a) => a.correct).length}/
+                          {attempt.answers.length} correct)
+                        </span>
+                      </td>
+                      <td>
+                        {attempt.passed ? (
+                          <span className="badge badge-success">Passed</span>
+                        ) : (
+                          <span className="badge badge-danger">Failed</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           {/* Machine Checkouts */}
           <div className="card">
             <h3 className="card-title mb-2">Machine Checkouts</h3>
@@ -212,17 +425,18 @@ function UserCheckoutPage() {
               </thead>
               <tbody>
                 {machineStatuses.map((status) => {
-                  const trainingComplete = status.eligibility.requirements.every(
-                    (r) => r.completed
-                  )
+                  const trainingComplete = status.eligibility.requirementsMet
+                  const category = coveringCategory(status.machine.categoryId)
                   return (
                     <tr key={status.machine.id}>
                       <td>{status.machine.name}</td>
                       <td>
-                        {status.eligibility.requirements.length === 0 ? (
+                        {status.eligibility.requirements.length === 0 && trainingComplete ? (
                           <span className="text-muted">No requirements</span>
                         ) : trainingComplete ? (
                           <span className="badge badge-success">Complete</span>
+                        ) : status.eligibility.requirements.length === 0 ? (
+                          <span className="badge badge-warning">Prerequisite missing</span>
                         ) : (
                           <span className="badge badge-warning">
                             {status.eligibility.requirements.filter((r) => r.completed).length}/
@@ -233,9 +447,23 @@ function UserCheckoutPage() {
                       <td>
                         {status.hasCheckout ? (
                           <span className="badge badge-success">Approved</span>
+                        ) : category ? (
+                          <span className="badge badge-success">
+                            Via {category.category.name}
+                          </span>
+                        ) : status.checkout ? (
+                          <span className="badge badge-danger">Expired</span>
+                        ) : status.timeline.at(-1)?.type === 'revoked' ? (
+                          <span className="badge badge-danger">Revoked</span>
                         ) : (
                           <span className="badge badge-warning">Pending</span>
                         )}
+                        {status.checkout && status.expiresAt && (
+                          <div className="text-small text-muted">
+                            {status.hasCheckout ? 'Expires' : 'Expired'}{' '}
+                            {formatDate(status.expiresAt)}
+                          </div>
+                        )}
                       </td>
                       <td>
                         {status.hasCheckout ? (
@@ -248,6 +476,8 @@ function UserCheckoutPage() {
                               ? 'Revoking...'
                               : 'Revoke'}
                           </button>
+                        ) : category ? (
+                          <span className="text-muted text-small">Category checkout</span>
                         ) : trainingComplete ? (
                           <button
                             className="btn btn-success"
@@ -256,7 +486,9 @@ function UserCheckoutPage() {
                           >
                             {processing === status.machine.id
                               ? 'Approving...'
-                              : 'Approve'}
+                              : status.checkout
+                                ? 'Renew'
+                                : 'Approve'}
                           </button>
                         ) : (
                           <span className="text-muted text-small">
@@ -270,6 +502,122 @@ function UserCheckoutPage() {
               </tbody>
             </table>
           </div>
+
+          {/* Category Checkouts */}
+          {categoryStatuses.length > 0 && (
+            <div className="card mt-3">
+              <h3 className="card-title mb-2">Category Checkouts</h3>
+              <p className="text-small text-muted mb-2">
+                One checkout covers every machine in the category.
+              </p>
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Category</th>
+                    <th>Training</th>
+                    <th>Checkout Status</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {categoryStatuses.map((status) => (
+                    <tr key={status.category.id}>
+                      <td>
+                        {status.category.name}
+                        <div className="text-small text-muted">
+                          {status.machineCount} machine{status.machineCount === 1 ? '' : 's'}
+                        </div>
+                      </td>
+                      <td>
+                        {status.requirementsMet ? (
+                          <span className="badge badge-success">Complete</span>
+                        ) : (
+                          <span className="badge badge-warning">Incomplete</span>
+                        )}
+                      </td>
+                      <td>
+                        {status.hasCheckout ? (
+                          <span className="badge badge-success">Approved</span>
+                        ) : status.approvedAt ? (
+                          <span className="badge badge-danger">Expired</span>
+                        ) : (
+                          <span className="badge badge-warning">Not approved</span>
+                        )}
+                        {status.approvedAt && status.expiresAt && (
+                          <div className="text-small text-muted">
+                            {status.hasCheckout ? 'Expires' : 'Expired'}{' '}
+                            {formatDate(status.expiresAt)}
+                          </div>
+                        )}
+                      </td>
+                      <td>
+                        {status.hasCheckout ? (
+                          <button
+                            className="btn btn-danger"
+                            onClick={() => handleRevokeCategory(status.category.id)}
+                            disabled={processing === status.category.id}
+                          >
+                            {processing === status.category.id ? 'Revoking...' : 'Revoke'}
+                          </button>
+                        ) : status.requirementsMet ? (
+                          <button
+                            className="btn btn-success"
+                            onClick={() => handleApproveCategory(status.category.id)}
+                            disabled={processing === status.category.id}
+                          >
+                            {processing === status.category.id
+                              ? 'Approving...'
+                              : status.approvedAt
+                                ? 'Renew'
+                                : 'Approve'}
+                          </button>
+                        ) : (
+                          <span className="text-muted text-small">
+                            Training incomplete
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Checkout History */}
+          {machineStatuses.some((status) => status.timeline.length > 0) && (
+            <div className="card mt-3">
+              <h3 className="card-title mb-2">Checkout History</h3>
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Machine</th>
+                    <th>Event</th>
+                    <th>Date</th>
+                    <th>By</th>
+                    <th>Notes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {machineStatuses.flatMap((status) =>
+                    status.timeline.map((event, i) => (
+                      <tr key={`${status.machine.id}-${i}`}>
+                        <td>{i === 0 ? status.machine.name : ''}</td>
+                        <td>
+                          <span className={`badge ${TIMELINE_BADGES[event.type]}`}>
+                            {TIMELINE_LABELS[event.type]}
+                          </span>
+                        </td>
+                        <td className="text-small">{formatDate(event.at)}</td>
+                        <td className="text-small">{event.by || '—'}</td>
+                        <td className="text-small">{event.notes}</td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          )}
         </div>
       </main>
     </div>
@@ -4,7 +4,11 @@ import { eq } from 'drizzle-orm'
 import { useState } from 'react'
 import { requireManager } from '~/server/auth/middleware'
 import { db, users, machines } from '~/lib/db'
-import { checkEligibility } from '~/server/services/eligibility'
+import {
+  checkEligibilityBatch,
+  getExpiringCheckouts,
+  getPairEligibility,
+} from '~/server/services/eligibility'
 import { Header } from '~/components/Header'
 import { approveCheckout } from '~/server/api/admin'
 
@@ -14,35 +18,30 @@ const getCheckoutsData = createServerFn({ method: 'GET' }).handler(async () => {
   // Get all members
   const allUsers = await db.query.users.findMany({
     where: eq(users.role, 'member'),
-    with: {
-      managerCheckouts: {
-        with: {
-          machine: true,
-        },
-      },
-    },
   })
 
   const allMachines = await db.query.machines.findMany({
     where: eq(machines.active, true),
   })
 
-  // Find users ready for checkout (completed training but no checkout)
-  const pendingApprovals = []
+  const activeMembers = allUsers.filter((member) => member.status === 'active')
+  const eligibilityMatrix = await checkEligibilityBatch(
+    activeMembers.map((member) => member.id),
+    allMachines.map((machine) => machine.id)
+  )
 
-  for (const member of allUsers) {
-    if (member.status !== 'active') continue
+  // Find users ready for checkout (completed training but no current checkout)
+  const pendingApprovals = []
 
+  for (const member of activeMembers) {
     for (const machine of allMachines) {
-      const hasCheckout = member.managerCheckouts.some(
-        (c) => c.machineId === machine.id
-      )
-      if (hasCheckout) continue
+      // A current checkout, on the machine or its category, needs no approval
+      const eligibility = getPairEligibility(eligibilityMatrix, member.id, machine.id)
+      if (eligibility.hasCheckout) continue
 
-      const eligibility = await checkEligibility(member.id, machine.id)
-      const trainingComplete = eligibility.requirements.every((r) => r.completed)
-
-      if (trainingComplete) {
+      // An active checkout that has lapsed
+      const renewal = !!eligibility.checkoutExpiresAt
+      if (eligibility.requirementsMet) {
         pendingApprovals.push({
           user: {
             id: member.id,
@@ -54,12 +53,21 @@ const getCheckoutsData = createServerFn({ method: 'GET' }).handler(async () => {
             name: machine.name,
           },
           trainingStatus: eligibility.requirements,
+          renewal,
         })
       }
     }
   }
 
-  return { user, pendingApprovals }
+  // Expired checkouts ready to renew are already listed as pending
+  const pendingKeys = new Set(
+    pendingApprovals.map((a) => `${a.user.id}-${a.machine.id}`)
+  )
+  const expiringCheckouts = (await getExpiringCheckouts()).filter(
+    (c) => !c.machineId || !pendingKeys.has(`${c.userId}-${c.machineId}`)
+  )
+
+  return { user, pendingApprovals, expiringCheckouts }
 })
 
 export const Route = createFileRoute('/admin/checkouts')({
@@ -70,20 +78,35 @@ export const Route = createFileRoute('/admin/checkouts')({
 })
 
 function CheckoutsPage() {
-  const { user, pendingApprovals: initialApprovals } = Route.useLoaderData()
+  const {
+    user,
+    pendingApprovals: initialApprovals,
+    expiringCheckouts: initialExpiring,
+  } = Route.useLoaderData()
   const [pendingApprovals, setPendingApprovals] = useState(initialApprovals)
+  const [expiringCheckouts, setExpiringCheckouts] = useState(initialExpiring)
   const [approving, setApproving] = useState<string | null>(null)
 
-  const handleApprove = async (userId: string, machineId: string) => {
-    const key = `${userId}-${machineId}`
+  // target is a machine id, or a category id for a category checkout
+  const handleApprove = async (
+    userId: string,
+    target: { machineId: string } | { categoryId: string }
+  ) => {
+    const targetId = 'machineId' in target ? target.machineId : target.categoryId
+    const key = `${userId}-${targetId}`
     setApproving(key)
 
     try {
-      const result = await approveCheckout({ data: { userId, machineId } })
+      const result = await approveCheckout({ data: { userId, ...target } })
 
       if (result.success) {
         setPendingApprovals((prev) =>
-          prev.filter((a) => !(a.user.id === userId && a.machine.id === machineId))
+          prev.filter((a) => !(a.user.id === userId && a.machine.id === targetId))
+        )
+        setExpiringCheckouts((prev) =>
+          prev.filter(
+            (c) => !(c.userId === userId && (c.machineId ?? c.categoryId) === targetId)
+          )
         )
       } else {
         alert(result.error || 'Failed to approve checkout')
@@ -95,6 +118,14 @@ function CheckoutsPage() {
     }
   }
 
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    })
+  }
+
   return (
     <div>
       <Header user={user} />
@@ -129,16 +160,21 @@ function CheckoutsPage() {
                         </td>
                         <td>{approval.machine.name}</td>
                         <td>
-                          <span className="badge badge-success">
-                            All training complete
-                          </span>
+                          <div className="flex gap-1">
+                            <span className="badge badge-success">
+                              All training complete
+                            </span>
+                            {approval.renewal && (
+                              <span className="badge badge-warning">Renewal</span>
+                            )}
+                          </div>
                         </td>
                         <td>
                           <div className="flex gap-1">
                             <button
                               className="btn btn-success"
                               onClick={() =>
-                                handleApprove(approval.user.id, approval.machine.id)
+                                handleApprove(approval.user.id, { machineId: approval.machine.id })
                               }
                               disabled={approving === key}
                             >
@@ -170,6 +206,87 @@ function CheckoutsPage() {
               </p>
             </div>
           )}
+
+          <h2 className="mt-3 mb-2">Expiring Checkouts</h2>
+
+          {expiringCheckouts.length > 0 ? (
+            <div className="card">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Member</th>
+                    <th>Machine</th>
+                    <th>Expires</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {expiringCheckouts.map((checkout) => {
+                    const key = `${checkout.userId}-${checkout.machineId ?? checkout.categoryId}`
+                    return (
+                      <tr key={key}>
+                        <td>
+                          <div>{checkout.userName || checkout.userEmail}</div>
+                          {checkout.userName && (
+                            <div className="text-small text-muted">
+                              {checkout.userEmail}
+                            </div>
+                          )}
+                        </td>
+                        <td>
+                          {checkout.machineName}
+                          {checkout.categoryId && (
+                            <span className="badge badge-info" style={{ marginLeft: '0.5rem' }}>
+                              Category
+                            </span>
+                          )}
+                        </td>
+                        <td>
+                          <span
+                            className={`badge ${checkout.expired ? 'badge-danger' : 'badge-warning'}`}
+                          >
+                            {checkout.expired ? 'Expired' : 'Expires'}{' '}
+                            {formatDate(checkout.expiresAt)}
+                          </span>
+                        </td>
+                        <td>
+                          <div className="flex gap-1">
+                            <button
+                              className="btn btn-success"
+                              onClick={() =>
+                                handleApprove(
+                                  checkout.userId,
+                                  checkout.machineId
+                                    ? { machineId: checkout.machineId }
+                                    : { categoryId: checkout.categoryId! }
+                                )
+                              }
+                              disabled={approving === key}
+                            >
+                              {approving === key ? 'Renewing...' : 'Renew'}
+                            </button>
+                            <Link
+                              to="/admin/checkouts/$userId"
+                              params={{ userId: checkout.userId }}
+                              className="btn btn-secondary"
+                            >
+                              View Details
+                            </Link>
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="card">
+              <p className="text-center text-muted">
+                No checkouts are expiring in the next 30 days.
+              </p>
+            </div>
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,210 @@
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { createServerFn } from '@tanstack/react-start'
+import { useState } from 'react'
+import { requireManager } from '~/server/auth/middleware'
+import type { IssueSeverity, IssueStatus } from '~/lib/db'
+import { Header } from '~/components/Header'
+import { getIssueQueue, updateMachineIssueStatus } from '~/server/api/issues'
+
+const STATUSES: IssueStatus[] = ['open', 'acknowledged', 'in_progress', 'resolved', 'dismissed']
+
+const SEVERITY_BADGES: Record<IssueSeverity, string> = {
+  low: 'badge-info',
+  medium: 'badge-info',
+  high: 'badge-warning',
+  critical: 'badge-danger',
+}
+
+const getIssuesPageData = createServerFn({ method: 'GET' }).handler(async () => {
+  const user = await requireManager()
+  return { user }
+})
+
+export const Route = createFileRoute('/admin/issues')({
+  component: IssuesPage,
+  loader: async () => {
+    const [pageData, { issues }] = await Promise.all([
+      getIssuesPageData(),
+      getIssueQueue({ data: {} }),
+    ])
+    return { ...pageData, issues }
+  },
+})
+
+function formatStatus(status: IssueStatus) {
+  return status.replace('_', ' ')
+}
+
+function IssuesPage() {
+  const { user, issues: initialIssues } = Route.useLoaderData()
+  const [issues, setIssues] = useState(initialIssues)
+  const [status, setStatus] = useState<IssueStatus | ''>('')
+  const [loading, setLoading] = useState(false)
+  const [updating, setUpdating] = useState<string | null>(null)
+
+  const loadIssues = async (nextStatus: IssueStatus | '') => {
+    setStatus(nextStatus)
+    setLoading(true)
+
+    try {
+      const result = await getIssueQueue({ data: { status: nextStatus || undefined } })
+      setIssues(result.issues)
+    } catch (error) {
+      alert('Failed to load issues')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleTransition = async (issueId: string, nextStatus: IssueStatus) => {
+    let note: string | undefined
+
+    if (nextStatus === 'resolved' || nextStatus === 'dismissed') {
+      const input = prompt(`Note for ${formatStatus(nextStatus)} issue (optional):`)
+      if (input === null) return
+      note = input || undefined
+    }
+
+    setUpdating(issueId)
+
+    try {
+      const result = await updateMachineIssueStatus({
+        data: { issueId, status: nextStatus, note },
+      })
+
+      if (result.success) {
+        await loadIssues(status)
+      } else {
+        alert(result.error || 'Failed to update issue')
+      }
+    } catch (error) {
+      alert('An error occurred')
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const formatTimestamp = (date: Date) => {
+    return new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
+  return (
+    <div>
+      <Header user={user} />
+
+      <main className="main">
+        <div className="container">
+          <div className="flex flex-between flex-center mb-3">
+            <h1>Machine Issues</h1>
+            <select
+              className="form-input"
+              style={{ width: 'auto' }}
+              value={status}
+              disabled={loading}
+              onChange={(e) => loadIssues(e.target.value as IssueStatus | '')}
+            >
+              <option value="">Needs attention</option>
+              {STATUSES.map((s) => (
+                <option key={s} value={s}>
+                  {formatStatus(s)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {issues.length > 0 ? (
+            <div className="card">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Reported</th>
+                    <th>Machine</th>
+                    <th>Severity</th>
+                    <th>Description</th>
+                    <th>Status</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {issues.map((issue) => (
+                    <tr key={issue.id}>
+                      <td>
+                        {formatTimestamp(issue.createdAt)}
+                        <div className="text-small text-muted">
+                          {issue.reporter?.name || issue.reporter?.email || 'Deleted user'}
+                        </div>
+                      </td>
+                      <td>
+                        <Link
+                          to="/admin/machines/$machineId"
+                          params={{ machineId: issue.machine.id }}
+                        >
+                          {issue.machine.name}
+                        </Link>
+                      </td>
+                      <td>
+                        <span className={`badge ${SEVERITY_BADGES[issue.severity]}`}>
+                          {issue.severity}
+                        </span>
+                      </td>
+                      <td style={{ maxWidth: '24rem', whiteSpace: 'pre-wrap' }}>
+                        {issue.description}
+                        {issue.photoPath && (
+                          <div className="text-small">
+                            <a
+                              href={`/api/issues/${issue.id}/photo`}
+                              target="_blank"
+                              rel="noreferrer"
+                            >
+                              View photo
+                            </a>
+                          </div>
+                        )}
+                        {issue.resolutionNote && (
+                          <div className="text-small text-muted">
+                            Note: {issue.resolutionNote}
+                          </div>
+                        )}
+                      </td>
+                      <td>
+                        {formatStatus(issue.status)}
+                        {issue.handler && (
+                          <div className="text-small text-muted">
+                            by {issue.handler.name || issue.handler.email}
+                          </div>
+                        )}
+                      </td>
+                      <td>
+                        <div className="flex gap-1" style={{ flexWrap: 'wrap' }}>
+                          {issue.transitions.map((next) => (
+                            <button
+                              key={next}
+                              onClick={() => handleTransition(issue.id, next)}
+                              className={`btn ${next === 'resolved' ? 'btn-success' : 'btn-secondary'}`}
+                              disabled={updating === issue.id}
+                            >
+                              {next === 'open' ? 'Reopen' : formatStatus(next)}
+                            </button>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="card">
+              <p className="text-muted">No issues to show.</p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -1,11 +1,40 @@
 import { createFileRoute, Link, useNavigate } from '@tanstack/react-router'
 import { createServerFn } from '@tanstack/react-start'
-import { eq, asc } from 'drizzle-orm'
+import { eq, asc, ne, or, inArray } from 'drizzle-orm'
 import { useState } from 'react'
 import { requireAdmin } from '~/server/auth/middleware'
-import { db, machines, trainingModules } from '~/lib/db'
+import { db, machines, machineCategories, trainingModules } from '~/lib/db'
+import { getSchedulingProvider } from '~/server/services/scheduling'
+import { getUpcomingMaintenance } from '~/server/services/maintenance'
+import { getMachineRule, getRuleModules } from '~/server/services/requirement-rules'
 import { Header } from '~/components/Header'
-import { updateMachine, setMachineRequirements } from '~/server/api/admin'
+import { RequirementRuleEditor } from '~/components/RequirementRuleEditor'
+import {
+  updateMachine,
+  setMachineRequirementRule,
+  setMachineOpeningHours,
+  setMachineOutOfService,
+  returnMachineToService,
+  scheduleMachineMaintenance,
+  removeMachineMaintenance,
+} from '~/server/api/admin'
+
+const DAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+]
+
+// Value for a datetime-local input, in the browser's time zone
+function toDateTimeInput(date: Date): string {
+  const d = new Date(date)
+  const local = new Date(d.getTime() - d.getTimezoneOffset() * 60 * 1000)
+  return local.toISOString().slice(0, 16)
+}
 
 const getMachineEditData = createServerFn({ method: 'GET' })
   .inputValidator((data: { machineId: string }) => data)
@@ -20,6 +49,7 @@ const getMachineEditData = createServerFn({ method: 'GET' })
             module: true,
           },
         },
+        openingHours: true,
       },
     })
 
@@ -27,12 +57,43 @@ const getMachineEditData = createServerFn({ method: 'GET' })
       throw new Response('Machine not found', { status: 404 })
     }
 
+    const rule = getMachineRule(machine, machine.requirements)
+    const ruleModuleIds = [...getRuleModules(rule).keys()]
+
+    // Inactive modules still show when the rule mentions them
     const moduleList = await db.query.trainingModules.findMany({
-      where: eq(trainingModules.active, true),
+      where:
+        ruleModuleIds.length > 0
+          ? or(eq(trainingModules.active, true), inArray(trainingModules.id, ruleModuleIds))
+          : eq(trainingModules.active, true),
       orderBy: [asc(trainingModules.title)],
     })
 
-    return { user, machine, modules: moduleList }
+    const otherMachines = await db.query.machines.findMany({
+      where: ne(machines.id, machine.id),
+      columns: { id: true, name: true },
+      orderBy: [asc(machines.name)],
+    })
+
+    const categories = await db.query.machineCategories.findMany({
+      columns: { id: true, name: true },
+      orderBy: [asc(machineCategories.name)],
+    })
+
+    return {
+      user,
+      machine,
+      // The editor edits a top-level group
+      requirementRule:
+        rule.type === 'all' || rule.type === 'any'
+          ? rule
+          : { type: 'all' as const, rules: [rule] },
+      modules: moduleList,
+      otherMachines,
+      categories,
+      maintenance: await getUpcomingMaintenance(machine.id),
+      schedulingProvider: getSchedulingProvider().name,
+    }
   })
 
 export const Route = createFileRoute('/admin/machines/$machineId')({
@@ -43,23 +104,78 @@ export const Route = createFileRoute('/admin/machines/$machineId')({
 })
 
 function EditMachinePage() {
-  const { user, machine, modules } = Route.useLoaderData()
+  const {
+    user,
+    machine,
+    requirementRule: initialRule,
+    modules,
+    otherMachines,
+    categories,
+    maintenance,
+    schedulingProvider,
+  } = Route.useLoaderData()
   const navigate = useNavigate()
 
   const [name, setName] = useState(machine.name)
   const [description, setDescription] = useState(machine.description || '')
+  const [categoryId, setCategoryId] = useState(machine.categoryId || '')
   const [calcomId, setCalcomId] = useState(
     machine.calcomEventTypeId?.toString() || ''
   )
-  const [selectedModules, setSelectedModules] = useState<
-    Array<{ moduleId: string; percent: number }>
-  >(
-    machine.requirements.map((r) => ({
-      moduleId: r.moduleId,
-      percent: r.requiredWatchPercent,
-    }))
+  const [slotMinutes, setSlotMinutes] = useState(machine.slotMinutes.toString())
+  const [minBookingMinutes, setMinBookingMinutes] = useState(
+    machine.minBookingMinutes.toString()
+  )
+  const [maxBookingMinutes, setMaxBookingMinutes] = useState(
+    machine.maxBookingMinutes.toString()
+  )
+  const [validityMonths, setValidityMonths] = useState(
+    machine.checkoutValidityMonths?.toString() || ''
+  )
+  const [refresherModuleId, setRefresherModuleId] = useState(
+    machine.refresherModuleId || ''
+  )
+  const [maxHoursPerWeek, setMaxHoursPerWeek] = useState(
+    machine.maxHoursPerWeek?.toString() || ''
+  )
+  const [maxActiveReservations, setMaxActiveReservations] = useState(
+    machine.maxActiveReservations?.toString() || ''
+  )
+  const [maxAdvanceDays, setMaxAdvanceDays] = useState(
+    machine.maxAdvanceDays?.toString() || ''
+  )
+  const [minNoticeMinutes, setMinNoticeMinutes] = useState(
+    machine.minNoticeMinutes?.toString() || ''
+  )
+  const [requirementRule, setRequirementRule] = useState(initialRule)
+  const [openingHours, setOpeningHours] = useState(
+    DAY_NAMES.map((_, dayOfWeek) => {
+      const hours = machine.openingHours.find((h) => h.dayOfWeek === dayOfWeek)
+      return {
+        dayOfWeek,
+        open: !!hours,
+        opensAt: hours?.opensAt.slice(0, 5) || '09:00',
+        closesAt: hours?.closesAt.slice(0, 5) || '17:00',
+      }
+    })
   )
   const [saving, setSaving] = useState(false)
+  const [serviceStatus, setServiceStatus] = useState({
+    outOfServiceAt: machine.outOfServiceAt,
+    outOfServiceReason: machine.outOfServiceReason,
+    expectedBackAt: machine.expectedBackAt,
+  })
+  const [outOfServiceReason, setOutOfServiceReason] = useState(
+    machine.outOfServiceReason || ''
+  )
+  const [expectedBack, setExpectedBack] = useState(
+    machine.expectedBackAt ? toDateTimeInput(machine.expectedBackAt) : ''
+  )
+  const [maintenanceWindows, setMaintenanceWindows] = useState(maintenance)
+  const [maintenanceStart, setMaintenanceStart] = useState('')
+  const [maintenanceEnd, setMaintenanceEnd] = useState('')
+  const [maintenanceReason, setMaintenanceReason] = useState('')
+  const [statusBusy, setStatusBusy] = useState(false)
 
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -67,23 +183,53 @@ function EditMachinePage() {
 
     try {
       // Update machine details
-      await updateMachine({
+      const result = await updateMachine({
         data: {
           machineId: machine.id,
           name,
           description: description || undefined,
+          categoryId: categoryId || null,
           calcomEventTypeId: calcomId ? parseInt(calcomId) : undefined,
+          slotMinutes: parseInt(slotMinutes),
+          minBookingMinutes: parseInt(minBookingMinutes),
+          maxBookingMinutes: parseInt(maxBookingMinutes),
+          checkoutValidityMonths: validityMonths ? parseInt(validityMonths) : null,
+          refresherModuleId: refresherModuleId || null,
+          maxHoursPerWeek: maxHoursPerWeek ? parseInt(maxHoursPerWeek) : null,
+          maxActiveReservations: maxActiveReservations
+            ? parseInt(maxActiveReservations)
+            : null,
+          maxAdvanceDays: maxAdvanceDays ? parseInt(maxAdvanceDays) : null,
+          minNoticeMinutes: minNoticeMinutes ? parseInt(minNoticeMinutes) : null,
         },
       })
 
+      if (!result.success) {
+        alert(result.error || 'Failed to save changes')
+        return
+      }
+
       // Update requirements
-      await setMachineRequirements({
+      const ruleResult = await setMachineRequirementRule({
+        data: { machineId: machine.id, rule: requirementRule },
+      })
+
+      if (!ruleResult.success) {
+        alert(ruleResult.error || 'Failed to save requirements')
+        return
+      }
+
+      // Update opening hours
+      await setMachineOpeningHours({
         data: {
           machineId: machine.id,
-          requirements: selectedModules.map((m) => ({
-            moduleId: m.moduleId,
-            requiredWatchPercent: m.percent,
-          })),
+          hours: openingHours
+            .filter((h) => h.open)
+            .map((h) => ({
+              dayOfWeek: h.dayOfWeek,
+              opensAt: h.opensAt,
+              closesAt: h.closesAt,
+            })),
         },
       })
 
@@ -95,20 +241,147 @@ function EditMachinePage() {
     }
   }
 
-  const toggleModule = (moduleId: string) => {
-    setSelectedModules((prev) => {
-      const exists = prev.find((m) => m.moduleId === moduleId)
-      if (exists) {
-        return prev.filter((m) => m.moduleId !== moduleId)
+  const handleOutOfService = async () => {
+    if (!outOfServiceReason.trim()) {
+      alert('Enter a reason')
+      return
+    }
+    if (
+      !confirm(
+        'Upcoming reservations until the expected return date (or all of them, if none is set) will be cancelled. Continue?'
+      )
+    ) {
+      return
+    }
+
+    setStatusBusy(true)
+
+    try {
+      const result = await setMachineOutOfService({
+        data: {
+          machineId: machine.id,
+          reason: outOfServiceReason,
+          expectedBackAt: expectedBack ? new Date(expectedBack).toISOString() : null,
+        },
+      })
+
+      if (result.success) {
+        setServiceStatus({
+          outOfServiceAt: result.machine.outOfServiceAt,
+          outOfServiceReason: result.machine.outOfServiceReason,
+          expectedBackAt: result.machine.expectedBackAt,
+        })
+        if (result.cancelled > 0) {
+          alert(`${result.cancelled} reservation(s) cancelled`)
+        }
+      } else {
+        alert(result.error || 'Failed to update status')
+      }
+    } catch (error) {
+      alert('Failed to update status')
+    } finally {
+      setStatusBusy(false)
+    }
+  }
+
+  const handleReturnToService = async () => {
+    setStatusBusy(true)
+
+    try {
+      const result = await returnMachineToService({ data: { machineId: machine.id } })
+
+      if (result.success) {
+        setServiceStatus({ outOfServiceAt: null, outOfServiceReason: null, expectedBackAt: null })
+        setOutOfServiceReason('')
+        setExpectedBack('')
       } else {
-        return [...prev, { moduleId, percent: 90 }]
+        alert(result.error || 'Failed to update status')
       }
+    } catch (error) {
+      alert('Failed to update status')
+    } finally {
+      setStatusBusy(false)
+    }
+  }
+
+  const handleScheduleMaintenance = async () => {
+    if (!maintenanceStart || !maintenanceEnd || !maintenanceReason.trim()) {
+      alert('Enter a start, end and reason')
+      return
+    }
+    if (!confirm('Reservations during this window will be cancelled. Continue?')) return
+
+    setStatusBusy(true)
+
+    try {
+      const result = await scheduleMachineMaintenance({
+        data: {
+          machineId: machine.id,
+          startTime: new Date(maintenanceStart).toISOString(),
+          endTime: new Date(maintenanceEnd).toISOString(),
+          reason: maintenanceReason,
+        },
+      })
+
+      if (result.success) {
+        setMaintenanceWindows((prev) =>
+          [...prev, result.window].sort(
+            (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+          )
+        )
+        setMaintenanceStart('')
+        setMaintenanceEnd('')
+        setMaintenanceReason('')
+        if (result.cancelled > 0) {
+          alert(`${result.cancelled} reservation(s) cancelled`)
+        }
+      } else {
+        alert(result.error || 'Failed to schedule maintenance')
+      }
+    } catch (error) {
+      alert('Failed to schedule maintenance')
+    } finally {
+      setStatusBusy(false)
+    }
+  }
+
+  const handleRemoveMaintenance = async (windowId: string) => {
+    if (!confirm('Remove this maintenance window? Cancelled reservations are not restored.')) {
+      return
+    }
+
+    setStatusBusy(true)
+
+    try {
+      const result = await removeMachineMaintenance({ data: { windowId } })
+
+      if (result.success) {
+        setMaintenanceWindows((prev) => prev.filter((w) => w.id !== windowId))
+      } else {
+        alert(result.error || 'Failed to remove maintenance')
+      }
+    } catch (error) {
+      alert('Failed to remove maintenance')
+    } finally {
+      setStatusBusy(false)
+    }
+  }
+
+  const formatDateTime = (date: Date) => {
+    return new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
     })
   }
 
-  const updatePercent = (moduleId: string, percent: number) => {
-    setSelectedModules((prev) =>
-      prev.map((m) => (m.moduleId === moduleId ? { ...m, percent } : m))
+  const updateOpeningHours = (
+    dayOfWeek: number,
+    changes: Partial<(typeof openingHours)[0]>
+  ) => {
+    setOpeningHours((prev) =>
+      prev.map((h) => (h.dayOfWeek === dayOfWeek ? { ...h, ...changes } : h))
     )
   }
 
@@ -151,6 +424,27 @@ function EditMachinePage() {
                 />
               </div>
 
+              <div className="form-group">
+                <label className="form-label">Category</label>
+                <select
+                  className="form-input"
+                  value={categoryId}
+                  onChange={(e) => setCategoryId(e.target.value)}
+                >
+                  <option value="">None</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-small text-muted mt-1">
+                  The machine inherits its category's requirements, and category
+                  checkouts cover it. Moving it keeps its own checkouts and
+                  requirements.
+                </p>
+              </div>
+
               <div className="form-group">
                 <label className="form-label">Cal.com Event Type ID</label>
                 <input
@@ -162,64 +456,389 @@ function EditMachinePage() {
                 />
                 <p className="text-small text-muted mt-1">
                   This links the machine to a Cal.com event type for scheduling.
+                  {schedulingProvider !== 'calcom' &&
+                    ' Not used while the native scheduler is active.'}
                 </p>
               </div>
             </div>
 
             <div className="card mb-3">
-              <h3 className="card-title mb-2">Training Requirements</h3>
+              <div className="card-header">
+                <h3 className="card-title">Service Status</h3>
+                {serviceStatus.outOfServiceAt ? (
+                  <span className="badge badge-danger">Out of Service</span>
+                ) : (
+                  <span className="badge badge-success">In Service</span>
+                )}
+              </div>
               <p className="text-small text-muted mb-2">
-                Select the training modules that must be completed before a member
-                can reserve this machine.
+                Changes here take effect immediately. Taking the machine out of
+                service or scheduling maintenance cancels the affected upcoming
+                reservations and notifies the members.
               </p>
 
-              {modules.length > 0 ? (
-                <table className="table">
+              {serviceStatus.outOfServiceAt && (
+                <div className="alert alert-danger mb-2">
+                  Out of service since {formatDateTime(serviceStatus.outOfServiceAt)}:{' '}
+                  {serviceStatus.outOfServiceReason}
+                  {serviceStatus.expectedBackAt &&
+                    ` (expected back ${formatDateTime(serviceStatus.expectedBackAt)})`}
+                </div>
+              )}
+
+              <div className="grid grid-2">
+                <div className="form-group">
+                  <label className="form-label">Reason</label>
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={outOfServiceReason}
+                    onChange={(e) => setOutOfServiceReason(e.target.value)}
+                    placeholder="e.g. Laser tube replacement"
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label className="form-label">Expected Back</label>
+                  <input
+                    type="datetime-local"
+                    className="form-input"
+                    value={expectedBack}
+                    onChange={(e) => setExpectedBack(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-1 mb-3">
+                <button
+                  type="button"
+                  className="btn btn-danger"
+                  onClick={handleOutOfService}
+                  disabled={statusBusy}
+                >
+                  {serviceStatus.outOfServiceAt ? 'Update Outage' : 'Mark Out of Service'}
+                </button>
+                {serviceStatus.outOfServiceAt && (
+                  <button
+                    type="button"
+                    className="btn btn-success"
+                    onClick={handleReturnToService}
+                    disabled={statusBusy}
+                  >
+                    Return to Service
+                  </button>
+                )}
+              </div>
+
+              <h4 className="text-small mb-1">Maintenance Windows</h4>
+              {maintenanceWindows.length > 0 ? (
+                <table className="table mb-2">
                   <thead>
                     <tr>
-                      <th>Required</th>
-                      <th>Module</th>
-                      <th>Min %</th>
+                      <th>From</th>
+                      <th>Until</th>
+                      <th>Reason</th>
+                      <th></th>
                     </tr>
                   </thead>
                   <tbody>
-                    {modules.map((module) => {
-                      const selected = selectedModules.find(
-                        (m) => m.moduleId === module.id
-                      )
-                      return (
-                        <tr key={module.id}>
-                          <td>
-                            <input
-                              type="checkbox"
-                              checked={!!selected}
-                              onChange={() => toggleModule(module.id)}
-                            />
-                          </td>
-                          <td>{module.title}</td>
-                          <td>
-                            {selected && (
-                              <input
-                                type="number"
-                                className="form-input"
-                                style={{ width: '80px' }}
-                                min="1"
-                                max="100"
-                                value={selected.percent}
-                                onChange={(e) =>
-                                  updatePercent(module.id, parseInt(e.target.value) || 90)
-                                }
-                              />
-                            )}
-                          </td>
-                        </tr>
-                      )
-                    })}
+                    {maintenanceWindows.map((window) => (
+                      <tr key={window.id}>
+                        <td className="text-small">{formatDateTime(window.startTime)}</td>
+                        <td className="text-small">{formatDateTime(window.endTime)}</td>
+                        <td className="text-small">{window.reason}</td>
+                        <td>
+                          <button
+                            type="button"
+                            className="btn btn-secondary"
+                            onClick={() => handleRemoveMaintenance(window.id)}
+                            disabled={statusBusy}
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
                   </tbody>
                 </table>
               ) : (
-                <p className="text-muted">No training modules available.</p>
+                <p className="text-small text-muted mb-2">No maintenance scheduled.</p>
               )}
+
+              <div className="grid grid-3">
+                <div className="form-group">
+                  <label className="form-label">From</label>
+                  <input
+                    type="datetime-local"
+                    className="form-input"
+                    value={maintenanceStart}
+                    onChange={(e) => setMaintenanceStart(e.target.value)}
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label className="form-label">Until</label>
+                  <input
+                    type="datetime-local"
+                    className="form-input"
+                    value={maintenanceEnd}
+                    onChange={(e) => setMaintenanceEnd(e.target.value)}
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label className="form-label">Reason</label>
+                  <input
+                    type="text"
+                    className="form-input"
+                    value={maintenanceReason}
+                    onChange={(e) => setMaintenanceReason(e.target.value)}
+                    placeholder="e.g. Quarterly service"
+                  />
+                </div>
+              </div>
+
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={handleScheduleMaintenance}
+                disabled={statusBusy}
+              >
+                Schedule Maintenance
+              </button>
+            </div>
+
+            <div className="card mb-3">
+              <h3 className="card-title mb-2">Booking Length</h3>
+              <p className="text-small text-muted mb-2">
+                Members book one or more consecutive slots. Minimum and maximum
+                lengths must be multiples of the slot length.
+              </p>
+
+              <div className="grid grid-3">
+                <div className="form-group">
+                  <label className="form-label">Slot Length (minutes)</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min="5"
+                    step="5"
+                    value={slotMinutes}
+                    onChange={(e) => setSlotMinutes(e.target.value)}
+                    required
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label className="form-label">Minimum Booking (minutes)</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min="5"
+                    step="5"
+                    value={minBookingMinutes}
+                    onChange={(e) => setMinBookingMinutes(e.target.value)}
+                    required
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label className="form-label">Maximum Booking (minutes)</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min="5"
+                    step="5"
+                    value={maxBookingMinutes}
+                    onChange={(e) => setMaxBookingMinutes(e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="card mb-3">
+              <h3 className="card-title mb-2">Fair-Use Limits</h3>
+              <p className="text-small text-muted mb-2">
+                Per-member limits checked before a booking is made. Leave a field
+                empty for no limit. Weekly hours count bookings starting Monday
+                to Sunday.
+              </p>
+
+              <div className="grid grid-2">
+                <div className="form-group">
+                  <label className="form-label">Max Hours per Week</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min="1"
+                    max="168"
+                    value={maxHoursPerWeek}
+                    onChange={(e) => setMaxHoursPerWeek(e.target.value)}
+                    placeholder="No limit"
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label className="form-label">Max Upcoming Reservations</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min="1"
+                    value={maxActiveReservations}
+                    onChange={(e) => setMaxActiveReservations(e.target.value)}
+                    placeholder="No limit"
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label className="form-label">Book At Most (days ahead)</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min="1"
+                    max="365"
+                    value={maxAdvanceDays}
+                    onChange={(e) => setMaxAdvanceDays(e.target.value)}
+                    placeholder="No limit"
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label className="form-label">Minimum Notice (minutes)</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min="0"
+                    value={minNoticeMinutes}
+                    onChange={(e) => setMinNoticeMinutes(e.target.value)}
+                    placeholder="No limit"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="card mb-3">
+              <h3 className="card-title mb-2">Checkout Expiry</h3>
+              <p className="text-small text-muted mb-2">
+                Checkouts can lapse after a set time. Members are warned 30 days
+                before expiry, when the refresher module becomes due again; an
+                expired checkout must be renewed by a manager.
+              </p>
+
+              <div className="grid grid-2">
+                <div className="form-group">
+                  <label className="form-label">Valid For (months)</label>
+                  <input
+                    type="number"
+                    className="form-input"
+                    min="1"
+                    value={validityMonths}
+                    onChange={(e) => setValidityMonths(e.target.value)}
+                    placeholder="Leave empty to never expire"
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label className="form-label">Refresher Module</label>
+                  <select
+                    className="form-input"
+                    value={refresherModuleId}
+                    onChange={(e) => setRefresherModuleId(e.target.value)}
+                  >
+                    <option value="">None</option>
+                    {modules.map((module) => (
+                      <option key={module.id} value={module.id}>
+                        {module.title}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+
+            <div className="card mb-3">
+              <h3 className="card-title mb-2">Opening Hours</h3>
+              <p className="text-small text-muted mb-2">
+                Weekly hours the native scheduler offers slots in.
+                {schedulingProvider !== 'native' &&
+                  ' Not used while Cal.com handles scheduling.'}
+              </p>
+
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Open</th>
+                    <th>Day</th>
+                    <th>Opens</th>
+                    <th>Closes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {openingHours.map((hours) => (
+                    <tr key={hours.dayOfWeek}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={hours.open}
+                          onChange={(e) =>
+                            updateOpeningHours(hours.dayOfWeek, { open: e.target.checked })
+                          }
+                        />
+                      </td>
+                      <td>{DAY_NAMES[hours.dayOfWeek]}</td>
+                      <td>
+                        {hours.open && (
+                          <input
+                            type="time"
+                            className="form-input"
+                            style={{ width: '130px' }}
+                            value={hours.opensAt}
+                            onChange={(e) =>
+                              updateOpeningHours(hours.dayOfWeek, { opensAt: e.target.value })
+                            }
+                            required
+                          />
+                        )}
+                      </td>
+                      <td>
+                        {hours.open && (
+                          <input
+                            type="time"
+                            className="form-input"
+                            style={{ width: '130px' }}
+                            value={hours.closesAt}
+                            onChange={(e) =>
+                              updateOpeningHours(hours.dayOfWeek, { closesAt: e.target.value })
+                            }
+                            required
+                          />
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="card mb-3">
+              <h3 className="card-title mb-2">Requirements</h3>
+              <p className="text-small text-muted mb-2">
+                What a member needs before a manager can check them out on this
+                machine: training modules watched to a minimum percentage (and
+                their quiz passed), or a checkout on another machine. Use an
+                "any one of" group for alternatives; exempt roles count a
+                requirement as met.
+                {categoryId &&
+                  ` Members also need the ${categories.find((c) => c.id === categoryId)?.name} category's requirements.`}
+              </p>
+
+              <RequirementRuleEditor
+                rule={requirementRule}
+                onChange={setRequirementRule}
+                modules={modules}
+                machines={otherMachines}
+              />
             </div>
 
             <div className="flex gap-2">
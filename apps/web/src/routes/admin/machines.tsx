@@ -12,6 +12,7 @@ const getAdminMachinesData = createServerFn({ method: 'GET' }).handler(async ()
 
   const machineList = await db.query.machines.findMany({
     with: {
+      category: true,
       requirements: {
         with: {
           module: true,
@@ -61,7 +62,10 @@ function AdminMachinesPage() {
       })
 
       if (result.success && result.machine) {
-        setMachineList((prev) => [...prev, { ...result.machine, requirements: [] }])
+        setMachineList((prev) => [
+          ...prev,
+          { ...result.machine, category: null, requirements: [] },
+        ])
         setNewName('')
         setNewDescription('')
         setNewCalcomId('')
@@ -98,12 +102,17 @@ function AdminMachinesPage() {
         <div className="container">
           <div className="flex flex-between flex-center mb-3">
             <h1>Manage Machines</h1>
-            <button
-              className="btn btn-primary"
-              onClick={() => setShowCreate(!showCreate)}
-            >
-              {showCreate ? 'Cancel' : 'Add Machine'}
-            </button>
+            <div className="flex gap-1">
+              <Link to="/admin/categories" className="btn btn-secondary">
+                Categories
+              </Link>
+              <button
+                className="btn btn-primary"
+                onClick={() => setShowCreate(!showCreate)}
+              >
+                {showCreate ? 'Cancel' : 'Add Machine'}
+              </button>
+            </div>
           </div>
 
           {/* Create Form */}
@@ -164,13 +173,38 @@ function AdminMachinesPage() {
                   <p className="text-small text-muted mb-2">{machine.description}</p>
                 )}
 
+                {machine.category && (
+                  <div className="text-small mb-2">
+                    <strong>Category:</strong>{' '}
+                    <Link
+                      to="/admin/categories/$categoryId"
+                      params={{ categoryId: machine.category.id }}
+                    >
+                      {machine.category.name}
+                    </Link>
+                  </div>
+                )}
+
                 <div className="text-small mb-2">
                   <strong>Cal.com Event Type:</strong>{' '}
                   {machine.calcomEventTypeId || 'Not configured'}
                 </div>
 
+                <div className="text-small mb-2">
+                  <strong>Booking Length:</strong>{' '}
+                  {machine.minBookingMinutes === machine.maxBookingMinutes
+                    ? `${machine.minBookingMinutes} min`
+                    : `${machine.minBookingMinutes}–${machine.maxBookingMinutes} min`}{' '}
+                  in {machine.slotMinutes}-minute slots
+                </div>
+
                 <div className="mb-2">
                   <strong className="text-small">Training Requirements:</strong>
+                  {machine.requirementRule && (
+                    <span className="badge badge-info" style={{ marginLeft: '0.5rem' }}>
+                      Custom rule
+                    </span>
+                  )}
                   {machine.requirements.length > 0 ? (
                     <ul className="eligibility-list">
                       {machine.requirements.map((req) => (
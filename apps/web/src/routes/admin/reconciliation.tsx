@@ -0,0 +1,209 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { createServerFn } from '@tanstack/react-start'
+import { useState } from 'react'
+import { requireAdmin } from '~/server/auth/middleware'
+import type { ReconciliationKind } from '~/lib/db'
+import { Header } from '~/components/Header'
+import {
+  dismissReconciliation,
+  getReconciliationReport,
+  runReconciliation,
+} from '~/server/api/admin'
+
+const KIND_LABELS: Record<ReconciliationKind, string> = {
+  cancel_not_sent: 'Cancel not sent',
+  orphaned_booking: 'Orphaned booking',
+  unknown_booking: 'Booked outside the app',
+  cancelled_at_provider: 'Cancelled at provider',
+  time_changed: 'Moved at provider',
+  missing_at_provider: 'Missing at provider',
+}
+
+const STATUS_BADGES: Record<string, string> = {
+  fixed: 'badge-success',
+  resolved: 'badge-info',
+  dismissed: 'badge-warning',
+}
+
+const getReconciliationPageData = createServerFn({ method: 'GET' }).handler(async () => {
+  const user = await requireAdmin()
+  return { user }
+})
+
+export const Route = createFileRoute('/admin/reconciliation')({
+  component: ReconciliationPage,
+  loader: async () => {
+    const [pageData, report] = await Promise.all([
+      getReconciliationPageData(),
+      getReconciliationReport(),
+    ])
+    return { ...pageData, ...report }
+  },
+})
+
+function ReconciliationPage() {
+  const { user, open: initialOpen, recent: initialRecent } = Route.useLoaderData()
+  const [open, setOpen] = useState(initialOpen)
+  const [recent, setRecent] = useState(initialRecent)
+  const [running, setRunning] = useState(false)
+  const [dismissing, setDismissing] = useState<string | null>(null)
+
+  const loadReport = async () => {
+    const report = await getReconciliationReport()
+    setOpen(report.open)
+    setRecent(report.recent)
+  }
+
+  const handleRun = async () => {
+    setRunning(true)
+
+    try {
+      const result = await runReconciliation()
+
+      if (result.success) {
+        await loadReport()
+        alert(
+          `Checked ${result.machines} machines: ${result.fixed} fixed, ${result.open} need attention`
+        )
+      } else {
+        alert(result.error || 'Reconciliation failed')
+      }
+    } catch (error) {
+      alert('An error occurred')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const handleDismiss = async (findingId: string) => {
+    if (!confirm('Dismiss this finding? It stays dismissed while the drift persists.')) return
+
+    setDismissing(findingId)
+
+    try {
+      const result = await dismissReconciliation({ data: { findingId } })
+
+      if (result.success) {
+        await loadReport()
+      } else {
+        alert(result.error || 'Failed to dismiss')
+      }
+    } catch (error) {
+      alert('An error occurred')
+    } finally {
+      setDismissing(null)
+    }
+  }
+
+  const formatTimestamp = (date: Date) => {
+    return new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
+  return (
+    <div>
+      <Header user={user} />
+
+      <main className="main">
+        <div className="container">
+          <div className="flex flex-between flex-center mb-3">
+            <h1>Booking Reconciliation</h1>
+            <button onClick={handleRun} className="btn btn-primary" disabled={running}>
+              {running ? 'Checking...' : 'Run Now'}
+            </button>
+          </div>
+
+          <p className="text-small text-muted mb-2">
+            Every 15 minutes reservations are compared with the scheduling provider's
+            bookings. Drift that only needs one side brought in line is fixed
+            automatically; the rest is listed here.
+          </p>
+
+          <div className="card mb-3">
+            <h3 className="card-title mb-2">Needs Attention</h3>
+            {open.length > 0 ? (
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Machine</th>
+                    <th>Problem</th>
+                    <th>Details</th>
+                    <th>Seen</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {open.map((finding) => (
+                    <tr key={finding.id}>
+                      <td>{finding.machine.name}</td>
+                      <td>
+                        <span className="badge badge-danger">{KIND_LABELS[finding.kind]}</span>
+                      </td>
+                      <td className="text-small">
+                        {finding.detail}
+                        <div className="text-muted">Booking {finding.bookingUid}</div>
+                      </td>
+                      <td className="text-small">
+                        {formatTimestamp(finding.firstSeenAt)}
+                        {finding.lastSeenAt > finding.firstSeenAt &&
+                          ` – ${formatTimestamp(finding.lastSeenAt)}`}
+                      </td>
+                      <td>
+                        <button
+                          onClick={() => handleDismiss(finding.id)}
+                          className="btn btn-secondary"
+                          disabled={dismissing === finding.id}
+                        >
+                          Dismiss
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-small text-muted">Reservations and provider bookings agree.</p>
+            )}
+          </div>
+
+          {recent.length > 0 && (
+            <div className="card">
+              <h3 className="card-title mb-2">Last 7 Days</h3>
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Machine</th>
+                    <th>Problem</th>
+                    <th>Details</th>
+                    <th>Outcome</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {recent.map((finding) => (
+                    <tr key={finding.id}>
+                      <td>{finding.machine.name}</td>
+                      <td className="text-small">{KIND_LABELS[finding.kind]}</td>
+                      <td className="text-small">{finding.detail}</td>
+                      <td className="text-small">
+                        <span className={`badge ${STATUS_BADGES[finding.status] ?? 'badge-info'}`}>
+                          {finding.status}
+                        </span>
+                        {finding.resolvedAt && (
+                          <div className="text-muted">{formatTimestamp(finding.resolvedAt)}</div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
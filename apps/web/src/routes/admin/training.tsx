@@ -7,6 +7,7 @@ import { db, trainingModules } from '~/lib/db'
 import { Header } from '~/components/Header'
 import { createTrainingModule, updateTrainingModule } from '~/server/api/admin'
 import { YouTubePreview } from '~/components/YouTubePreview'
+import { QuizEditor } from '~/components/QuizEditor'
 import { formatDuration, normalizeYouTubeId } from '~/lib/youtube'
 
 const getAdminTrainingData = createServerFn({ method: 'GET' }).handler(async () => {
@@ -20,10 +21,19 @@ const getAdminTrainingData = createServerFn({ method: 'GET' }).handler(async ()
           machine: true,
         },
       },
+      quizQuestions: {
+        columns: { id: true },
+      },
     },
   })
 
-  return { user, modules: moduleList }
+  return {
+    user,
+    modules: moduleList.map(({ quizQuestions, ...module }) => ({
+      ...module,
+      quizQuestionCount: quizQuestions.length,
+    })),
+  }
 })
 
 export const Route = createFileRoute('/admin/training')({
@@ -38,6 +48,7 @@ function AdminTrainingPage() {
   const [moduleList, setModuleList] = useState(initialModules)
   const [showCreate, setShowCreate] = useState(false)
   const [editingId, setEditingId] = useState<string | null>(null)
+  const [quizModuleId, setQuizModuleId] = useState<string | null>(null)
   const [saving, setSaving] = useState(false)
   const [createError, setCreateError] = useState<string | null>(null)
   const [editError, setEditError] = useState<string | null>(null)
@@ -182,6 +193,7 @@ function AdminTrainingPage() {
             {
               ...result.module,
               requirements: [],
+              quizQuestionCount: 0,
             },
           ])
         )
@@ -504,6 +516,14 @@ function AdminTrainingPage() {
                       <button className="btn btn-secondary" onClick={() => startEdit(module)}>
                         Edit
                       </button>
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() =>
+                          setQuizModuleId(quizModuleId === module.id ? null : module.id)
+                        }
+                      >
+                        Quiz
+                      </button>
                       <button
                         className={`btn ${module.active ? 'btn-danger' : 'btn-success'}`}
                         onClick={() => handleToggleActive(module.id, !module.active)}
@@ -522,8 +542,45 @@ function AdminTrainingPage() {
                         ? machineNames.join(', ')
                         : 'No machines'}
                     </div>
+                    <div>
+                      Quiz:{' '}
+                      {module.quizQuestionCount > 0
+                        ? `${module.quizQuestionCount} questions, pass at ${module.quizPassPercent}%`
+                        : 'None'}
+                    </div>
                   </div>
 
+                  {quizModuleId === module.id && (
+                    <div
+                      style={{
+                        borderTop: '1px solid #e0e0e0',
+                        marginTop: '1rem',
+                        paddingTop: '1rem',
+                      }}
+                    >
+                      <h4 className="card-title mb-2">Knowledge Quiz</h4>
+                      <QuizEditor
+                        moduleId={module.id}
+                        onSaved={(questionCount, passPercent) => {
+                          setModuleList((prev) =>
+                            prev.map((m) =>
+                              m.id === module.id
+                                ? {
+                                    ...m,
+                                    quizQuestionCount: questionCount,
+                                    quizPassPercent: passPercent,
+                                  }
+                                : m
+                            )
+                          )
+                          setQuizModuleId(null)
+                          setSuccessMessage('Quiz saved.')
+                        }}
+                        onClose={() => setQuizModuleId(null)}
+                      />
+                    </div>
+                  )}
+
                   {editingId === module.id && (
                     <div
                       style={{
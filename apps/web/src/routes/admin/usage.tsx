@@ -0,0 +1,318 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { createServerFn } from '@tanstack/react-start'
+import { useState } from 'react'
+import { requireManager } from '~/server/auth/middleware'
+import { Header } from '~/components/Header'
+import {
+  getMachineUsage,
+  markReservationNoShow,
+  excuseReservationNoShow,
+} from '~/server/api/admin'
+import { checkInReservation, checkOutReservation } from '~/server/api/reservations'
+
+const NO_SHOW_SOURCES: Record<string, string> = {
+  missed_check_in: 'Missed check-in',
+  manager: 'Manager',
+  calcom: 'Cal.com',
+}
+
+const getUsagePageData = createServerFn({ method: 'GET' }).handler(async () => {
+  const user = await requireManager()
+  return { user }
+})
+
+export const Route = createFileRoute('/admin/usage')({
+  component: MachineUsagePage,
+  loader: async () => {
+    const [{ user }, usage] = await Promise.all([
+      getUsagePageData(),
+      getMachineUsage({ data: {} }),
+    ])
+    return { user, usage }
+  },
+})
+
+function MachineUsagePage() {
+  const { user, usage: initialUsage } = Route.useLoaderData()
+  const [usage, setUsage] = useState(initialUsage)
+  const [machineId, setMachineId] = useState('')
+  const [checking, setChecking] = useState<string | null>(null)
+
+  const loadUsage = async (selectedMachineId: string) => {
+    try {
+      const result = await getMachineUsage({
+        data: { machineId: selectedMachineId || undefined },
+      })
+      setUsage(result)
+    } catch (error) {
+      alert('Failed to load usage')
+    }
+  }
+
+  const handleMachineChange = (selectedMachineId: string) => {
+    setMachineId(selectedMachineId)
+    loadUsage(selectedMachineId)
+  }
+
+  const handleCheck = async (reservationId: string, action: 'in' | 'out') => {
+    setChecking(reservationId)
+
+    try {
+      const result =
+        action === 'in'
+          ? await checkInReservation({ data: { reservationId } })
+          : await checkOutReservation({ data: { reservationId } })
+
+      if (result.success) {
+        await loadUsage(machineId)
+      } else {
+        alert(result.error || `Failed to check ${action}`)
+      }
+    } catch (error) {
+      alert('An error occurred')
+    } finally {
+      setChecking(null)
+    }
+  }
+
+  const handleNoShow = async (reservationId: string, action: 'mark' | 'excuse') => {
+    const message =
+      action === 'mark'
+        ? 'Mark this reservation as a no-show? Repeated no-shows block the member from booking.'
+        : 'Excuse this no-show? It will no longer count toward a booking block.'
+    if (!confirm(message)) return
+
+    setChecking(reservationId)
+
+    try {
+      const result =
+        action === 'mark'
+          ? await markReservationNoShow({ data: { reservationId } })
+          : await excuseReservationNoShow({ data: { reservationId } })
+
+      if (result.success) {
+        await loadUsage(machineId)
+      } else {
+        alert(result.error || 'Failed to update reservation')
+      }
+    } catch (error) {
+      alert('An error occurred')
+    } finally {
+      setChecking(null)
+    }
+  }
+
+  const formatDateTime = (date: Date) => {
+    return new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
+  const formatHours = (minutes: number) => {
+    return `${(minutes / 60).toFixed(1)} h`
+  }
+
+  const meters = machineId
+    ? usage.machines.filter((machine) => machine.id === machineId)
+    : usage.machines
+
+  return (
+    <div>
+      <Header user={user} />
+
+      <main className="main">
+        <div className="container">
+          <div className="flex flex-between flex-center mb-3">
+            <h1>Machine Usage</h1>
+            <select
+              className="form-input"
+              style={{ maxWidth: '240px' }}
+              value={machineId}
+              onChange={(e) => handleMachineChange(e.target.value)}
+            >
+              <option value="">All machines</option>
+              {usage.machines.map((machine) => (
+                <option key={machine.id} value={machine.id}>
+                  {machine.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <h2 className="mb-2">Right Now</h2>
+          {usage.current.length > 0 ? (
+            <div className="card mb-3">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Machine</th>
+                    <th>Member</th>
+                    <th>Booked</th>
+                    <th>Status</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usage.current.map((reservation) => (
+                    <tr key={reservation.id}>
+                      <td>{reservation.machine.name}</td>
+                      <td className="text-small">
+                        {reservation.user.name || reservation.user.email}
+                      </td>
+                      <td className="text-small">
+                        {formatDateTime(reservation.startTime)} –{' '}
+                        {formatDateTime(reservation.endTime)}
+                      </td>
+                      <td>
+                        {reservation.checkedInAt ? (
+                          <span className="badge badge-info">In Use</span>
+                        ) : (
+                          <span className="badge badge-warning">Not Checked In</span>
+                        )}
+                      </td>
+                      <td>
+                        {reservation.checkedInAt ? (
+                          <button
+                            className="btn btn-primary"
+                            onClick={() => handleCheck(reservation.id, 'out')}
+                            disabled={checking === reservation.id}
+                          >
+                            Check Out
+                          </button>
+                        ) : (
+                          <div className="flex gap-1">
+                            <button
+                              className="btn btn-success"
+                              onClick={() => handleCheck(reservation.id, 'in')}
+                              disabled={checking === reservation.id}
+                            >
+                              Check In
+                            </button>
+                            {new Date(reservation.startTime) <= new Date() && (
+                              <button
+                                className="btn btn-secondary"
+                                onClick={() => handleNoShow(reservation.id, 'mark')}
+                                disabled={checking === reservation.id}
+                              >
+                                No-Show
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="card mb-3">
+              <p className="text-center text-muted">No reservations are starting or running.</p>
+            </div>
+          )}
+
+          <h2 className="mb-2">Recent No-Shows</h2>
+          {usage.noShows.length > 0 ? (
+            <div className="card mb-3">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Machine</th>
+                    <th>Member</th>
+                    <th>Booked</th>
+                    <th>Recorded By</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usage.noShows.map((reservation) => (
+                    <tr key={reservation.id}>
+                      <td>{reservation.machine.name}</td>
+                      <td className="text-small">
+                        {reservation.user.name || reservation.user.email}
+                      </td>
+                      <td className="text-small">{formatDateTime(reservation.startTime)}</td>
+                      <td className="text-small">
+                        {NO_SHOW_SOURCES[reservation.noShowSource ?? ''] ?? '—'}
+                      </td>
+                      <td>
+                        <button
+                          className="btn btn-secondary"
+                          onClick={() => handleNoShow(reservation.id, 'excuse')}
+                          disabled={checking === reservation.id}
+                        >
+                          Excuse
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="card mb-3">
+              <p className="text-center text-muted">No no-shows recorded.</p>
+            </div>
+          )}
+
+          <h2 className="mb-2">Hour Meters</h2>
+          <div className="grid grid-3 mb-3">
+            {meters.map((machine) => (
+              <div key={machine.id} className="card">
+                <h3 className="card-title">{machine.name}</h3>
+                <p className="text-muted text-small">
+                  {formatHours(machine.usageMinutes)} recorded use
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <h2 className="mb-2">Usage Log</h2>
+          {usage.log.length > 0 ? (
+            <div className="card">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Machine</th>
+                    <th>Member</th>
+                    <th>Checked In</th>
+                    <th>Checked Out</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usage.log.map((entry) => (
+                    <tr key={entry.id}>
+                      <td>{entry.machine.name}</td>
+                      <td className="text-small">
+                        <div>{entry.user.name || entry.user.email}</div>
+                        {entry.user.name && (
+                          <div className="text-muted">{entry.user.email}</div>
+                        )}
+                      </td>
+                      <td className="text-small">{formatDateTime(entry.checkedInAt!)}</td>
+                      <td className="text-small">
+                        {entry.checkedOutAt ? (
+                          formatDateTime(entry.checkedOutAt)
+                        ) : (
+                          <span className="badge badge-info">In Use</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-small text-muted mt-1">Showing the 100 most recent sessions.</p>
+            </div>
+          ) : (
+            <div className="card">
+              <p className="text-center text-muted">No recorded usage yet.</p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,203 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { createServerFn } from '@tanstack/react-start'
+import { Fragment, useState } from 'react'
+import { requireAdmin } from '~/server/auth/middleware'
+import type { WebhookDeliveryStatus } from '~/lib/db'
+import { Header } from '~/components/Header'
+import { getWebhookDeliveries, reprocessWebhook } from '~/server/api/admin'
+
+const STATUSES: WebhookDeliveryStatus[] = ['processing', 'processed', 'failed', 'rejected']
+
+const STATUS_BADGES: Record<WebhookDeliveryStatus, string> = {
+  processing: 'badge-info',
+  processed: 'badge-success',
+  failed: 'badge-danger',
+  rejected: 'badge-warning',
+}
+
+const getWebhooksPageData = createServerFn({ method: 'GET' }).handler(async () => {
+  const user = await requireAdmin()
+  return { user }
+})
+
+export const Route = createFileRoute('/admin/webhooks')({
+  component: WebhooksPage,
+  loader: async () => {
+    const [pageData, { deliveries }] = await Promise.all([
+      getWebhooksPageData(),
+      getWebhookDeliveries({ data: {} }),
+    ])
+    return { ...pageData, deliveries }
+  },
+})
+
+function WebhooksPage() {
+  const { user, deliveries: initialDeliveries } = Route.useLoaderData()
+  const [deliveries, setDeliveries] = useState(initialDeliveries)
+  const [status, setStatus] = useState<WebhookDeliveryStatus | ''>('')
+  const [loading, setLoading] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [reprocessing, setReprocessing] = useState<string | null>(null)
+
+  const loadDeliveries = async (nextStatus: WebhookDeliveryStatus | '') => {
+    setStatus(nextStatus)
+    setLoading(true)
+
+    try {
+      const result = await getWebhookDeliveries({ data: { status: nextStatus || undefined } })
+      setDeliveries(result.deliveries)
+    } catch (error) {
+      alert('Failed to load webhook deliveries')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleReprocess = async (deliveryId: string) => {
+    if (!confirm('Run this delivery through the webhook handler again?')) return
+
+    setReprocessing(deliveryId)
+
+    try {
+      const result = await reprocessWebhook({ data: { deliveryId } })
+
+      if (!result.success) {
+        alert(result.error || 'Reprocessing failed')
+      }
+
+      await loadDeliveries(status)
+    } catch (error) {
+      alert('An error occurred')
+    } finally {
+      setReprocessing(null)
+    }
+  }
+
+  const formatTimestamp = (date: Date) => {
+    return new Date(date).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+  }
+
+  return (
+    <div>
+      <Header user={user} />
+
+      <main className="main">
+        <div className="container">
+          <div className="flex flex-between flex-center mb-3">
+            <h1>Webhook Deliveries</h1>
+            <select
+              className="form-input"
+              style={{ width: 'auto' }}
+              value={status}
+              disabled={loading}
+              onChange={(e) => loadDeliveries(e.target.value as WebhookDeliveryStatus | '')}
+            >
+              <option value="">All statuses</option>
+              {STATUSES.map((s) => (
+                <option key={s} value={s}>
+                  {s}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <p className="text-small text-muted mb-2">
+            Every webhook received from Cal.com, newest first (the 200 most recent).
+            Failed deliveries can be reprocessed, which runs the handler again.
+            Processed ones can't, since replaying an old event would undo later
+            changes, and neither can refused ones.
+          </p>
+
+          {deliveries.length > 0 ? (
+            <div className="card">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Received</th>
+                    <th>Event</th>
+                    <th>Status</th>
+                    <th>Error</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {deliveries.map((delivery) => (
+                    <Fragment key={delivery.id}>
+                      <tr>
+                        <td className="text-small">{formatTimestamp(delivery.receivedAt)}</td>
+                        <td className="text-small">
+                          <div>{delivery.triggerEvent ?? 'unknown'}</div>
+                          <div className="text-muted">{delivery.provider}</div>
+                        </td>
+                        <td>
+                          <span className={`badge ${STATUS_BADGES[delivery.status]}`}>
+                            {delivery.status}
+                          </span>
+                          {delivery.attempts > 1 && (
+                            <div className="text-small text-muted">
+                              {delivery.attempts} attempts
+                            </div>
+                          )}
+                        </td>
+                        <td className="text-small">{delivery.error ?? ''}</td>
+                        <td>
+                          <div className="flex gap-1">
+                            <button
+                              className="btn btn-secondary"
+                              onClick={() =>
+                                setExpandedId(expandedId === delivery.id ? null : delivery.id)
+                              }
+                            >
+                              {expandedId === delivery.id ? 'Hide' : 'Details'}
+                            </button>
+                            {delivery.retryable && (
+                              <button
+                                className="btn btn-primary"
+                                onClick={() => handleReprocess(delivery.id)}
+                                disabled={reprocessing === delivery.id}
+                              >
+                                {reprocessing === delivery.id ? 'Running...' : 'Reprocess'}
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                      {expandedId === delivery.id && (
+                        <tr>
+                          <td colSpan={5}>
+                            <div className="grid grid-2">
+                              <div>
+                                <h4 className="text-small mb-1">Headers</h4>
+                                <pre className="text-small" style={{ whiteSpace: 'pre-wrap' }}>{delivery.headers}</pre>
+                                <h4 className="text-small mt-2 mb-1">Result</h4>
+                                <pre className="text-small" style={{ whiteSpace: 'pre-wrap' }}>{delivery.result ?? '—'}</pre>
+                              </div>
+                              <div>
+                                <h4 className="text-small mb-1">Body</h4>
+                                <pre className="text-small" style={{ whiteSpace: 'pre-wrap' }}>{delivery.body}</pre>
+                              </div>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <div className="card">
+              <p className="text-center text-muted">No webhook deliveries.</p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,46 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { requireAdmin } from '~/server/auth'
+import {
+  auditEventsToCsv,
+  auditFilterSchema,
+  listAuditEvents,
+} from '~/server/services/audit'
+
+const EXPORT_LIMIT = 10000
+
+export const Route = createFileRoute('/api/audit/export')({
+  server: {
+    handlers: {
+      GET: async ({ request }) => {
+        try {
+          await requireAdmin()
+        } catch (error) {
+          if (error instanceof Response) return error
+          throw error
+        }
+
+        const params = Object.fromEntries(
+          [...new URL(request.url).searchParams].filter(([, value]) => value !== '')
+        )
+        const filter = auditFilterSchema.safeParse(params)
+
+        if (!filter.success) {
+          return Response.json(
+            { success: false, error: 'Invalid filter' },
+            { status: 400 }
+          )
+        }
+
+        const events = await listAuditEvents(filter.data, EXPORT_LIMIT)
+        const date = new Date().toISOString().slice(0, 10)
+
+        return new Response(auditEventsToCsv(events), {
+          headers: {
+            'Content-Type': 'text/csv; charset=utf-8',
+            'Content-Disposition': `attachment; filename="audit-${date}.csv"`,
+          },
+        })
+      },
+    },
+  },
+})
@@ -0,0 +1,47 @@
+import { createFileRoute } from '@tanstack/react-router'
+import {
+  SESSION_DURATION_MS,
+  clearOidcStateCookie,
+  createSessionCookie,
+  getOidcAuthService,
+  parseOidcStateCookie,
+} from '~/server/auth'
+
+export const Route = createFileRoute('/api/auth/oidc/callback')({
+  server: {
+    handlers: {
+      GET: async ({ request }) => {
+        const oidc = getOidcAuthService()
+        if (!oidc) {
+          return Response.json(
+            { success: false, error: 'Single sign-on is not enabled' },
+            { status: 404 }
+          )
+        }
+
+        const headers = new Headers()
+        headers.append('Set-Cookie', clearOidcStateCookie())
+
+        try {
+          const user = await oidc.completeAuthorization(
+            new URL(request.url).searchParams,
+            parseOidcStateCookie(request.headers.get('cookie'))
+          )
+          const token = await oidc.createSession(user.id)
+
+          headers.append(
+            'Set-Cookie',
+            createSessionCookie(token, Math.floor(SESSION_DURATION_MS / 1000))
+          )
+          headers.set('Location', '/')
+        } catch (error) {
+          console.error('OIDC callback error:', error)
+          const message = error instanceof Error ? error.message : 'Sign-in failed'
+          headers.set('Location', `/login?error=${encodeURIComponent(message)}`)
+        }
+
+        return new Response(null, { status: 302, headers })
+      },
+    },
+  },
+})
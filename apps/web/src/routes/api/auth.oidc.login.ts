@@ -0,0 +1,36 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { createOidcStateCookie, getOidcAuthService } from '~/server/auth'
+
+export const Route = createFileRoute('/api/auth/oidc/login')({
+  server: {
+    handlers: {
+      GET: async () => {
+        const oidc = getOidcAuthService()
+        if (!oidc) {
+          return Response.json(
+            { success: false, error: 'Single sign-on is not enabled' },
+            { status: 404 }
+          )
+        }
+
+        try {
+          const { url, loginState } = await oidc.createAuthorizationRequest()
+          return new Response(null, {
+            status: 302,
+            headers: {
+              Location: url,
+              'Set-Cookie': createOidcStateCookie(loginState),
+            },
+          })
+        } catch (error) {
+          console.error('OIDC login error:', error)
+          const message = encodeURIComponent('The identity provider is unavailable')
+          return new Response(null, {
+            status: 302,
+            headers: { Location: `/login?error=${message}` },
+          })
+        }
+      },
+    },
+  },
+})
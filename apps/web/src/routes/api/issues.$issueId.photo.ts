@@ -0,0 +1,37 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { requireAuth } from '~/server/auth'
+import { getIssue, readIssuePhoto } from '~/server/services/issues'
+
+export const Route = createFileRoute('/api/issues/$issueId/photo')({
+  server: {
+    handlers: {
+      GET: async ({ params }) => {
+        let user
+        try {
+          user = await requireAuth()
+        } catch (error) {
+          if (error instanceof Response) return error
+          throw error
+        }
+
+        const issue = await getIssue(params.issueId).catch(() => undefined)
+
+        // Photos are visible to managers and to the member who reported the issue
+        const canView = issue && (user.role !== 'member' || issue.reportedBy === user.id)
+        const photo = canView ? await readIssuePhoto(issue) : null
+
+        if (!photo) {
+          return Response.json({ success: false, error: 'Photo not found' }, { status: 404 })
+        }
+
+        return new Response(new Uint8Array(photo.data), {
+          headers: {
+            'Content-Type': photo.contentType,
+            'Cache-Control': 'private, max-age=3600',
+            'X-Content-Type-Options': 'nosniff',
+          },
+        })
+      },
+    },
+  },
+})
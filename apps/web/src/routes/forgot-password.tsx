@@ -0,0 +1,90 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useState } from 'react'
+import { requestPasswordReset } from '~/server/api/auth'
+
+export const Route = createFileRoute('/forgot-password')({
+  component: ForgotPasswordPage,
+})
+
+function ForgotPasswordPage() {
+  const [email, setEmail] = useState('')
+  const [error, setError] = useState('')
+  const [sent, setSent] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setLoading(true)
+
+    try {
+      const result = await requestPasswordReset({ data: { email } })
+
+      if (result.success) {
+        setSent(true)
+      } else {
+        setError(result.error || 'Request failed')
+      }
+    } catch (err) {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="landing">
+      <header className="header">
+        <div className="container header-inner">
+          <a href="/" className="logo">
+            Training System
+          </a>
+        </div>
+      </header>
+
+      <div className="hero">
+        <div className="card" style={{ width: '100%', maxWidth: '400px' }}>
+          <h2 className="mb-2">Reset Password</h2>
+
+          {error && <div className="alert alert-danger">{error}</div>}
+
+          {sent ? (
+            <div className="alert alert-success">
+              If an account exists for {email}, we've sent a link to reset its password.
+              The link expires in one hour.
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <p className="text-small text-muted mb-2">
+                Enter your account's email address and we'll send you a link to choose a
+                new password.
+              </p>
+
+              <div className="form-group">
+                <label htmlFor="email" className="form-label">
+                  Email
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  className="form-input"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+
+              <button type="submit" className="btn btn-primary" disabled={loading} style={{ width: '100%' }}>
+                {loading ? 'Sending...' : 'Send Reset Link'}
+              </button>
+            </form>
+          )}
+
+          <p className="text-center mt-2 text-small">
+            <a href="/login">Back to sign in</a>
+          </p>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,16 +1,23 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useState } from 'react'
-import { login } from '~/server/api/auth'
+import { login, getLoginOptions } from '~/server/api/auth'
 
 export const Route = createFileRoute('/login')({
   component: LoginPage,
+  // Single sign-on failures come back from the callback route as ?error=
+  validateSearch: (search: Record<string, unknown>): { error?: string } => ({
+    error: typeof search.error === 'string' ? search.error : undefined,
+  }),
+  loader: () => getLoginOptions(),
 })
 
 function LoginPage() {
   const navigate = useNavigate()
+  const { sso, ssoName } = Route.useLoaderData()
+  const search = Route.useSearch()
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
-  const [error, setError] = useState('')
+  const [error, setError] = useState(search.error || '')
   const [loading, setLoading] = useState(false)
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -52,43 +59,56 @@ function LoginPage() {
 
           {error && <div className="alert alert-danger">{error}</div>}
 
-          <form onSubmit={handleSubmit}>
-            <div className="form-group">
-              <label htmlFor="email" className="form-label">
-                Email
-              </label>
-              <input
-                id="email"
-                type="email"
-                className="form-input"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-              />
-            </div>
+          {sso ? (
+            <a href="/api/auth/oidc/login" className="btn btn-primary" style={{ width: '100%' }}>
+              Sign in with {ssoName}
+            </a>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <div className="form-group">
+                <label htmlFor="email" className="form-label">
+                  Email
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  className="form-input"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
 
-            <div className="form-group">
-              <label htmlFor="password" className="form-label">
-                Password
-              </label>
-              <input
-                id="password"
-                type="password"
-                className="form-input"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-              />
-            </div>
+              <div className="form-group">
+                <label htmlFor="password" className="form-label">
+                  Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  className="form-input"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                />
+              </div>
 
-            <button type="submit" className="btn btn-primary" disabled={loading} style={{ width: '100%' }}>
-              {loading ? 'Signing in...' : 'Sign In'}
-            </button>
-          </form>
+              <button type="submit" className="btn btn-primary" disabled={loading} style={{ width: '100%' }}>
+                {loading ? 'Signing in...' : 'Sign In'}
+              </button>
+            </form>
+          )}
 
-          <p className="text-center mt-2 text-small">
-            Don't have an account? <a href="/register">Register</a>
-          </p>
+          {!sso && (
+            <>
+              <p className="text-center mt-2 text-small">
+                <a href="/forgot-password">Forgot your password?</a>
+              </p>
+              <p className="text-center mt-1 text-small">
+                Don't have an account? <a href="/register">Register</a>
+              </p>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -5,10 +5,25 @@ import { useState } from 'react'
 import { requireAuth } from '~/server/auth/middleware'
 import { db, machines } from '~/lib/db'
 import { checkEligibility } from '~/server/services/eligibility'
-import { calcom } from '~/server/services/calcom'
+import { getSchedulingProvider } from '~/server/services/scheduling'
+import { excludeHeldSlots } from '~/server/services/waitlist'
+import { excludeMaintenanceSlots } from '~/server/services/maintenance'
 import { Header } from '~/components/Header'
 import { AvailabilityPicker } from '~/components/AvailabilityPicker'
+import { WaitlistForm } from '~/components/WaitlistForm'
 import { reserveMachine } from '~/server/api/machines'
+import {
+  previewReservationSeries,
+  createReservationSeries,
+} from '~/server/api/reservations'
+
+type Frequency = '' | 'weekly' | 'biweekly'
+
+interface OccurrencePreview {
+  startTime: string
+  endTime: string
+  conflict: string | null
+}
 
 const getReserveData = createServerFn({ method: 'GET' })
   .inputValidator((data: { machineId: string }) => data)
@@ -30,24 +45,31 @@ const getReserveData = createServerFn({ method: 'GET' })
     }
 
     // Fetch availability for next 14 days
+    const scheduler = getSchedulingProvider()
+    const schedulingConfigured = await scheduler.isConfigured(machine)
+
     let slots: { time: string }[] = []
-    if (machine.calcomEventTypeId) {
-      const startDate = new Date()
+    if (schedulingConfigured) {
+      // Don't offer slots the booking window rules would reject anyway
+      const startDate = new Date(Date.now() + (machine.minNoticeMinutes ?? 0) * 60 * 1000)
       const endDate = new Date()
-      endDate.setDate(endDate.getDate() + 14)
+      endDate.setDate(endDate.getDate() + Math.min(14, machine.maxAdvanceDays ?? 14))
 
       try {
-        slots = await calcom.getAvailability(
-          machine.calcomEventTypeId,
-          startDate,
-          endDate
+        slots = await excludeHeldSlots(
+          machine,
+          await excludeMaintenanceSlots(
+            machine,
+            await scheduler.getAvailability(machine, startDate, endDate)
+          ),
+          user.id
         )
       } catch (error) {
         console.error('Failed to fetch availability:', error)
       }
     }
 
-    return { user, machine, slots }
+    return { user, machine, slots, schedulingConfigured }
   })
 
 export const Route = createFileRoute('/machines/$machineId/reserve')({
@@ -58,29 +80,119 @@ export const Route = createFileRoute('/machines/$machineId/reserve')({
 })
 
 function ReserveMachinePage() {
-  const { user, machine, slots } = Route.useLoaderData()
+  const { user, machine, slots, schedulingConfigured } = Route.useLoaderData()
   const navigate = useNavigate()
   const [selectedSlot, setSelectedSlot] = useState<string | undefined>()
+  const [durationMinutes, setDurationMinutes] = useState(machine.minBookingMinutes)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
+  const [reasons, setReasons] = useState<string[]>([])
+  const [frequency, setFrequency] = useState<Frequency>('')
+  const [until, setUntil] = useState('')
+  const [occurrences, setOccurrences] = useState<OccurrencePreview[] | null>(null)
+
+  const limits = [
+    machine.maxHoursPerWeek !== null &&
+      `Up to ${machine.maxHoursPerWeek} hours per week (Monday to Sunday)`,
+    machine.maxActiveReservations !== null &&
+      `Up to ${machine.maxActiveReservations} upcoming reservation${
+        machine.maxActiveReservations === 1 ? '' : 's'
+      } at a time`,
+    machine.maxAdvanceDays !== null &&
+      `Book at most ${machine.maxAdvanceDays} days ahead`,
+    machine.minNoticeMinutes !== null &&
+      `Book at least ${machine.minNoticeMinutes} minutes before the start`,
+  ].filter((limit): limit is string => !!limit)
+
+  const seriesData = () => ({
+    machineId: machine.id,
+    startTime: new Date(selectedSlot!).toISOString(),
+    durationMinutes,
+    frequency: frequency as 'weekly' | 'biweekly',
+    // Occurrences may start any time on the last day
+    until: new Date(`${until}T23:59:59`).toISOString(),
+  })
+
+  const handlePreviewSeries = async () => {
+    if (!selectedSlot || !frequency || !until) return
+
+    setLoading(true)
+    setError('')
+    setReasons([])
+
+    try {
+      const result = await previewReservationSeries({ data: seriesData() })
+
+      if (result.success && 'occurrences' in result) {
+        setOccurrences(result.occurrences)
+      } else {
+        setError(result.error || 'Failed to check dates')
+        setReasons('reasons' in result ? (result.reasons ?? []) : [])
+      }
+    } catch (err) {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleReserveSeries = async () => {
+    if (!selectedSlot || !frequency || !until) return
+
+    setLoading(true)
+    setError('')
+    setReasons([])
+
+    try {
+      const result = await createReservationSeries({ data: seriesData() })
+
+      if (result.success && 'booked' in result) {
+        if (result.skipped.length > 0) {
+          alert(
+            `Booked ${result.booked.length} occurrences. ${result.skipped.length} could not be booked:\n` +
+              result.skipped
+                .map((o) => `${formatDateTime(o.startTime)}: ${o.conflict}`)
+                .join('\n')
+          )
+        }
+        navigate({ to: '/reservations' })
+      } else {
+        setError(result.error || 'Failed to book the series')
+        setReasons('reasons' in result ? (result.reasons ?? []) : [])
+      }
+    } catch (err) {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatDateTime = (isoString: string) => {
+    return new Date(isoString).toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
+  const bookableCount = occurrences?.filter((o) => !o.conflict).length ?? 0
 
   const handleReserve = async () => {
     if (!selectedSlot) return
 
     setLoading(true)
     setError('')
+    setReasons([])
 
     try {
-      // Calculate end time (assume 1 hour slots)
-      const startTime = new Date(selectedSlot)
-      const endTime = new Date(startTime)
-      endTime.setHours(endTime.getHours() + 1)
-
+      // The server derives the end time from the duration
       const result = await reserveMachine({
         data: {
           machineId: machine.id,
-          startTime: startTime.toISOString(),
-          endTime: endTime.toISOString(),
+          startTime: new Date(selectedSlot).toISOString(),
+          durationMinutes,
         },
       })
 
@@ -88,6 +200,7 @@ function ReserveMachinePage() {
         navigate({ to: '/reservations' })
       } else {
         setError(result.error || 'Failed to create reservation')
+        setReasons('reasons' in result ? (result.reasons ?? []) : [])
       }
     } catch (err) {
       setError('An error occurred. Please try again.')
@@ -114,7 +227,29 @@ function ReserveMachinePage() {
 
           <h1 className="mb-3">Reserve {machine.name}</h1>
 
-          {error && <div className="alert alert-danger mb-2">{error}</div>}
+          {error && (
+            <div className="alert alert-danger mb-2">
+              {error}
+              {reasons.length > 0 && (
+                <ul className="mt-1">
+                  {reasons.map((reason, i) => (
+                    <li key={i}>{reason}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {limits.length > 0 && (
+            <div className="alert alert-info mb-2">
+              <strong>Booking limits for this machine:</strong>
+              <ul className="mt-1">
+                {limits.map((limit, i) => (
+                  <li key={i}>{limit}</li>
+                ))}
+              </ul>
+            </div>
+          )}
 
           <div className="card">
             <h3 className="card-title mb-2">Select a Time Slot</h3>
@@ -124,17 +259,108 @@ function ReserveMachinePage() {
                 <AvailabilityPicker
                   slots={slots}
                   selectedSlot={selectedSlot}
-                  onSelect={setSelectedSlot}
+                  onSelect={(slot) => {
+                    setSelectedSlot(slot)
+                    setOccurrences(null)
+                  }}
+                  slotMinutes={machine.slotMinutes}
+                  minMinutes={machine.minBookingMinutes}
+                  maxMinutes={machine.maxBookingMinutes}
+                  durationMinutes={durationMinutes}
+                  onDurationChange={(minutes) => {
+                    setDurationMinutes(minutes)
+                    setSelectedSlot(undefined)
+                    setOccurrences(null)
+                  }}
                 />
 
+                <div className="grid grid-2 mt-2">
+                  <div className="form-group">
+                    <label className="form-label">Repeat</label>
+                    <select
+                      className="form-input"
+                      value={frequency}
+                      onChange={(e) => {
+                        setFrequency(e.target.value as Frequency)
+                        setOccurrences(null)
+                      }}
+                    >
+                      <option value="">Does not repeat</option>
+                      <option value="weekly">Every week</option>
+                      <option value="biweekly">Every two weeks</option>
+                    </select>
+                  </div>
+
+                  {frequency && (
+                    <div className="form-group">
+                      <label className="form-label">Until</label>
+                      <input
+                        type="date"
+                        className="form-input"
+                        value={until}
+                        onChange={(e) => {
+                          setUntil(e.target.value)
+                          setOccurrences(null)
+                        }}
+                        required
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {occurrences && (
+                  <table className="table mt-2">
+                    <thead>
+                      <tr>
+                        <th>Occurrence</th>
+                        <th>Status</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {occurrences.map((occurrence) => (
+                        <tr key={occurrence.startTime}>
+                          <td className="text-small">{formatDateTime(occurrence.startTime)}</td>
+                          <td className="text-small">
+                            {occurrence.conflict ? (
+                              <span className="badge badge-danger">{occurrence.conflict}</span>
+                            ) : (
+                              <span className="badge badge-success">Available</span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
                 <div className="mt-3 flex gap-2">
-                  <button
-                    className="btn btn-primary"
-                    onClick={handleReserve}
-                    disabled={!selectedSlot || loading}
-                  >
-                    {loading ? 'Reserving...' : 'Confirm Reservation'}
-                  </button>
+                  {!frequency ? (
+                    <button
+                      className="btn btn-primary"
+                      onClick={handleReserve}
+                      disabled={!selectedSlot || loading}
+                    >
+                      {loading ? 'Reserving...' : 'Confirm Reservation'}
+                    </button>
+                  ) : !occurrences ? (
+                    <button
+                      className="btn btn-primary"
+                      onClick={handlePreviewSeries}
+                      disabled={!selectedSlot || !until || loading}
+                    >
+                      {loading ? 'Checking...' : 'Check Dates'}
+                    </button>
+                  ) : (
+                    <button
+                      className="btn btn-primary"
+                      onClick={handleReserveSeries}
+                      disabled={bookableCount === 0 || loading}
+                    >
+                      {loading
+                        ? 'Reserving...'
+                        : `Book ${bookableCount} Occurrence${bookableCount === 1 ? '' : 's'}`}
+                    </button>
+                  )}
                   <Link
                     to="/machines/$machineId"
                     params={{ machineId: machine.id }}
@@ -146,12 +372,29 @@ function ReserveMachinePage() {
               </>
             ) : (
               <div className="alert alert-warning">
-                {machine.calcomEventTypeId
-                  ? 'No available time slots found for the next 14 days.'
+                {schedulingConfigured
+                  ? 'No available time slots found for the next 14 days. Join the waitlist below to hear when time frees up.'
                   : 'This machine is not configured for online scheduling. Please contact an administrator.'}
               </div>
             )}
           </div>
+
+          {schedulingConfigured && (
+            <div className="card mt-2">
+              <h3 className="card-title mb-2">Join the Waitlist</h3>
+              <p className="text-small text-muted mb-2">
+                Can't find a time that works? If a reservation in your window is
+                cancelled, the time is held for you for a short while and you're
+                notified to confirm it.
+              </p>
+              <WaitlistForm
+                machineId={machine.id}
+                slotMinutes={machine.slotMinutes}
+                minMinutes={machine.minBookingMinutes}
+                maxMinutes={machine.maxBookingMinutes}
+              />
+            </div>
+          )}
         </div>
       </main>
     </div>
@@ -3,8 +3,15 @@ import { createServerFn } from '@tanstack/react-start'
 import { eq } from 'drizzle-orm'
 import { requireAuth } from '~/server/auth/middleware'
 import { db, machines } from '~/lib/db'
-import { checkEligibility, getMachineRequirements } from '~/server/services/eligibility'
+import {
+  checkEligibility,
+  getMachineRequirements,
+  getRenewalWindowStart,
+} from '~/server/services/eligibility'
+import { getUpcomingMaintenance, isOutOfService } from '~/server/services/maintenance'
+import { getOpenMachineIssues } from '~/server/services/issues'
 import { Header } from '~/components/Header'
+import { IssueReportForm } from '~/components/IssueReportForm'
 
 const getMachineData = createServerFn({ method: 'GET' })
   .inputValidator((data: { machineId: string }) => data)
@@ -22,7 +29,20 @@ const getMachineData = createServerFn({ method: 'GET' })
     const eligibility = await checkEligibility(user.id, data.machineId)
     const requirements = await getMachineRequirements(data.machineId)
 
-    return { user, machine, eligibility, requirements }
+    const renewalDue =
+      !!eligibility.checkoutExpiresAt &&
+      getRenewalWindowStart(eligibility.checkoutExpiresAt) <= new Date()
+
+    return {
+      user,
+      machine,
+      outOfService: isOutOfService(machine),
+      maintenance: await getUpcomingMaintenance(machine.id),
+      openIssues: await getOpenMachineIssues(machine.id),
+      eligibility,
+      requirements,
+      renewalDue,
+    }
   })
 
 export const Route = createFileRoute('/machines/$machineId')({
@@ -33,7 +53,35 @@ export const Route = createFileRoute('/machines/$machineId')({
 })
 
 function MachineDetailPage() {
-  const { user, machine, eligibility, requirements } = Route.useLoaderData()
+  const {
+    user,
+    machine,
+    outOfService,
+    maintenance,
+    openIssues,
+    eligibility,
+    requirements,
+    renewalDue,
+  } = Route.useLoaderData()
+  const refresher = eligibility.requirements.find((r) => r.refresher)
+
+  const formatDate = (date: Date) => {
+    return new Date(date).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    })
+  }
+
+  const formatDateTime = (date: Date) => {
+    return new Date(date).toLocaleString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
 
   return (
     <div>
@@ -60,6 +108,42 @@ function MachineDetailPage() {
             <p className="text-muted mb-3">{machine.description}</p>
           )}
 
+          {outOfService && (
+            <div className="alert alert-danger mb-3">
+              <strong>Out of service:</strong> {machine.outOfServiceReason}
+              {machine.expectedBackAt
+                ? ` Expected back ${formatDateTime(machine.expectedBackAt)}.`
+                : ' No return date yet.'}
+            </div>
+          )}
+
+          {maintenance.length > 0 && (
+            <div className="alert alert-info mb-3">
+              <strong>Scheduled maintenance:</strong>
+              <ul className="mt-1">
+                {maintenance.map((window) => (
+                  <li key={window.id}>
+                    {formatDateTime(window.startTime)} – {formatDateTime(window.endTime)}:{' '}
+                    {window.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {renewalDue && eligibility.checkoutExpiresAt && (
+            <div
+              className={`alert ${eligibility.hasCheckout ? 'alert-warning' : 'alert-danger'} mb-3`}
+            >
+              {eligibility.hasCheckout
+                ? `Your checkout expires on ${formatDate(eligibility.checkoutExpiresAt)}.`
+                : `Your checkout expired on ${formatDate(eligibility.checkoutExpiresAt)}.`}{' '}
+              {refresher && !refresher.completed
+                ? `Complete the "${refresher.moduleTitle}" refresher and ask a manager to renew it.`
+                : 'Ask a manager to renew it.'}
+            </div>
+          )}
+
           <div className="grid grid-2">
             {/* Eligibility Status */}
             <div className="card">
@@ -78,9 +162,24 @@ function MachineDetailPage() {
                       </span>
                       <div>
                         <span className="text-small">{req.moduleTitle}</span>
+                        {req.refresher && (
+                          <span className="badge badge-info" style={{ marginLeft: '0.5rem' }}>
+                            Refresher
+                          </span>
+                        )}
+                        {req.alternative && (
+                          <span className="badge badge-info" style={{ marginLeft: '0.5rem' }}>
+                            One of several
+                          </span>
+                        )}
                         <span className="text-small text-muted" style={{ marginLeft: '0.5rem' }}>
                           ({req.watchedPercent}% / {req.requiredPercent}%)
                         </span>
+                        {req.quizRequired && (
+                          <span className="text-small text-muted" style={{ marginLeft: '0.5rem' }}>
+                            {req.quizPassed ? 'Quiz passed' : 'Quiz not passed'}
+                          </span>
+                        )}
                       </div>
                     </li>
                   ))}
@@ -99,8 +198,12 @@ function MachineDetailPage() {
                 </span>
                 <span className="text-small">
                   {eligibility.hasCheckout
-                    ? 'Approved by manager'
-                    : 'Pending manager approval'}
+                    ? eligibility.checkoutExpiresAt
+                      ? `Approved by manager, valid until ${formatDate(eligibility.checkoutExpiresAt)}`
+                      : 'Approved by manager'
+                    : eligibility.checkoutExpiresAt
+                      ? `Expired on ${formatDate(eligibility.checkoutExpiresAt)}, pending renewal`
+                      : 'Pending manager approval'}
                 </span>
               </div>
             </div>
@@ -112,7 +215,9 @@ function MachineDetailPage() {
               {eligibility.eligible ? (
                 <div>
                   <p className="text-small text-muted mb-2">
-                    You are eligible to reserve this machine.
+                    {outOfService
+                      ? 'You are eligible to reserve this machine once it is back in service.'
+                      : 'You are eligible to reserve this machine.'}
                   </p>
                   <Link
                     to="/machines/$machineId/reserve"
@@ -185,6 +290,39 @@ function MachineDetailPage() {
               </div>
             </div>
           )}
+
+          {/* Issues */}
+          <div className="grid grid-2 mt-2">
+            <div className="card">
+              <h3 className="card-title mb-2">Report an Issue</h3>
+              <IssueReportForm machineId={machine.id} />
+            </div>
+
+            <div className="card">
+              <h3 className="card-title mb-2">Known Issues</h3>
+              {openIssues.length > 0 ? (
+                <ul className="eligibility-list">
+                  {openIssues.map((issue) => (
+                    <li key={issue.id} className="eligibility-item">
+                      <span
+                        className={`badge ${issue.severity === 'critical' ? 'badge-danger' : issue.severity === 'high' ? 'badge-warning' : 'badge-info'}`}
+                      >
+                        {issue.severity}
+                      </span>
+                      <div>
+                        <span className="text-small">{issue.description}</span>
+                        <div className="text-small text-muted">
+                          Reported {formatDate(issue.createdAt)} · {issue.status.replace('_', ' ')}
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-small text-muted">No open issues reported.</p>
+              )}
+            </div>
+          </div>
         </div>
       </main>
     </div>
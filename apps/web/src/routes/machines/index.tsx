@@ -1,6 +1,7 @@
-import { createFileRoute, Link } from '@tanstack/react-router'
+import { createFileRoute, Link, useRouter } from '@tanstack/react-router'
 import { getMachines } from '~/server/api/machines'
 import { Header } from '~/components/Header'
+import { useLiveEvents } from '~/lib/live-events'
 
 export const Route = createFileRoute('/machines/')({
   component: MachinesPage,
@@ -11,6 +12,15 @@ export const Route = createFileRoute('/machines/')({
 
 function MachinesPage() {
   const { user, machines } = Route.useLoaderData()
+  const router = useRouter()
+
+  // Outages, checkout and eligibility changes show up without a reload
+  useLiveEvents({
+    machine_availability: () => router.invalidate(),
+    checkout: () => router.invalidate(),
+    eligibility: () => router.invalidate(),
+    resync: () => router.invalidate(),
+  })
 
   const eligibleCount = machines.filter((m) => m.eligibility.eligible).length
 
@@ -38,7 +48,9 @@ function MachinesPage() {
               >
                 <div className="card-header">
                   <h3 className="card-title">{machine.name}</h3>
-                  {machine.eligibility.eligible ? (
+                  {machine.outOfService ? (
+                    <span className="badge badge-danger">Out of Service</span>
+                  ) : machine.eligibility.eligible ? (
                     <span className="badge badge-success">Available</span>
                   ) : (
                     <span className="badge badge-warning">Requirements</span>
@@ -5,7 +5,26 @@ import { useState } from 'react'
 import { requireAuth } from '~/server/auth/middleware'
 import { db, reservations } from '~/lib/db'
 import { Header } from '~/components/Header'
-import { cancelReservation } from '~/server/api/reservations'
+import { useLiveEvents } from '~/lib/live-events'
+import { getUserWaitlist } from '~/server/services/waitlist'
+import {
+  getReservations,
+  cancelReservation,
+  checkInReservation,
+  checkOutReservation,
+  cancelReservationSeries,
+} from '~/server/api/reservations'
+import { reserveMachine } from '~/server/api/machines'
+import { getMyWaitlist, leaveMachineWaitlist } from '~/server/api/waitlist'
+
+// Mirrors CHECK_IN_EARLY_MINUTES in the usage service
+const CHECK_IN_EARLY_MS = 15 * 60 * 1000
+
+const STATUS_BADGES: Record<string, string> = {
+  cancelled: 'badge-danger',
+  completed: 'badge-success',
+  no_show: 'badge-warning',
+}
 
 const getReservationsData = createServerFn({ method: 'GET' }).handler(async () => {
   const user = await requireAuth()
@@ -18,7 +37,9 @@ const getReservationsData = createServerFn({ method: 'GET' }).handler(async () =
     orderBy: [desc(reservations.startTime)],
   })
 
-  return { user, reservations: userReservations }
+  const waitlist = await getUserWaitlist(user.id)
+
+  return { user, reservations: userReservations, waitlist }
 })
 
 export const Route = createFileRoute('/reservations/')({
@@ -29,9 +50,45 @@ export const Route = createFileRoute('/reservations/')({
 })
 
 function ReservationsPage() {
-  const { user, reservations: initialReservations } = Route.useLoaderData()
+  const {
+    user,
+    reservations: initialReservations,
+    waitlist: initialWaitlist,
+  } = Route.useLoaderData()
   const [reservationsList, setReservationsList] = useState(initialReservations)
+  const [waitlist, setWaitlist] = useState(initialWaitlist)
   const [cancelling, setCancelling] = useState<string | null>(null)
+  const [checking, setChecking] = useState<string | null>(null)
+  const [confirming, setConfirming] = useState<string | null>(null)
+
+  const loadWaitlist = async () => {
+    try {
+      const result = await getMyWaitlist()
+      setWaitlist(result.entries)
+    } catch (error) {
+      console.error('Failed to load waitlist:', error)
+    }
+  }
+
+  const loadReservations = async () => {
+    try {
+      const refreshed = await getReservations({ data: { includesPast: true } })
+      setReservationsList(refreshed.reservations)
+    } catch (error) {
+      console.error('Failed to load reservations:', error)
+    }
+  }
+
+  // Waitlist offers and booking changes (e.g. cancelled for maintenance, or
+  // rescheduled in Cal.com) arrive over SSE while the page is open
+  useLiveEvents({
+    waitlist: () => loadWaitlist(),
+    booking: () => loadReservations(),
+    resync: () => {
+      loadReservations()
+      loadWaitlist()
+    },
+  })
 
   const formatDateTime = (date: Date) => {
     return new Date(date).toLocaleString('en-US', {
@@ -68,12 +125,118 @@ function ReservationsPage() {
     }
   }
 
+  const handleCancelSeries = async (seriesId: string) => {
+    if (!confirm('Cancel every upcoming reservation in this series?')) return
+
+    setCancelling(seriesId)
+
+    try {
+      const result = await cancelReservationSeries({ data: { seriesId } })
+
+      if (result.success) {
+        const refreshed = await getReservations({ data: { includesPast: true } })
+        setReservationsList(refreshed.reservations)
+      } else {
+        alert(result.error || 'Failed to cancel series')
+      }
+    } catch (error) {
+      alert('An error occurred')
+    } finally {
+      setCancelling(null)
+    }
+  }
+
+  const handleCheck = async (reservationId: string, action: 'in' | 'out') => {
+    setChecking(reservationId)
+
+    try {
+      const result =
+        action === 'in'
+          ? await checkInReservation({ data: { reservationId } })
+          : await checkOutReservation({ data: { reservationId } })
+
+      if (result.success) {
+        const updated = result.reservation
+        setReservationsList((prev) =>
+          prev.map((r) => (r.id === reservationId ? { ...r, ...updated } : r))
+        )
+      } else {
+        alert(result.error || `Failed to check ${action}`)
+      }
+    } catch (error) {
+      alert('An error occurred')
+    } finally {
+      setChecking(null)
+    }
+  }
+
+  const handleConfirmOffer = async (entry: (typeof waitlist)[number]) => {
+    if (!entry.offeredStart) return
+
+    setConfirming(entry.id)
+
+    try {
+      const result = await reserveMachine({
+        data: {
+          machineId: entry.machineId,
+          startTime: new Date(entry.offeredStart).toISOString(),
+          durationMinutes: entry.durationMinutes,
+        },
+      })
+
+      if (result.success) {
+        const refreshed = await getReservations({ data: { includesPast: true } })
+        setReservationsList(refreshed.reservations)
+        await loadWaitlist()
+      } else {
+        alert(result.error || 'Failed to confirm reservation')
+      }
+    } catch (error) {
+      alert('An error occurred')
+    } finally {
+      setConfirming(null)
+    }
+  }
+
+  const handleLeaveWaitlist = async (entryId: string, offered: boolean) => {
+    const message = offered
+      ? 'Decline this time? It will be offered to the next member on the waitlist.'
+      : 'Leave this waitlist?'
+    if (!confirm(message)) return
+
+    setConfirming(entryId)
+
+    try {
+      const result = await leaveMachineWaitlist({ data: { entryId } })
+
+      if (result.success) {
+        await loadWaitlist()
+      } else {
+        alert(result.error || 'Failed to leave the waitlist')
+      }
+    } catch (error) {
+      alert('An error occurred')
+    } finally {
+      setConfirming(null)
+    }
+  }
+
+  const formatTime = (date: Date) => {
+    return new Date(date).toLocaleTimeString('en-US', {
+      hour: 'numeric',
+      minute: '2-digit',
+    })
+  }
+
+  const now = new Date()
+
+  // Includes reservations in progress, which can still be checked in or out
   const upcomingReservations = reservationsList.filter(
-    (r) => r.status === 'confirmed' && new Date(r.startTime) > new Date()
+    (r) => r.status === 'confirmed' && new Date(r.endTime) > now
   )
 
   const pastReservations = reservationsList.filter(
-    (r) => r.status !== 'confirmed' || new Date(r.startTime) <= new Date()
+    (r) => r.status !== 'confirmed' || new Date(r.endTime) <= now
   )
 
   return (
@@ -97,7 +260,16 @@ function ReservationsPage() {
                 <div key={reservation.id} className="card">
                   <div className="card-header">
                     <h3 className="card-title">{reservation.machine.name}</h3>
-                    <span className="badge badge-success">Confirmed</span>
+                    <div className="flex gap-1">
+                      {reservation.seriesId && (
+                        <span className="badge badge-info">Repeating</span>
+                      )}
+                      {reservation.checkedInAt ? (
+                        <span className="badge badge-info">In Use</span>
+                      ) : (
+                        <span className="badge badge-success">Confirmed</span>
+                      )}
+                    </div>
                   </div>
 
                   <p className="text-small mb-1">
@@ -106,14 +278,52 @@ function ReservationsPage() {
                   <p className="text-small mb-2">
                     <strong>End:</strong> {formatDateTime(reservation.endTime)}
                   </p>
+                  {reservation.checkedInAt && (
+                    <p className="text-small text-muted mb-2">
+                      Checked in at {formatTime(reservation.checkedInAt)}
+                    </p>
+                  )}
 
-                  <button
-                    className="btn btn-danger"
-                    onClick={() => handleCancel(reservation.id)}
-                    disabled={cancelling === reservation.id}
-                  >
-                    {cancelling === reservation.id ? 'Cancelling...' : 'Cancel'}
-                  </button>
+                  <div className="flex gap-1">
+                    {!reservation.checkedInAt &&
+                      new Date(reservation.startTime).getTime() - CHECK_IN_EARLY_MS <=
+                        now.getTime() && (
+                        <button
+                          className="btn btn-success"
+                          onClick={() => handleCheck(reservation.id, 'in')}
+                          disabled={checking === reservation.id}
+                        >
+                          Check In
+                        </button>
+                      )}
+                    {reservation.checkedInAt && (
+                      <button
+                        className="btn btn-primary"
+                        onClick={() => handleCheck(reservation.id, 'out')}
+                        disabled={checking === reservation.id}
+                      >
+                        Check Out
+                      </button>
+                    )}
+                    {new Date(reservation.startTime) > now && !reservation.checkedInAt && (
+                      <button
+                        className="btn btn-danger"
+                        onClick={() => handleCancel(reservation.id)}
+                        disabled={cancelling === reservation.id}
+                      >
+                        {cancelling === reservation.id ? 'Cancelling...' : 'Cancel'}
+                      </button>
+                    )}
+                    {reservation.seriesId && (
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() => handleCancelSeries(reservation.seriesId!)}
+                        disabled={cancelling === reservation.seriesId}
+                      >
+                        {cancelling === reservation.seriesId ? 'Cancelling...' : 'Cancel Series'}
+                      </button>
+                    )}
+                  </div>
                 </div>
               ))}
             </div>
@@ -128,6 +338,66 @@ function ReservationsPage() {
             </div>
           )}
 
+          {/* Waitlist */}
+          {waitlist.length > 0 && (
+            <>
+              <h2 className="mb-2">Waitlist</h2>
+              <div className="grid grid-2 mb-3">
+                {waitlist.map((entry) => (
+                  <div key={entry.id} className="card">
+                    <div className="card-header">
+                      <h3 className="card-title">{entry.machine.name}</h3>
+                      {entry.status === 'offered' ? (
+                        <span className="badge badge-success">Held for You</span>
+                      ) : (
+                        <span className="badge badge-info">Waiting</span>
+                      )}
+                    </div>
+
+                    {entry.status === 'offered' && entry.offeredStart && entry.offeredEnd ? (
+                      <>
+                        <p className="text-small mb-1">
+                          <strong>Start:</strong> {formatDateTime(entry.offeredStart)}
+                        </p>
+                        <p className="text-small mb-1">
+                          <strong>End:</strong> {formatDateTime(entry.offeredEnd)}
+                        </p>
+                        <p className="text-small text-muted mb-2">
+                          Confirm by {formatDateTime(entry.holdExpiresAt!)} or it goes
+                          to the next member.
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-small mb-2">
+                        {formatDateTime(entry.windowStart)} – {formatTime(entry.windowEnd)},{' '}
+                        {entry.durationMinutes} minutes
+                      </p>
+                    )}
+
+                    <div className="flex gap-1">
+                      {entry.status === 'offered' && (
+                        <button
+                          className="btn btn-success"
+                          onClick={() => handleConfirmOffer(entry)}
+                          disabled={confirming === entry.id}
+                        >
+                          Confirm
+                        </button>
+                      )}
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() => handleLeaveWaitlist(entry.id, entry.status === 'offered')}
+                        disabled={confirming === entry.id}
+                      >
+                        {entry.status === 'offered' ? 'Decline' : 'Leave Waitlist'}
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
           {/* Past / Cancelled Reservations */}
           {pastReservations.length > 0 && (
             <>
@@ -138,6 +408,7 @@ function ReservationsPage() {
                     <tr>
                       <th>Machine</th>
                       <th>Date</th>
+                      <th>Used</th>
                       <th>Status</th>
                     </tr>
                   </thead>
@@ -148,17 +419,20 @@ function ReservationsPage() {
                         <td className="text-small">
                           {formatDateTime(reservation.startTime)}
                         </td>
+                        <td className="text-small">
+                          {reservation.checkedInAt
+                            ? `${formatTime(reservation.checkedInAt)} – ${
+                                reservation.checkedOutAt
+                                  ? formatTime(reservation.checkedOutAt)
+                                  : 'now'
+                              }`
+                            : '—'}
+                        </td>
                         <td>
                           <span
-                            className={`badge ${
-                              reservation.status === 'cancelled'
-                                ? 'badge-danger'
-                                : reservation.status === 'completed'
-                                  ? 'badge-success'
-                                  : 'badge-info'
-                            }`}
+                            className={`badge ${STATUS_BADGES[reservation.status] ?? 'badge-info'}`}
                           >
-                            {reservation.status}
+                            {reservation.status.replace('_', ' ')}
                           </span>
                         </td>
                       </tr>
@@ -0,0 +1,124 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useState } from 'react'
+import { resetPassword } from '~/server/api/auth'
+
+export const Route = createFileRoute('/reset-password')({
+  component: ResetPasswordPage,
+  validateSearch: (search: Record<string, unknown>): { token?: string } => ({
+    token: typeof search.token === 'string' ? search.token : undefined,
+  }),
+})
+
+function ResetPasswordPage() {
+  const { token } = Route.useSearch()
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState(token ? '' : 'This reset link is incomplete')
+  const [done, setDone] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters')
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const result = await resetPassword({ data: { token: token!, password } })
+
+      if (result.success) {
+        setDone(true)
+      } else {
+        setError(result.error || 'Reset failed')
+      }
+    } catch (err) {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="landing">
+      <header className="header">
+        <div className="container header-inner">
+          <a href="/" className="logo">
+            Training System
+          </a>
+        </div>
+      </header>
+
+      <div className="hero">
+        <div className="card" style={{ width: '100%', maxWidth: '400px' }}>
+          <h2 className="mb-2">Choose a New Password</h2>
+
+          {error && <div className="alert alert-danger">{error}</div>}
+
+          {done ? (
+            <>
+              <div className="alert alert-success">
+                Your password has been changed and you've been signed out on all devices.
+              </div>
+              <a href="/login" className="btn btn-primary" style={{ width: '100%' }}>
+                Sign In
+              </a>
+            </>
+          ) : (
+            token && (
+              <form onSubmit={handleSubmit}>
+                <div className="form-group">
+                  <label htmlFor="password" className="form-label">
+                    New Password
+                  </label>
+                  <input
+                    id="password"
+                    type="password"
+                    className="form-input"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    minLength={8}
+                  />
+                </div>
+
+                <div className="form-group">
+                  <label htmlFor="confirmPassword" className="form-label">
+                    Confirm Password
+                  </label>
+                  <input
+                    id="confirmPassword"
+                    type="password"
+                    className="form-input"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                  />
+                </div>
+
+                <button type="submit" className="btn btn-primary" disabled={loading} style={{ width: '100%' }}>
+                  {loading ? 'Saving...' : 'Set Password'}
+                </button>
+              </form>
+            )
+          )}
+
+          {!done && (
+            <p className="text-center mt-2 text-small">
+              <a href="/forgot-password">Request a new link</a>
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
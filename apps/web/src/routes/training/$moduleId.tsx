@@ -3,11 +3,15 @@ import { createServerFn } from '@tanstack/react-start'
 import { eq } from 'drizzle-orm'
 import { useCallback, useRef, useState } from 'react'
 import { requireAuth } from '~/server/auth/middleware'
-import { db, trainingModules } from '~/lib/db'
+import { db, trainingModules, type WatchedInterval } from '~/lib/db'
+import { coveredSeconds, mergeIntervals } from '~/lib/watch-intervals'
 import { getModuleProgress, updateTrainingProgress } from '~/server/services/training'
+import { getRefresherCutoffs } from '~/server/services/eligibility'
+import { getQuizQuestions, getQuizStatus } from '~/server/services/quiz'
 import { Header } from '~/components/Header'
 import { YouTubePlayer } from '~/components/YouTubePlayer'
-import { updateProgress } from '~/server/api/training'
+import { WatchCoverage } from '~/components/WatchCoverage'
+import { updateProgress, submitQuiz } from '~/server/api/training'
 
 const getModuleData = createServerFn({ method: 'GET' })
   .inputValidator((data: { moduleId: string }) => data)
@@ -24,9 +28,50 @@ const getModuleData = createServerFn({ method: 'GET' })
 
     const progress = await getModuleProgress(user.id, data.moduleId)
 
-    return { user, module, progress }
+    const cutoffs = await getRefresherCutoffs(user.id)
+    const quizStatus = await getQuizStatus(user.id, data.moduleId, cutoffs.get(data.moduleId))
+    const quizQuestions = (await getQuizQuestions(data.moduleId)).map((q) => ({
+      id: q.id,
+      prompt: q.prompt,
+      options: q.options,
+    }))
+
+    return { user, module, progress, quizStatus, quizQuestions }
   })
 
+interface ProgressBatch {
+  intervals: WatchedInterval[]
+  currentPosition: number
+  sessionDuration: number
+}
+
+// The server refuses an update claiming more session time than this
+const MAX_BATCH_SESSION_SECONDS = 300
+
+// Folds two reports into one; intervals and session time add up, the rest is the latest
+function combineBatches(earlier: ProgressBatch, later: ProgressBatch): ProgressBatch {
+  return {
+    intervals: mergeIntervals([...earlier.intervals, ...later.intervals]),
+    currentPosition: later.currentPosition,
+    sessionDuration: earlier.sessionDuration + later.sessionDuration,
+  }
+}
+
+// Adds a report to the unsent ones, folding it into the last while that stays
+// within what the server accepts in one update
+function queueBatch(queue: ProgressBatch[], report: ProgressBatch): ProgressBatch[] {
+  // Time spent paused counts toward a report's session but not its intervals
+  const batch = {
+    ...report,
+    sessionDuration: Math.min(report.sessionDuration, MAX_BATCH_SESSION_SECONDS),
+  }
+  const last = queue[queue.length - 1]
+  if (last && last.sessionDuration + batch.sessionDuration <= MAX_BATCH_SESSION_SECONDS) {
+    return [...queue.slice(0, -1), combineBatches(last, batch)]
+  }
+  return [...queue, batch]
+}
+
 export const Route = createFileRoute('/training/$moduleId')({
   component: TrainingModulePage,
   loader: async ({ params }) => {
@@ -35,67 +80,130 @@ export const Route = createFileRoute('/training/$moduleId')({
 })
 
 function TrainingModulePage() {
-  const { user, module, progress } = Route.useLoaderData()
-  const [currentProgress, setCurrentProgress] = useState(progress?.percentComplete || 0)
+  const { user, module, progress, quizStatus, quizQuestions } = Route.useLoaderData()
+  const [watchedIntervals, setWatchedIntervals] = useState(progress?.watchedIntervals || [])
   const [saving, setSaving] = useState(false)
+  const [quizAnswers, setQuizAnswers] = useState<Record<string, number>>({})
+  const [quizPassed, setQuizPassed] = useState(quizStatus.passed)
+  const [quizResult, setQuizResult] = useState<{ scorePercent: number; passed: boolean } | null>(null)
+  const [nextAttemptAt, setNextAttemptAt] = useState(quizStatus.nextAttemptAt)
+  const [quizError, setQuizError] = useState('')
+  const [submittingQuiz, setSubmittingQuiz] = useState(false)
   const savingRef = useRef(false)
-  const pendingRef = useRef<{ watchedSeconds: number; currentPosition: number; sessionDuration: number; videoDuration: number } | null>(null)
-
-  const saveProgress = useCallback(
-    async (watchedSeconds: number, currentPosition: number, sessionDuration: number, videoDuration: number) => {
-      savingRef.current = true
-      setSaving(true)
-
-      // Always update the local display from client-tracked watchedSeconds
-      const displayDuration = videoDuration > 0 ? videoDuration : module.durationSeconds
-      const localPercent = Math.min(Math.floor((watchedSeconds / displayDuration) * 100), 100)
-      setCurrentProgress(localPercent)
-
-      try {
-        const result = await updateProgress({
-          data: {
-            moduleId: module.id,
-            watchedSeconds,
-            currentPosition,
-            sessionDuration,
-            videoDuration: videoDuration > 0 ? videoDuration : undefined,
-          },
-        })
-
-        if (result.success && 'percentComplete' in result) {
-          // Prefer server-accepted value (may differ from local if server capped it)
-          setCurrentProgress(result.percentComplete)
-        } else if (!result.success) {
-          console.warn('Progress update rejected:', result.error)
+  // Reports not sent yet, oldest first, and the one being sent
+  const queueRef = useRef<ProgressBatch[]>([])
+  const sendingRef = useRef<ProgressBatch | null>(null)
+  // What the server last said was watched
+  const savedIntervalsRef = useRef<WatchedInterval[]>(progress?.watchedIntervals || [])
+
+  // Shows what is saved plus what hasn't been answered yet
+  const showIntervals = useCallback(() => {
+    const unsaved = [...(sendingRef.current ? [sendingRef.current] : []), ...queueRef.current]
+    setWatchedIntervals(
+      mergeIntervals([...savedIntervalsRef.current, ...unsaved.flatMap((batch) => batch.intervals)])
+    )
+  }, [])
+
+  const saveQueued = useCallback(async () => {
+    if (savingRef.current) return
+    savingRef.current = true
+    setSaving(true)
+
+    try {
+      while (queueRef.current.length > 0) {
+        const [batch, ...rest] = queueRef.current
+        queueRef.current = rest
+        sendingRef.current = batch
+
+        try {
+          const result = await updateProgress({
+            data: {
+              moduleId: module.id,
+              intervals: batch.intervals,
+              currentPosition: batch.currentPosition,
+              sessionDuration: batch.sessionDuration,
+            },
+          })
+
+          // Prefer the server's record (it may have clipped intervals). A
+          // rejected batch's intervals won't count, so they stop being shown.
+          if (result.success) {
+            savedIntervalsRef.current = result.watchedIntervals
+          }
+        } catch {
+          // Keep the intervals and send them with the next report
+          queueRef.current = [batch, ...queueRef.current]
+          break
+        } finally {
+          sendingRef.current = null
+          showIntervals()
         }
-      } catch (error) {
-        console.error('Failed to save progress:', error)
-      } finally {
-        savingRef.current = false
-        setSaving(false)
       }
+    } finally {
+      savingRef.current = false
+      setSaving(false)
+    }
+  }, [module.id, showIntervals])
 
-      // Flush any queued update (e.g. final report on video end)
-      const pending = pendingRef.current
-      if (pending) {
-        pendingRef.current = null
-        await saveProgress(pending.watchedSeconds, pending.currentPosition, pending.sessionDuration, pending.videoDuration)
-      }
+  const handleProgress = useCallback(
+    async (intervals: WatchedInterval[], currentPosition: number, sessionDuration: number) => {
+      // Reports made while saving (or after a failed save) go out after it
+      queueRef.current = queueBatch(queueRef.current, {
+        intervals,
+        currentPosition,
+        sessionDuration,
+      })
+
+      // Show the new intervals straight away; the server's answer replaces them
+      showIntervals()
+
+      await saveQueued()
     },
-    [module.id, module.durationSeconds]
+    [saveQueued, showIntervals]
   )
 
-  const handleProgress = useCallback(
-    async (watchedSeconds: number, currentPosition: number, sessionDuration: number, videoDuration: number) => {
-      if (savingRef.current) {
-        // Queue latest values — only the most recent matters
-        pendingRef.current = { watchedSeconds, currentPosition, sessionDuration, videoDuration }
+  const handleSubmitQuiz = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setQuizError('')
+    setSubmittingQuiz(true)
+
+    try {
+      const result = await submitQuiz({
+        data: {
+          moduleId: module.id,
+          answers: Object.entries(quizAnswers).map(([questionId, selectedOption]) => ({
+            questionId,
+            selectedOption,
+          })),
+        },
+      })
+
+      if (result.nextAttemptAt !== undefined) {
+        setNextAttemptAt(result.nextAttemptAt)
+      }
+
+      if (!result.success) {
+        setQuizError(result.error || 'Failed to submit quiz')
         return
       }
-      await saveProgress(watchedSeconds, currentPosition, sessionDuration, videoDuration)
-    },
-    [saveProgress]
-  )
+
+      setQuizResult({ scorePercent: result.scorePercent!, passed: result.passed! })
+      setQuizPassed(result.passed!)
+      setQuizAnswers({})
+    } catch (error) {
+      setQuizError('An error occurred')
+    } finally {
+      setSubmittingQuiz(false)
+    }
+  }
+
+  // Same sum as the server's, which completes the module at 90%
+  const currentProgress = module.durationSeconds > 0
+    ? Math.min(Math.floor((Math.floor(coveredSeconds(watchedIntervals)) / module.durationSeconds) * 100), 100)
+    : 0
+  const videoComplete = currentProgress >= 90
+  const quizUnlocked = videoComplete || currentProgress >= quizStatus.unlockPercent
+  const moduleComplete = videoComplete && (!quizStatus.required || quizPassed)
 
   return (
     <div>
@@ -111,8 +219,10 @@ function TrainingModulePage() {
 
           <div className="flex flex-between flex-center mb-2">
             <h1>{module.title}</h1>
-            {currentProgress >= 90 ? (
+            {moduleComplete ? (
               <span className="badge badge-success">Complete</span>
+            ) : videoComplete ? (
+              <span className="badge badge-warning">Quiz pending</span>
             ) : (
               <span className="badge badge-warning">{currentProgress}%</span>
             )}
@@ -127,7 +237,6 @@ function TrainingModulePage() {
               videoId={module.youtubeVideoId}
               onProgress={handleProgress}
               initialPosition={progress?.lastPosition || 0}
-              initialWatchedSeconds={progress?.watchedSeconds || 0}
             />
 
             <div className="flex flex-between flex-center mb-1">
@@ -136,20 +245,99 @@ function TrainingModulePage() {
               </span>
               <span className="text-small">{currentProgress}%</span>
             </div>
-            <div className="progress">
-              <div
-                className={`progress-bar ${currentProgress >= 90 ? 'complete' : ''}`}
-                style={{ width: `${currentProgress}%` }}
-              />
-            </div>
+            <WatchCoverage
+              intervals={watchedIntervals}
+              durationSeconds={module.durationSeconds}
+              complete={currentProgress >= 90}
+            />
           </div>
 
+          {quizStatus.required && (
+            <div className="card mb-2">
+              <h3 className="card-title mb-2">Knowledge Quiz</h3>
+
+              {quizResult && (
+                <div className={`alert ${quizResult.passed ? 'alert-success' : 'alert-danger'}`}>
+                  You scored {quizResult.scorePercent}%.{' '}
+                  {quizResult.passed
+                    ? 'You passed the quiz.'
+                    : `A score of ${quizStatus.passPercent}% is needed to pass.`}
+                </div>
+              )}
+
+              {quizError && <div className="alert alert-danger">{quizError}</div>}
+
+              {quizPassed ? (
+                !quizResult && (
+                  <p className="text-small text-muted">You have passed this quiz.</p>
+                )
+              ) : !quizUnlocked ? (
+                <p className="text-small text-muted">
+                  {quizStatus.unlockPercent >= 90
+                    ? 'Finish watching the video to unlock the quiz.'
+                    : `Watch at least ${quizStatus.unlockPercent}% of the video to unlock the quiz.`}
+                </p>
+              ) : nextAttemptAt && new Date(nextAttemptAt) > new Date() ? (
+                <p className="text-small text-muted">
+                  You can retake the quiz after{' '}
+                  {new Date(nextAttemptAt).toLocaleString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}
+                  .
+                </p>
+              ) : (
+                <form onSubmit={handleSubmitQuiz}>
+                  {quizQuestions.map((question, index) => (
+                    <div key={question.id} className="form-group">
+                      <label className="form-label">
+                        {index + 1}. {question.prompt}
+                      </label>
+                      {question.options.map((option, optionIndex) => (
+                        <label key={optionIndex} className="flex gap-1 text-small mb-1">
+                          <input
+                            type="radio"
+                            name={question.id}
+                            checked={quizAnswers[question.id] === optionIndex}
+                            onChange={() =>
+                              setQuizAnswers((prev) => ({ ...prev, [question.id]: optionIndex }))
+                            }
+                          />
+                          {option}
+                        </label>
+                      ))}
+                    </div>
+                  ))}
+
+                  <button
+                    type="submit"
+                    className="btn btn-primary"
+                    disabled={
+                      submittingQuiz ||
+                      Object.keys(quizAnswers).length < quizQuestions.length
+                    }
+                  >
+                    {submittingQuiz ? 'Submitting...' : 'Submit Answers'}
+                  </button>
+                </form>
+              )}
+            </div>
+          )}
+
           <div className="card">
             <h3 className="card-title mb-1">Training Requirements</h3>
             <p className="text-small text-muted">
               Watch at least 90% of this video to complete the training module.
-              Your progress is automatically tracked as you watch.
+              Your progress is automatically tracked as you watch; skipping ahead
+              leaves a gap that still needs watching.
             </p>
+            {quizStatus.required && (
+              <p className="text-small text-muted mt-1">
+                Afterwards, pass the quiz with a score of at least {quizStatus.passPercent}%.
+              </p>
+            )}
             <p className="text-small text-muted mt-1">
               Video duration: {Math.floor(module.durationSeconds / 60)} minutes
             </p>
@@ -20,7 +20,7 @@ export const Route = createFileRoute('/training/')({
 function TrainingPage() {
   const { user, modules } = Route.useLoaderData()
 
-  const completedCount = modules.filter((m) => m.completedAt).length
+  const completedCount = modules.filter((m) => m.completedAt && !m.quizPending).length
   const totalCount = modules.length
   const overallPercent = totalCount > 0 ? Math.floor((completedCount / totalCount) * 100) : 0
 
@@ -61,8 +61,10 @@ function TrainingPage() {
               >
                 <div className="card-header">
                   <h3 className="card-title">{module.title}</h3>
-                  {module.completedAt ? (
+                  {module.completedAt && !module.quizPending ? (
                     <span className="badge badge-success">Complete</span>
+                  ) : module.completedAt ? (
+                    <span className="badge badge-warning">Quiz pending</span>
                   ) : (
                     <span className="badge badge-warning">{module.percentComplete}%</span>
                   )}
@@ -0,0 +1,76 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useEffect, useState } from 'react'
+import { verifyEmail } from '~/server/api/auth'
+
+export const Route = createFileRoute('/verify-email')({
+  component: VerifyEmailPage,
+  validateSearch: (search: Record<string, unknown>): { token?: string } => ({
+    token: typeof search.token === 'string' ? search.token : undefined,
+  }),
+})
+
+function VerifyEmailPage() {
+  const { token } = Route.useSearch()
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying')
+  const [error, setError] = useState('')
+
+  // Verified from the browser rather than the loader, so link scanners that
+  // only fetch the page don't use up the token
+  useEffect(() => {
+    if (!token) {
+      setStatus('failed')
+      setError('This verification link is incomplete')
+      return
+    }
+
+    verifyEmail({ data: { token } })
+      .then((result) => {
+        if (result.success) {
+          setStatus('verified')
+        } else {
+          setStatus('failed')
+          setError(result.error || 'Verification failed')
+        }
+      })
+      .catch(() => {
+        setStatus('failed')
+        setError('An error occurred. Please try again.')
+      })
+  }, [token])
+
+  return (
+    <div className="landing">
+      <header className="header">
+        <div className="container header-inner">
+          <a href="/" className="logo">
+            Training System
+          </a>
+        </div>
+      </header>
+
+      <div className="hero">
+        <div className="card" style={{ width: '100%', maxWidth: '400px' }}>
+          <h2 className="mb-2">Email Verification</h2>
+
+          {status === 'verifying' && <p className="text-muted">Verifying your email address...</p>}
+
+          {status === 'verified' && (
+            <div className="alert alert-success">
+              Your email address is verified. You can now reserve machines.
+            </div>
+          )}
+
+          {status === 'failed' && (
+            <div className="alert alert-danger">
+              {error}. You can request a new link from your dashboard.
+            </div>
+          )}
+
+          <a href="/" className="btn btn-primary" style={{ width: '100%' }}>
+            Go to Dashboard
+          </a>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+import handler, { createServerEntry } from '@tanstack/react-start/server-entry'
+import { startBackgroundJobs } from './server/services/jobs'
+
+startBackgroundJobs()
+
+export default createServerEntry({
+  fetch(request) {
+    return handler.fetch(request)
+  },
+})
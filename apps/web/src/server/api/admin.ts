@@ -1,19 +1,68 @@
 import { createServerFn } from '@tanstack/react-start'
 import { z } from 'zod'
-import { eq, and, desc, asc } from 'drizzle-orm'
+import { eq, and, desc, asc, gte, lte } from 'drizzle-orm'
 import { requireManager, requireAdmin } from '../auth'
 import { normalizeYouTubeId } from '~/lib/youtube'
 import {
   db,
   users,
   machines,
+  machineCategories,
   trainingModules,
   machineRequirements,
+  machineOpeningHours,
   managerCheckouts,
   trainingProgress,
+  quizQuestions,
+  reservations,
+  type User,
 } from '~/lib/db'
-import { checkEligibility } from '../services/eligibility'
+import {
+  checkEligibilityBatch,
+  getCheckoutExpiry,
+  getExpiringCheckouts,
+  getPairEligibility,
+  getRenewalWindowStart,
+  type EligibilityResult,
+} from '../services/eligibility'
 import { emitCheckoutEvent } from '../services/events'
+import {
+  CHECK_IN_EARLY_MINUTES,
+  CHECK_OUT_GRACE_MINUTES,
+  getMachineHourMeters,
+  getUsageLog,
+} from '../services/usage'
+import { excuseNoShow, getRecentNoShows, markNoShow } from '../services/no-shows'
+import {
+  setOutOfService,
+  returnToService,
+  scheduleMaintenance,
+  removeMaintenance,
+} from '../services/machine-status'
+import {
+  auditFilterSchema,
+  listAuditEvents,
+  recordAuditEvent,
+} from '../services/audit'
+import { isRetryable, listWebhookDeliveries } from '../services/webhook-deliveries'
+import { reprocessWebhookDelivery } from './webhooks'
+import {
+  dismissReconciliationFinding,
+  getReconciliationFindings,
+  reconcileBookings,
+} from '../services/reconciliation'
+import {
+  refreshEligibilityAfterWrite,
+  refreshEligibilityForCategory,
+  refreshEligibilityForMachine,
+  refreshEligibilityForModule,
+} from '../services/eligibility-cache'
+import {
+  getRuleMachineIds,
+  getRuleModules,
+  requirementRuleSchema,
+  validateRequirementRule,
+} from '../services/requirement-rules'
 
 // ============ Checkout Management (Manager+) ============
 
@@ -23,29 +72,23 @@ export const getPendingCheckoutCount = createServerFn({ method: 'GET' }).handler
 
     const allUsers = await db.query.users.findMany({
       where: and(eq(users.status, 'active'), eq(users.role, 'member')),
-      with: {
-        trainingProgress: true,
-        managerCheckouts: true,
-      },
+      columns: { id: true },
     })
 
     const allMachines = await db.query.machines.findMany({
       where: eq(machines.active, true),
-      with: {
-        requirements: true,
-      },
+      columns: { id: true },
     })
 
-    let count = 0
-    for (const user of allUsers) {
-      for (const machine of allMachines) {
-        const hasCheckout = user.managerCheckouts.some(
-          (c) => c.machineId === machine.id
-        )
-        if (hasCheckout) continue
+    const eligibility = await checkEligibilityBatch(
+      allUsers.map((u) => u.id),
+      allMachines.map((m) => m.id)
+    )
 
-        const eligibility = await checkEligibility(user.id, machine.id)
-        if (eligibility.requirements.every((r) => r.completed)) {
+    let count = 0
+    for (const row of eligibility.values()) {
+      for (const result of row.values()) {
+        if (isAwaitingCheckout(result)) {
           count++
         }
       }
@@ -55,58 +98,37 @@ export const getPendingCheckoutCount = createServerFn({ method: 'GET' }).handler
   }
 )
 
+// Requirements are met but there's no current checkout (expired checkouts need renewing)
+function isAwaitingCheckout(eligibility: EligibilityResult): boolean {
+  return !eligibility.hasCheckout && eligibility.requirementsMet
+}
+
 export const getPendingCheckouts = createServerFn({ method: 'GET' }).handler(
   async () => {
     await requireManager()
 
     // Get all users who have completed training but don't have checkouts for machines
     const allUsers = await db.query.users.findMany({
-      where: eq(users.status, 'active'),
-      with: {
-        trainingProgress: {
-          with: {
-            module: true,
-          },
-        },
-        managerCheckouts: {
-          with: {
-            machine: true,
-          },
-        },
-      },
+      where: and(eq(users.status, 'active'), eq(users.role, 'member')),
     })
 
     const allMachines = await db.query.machines.findMany({
       where: eq(machines.active, true),
-      with: {
-        requirements: {
-          with: {
-            module: true,
-          },
-        },
-      },
     })
 
+    const eligibility = await checkEligibilityBatch(
+      allUsers.map((u) => u.id),
+      allMachines.map((m) => m.id)
+    )
+
     // Find users eligible for checkout on each machine
     const pendingApprovals = []
 
     for (const user of allUsers) {
-      if (user.role === 'admin' || user.role === 'manager') continue
-
       for (const machine of allMachines) {
-        // Check if already checked out
-        const hasCheckout = user.managerCheckouts.some(
-          (c) => c.machineId === machine.id
-        )
-        if (hasCheckout) continue
+        const result = getPairEligibility(eligibility, user.id, machine.id)
 
-        // Check training completion for this machine
-        const eligibility = await checkEligibility(user.id, machine.id)
-
-        // User has completed all training but no checkout yet
-        const trainingComplete = eligibility.requirements.every((r) => r.completed)
-
-        if (trainingComplete) {
+        if (isAwaitingCheckout(result)) {
           pendingApprovals.push({
             user: {
               id: user.id,
@@ -117,7 +139,7 @@ export const getPendingCheckouts = createServerFn({ method: 'GET' }).handler(
               id: machine.id,
               name: machine.name,
             },
-            trainingStatus: eligibility.requirements,
+            trainingStatus: result.requirements,
           })
         }
       }
@@ -141,8 +163,10 @@ export const getUserForCheckout = createServerFn({ method: 'GET' })
           },
         },
         managerCheckouts: {
+          where: eq(managerCheckouts.status, 'active'),
           with: {
             machine: true,
+            category: true,
             approver: true,
           },
         },
@@ -160,16 +184,16 @@ export const getUserForCheckout = createServerFn({ method: 'GET' })
       where: eq(machines.active, true),
     })
 
-    const machineStatuses = await Promise.all(
-      allMachines.map(async (machine) => {
-        const eligibility = await checkEligibility(user.id, machine.id)
-        return {
-          machine,
-          eligibility,
-        }
-      })
+    const eligibility = await checkEligibilityBatch(
+      [user.id],
+      allMachines.map((m) => m.id)
     )
 
+    const machineStatuses = allMachines.map((machine) => ({
+      machine,
+      eligibility: getPairEligibility(eligibility, user.id, machine.id),
+    }))
+
     return {
       user: {
         id: user.id,
@@ -192,12 +216,59 @@ export const getUserForCheckout = createServerFn({ method: 'GET' })
     }
   })
 
-const approveCheckoutSchema = z.object({
+// A checkout is for one machine, or for every machine in a category
+const checkoutTargetSchema = z.object({
   userId: z.string().uuid(),
-  machineId: z.string().uuid(),
-  notes: z.string().optional(),
+  machineId: z.string().uuid().optional(),
+  categoryId: z.string().uuid().optional(),
 })
 
+function hasOneCheckoutTarget(data: { machineId?: string; categoryId?: string }): boolean {
+  return !data.machineId !== !data.categoryId
+}
+
+const checkoutTargetMessage = 'Choose either a machine or a category'
+
+interface CheckoutTarget {
+  machineId: string | null
+  categoryId: string | null
+  name: string
+  checkoutValidityMonths: number | null
+}
+
+async function findCheckoutTarget(data: {
+  machineId?: string
+  categoryId?: string
+}): Promise<CheckoutTarget | null> {
+  if (data.machineId) {
+    const machine = await db.query.machines.findFirst({
+      where: eq(machines.id, data.machineId),
+    })
+    return machine ? { ...machine, machineId: machine.id, categoryId: null } : null
+  }
+
+  const category = await db.query.machineCategories.findFirst({
+    where: eq(machineCategories.id, data.categoryId!),
+  })
+  return category ? { ...category, machineId: null, categoryId: category.id } : null
+}
+
+function isCheckoutFor(target: CheckoutTarget) {
+  return target.machineId
+    ? eq(managerCheckouts.machineId, target.machineId)
+    : eq(managerCheckouts.categoryId, target.categoryId!)
+}
+
+function refreshEligibilityForTarget(target: CheckoutTarget, userId: string): Promise<void> {
+  return target.machineId
+    ? refreshEligibilityForMachine(target.machineId, [userId])
+    : refreshEligibilityForCategory(target.categoryId!, [userId])
+}
+
+const approveCheckoutSchema = checkoutTargetSchema
+  .extend({ notes: z.string().optional() })
+  .refine(hasOneCheckoutTarget, checkoutTargetMessage)
+
 export const approveCheckout = createServerFn({ method: 'POST' })
   .inputValidator((data: unknown) => approveCheckoutSchema.parse(data))
   .handler(async ({ data }) => {
@@ -212,25 +283,79 @@ export const approveCheckout = createServerFn({ method: 'POST' })
       return { success: false, error: 'User not found' }
     }
 
-    // Verify machine exists
-    const machine = await db.query.machines.findFirst({
-      where: eq(machines.id, data.machineId),
-    })
+    // Verify the machine or category exists
+    const target = await findCheckoutTarget(data)
 
-    if (!machine) {
-      return { success: false, error: 'Machine not found' }
+    if (!target) {
+      return {
+        success: false,
+        error: data.machineId ? 'Machine not found' : 'Category not found',
+      }
     }
 
-    // Check if checkout already exists
+    // Check if an active checkout already exists
     const existingCheckout = await db.query.managerCheckouts.findFirst({
       where: and(
         eq(managerCheckouts.userId, data.userId),
-        eq(managerCheckouts.machineId, data.machineId)
+        isCheckoutFor(target),
+        eq(managerCheckouts.status, 'active')
       ),
     })
 
     if (existingCheckout) {
-      return { success: false, error: 'Checkout already approved' }
+      // Checkouts that are expired or due for renewal are closed and re-approved
+      const expiresAt = getCheckoutExpiry(
+        existingCheckout.approvedAt,
+        target.checkoutValidityMonths
+      )
+
+      if (!expiresAt || getRenewalWindowStart(expiresAt) > new Date()) {
+        return { success: false, error: 'Checkout already approved' }
+      }
+
+      const checkout = await db.transaction(async (tx) => {
+        await tx
+          .update(managerCheckouts)
+          .set({ status: 'renewed' })
+          .where(eq(managerCheckouts.id, existingCheckout.id))
+
+        const [renewed] = await tx
+          .insert(managerCheckouts)
+          .values({
+            userId: data.userId,
+            machineId: target.machineId,
+            categoryId: target.categoryId,
+            approvedBy: manager.id,
+            notes: data.notes ?? existingCheckout.notes,
+          })
+          .returning()
+
+        return renewed
+      })
+
+      await recordAuditEvent(manager, {
+        action: 'checkout.renewed',
+        entityType: 'checkout',
+        entityId: checkout.id,
+        before: existingCheckout,
+        after: checkout,
+      })
+
+      emitCheckoutEvent(data.userId, {
+        type: 'approved',
+        userId: data.userId,
+        machineId: target.machineId,
+        categoryId: target.categoryId,
+        machineName: target.name,
+      })
+
+      await refreshEligibilityForTarget(target, data.userId)
+
+      return {
+        success: true,
+        checkout,
+        expiresAt: getCheckoutExpiry(checkout.approvedAt, target.checkoutValidityMonths),
+      }
     }
 
     // Create checkout record
@@ -238,66 +363,135 @@ export const approveCheckout = createServerFn({ method: 'POST' })
       .insert(managerCheckouts)
       .values({
         userId: data.userId,
-        machineId: data.machineId,
+        machineId: target.machineId,
+        categoryId: target.categoryId,
         approvedBy: manager.id,
         notes: data.notes,
       })
       .returning()
 
+    await recordAuditEvent(manager, {
+      action: 'checkout.approved',
+      entityType: 'checkout',
+      entityId: checkout.id,
+      after: checkout,
+    })
+
     // Emit real-time event
     emitCheckoutEvent(data.userId, {
       type: 'approved',
       userId: data.userId,
-      machineId: data.machineId,
-      machineName: machine.name,
+      machineId: target.machineId,
+      categoryId: target.categoryId,
+      machineName: target.name,
     })
 
-    return { success: true, checkout }
+    await refreshEligibilityForTarget(target, data.userId)
+
+    return {
+      success: true,
+      checkout,
+      expiresAt: getCheckoutExpiry(checkout.approvedAt, target.checkoutValidityMonths),
+    }
   })
 
+export const getExpiringCheckoutList = createServerFn({ method: 'GET' }).handler(
+  async () => {
+    await requireManager()
+
+    const expiringCheckouts = await getExpiringCheckouts()
+    return { expiringCheckouts }
+  }
+)
+
 export const revokeCheckout = createServerFn({ method: 'POST' })
   .inputValidator((data: unknown) =>
-    z
-      .object({
-        userId: z.string().uuid(),
-        machineId: z.string().uuid(),
+    checkoutTargetSchema
+      .extend({
+        reason: z.string().trim().min(1, 'A reason is required to revoke a checkout'),
       })
+      .refine(hasOneCheckoutTarget, checkoutTargetMessage)
       .parse(data)
   )
   .handler(async ({ data }) => {
-    await requireManager()
+    const manager = await requireManager()
 
-    const checkout = await db.query.managerCheckouts.findFirst({
-      where: and(
-        eq(managerCheckouts.userId, data.userId),
-        eq(managerCheckouts.machineId, data.machineId)
-      ),
-      with: {
-        machine: true,
-      },
-    })
+    const target = await findCheckoutTarget(data)
 
-    if (!checkout) {
+    const checkout =
+      target &&
+      (await db.query.managerCheckouts.findFirst({
+        where: and(
+          eq(managerCheckouts.userId, data.userId),
+          isCheckoutFor(target),
+          eq(managerCheckouts.status, 'active')
+        ),
+      }))
+
+    if (!target || !checkout) {
       return { success: false, error: 'Checkout not found' }
     }
 
-    await db
-      .delete(managerCheckouts)
+    // Keep the row as history rather than deleting it
+    const [revoked] = await db
+      .update(managerCheckouts)
+      .set({
+        status: 'revoked',
+        revokedBy: manager.id,
+        revokedAt: new Date(),
+        revocationReason: data.reason,
+      })
       .where(eq(managerCheckouts.id, checkout.id))
+      .returning()
+
+    await recordAuditEvent(manager, {
+      action: 'checkout.revoked',
+      entityType: 'checkout',
+      entityId: checkout.id,
+      before: checkout,
+      after: revoked,
+    })
 
     // Emit real-time event
     emitCheckoutEvent(data.userId, {
       type: 'revoked',
       userId: data.userId,
-      machineId: data.machineId,
-      machineName: checkout.machine.name,
+      machineId: target.machineId,
+      categoryId: target.categoryId,
+      machineName: target.name,
+      reason: data.reason,
     })
 
-    return { success: true }
+    await refreshEligibilityForTarget(target, data.userId)
+
+    return { success: true, checkout: revoked }
   })
 
 // ============ Machine Management (Admin) ============
 
+interface BookingLimits {
+  slotMinutes: number
+  minBookingMinutes: number
+  maxBookingMinutes: number
+}
+
+function validateBookingLimits(limits: BookingLimits): string | null {
+  if (
+    limits.minBookingMinutes % limits.slotMinutes !== 0 ||
+    limits.maxBookingMinutes % limits.slotMinutes !== 0
+  ) {
+    return 'Minimum and maximum booking lengths must be multiples of the slot length.'
+  }
+
+  if (limits.minBookingMinutes > limits.maxBookingMinutes) {
+    return 'Minimum booking length cannot exceed the maximum.'
+  }
+
+  return null
+}
+
+const bookingMinutesSchema = z.number().int().positive().max(24 * 60)
+
 export const createMachine = createServerFn({ method: 'POST' })
   .inputValidator((data: unknown) =>
     z
@@ -305,11 +499,19 @@ export const createMachine = createServerFn({ method: 'POST' })
         name: z.string().min(1),
         description: z.string().optional(),
         calcomEventTypeId: z.number().optional(),
+        slotMinutes: bookingMinutesSchema.default(60),
+        minBookingMinutes: bookingMinutesSchema.default(60),
+        maxBookingMinutes: bookingMinutesSchema.default(60),
       })
       .parse(data)
   )
   .handler(async ({ data }) => {
-    await requireAdmin()
+    const admin = await requireAdmin()
+
+    const limitsError = validateBookingLimits(data)
+    if (limitsError) {
+      return { success: false, error: limitsError }
+    }
 
     const [machine] = await db
       .insert(machines)
@@ -317,9 +519,19 @@ export const createMachine = createServerFn({ method: 'POST' })
         name: data.name,
         description: data.description,
         calcomEventTypeId: data.calcomEventTypeId,
+        slotMinutes: data.slotMinutes,
+        minBookingMinutes: data.minBookingMinutes,
+        maxBookingMinutes: data.maxBookingMinutes,
       })
       .returning()
 
+    await recordAuditEvent(admin, {
+      action: 'machine.created',
+      entityType: 'machine',
+      entityId: machine.id,
+      after: machine,
+    })
+
     return { success: true, machine }
   })
 
@@ -330,16 +542,61 @@ export const updateMachine = createServerFn({ method: 'POST' })
         machineId: z.string().uuid(),
         name: z.string().min(1).optional(),
         description: z.string().optional(),
+        categoryId: z.string().uuid().nullable().optional(),
         calcomEventTypeId: z.number().optional(),
+        slotMinutes: bookingMinutesSchema.optional(),
+        minBookingMinutes: bookingMinutesSchema.optional(),
+        maxBookingMinutes: bookingMinutesSchema.optional(),
+        checkoutValidityMonths: z.number().int().positive().max(120).nullable().optional(),
+        refresherModuleId: z.string().uuid().nullable().optional(),
+        maxHoursPerWeek: z.number().int().positive().max(168).nullable().optional(),
+        maxActiveReservations: z.number().int().positive().nullable().optional(),
+        maxAdvanceDays: z.number().int().positive().max(365).nullable().optional(),
+        minNoticeMinutes: z.number().int().nonnegative().max(7 * 24 * 60).nullable().optional(),
         active: z.boolean().optional(),
       })
       .parse(data)
   )
   .handler(async ({ data }) => {
-    await requireAdmin()
+    const admin = await requireAdmin()
 
     const { machineId, ...updates } = data
 
+    const existing = await db.query.machines.findFirst({
+      where: eq(machines.id, machineId),
+    })
+
+    if (!existing) {
+      return { success: false, error: 'Machine not found' }
+    }
+
+    const limitsError = validateBookingLimits({ ...existing, ...updates })
+    if (limitsError) {
+      return { success: false, error: limitsError }
+    }
+
+    // Moving a machine keeps its own checkouts and requirements; only what it
+    // inherits from a category changes
+    if (updates.categoryId && updates.categoryId !== existing.categoryId) {
+      const category = await db.query.machineCategories.findFirst({
+        where: eq(machineCategories.id, updates.categoryId),
+      })
+
+      if (!category) {
+        return { success: false, error: 'Category not found' }
+      }
+
+      if (
+        category.requirementRule &&
+        getRuleMachineIds(category.requirementRule).includes(machineId)
+      ) {
+        return {
+          success: false,
+          error: `The ${category.name} category requires a checkout on this machine`,
+        }
+      }
+    }
+
     const [machine] = await db
       .update(machines)
       .set({
@@ -349,6 +606,18 @@ export const updateMachine = createServerFn({ method: 'POST' })
       .where(eq(machines.id, machineId))
       .returning()
 
+    await recordAuditEvent(admin, {
+      action: 'machine.updated',
+      entityType: 'machine',
+      entityId: machineId,
+      before: existing,
+      after: machine,
+    })
+
+    // Activation, category, checkout validity and the refresher module all affect
+    // eligibility, here and on machines that require a checkout on this one
+    await refreshEligibilityForMachine(machineId)
+
     return { success: true, machine }
   })
 
@@ -367,13 +636,23 @@ export const setMachineRequirements = createServerFn({ method: 'POST' })
       .parse(data)
   )
   .handler(async ({ data }) => {
-    await requireAdmin()
+    const admin = await requireAdmin()
+
+    const existing = await db.query.machineRequirements.findMany({
+      where: eq(machineRequirements.machineId, data.machineId),
+    })
 
     // Delete existing requirements
     await db
       .delete(machineRequirements)
       .where(eq(machineRequirements.machineId, data.machineId))
 
+    // A plain list replaces any requirement rule
+    await db
+      .update(machines)
+      .set({ requirementRule: null, updatedAt: new Date() })
+      .where(eq(machines.id, data.machineId))
+
     // Insert new requirements
     if (data.requirements.length > 0) {
       await db.insert(machineRequirements).values(
@@ -385,9 +664,353 @@ export const setMachineRequirements = createServerFn({ method: 'POST' })
       )
     }
 
+    await recordAuditEvent(admin, {
+      action: 'machine.requirements_updated',
+      entityType: 'machine',
+      entityId: data.machineId,
+      before: existing.map((r) => ({
+        moduleId: r.moduleId,
+        requiredWatchPercent: r.requiredWatchPercent,
+      })),
+      after: data.requirements,
+    })
+
+    await refreshEligibilityAfterWrite({ machineIds: [data.machineId] })
+
+    return { success: true }
+  })
+
+export const setMachineRequirementRule = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z
+      .object({
+        machineId: z.string().uuid(),
+        rule: requirementRuleSchema,
+      })
+      .parse(data)
+  )
+  .handler(async ({ data }) => {
+    const admin = await requireAdmin()
+
+    const machine = await db.query.machines.findFirst({
+      where: eq(machines.id, data.machineId),
+      with: {
+        requirements: true,
+      },
+    })
+
+    if (!machine) {
+      return { success: false, error: 'Machine not found' }
+    }
+
+    const ruleError = await validateRequirementRule([machine.id], data.rule)
+    if (ruleError) {
+      return { success: false, error: ruleError }
+    }
+
+    // machine_requirements keeps listing the modules the rule mentions, so
+    // lookups by module (training pages, cache refreshes) still find the machine
+    const modules = getRuleModules(data.rule)
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(machines)
+        .set({ requirementRule: data.rule, updatedAt: new Date() })
+        .where(eq(machines.id, machine.id))
+
+      await tx.delete(machineRequirements).where(eq(machineRequirements.machineId, machine.id))
+
+      if (modules.size > 0) {
+        await tx.insert(machineRequirements).values(
+          [...modules].map(([moduleId, requiredWatchPercent]) => ({
+            machineId: machine.id,
+            moduleId,
+            requiredWatchPercent,
+          }))
+        )
+      }
+    })
+
+    await recordAuditEvent(admin, {
+      action: 'machine.requirements_updated',
+      entityType: 'machine',
+      entityId: machine.id,
+      before: machine.requirementRule ?? machine.requirements.map((r) => ({
+        moduleId: r.moduleId,
+        requiredWatchPercent: r.requiredWatchPercent,
+      })),
+      after: data.rule,
+    })
+
+    await refreshEligibilityAfterWrite({ machineIds: [machine.id] })
+
+    return { success: true }
+  })
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM')
+
+export const setMachineOpeningHours = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z
+      .object({
+        machineId: z.string().uuid(),
+        hours: z.array(
+          z
+            .object({
+              dayOfWeek: z.number().int().min(0).max(6),
+              opensAt: timeOfDaySchema,
+              closesAt: timeOfDaySchema,
+            })
+            .refine((h) => h.opensAt < h.closesAt, {
+              message: 'Closing time must be after opening time',
+            })
+        ),
+      })
+      .parse(data)
+  )
+  .handler(async ({ data }) => {
+    const admin = await requireAdmin()
+
+    const existing = await db.query.machineOpeningHours.findMany({
+      where: eq(machineOpeningHours.machineId, data.machineId),
+    })
+
+    // Delete existing opening hours
+    await db
+      .delete(machineOpeningHours)
+      .where(eq(machineOpeningHours.machineId, data.machineId))
+
+    // Insert new opening hours
+    if (data.hours.length > 0) {
+      await db.insert(machineOpeningHours).values(
+        data.hours.map((h) => ({
+          machineId: data.machineId,
+          dayOfWeek: h.dayOfWeek,
+          opensAt: h.opensAt,
+          closesAt: h.closesAt,
+        }))
+      )
+    }
+
+    await recordAuditEvent(admin, {
+      action: 'machine.opening_hours_updated',
+      entityType: 'machine',
+      entityId: data.machineId,
+      before: existing.map((h) => ({
+        dayOfWeek: h.dayOfWeek,
+        opensAt: h.opensAt,
+        closesAt: h.closesAt,
+      })),
+      after: data.hours,
+    })
+
+    return { success: true }
+  })
+
+// ============ Machine Categories (Admin) ============
+
+export const createMachineCategory = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z
+      .object({
+        name: z.string().trim().min(1),
+        description: z.string().optional(),
+      })
+      .parse(data)
+  )
+  .handler(async ({ data }) => {
+    const admin = await requireAdmin()
+
+    const existing = await db.query.machineCategories.findFirst({
+      where: eq(machineCategories.name, data.name),
+    })
+
+    if (existing) {
+      return { success: false, error: 'A category with that name already exists' }
+    }
+
+    const [category] = await db
+      .insert(machineCategories)
+      .values({ name: data.name, description: data.description })
+      .returning()
+
+    await recordAuditEvent(admin, {
+      action: 'category.created',
+      entityType: 'category',
+      entityId: category.id,
+      after: category,
+    })
+
+    return { success: true, category }
+  })
+
+export const updateMachineCategory = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z
+      .object({
+        categoryId: z.string().uuid(),
+        name: z.string().trim().min(1).optional(),
+        description: z.string().optional(),
+        checkoutValidityMonths: z.number().int().positive().max(120).nullable().optional(),
+      })
+      .parse(data)
+  )
+  .handler(async ({ data }) => {
+    const admin = await requireAdmin()
+
+    const { categoryId, ...updates } = data
+
+    const existing = await db.query.machineCategories.findFirst({
+      where: eq(machineCategories.id, categoryId),
+    })
+
+    if (!existing) {
+      return { success: false, error: 'Category not found' }
+    }
+
+    if (updates.name && updates.name !== existing.name) {
+      const clash = await db.query.machineCategories.findFirst({
+        where: eq(machineCategories.name, updates.name),
+      })
+      if (clash) {
+        return { success: false, error: 'A category with that name already exists' }
+      }
+    }
+
+    const [category] = await db
+      .update(machineCategories)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(machineCategories.id, categoryId))
+      .returning()
+
+    await recordAuditEvent(admin, {
+      action: 'category.updated',
+      entityType: 'category',
+      entityId: categoryId,
+      before: existing,
+      after: category,
+    })
+
+    // Checkout validity decides when category checkouts lapse
+    await refreshEligibilityForCategory(categoryId)
+
+    return { success: true, category }
+  })
+
+export const setCategoryRequirementRule = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z
+      .object({
+        categoryId: z.string().uuid(),
+        rule: requirementRuleSchema,
+      })
+      .parse(data)
+  )
+  .handler(async ({ data }) => {
+    const admin = await requireAdmin()
+
+    const category = await db.query.machineCategories.findFirst({
+      where: eq(machineCategories.id, data.categoryId),
+      with: {
+        machines: {
+          columns: { id: true },
+        },
+      },
+    })
+
+    if (!category) {
+      return { success: false, error: 'Category not found' }
+    }
+
+    const ruleError = await validateRequirementRule(
+      category.machines.map((m) => m.id),
+      data.rule
+    )
+    if (ruleError) {
+      return { success: false, error: ruleError }
+    }
+
+    // An empty "all of" group asks for nothing
+    const rule = data.rule.type === 'all' && data.rule.rules.length === 0 ? null : data.rule
+
+    await db
+      .update(machineCategories)
+      .set({ requirementRule: rule, updatedAt: new Date() })
+      .where(eq(machineCategories.id, category.id))
+
+    await recordAuditEvent(admin, {
+      action: 'category.requirements_updated',
+      entityType: 'category',
+      entityId: category.id,
+      before: category.requirementRule,
+      after: rule,
+    })
+
+    await refreshEligibilityForCategory(category.id)
+
     return { success: true }
   })
 
+// ============ Machine Status (Admin) ============
+
+export const setMachineOutOfService = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z
+      .object({
+        machineId: z.string().uuid(),
+        reason: z.string().trim().min(1, 'A reason is required').max(500),
+        expectedBackAt: z.string().datetime().nullable().optional(),
+      })
+      .parse(data)
+  )
+  .handler(async ({ data }) => {
+    const admin = await requireAdmin()
+
+    return setOutOfService(admin, data.machineId, {
+      reason: data.reason,
+      expectedBackAt: data.expectedBackAt ? new Date(data.expectedBackAt) : null,
+    })
+  })
+
+export const returnMachineToService = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z.object({ machineId: z.string().uuid() }).parse(data)
+  )
+  .handler(async ({ data }) => {
+    const admin = await requireAdmin()
+    return returnToService(admin, data.machineId)
+  })
+
+export const scheduleMachineMaintenance = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z
+      .object({
+        machineId: z.string().uuid(),
+        startTime: z.string().datetime(),
+        endTime: z.string().datetime(),
+        reason: z.string().trim().min(1, 'A reason is required').max(500),
+      })
+      .parse(data)
+  )
+  .handler(async ({ data }) => {
+    const admin = await requireAdmin()
+
+    return scheduleMaintenance(admin, data.machineId, {
+      startTime: new Date(data.startTime),
+      endTime: new Date(data.endTime),
+      reason: data.reason,
+    })
+  })
+
+export const removeMachineMaintenance = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z.object({ windowId: z.string().uuid() }).parse(data)
+  )
+  .handler(async ({ data }) => {
+    const admin = await requireAdmin()
+    return removeMaintenance(admin, data.windowId)
+  })
+
 // ============ Training Module Management (Admin) ============
 
 export const createTrainingModule = createServerFn({ method: 'POST' })
@@ -402,7 +1025,7 @@ export const createTrainingModule = createServerFn({ method: 'POST' })
       .parse(data)
   )
   .handler(async ({ data }) => {
-    await requireAdmin()
+    const admin = await requireAdmin()
 
     const normalizedVideoId = normalizeYouTubeId(data.youtubeVideoId)
     if (!normalizedVideoId) {
@@ -419,6 +1042,13 @@ export const createTrainingModule = createServerFn({ method: 'POST' })
       })
       .returning()
 
+    await recordAuditEvent(admin, {
+      action: 'module.created',
+      entityType: 'module',
+      entityId: module.id,
+      after: module,
+    })
+
     return { success: true, module }
   })
 
@@ -436,7 +1066,7 @@ export const updateTrainingModule = createServerFn({ method: 'POST' })
       .parse(data)
   )
   .handler(async ({ data }) => {
-    await requireAdmin()
+    const admin = await requireAdmin()
 
     const { moduleId, ...updates } = data
     let normalizedVideoId: string | undefined
@@ -448,6 +1078,14 @@ export const updateTrainingModule = createServerFn({ method: 'POST' })
       }
     }
 
+    const existing = await db.query.trainingModules.findFirst({
+      where: eq(trainingModules.id, moduleId),
+    })
+
+    if (!existing) {
+      return { success: false, error: 'Module not found' }
+    }
+
     const [module] = await db
       .update(trainingModules)
       .set({
@@ -458,11 +1096,142 @@ export const updateTrainingModule = createServerFn({ method: 'POST' })
       .where(eq(trainingModules.id, moduleId))
       .returning()
 
+    await recordAuditEvent(admin, {
+      action: 'module.updated',
+      entityType: 'module',
+      entityId: moduleId,
+      before: existing,
+      after: module,
+    })
+
+    // A new duration changes everyone's watched percentage
+    await refreshEligibilityForModule(moduleId)
+
     return { success: true, module }
   })
 
+export const getModuleQuiz = createServerFn({ method: 'GET' })
+  .inputValidator((data: unknown) => z.object({ moduleId: z.string().uuid() }).parse(data))
+  .handler(async ({ data }) => {
+    await requireAdmin()
+
+    const module = await db.query.trainingModules.findFirst({
+      where: eq(trainingModules.id, data.moduleId),
+      with: {
+        quizQuestions: {
+          orderBy: [asc(quizQuestions.sortOrder)],
+        },
+      },
+    })
+
+    if (!module) {
+      throw new Response(JSON.stringify({ error: 'Module not found' }), {
+        status: 404,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    return {
+      passPercent: module.quizPassPercent,
+      cooldownMinutes: module.quizCooldownMinutes,
+      questions: module.quizQuestions,
+    }
+  })
+
+const quizQuestionSchema = z
+  .object({
+    prompt: z.string().min(1),
+    options: z.array(z.string().min(1)).min(2).max(6),
+    correctOption: z.number().int().min(0),
+  })
+  .refine((q) => q.correctOption < q.options.length, {
+    message: 'Correct answer must be one of the options',
+  })
+
+// Replaces the module's questions; past attempts keep their recorded answers
+export const setModuleQuiz = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z
+      .object({
+        moduleId: z.string().uuid(),
+        passPercent: z.number().int().min(1).max(100),
+        cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60),
+        questions: z.array(quizQuestionSchema),
+      })
+      .parse(data)
+  )
+  .handler(async ({ data }) => {
+    const admin = await requireAdmin()
+
+    const module = await db.query.trainingModules.findFirst({
+      where: eq(trainingModules.id, data.moduleId),
+      with: {
+        quizQuestions: {
+          orderBy: [asc(quizQuestions.sortOrder)],
+        },
+      },
+    })
+
+    if (!module) {
+      return { success: false, error: 'Module not found' }
+    }
+
+    await db
+      .update(trainingModules)
+      .set({
+        quizPassPercent: data.passPercent,
+        quizCooldownMinutes: data.cooldownMinutes,
+        updatedAt: new Date(),
+      })
+      .where(eq(trainingModules.id, data.moduleId))
+
+    await db.delete(quizQuestions).where(eq(quizQuestions.moduleId, data.moduleId))
+
+    if (data.questions.length > 0) {
+      await db.insert(quizQuestions).values(
+        data.questions.map((q, i) => ({
+          moduleId: data.moduleId,
+          prompt: q.prompt,
+          options: q.options,
+          correctOption: q.correctOption,
+          sortOrder: i,
+        }))
+      )
+    }
+
+    await recordAuditEvent(admin, {
+      action: 'module.quiz_updated',
+      entityType: 'module',
+      entityId: data.moduleId,
+      before: {
+        passPercent: module.quizPassPercent,
+        cooldownMinutes: module.quizCooldownMinutes,
+        questions: module.quizQuestions.map((q) => ({
+          prompt: q.prompt,
+          options: q.options,
+          correctOption: q.correctOption,
+        })),
+      },
+      after: {
+        passPercent: data.passPercent,
+        cooldownMinutes: data.cooldownMinutes,
+        questions: data.questions,
+      },
+    })
+
+    await refreshEligibilityForModule(data.moduleId)
+
+    return { success: true, questionCount: data.questions.length }
+  })
+
 // ============ User Management (Admin) ============
 
+// Password hashes stay out of the audit log
+function auditableUser(user: User) {
+  const { passwordHash, ...rest } = user
+  return rest
+}
+
 export const getUsers = createServerFn({ method: 'GET' }).handler(async () => {
   await requireAdmin()
 
@@ -494,10 +1263,18 @@ export const updateUser = createServerFn({ method: 'POST' })
       .parse(data)
   )
   .handler(async ({ data }) => {
-    await requireAdmin()
+    const admin = await requireAdmin()
 
     const { userId, ...updates } = data
 
+    const existing = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+    })
+
+    if (!existing) {
+      return { success: false, error: 'User not found' }
+    }
+
     const [user] = await db
       .update(users)
       .set({
@@ -507,9 +1284,213 @@ export const updateUser = createServerFn({ method: 'POST' })
       .where(eq(users.id, userId))
       .returning()
 
+    await recordAuditEvent(admin, {
+      action: 'user.updated',
+      entityType: 'user',
+      entityId: userId,
+      before: auditableUser(existing),
+      after: auditableUser(user),
+    })
+
+    // Requirement rules can exempt roles
+    if (user.status !== existing.status || user.role !== existing.role) {
+      await refreshEligibilityAfterWrite({ userIds: [userId] })
+    }
+
     return { success: true, user }
   })
 
+// ============ Audit Log (Admin) ============
+
+export const getAuditEvents = createServerFn({ method: 'GET' })
+  .inputValidator((data: unknown) => auditFilterSchema.parse(data))
+  .handler(async ({ data }) => {
+    await requireAdmin()
+
+    const events = await listAuditEvents(data, 200)
+
+    // Snapshots are arbitrary JSON, so send them pre-formatted
+    return {
+      events: events.map((event) => ({
+        ...event,
+        before: event.before === null ? null : JSON.stringify(event.before, null, 2),
+        after: event.after === null ? null : JSON.stringify(event.after, null, 2),
+      })),
+    }
+  })
+
+// ============ Webhook Deliveries (Admin) ============
+
+export const getWebhookDeliveries = createServerFn({ method: 'GET' })
+  .inputValidator((data: unknown) =>
+    z
+      .object({
+        status: z.enum(['processing', 'processed', 'failed', 'rejected']).optional(),
+      })
+      .parse(data)
+  )
+  .handler(async ({ data }) => {
+    await requireAdmin()
+
+    const deliveries = await listWebhookDeliveries(data, 200)
+
+    // Bodies are shown as received; pretty-print them when they are JSON
+    return {
+      deliveries: deliveries.map((delivery) => {
+        let body = delivery.body
+        try {
+          body = JSON.stringify(JSON.parse(delivery.body), null, 2)
+        } catch {
+          // Not JSON; show it raw
+        }
+
+        return {
+          ...delivery,
+          headers: JSON.stringify(delivery.headers, null, 2),
+          body,
+          result: delivery.result === null ? null : JSON.stringify(delivery.result, null, 2),
+          retryable: isRetryable(delivery),
+        }
+      }),
+    }
+  })
+
+export const reprocessWebhook = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) => z.object({ deliveryId: z.string().uuid() }).parse(data))
+  .handler(async ({ data }) => {
+    const user = await requireAdmin()
+
+    const result = await reprocessWebhookDelivery(data.deliveryId)
+
+    await recordAuditEvent(user, {
+      action: 'webhook.reprocessed',
+      entityType: 'webhook',
+      entityId: data.deliveryId,
+      after: result,
+    })
+
+    return result
+  })
+
+// ============ Booking Reconciliation (Admin) ============
+
+export const getReconciliationReport = createServerFn({ method: 'GET' }).handler(async () => {
+  await requireAdmin()
+
+  return getReconciliationFindings()
+})
+
+export const runReconciliation = createServerFn({ method: 'POST' }).handler(async () => {
+  const user = await requireAdmin()
+
+  try {
+    const summary = await reconcileBookings(user)
+    if (!summary) {
+      return { success: false, error: 'Reconciliation is already running' }
+    }
+
+    await recordAuditEvent(user, {
+      action: 'reconciliation.run',
+      entityType: 'reconciliation',
+      entityId: 'bookings',
+      after: summary,
+    })
+    return { success: true, ...summary }
+  } catch (error) {
+    console.error('Reconciliation error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Reconciliation failed',
+    }
+  }
+})
+
+export const dismissReconciliation = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) => z.object({ findingId: z.string().uuid() }).parse(data))
+  .handler(async ({ data }) => {
+    const user = await requireAdmin()
+
+    return dismissReconciliationFinding(user, data.findingId)
+  })
+
+// ============ Machine Usage (Manager+) ============
+
+export const getMachineUsage = createServerFn({ method: 'GET' })
+  .inputValidator((data: unknown) =>
+    z.object({ machineId: z.string().uuid().optional() }).parse(data)
+  )
+  .handler(async ({ data }) => {
+    await requireManager()
+
+    const now = Date.now()
+    const minute = 60 * 1000
+
+    const [machineList, hourMeters, log, current, noShows] = await Promise.all([
+      db.query.machines.findMany({
+        columns: { id: true, name: true },
+        orderBy: [asc(machines.name)],
+      }),
+      getMachineHourMeters(),
+      getUsageLog(data.machineId, 100),
+      // Reservations that can be checked in or out right now, for the kiosk view
+      db.query.reservations.findMany({
+        where: and(
+          eq(reservations.status, 'confirmed'),
+          lte(reservations.startTime, new Date(now + CHECK_IN_EARLY_MINUTES * minute)),
+          gte(reservations.endTime, new Date(now - CHECK_OUT_GRACE_MINUTES * minute)),
+          data.machineId ? eq(reservations.machineId, data.machineId) : undefined
+        ),
+        with: {
+          machine: { columns: { id: true, name: true } },
+          user: { columns: { id: true, email: true, name: true } },
+        },
+        orderBy: [asc(reservations.startTime)],
+      }),
+      getRecentNoShows(data.machineId, 50),
+    ])
+
+    return {
+      machines: machineList.map((machine) => ({
+        ...machine,
+        usageMinutes: hourMeters.get(machine.id) ?? 0,
+      })),
+      log,
+      current,
+      noShows,
+    }
+  })
+
+export const markReservationNoShow = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z.object({ reservationId: z.string().uuid() }).parse(data)
+  )
+  .handler(async ({ data }) => {
+    const manager = await requireManager()
+    const result = await markNoShow(manager, data.reservationId)
+
+    // The no-show may start a booking block
+    if (result.success) {
+      await refreshEligibilityAfterWrite({ userIds: [result.reservation.userId] })
+    }
+
+    return result
+  })
+
+export const excuseReservationNoShow = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z.object({ reservationId: z.string().uuid() }).parse(data)
+  )
+  .handler(async ({ data }) => {
+    const manager = await requireManager()
+    const result = await excuseNoShow(manager, data.reservationId)
+
+    if (result.success) {
+      await refreshEligibilityAfterWrite({ userIds: [result.reservation.userId] })
+    }
+
+    return result
+  })
+
 // ============ Admin Dashboard Data ============
 
 export const getAdminMachines = createServerFn({ method: 'GET' }).handler(
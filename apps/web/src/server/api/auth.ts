@@ -1,7 +1,14 @@
 import { createServerFn } from '@tanstack/react-start'
 import { z } from 'zod'
-import { getAuthService, getAuthUser, createSessionCookie, createLogoutCookie, SESSION_DURATION_MS } from '../auth'
+import { getAuthService, getOidcAuthService, getAuthUser, requireAuth, createSessionCookie, createLogoutCookie, SESSION_DURATION_MS } from '../auth'
 import { setResponseHeaders } from '@tanstack/react-start/server'
+import {
+  requestPasswordReset as sendPasswordResetEmail,
+  resetPassword as applyPasswordReset,
+  sendEmailVerification,
+  verifyEmail as applyEmailVerification,
+  isEmailVerified,
+} from '../services/account'
 
 const loginSchema = z.object({
   email: z.string().email(),
@@ -14,6 +21,19 @@ const registerSchema = z.object({
   name: z.string().min(1).optional(),
 })
 
+const passwordResetRequestSchema = z.object({
+  email: z.string().email(),
+})
+
+const passwordResetSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(8),
+})
+
+const emailVerificationSchema = z.object({
+  token: z.string().min(1),
+})
+
 export const login = createServerFn({ method: 'POST' })
   .handler(async (ctx) => {
     const input = loginSchema.parse(ctx.data)
@@ -37,6 +57,10 @@ export const register = createServerFn({ method: 'POST' })
     const input = registerSchema.parse(ctx.data)
     const auth = getAuthService()
 
+    if (getOidcAuthService()) {
+      return { success: false as const, error: 'Accounts are created by signing in with single sign-on' }
+    }
+
     // Check if user already exists
     const existing = await auth.getUserByEmail(input.email)
     if (existing) {
@@ -44,6 +68,14 @@ export const register = createServerFn({ method: 'POST' })
     }
 
     const user = await auth.createUser(input.email, input.password, input.name)
+
+    // A mail outage shouldn't block sign-up; the dashboard offers a resend
+    try {
+      await sendEmailVerification(user)
+    } catch (error) {
+      console.error('Failed to send verification email:', error)
+    }
+
     const token = await auth.createSession(user.id)
     const maxAge = Math.floor(SESSION_DURATION_MS / 1000)
 
@@ -61,3 +93,74 @@ export const getMe = createServerFn({ method: 'GET' }).handler(async () => {
   const user = await getAuthUser()
   return { user }
 })
+
+// Which sign-in methods the login and register pages should offer
+export const getLoginOptions = createServerFn({ method: 'GET' }).handler(async () => {
+  const sso = !!getOidcAuthService()
+  return {
+    sso,
+    ssoName: sso ? process.env.OIDC_PROVIDER_NAME || 'Single Sign-On' : null,
+  }
+})
+
+export const requestPasswordReset = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) => passwordResetRequestSchema.parse(data))
+  .handler(async ({ data }) => {
+    if (getOidcAuthService()) {
+      return { success: false as const, error: 'Passwords are managed by your single sign-on provider' }
+    }
+
+    // Not awaited, and failures only logged: a slower answer or a sending error
+    // would only ever happen for registered addresses, and give them away
+    sendPasswordResetEmail(data.email).catch((error) => {
+      console.error('Failed to send password reset email:', error)
+    })
+
+    // Same response whether or not the account exists
+    return { success: true as const }
+  })
+
+export const resetPassword = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) => passwordResetSchema.parse(data))
+  .handler(async ({ data }) => {
+    if (getOidcAuthService()) {
+      return { success: false, error: 'Passwords are managed by your single sign-on provider' }
+    }
+
+    const result = await applyPasswordReset(data.token, data.password)
+
+    if (result.success) {
+      // Every session was invalidated, including the one in this browser
+      setResponseHeaders({ 'Set-Cookie': createLogoutCookie() })
+    }
+
+    return result
+  })
+
+export const verifyEmail = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) => emailVerificationSchema.parse(data))
+  .handler(async ({ data }) => {
+    return applyEmailVerification(data.token)
+  })
+
+export const getEmailVerificationStatus = createServerFn({ method: 'GET' }).handler(async () => {
+  const user = await requireAuth()
+  return { verified: await isEmailVerified(user.id) }
+})
+
+export const resendVerificationEmail = createServerFn({ method: 'POST' }).handler(async () => {
+  const user = await requireAuth()
+
+  if (await isEmailVerified(user.id)) {
+    return { success: false, error: 'Your email address is already verified' }
+  }
+
+  try {
+    await sendEmailVerification(user)
+  } catch (error) {
+    console.error('Failed to send verification email:', error)
+    return { success: false, error: 'Could not send the email. Please try again later.' }
+  }
+
+  return { success: true }
+})
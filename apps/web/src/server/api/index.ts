@@ -1,34 +1,95 @@
 // Auth API
-export { login, register, logout, getMe } from './auth'
+export {
+  login,
+  register,
+  logout,
+  getMe,
+  getLoginOptions,
+  requestPasswordReset,
+  resetPassword,
+  verifyEmail,
+  getEmailVerificationStatus,
+  resendVerificationEmail,
+} from './auth'
 
 // Training API
-export { getModules, getModule, updateProgress, getTrainingStatus } from './training'
+export {
+  getModules,
+  getModule,
+  updateProgress,
+  getQuiz,
+  submitQuiz,
+  getTrainingStatus,
+} from './training'
 
 // Machines API
 export {
   getMachines,
   getMachine,
   getMachineEligibility,
+  getCheckoutExpiryWarnings,
   getMachineAvailability,
   reserveMachine,
 } from './machines'
 
 // Reservations API
-export { getReservations, getReservation, cancelReservation } from './reservations'
+export {
+  getReservations,
+  getReservation,
+  cancelReservation,
+  rescheduleReservation,
+  checkInReservation,
+  checkOutReservation,
+  previewReservationSeries,
+  createReservationSeries,
+  cancelReservationSeries,
+} from './reservations'
+
+// Waitlist API
+export { getMyWaitlist, joinMachineWaitlist, leaveMachineWaitlist } from './waitlist'
+
+// Issues API
+export {
+  reportMachineIssue,
+  getMachineIssues,
+  getIssueQueue,
+  updateMachineIssueStatus,
+} from './issues'
 
 // Admin API
 export {
   getPendingCheckouts,
   getUserForCheckout,
   approveCheckout,
+  getExpiringCheckoutList,
   revokeCheckout,
   createMachine,
   updateMachine,
   setMachineRequirements,
+  setMachineRequirementRule,
+  setMachineOpeningHours,
+  createMachineCategory,
+  updateMachineCategory,
+  setCategoryRequirementRule,
+  setMachineOutOfService,
+  returnMachineToService,
+  scheduleMachineMaintenance,
+  removeMachineMaintenance,
   createTrainingModule,
   updateTrainingModule,
+  getModuleQuiz,
+  setModuleQuiz,
   getUsers,
   updateUser,
+  getAuditEvents,
+  getWebhookDeliveries,
+  reprocessWebhook,
+  getReconciliationReport,
+  runReconciliation,
+  dismissReconciliation,
+  getMachineUsage,
+  markReservationNoShow,
+  excuseReservationNoShow,
   getAdminMachines,
   getAdminModules,
 } from './admin'
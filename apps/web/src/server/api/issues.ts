@@ -0,0 +1,105 @@
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { requireAuth, requireManager } from '../auth'
+import {
+  ISSUE_TRANSITIONS,
+  getOpenMachineIssues,
+  listIssues,
+  reportIssue,
+  updateIssueStatus,
+} from '../services/issues'
+
+const severitySchema = z.enum(['low', 'medium', 'high', 'critical'])
+const statusSchema = z.enum(['open', 'acknowledged', 'in_progress', 'resolved', 'dismissed'])
+
+const reportSchema = z.object({
+  machineId: z.string().uuid(),
+  severity: severitySchema,
+  description: z.string().trim().min(10, 'Describe the issue in at least 10 characters').max(2000),
+})
+
+// Sent as multipart form data so the photo can come along
+export const reportMachineIssue = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) => {
+    if (!(data instanceof FormData)) {
+      throw new Error('Expected form data')
+    }
+
+    const photo = data.get('photo')
+
+    return {
+      ...reportSchema.parse({
+        machineId: data.get('machineId'),
+        severity: data.get('severity'),
+        description: data.get('description'),
+      }),
+      photo: photo instanceof File ? photo : null,
+    }
+  })
+  .handler(async ({ data }) => {
+    const user = await requireAuth()
+
+    const result = await reportIssue(user, data)
+
+    if (!result.success) {
+      return result
+    }
+
+    return { success: true, issueId: result.issue.id }
+  })
+
+export const getMachineIssues = createServerFn({ method: 'GET' })
+  .inputValidator((data: unknown) => z.object({ machineId: z.string().uuid() }).parse(data))
+  .handler(async ({ data }) => {
+    await requireAuth()
+
+    const issues = await getOpenMachineIssues(data.machineId)
+
+    return { issues }
+  })
+
+// ============ Triage (Manager+) ============
+
+export const getIssueQueue = createServerFn({ method: 'GET' })
+  .inputValidator((data: unknown) =>
+    z
+      .object({
+        status: statusSchema.optional(),
+        machineId: z.string().uuid().optional(),
+      })
+      .parse(data)
+  )
+  .handler(async ({ data }) => {
+    await requireManager()
+
+    const issues = await listIssues(data, 200)
+
+    return {
+      issues: issues.map((issue) => ({
+        ...issue,
+        transitions: ISSUE_TRANSITIONS[issue.status],
+      })),
+    }
+  })
+
+export const updateMachineIssueStatus = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z
+      .object({
+        issueId: z.string().uuid(),
+        status: statusSchema,
+        note: z.string().trim().max(2000).optional(),
+      })
+      .parse(data)
+  )
+  .handler(async ({ data }) => {
+    const user = await requireManager()
+
+    const result = await updateIssueStatus(user, data.issueId, data.status, data.note)
+
+    if (!result.success) {
+      return result
+    }
+
+    return { success: true }
+  })
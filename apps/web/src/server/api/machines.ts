@@ -2,10 +2,18 @@ import { createServerFn } from '@tanstack/react-start'
 import { z } from 'zod'
 import { eq } from 'drizzle-orm'
 import { requireAuth } from '../auth'
-import { db, machines, reservations, NewReservation } from '~/lib/db'
-import { checkEligibility, getMachineRequirements } from '../services/eligibility'
-import { calcom } from '../services/calcom'
-import { emitBookingEvent, broadcastMachineAvailabilityChange } from '../services/events'
+import { db, machines } from '~/lib/db'
+import {
+  checkEligibility,
+  getExpiringCheckouts,
+  getMachineRequirements,
+} from '../services/eligibility'
+import { getSchedulingProvider, validateBookingDuration } from '../services/scheduling'
+import { isEmailVerified } from '../services/account'
+import { excludeHeldSlots } from '../services/waitlist'
+import { excludeMaintenanceSlots, isOutOfService } from '../services/maintenance'
+import { bookMachine } from '../services/booking'
+import { getCachedEligibility } from '../services/eligibility-cache'
 
 export const getMachines = createServerFn({ method: 'GET' }).handler(async () => {
   const user = await requireAuth()
@@ -14,17 +22,18 @@ export const getMachines = createServerFn({ method: 'GET' }).handler(async () =>
     where: eq(machines.active, true),
   })
 
-  // Get eligibility for each machine
-  const machinesWithEligibility = await Promise.all(
-    machineList.map(async (machine) => {
-      const eligibility = await checkEligibility(user.id, machine.id)
-      return {
-        ...machine,
-        eligibility,
-      }
-    })
+  // Read from the eligibility cache; booking itself always checks live
+  const eligibility = await getCachedEligibility(
+    user.id,
+    machineList.map((m) => m.id)
   )
 
+  const machinesWithEligibility = machineList.map((machine) => ({
+    ...machine,
+    outOfService: isOutOfService(machine),
+    eligibility: eligibility.get(machine.id)!,
+  }))
+
   return { user, machines: machinesWithEligibility }
 })
 
@@ -68,6 +77,25 @@ export const getMachineEligibility = createServerFn({ method: 'GET' })
     return eligibility
   })
 
+// The current user's checkouts that have expired or are due for renewal
+export const getCheckoutExpiryWarnings = createServerFn({ method: 'GET' }).handler(
+  async () => {
+    const user = await requireAuth()
+
+    const checkouts = await getExpiringCheckouts(user.id)
+
+    return {
+      warnings: checkouts.map((c) => ({
+        machineId: c.machineId,
+        categoryId: c.categoryId,
+        machineName: c.machineName,
+        expiresAt: c.expiresAt,
+        expired: c.expired,
+      })),
+    }
+  }
+)
+
 export const getMachineAvailability = createServerFn({ method: 'GET' })
   .inputValidator((data: unknown) =>
     z
@@ -79,7 +107,7 @@ export const getMachineAvailability = createServerFn({ method: 'GET' })
       .parse(data)
   )
   .handler(async ({ data }) => {
-    await requireAuth()
+    const user = await requireAuth()
 
     const machine = await db.query.machines.findFirst({
       where: eq(machines.id, data.machineId),
@@ -92,23 +120,31 @@ export const getMachineAvailability = createServerFn({ method: 'GET' })
       })
     }
 
-    if (!machine.calcomEventTypeId) {
+    const scheduler = getSchedulingProvider()
+
+    if (!(await scheduler.isConfigured(machine))) {
       return { slots: [], error: 'Machine not configured for scheduling' }
     }
 
-    const slots = await calcom.getAvailability(
-      machine.calcomEventTypeId,
+    const slots = await scheduler.getAvailability(
+      machine,
       new Date(data.startDate),
       new Date(data.endDate)
     )
 
-    return { slots }
+    return {
+      slots: await excludeHeldSlots(
+        machine,
+        await excludeMaintenanceSlots(machine, slots),
+        user.id
+      ),
+    }
   })
 
 const reserveSchema = z.object({
   machineId: z.string().uuid(),
   startTime: z.string().datetime(),
-  endTime: z.string().datetime(),
+  durationMinutes: z.number().int().positive(),
 })
 
 export const reserveMachine = createServerFn({ method: 'POST' })
@@ -116,6 +152,13 @@ export const reserveMachine = createServerFn({ method: 'POST' })
   .handler(async ({ data }) => {
     const user = await requireAuth()
 
+    if (!(await isEmailVerified(user.id))) {
+      return {
+        success: false,
+        error: 'Verify your email address before reserving machines',
+      }
+    }
+
     // Check eligibility
     const eligibility = await checkEligibility(user.id, data.machineId)
     if (!eligibility.eligible) {
@@ -126,7 +169,7 @@ export const reserveMachine = createServerFn({ method: 'POST' })
       }
     }
 
-    // Get machine for Cal.com event type
+    // Get machine for the scheduling provider
     const machine = await db.query.machines.findFirst({
       where: eq(machines.id, data.machineId),
     })
@@ -135,68 +178,25 @@ export const reserveMachine = createServerFn({ method: 'POST' })
       return { success: false, error: 'Machine not found' }
     }
 
-    if (!machine.calcomEventTypeId) {
+    const scheduler = getSchedulingProvider()
+
+    if (!(await scheduler.isConfigured(machine))) {
       return { success: false, error: 'Machine not configured for scheduling' }
     }
 
-    // Get user details for booking
-    const userRecord = await db.query.users.findFirst({
-      where: eq(db._.fullSchema.users.id, user.id),
-    })
-
-    if (!userRecord) {
-      return { success: false, error: 'User not found' }
+    const durationError = validateBookingDuration(machine, data.durationMinutes)
+    if (durationError) {
+      return { success: false, error: durationError }
     }
 
-    // Create booking in Cal.com
-    let calcomBooking
-    try {
-      calcomBooking = await calcom.createBooking({
-        eventTypeId: machine.calcomEventTypeId,
-        start: new Date(data.startTime),
-        attendee: {
-          name: userRecord.name || userRecord.email,
-          email: userRecord.email,
-          timeZone: 'UTC',
-        },
-        metadata: {
-          machineId: data.machineId,
-          userId: user.id,
-        },
-      })
-    } catch (error) {
-      console.error('Cal.com booking error:', error)
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to create booking',
-      }
-    }
+    // Single authoritative time range for the provider booking and the local record
+    const startTime = new Date(data.startTime)
+    const endTime = new Date(startTime.getTime() + data.durationMinutes * 60 * 1000)
 
-    // Create local reservation record
-    const [reservation] = await db
-      .insert(reservations)
-      .values({
-        userId: user.id,
-        machineId: data.machineId,
-        calcomBookingId: calcomBooking.id.toString(),
-        calcomBookingUid: calcomBooking.uid,
-        startTime: new Date(data.startTime),
-        endTime: new Date(data.endTime),
-        status: 'confirmed',
-      } satisfies NewReservation)
-      .returning()
-
-    // Emit real-time event
-    emitBookingEvent(user.id, {
-      type: 'created',
-      bookingId: reservation.id,
-      machineId: data.machineId,
+    return bookMachine({
       userId: user.id,
-      startTime: data.startTime,
-      endTime: data.endTime,
+      machine,
+      start: startTime,
+      end: endTime,
     })
-
-    broadcastMachineAvailabilityChange(data.machineId)
-
-    return { success: true, reservation }
   })
@@ -2,9 +2,27 @@ import { createServerFn } from '@tanstack/react-start'
 import { z } from 'zod'
 import { eq, and, gte, desc } from 'drizzle-orm'
 import { requireAuth } from '../auth'
-import { db, reservations } from '~/lib/db'
-import { calcom } from '../services/calcom'
+import { db, machines, reservations } from '~/lib/db'
+import type { AuthUser } from '../auth/types'
+import { checkEligibility } from '../services/eligibility'
+import {
+  getSchedulingProvider,
+  validateBookingDuration,
+  withMachineBookingLock,
+} from '../services/scheduling'
 import { emitBookingEvent, broadcastMachineAvailabilityChange } from '../services/events'
+import { checkIn, checkOut } from '../services/usage'
+import { checkBookingQuota } from '../services/quotas'
+import { findConflictingHold, offerFreedTime } from '../services/waitlist'
+import { cancelBooking } from '../services/booking'
+import { findMaintenanceConflict } from '../services/maintenance'
+import { isEmailVerified } from '../services/account'
+import {
+  previewSeries,
+  createSeries,
+  cancelSeries,
+  type SeriesRequest,
+} from '../services/series'
 
 export const getReservations = createServerFn({ method: 'GET' })
   .inputValidator((data: unknown) =>
@@ -93,36 +111,328 @@ export const cancelReservation = createServerFn({ method: 'POST' })
       return { success: false, error: 'Cannot cancel past reservations' }
     }
 
-    // Cancel in Cal.com if we have a booking UID
-    if (reservation.calcomBookingUid) {
+    await cancelBooking(reservation, data.reason)
+
+    return { success: true }
+  })
+
+export const rescheduleReservation = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z
+      .object({
+        reservationId: z.string().uuid(),
+        startTime: z.string().datetime(),
+        reason: z.string().optional(),
+      })
+      .parse(data)
+  )
+  .handler(async ({ data }) => {
+    const user = await requireAuth()
+
+    const reservation = await db.query.reservations.findFirst({
+      where: and(
+        eq(reservations.id, data.reservationId),
+        eq(reservations.userId, user.id)
+      ),
+      with: {
+        machine: true,
+        user: true,
+      },
+    })
+
+    if (!reservation) {
+      return { success: false, error: 'Reservation not found' }
+    }
+
+    if (reservation.status !== 'confirmed') {
+      return { success: false, error: 'Only confirmed reservations can be rescheduled' }
+    }
+
+    if (reservation.startTime < new Date()) {
+      return { success: false, error: 'Cannot reschedule past reservations' }
+    }
+
+    if (!reservation.calcomBookingUid) {
+      return { success: false, error: 'Reservation is not linked to a booking' }
+    }
+
+    // A reschedule is a new claim on the machine, so eligibility must still hold
+    const eligibility = await checkEligibility(user.id, reservation.machineId)
+    if (!eligibility.eligible) {
+      return {
+        success: false,
+        error: 'Not eligible to reserve this machine',
+        reasons: eligibility.reasons,
+      }
+    }
+
+    // Keep the booked length; only the start moves
+    const startTime = new Date(data.startTime)
+    const endTime = new Date(
+      startTime.getTime() +
+        (reservation.endTime.getTime() - reservation.startTime.getTime())
+    )
+
+    const scheduler = getSchedulingProvider()
+    const bookingUid = reservation.calcomBookingUid
+
+    // The new time is held by a second row until the provider has moved the
+    // booking, so the old time stays ours if the provider refuses
+    const claim = await withMachineBookingLock(reservation.machineId, async (tx) => {
+      const current = await tx.query.reservations.findFirst({
+        where: eq(reservations.id, reservation.id),
+        columns: { status: true },
+      })
+      if (current?.status !== 'confirmed') {
+        return {
+          success: false as const,
+          error: 'Only confirmed reservations can be rescheduled',
+        }
+      }
+
+      const quotaReasons = await checkBookingQuota(
+        {
+          userId: user.id,
+          machine: reservation.machine,
+          start: startTime,
+          end: endTime,
+          ignoreReservationId: reservation.id,
+        },
+        tx
+      )
+      if (quotaReasons.length > 0) {
+        return {
+          success: false as const,
+          error: 'This booking exceeds the limits for this machine',
+          reasons: quotaReasons,
+        }
+      }
+
+      const maintenanceConflict = await findMaintenanceConflict(
+        reservation.machine,
+        startTime,
+        endTime,
+        tx
+      )
+      if (maintenanceConflict) {
+        return { success: false as const, error: maintenanceConflict }
+      }
+
+      if (
+        await findConflictingHold(reservation.machineId, startTime, endTime, user.id, tx)
+      ) {
+        return {
+          success: false as const,
+          error: 'This time is being held for a member on the waitlist',
+        }
+      }
+
       try {
-        await calcom.cancelBooking(reservation.calcomBookingUid, data.reason)
+        await scheduler.claimSlots?.(tx, reservation.machine, startTime, endTime, bookingUid)
       } catch (error) {
-        console.error('Cal.com cancellation error:', error)
-        // Continue with local cancellation even if Cal.com fails
+        return {
+          success: false as const,
+          error: error instanceof Error ? error.message : 'Selected time slot is not available',
+        }
       }
+
+      const [hold] = await tx
+        .insert(reservations)
+        .values({
+          userId: user.id,
+          machineId: reservation.machineId,
+          startTime,
+          endTime,
+          status: 'confirmed',
+        })
+        .returning({ id: reservations.id })
+
+      return { success: true as const, holdId: hold.id }
+    })
+
+    if (!claim.success) {
+      return claim
     }
 
-    // Update local record
-    await db
-      .update(reservations)
-      .set({
-        status: 'cancelled',
-        updatedAt: new Date(),
+    let booking
+    try {
+      booking = await scheduler.reschedule(reservation.machine, bookingUid, {
+        start: startTime,
+        end: endTime,
+        attendee: {
+          name: reservation.user.name || reservation.user.email,
+          email: reservation.user.email,
+          timeZone: 'UTC',
+        },
+        metadata: {
+          machineId: reservation.machineId,
+          userId: user.id,
+          reservationId: reservation.id,
+        },
+        reason: data.reason,
       })
-      .where(eq(reservations.id, data.reservationId))
+    } catch (error) {
+      console.error(`Scheduling (${scheduler.name}) reschedule error:`, error)
+      await db.delete(reservations).where(eq(reservations.id, claim.holdId))
+      broadcastMachineAvailabilityChange(reservation.machineId)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to reschedule booking',
+      }
+    }
+
+    const updated = await db.transaction(async (tx) => {
+      await tx.delete(reservations).where(eq(reservations.id, claim.holdId))
+
+      const [moved] = await tx
+        .update(reservations)
+        .set({
+          calcomBookingId: booking.id,
+          calcomBookingUid: booking.uid,
+          startTime,
+          endTime,
+          updatedAt: new Date(),
+        })
+        .where(eq(reservations.id, reservation.id))
+        .returning()
+
+      return moved
+    })
 
     // Emit real-time event
     emitBookingEvent(user.id, {
-      type: 'cancelled',
+      type: 'updated',
       bookingId: reservation.id,
       machineId: reservation.machineId,
       userId: user.id,
-      startTime: reservation.startTime.toISOString(),
-      endTime: reservation.endTime.toISOString(),
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
     })
 
     broadcastMachineAvailabilityChange(reservation.machineId)
 
-    return { success: true }
+    // The old time is free again
+    await offerFreedTime(reservation.machineId, reservation.startTime, reservation.endTime)
+
+    return { success: true, reservation: updated }
+  })
+
+export const checkInReservation = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z.object({ reservationId: z.string().uuid() }).parse(data)
+  )
+  .handler(async ({ data }) => {
+    const user = await requireAuth()
+    return checkIn(user, data.reservationId)
+  })
+
+export const checkOutReservation = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z.object({ reservationId: z.string().uuid() }).parse(data)
+  )
+  .handler(async ({ data }) => {
+    const user = await requireAuth()
+    return checkOut(user, data.reservationId)
+  })
+
+// ============ Recurring Reservations ============
+
+const seriesSchema = z.object({
+  machineId: z.string().uuid(),
+  startTime: z.string().datetime(),
+  durationMinutes: z.number().int().positive(),
+  frequency: z.enum(['weekly', 'biweekly']),
+  until: z.string().datetime(),
+})
+
+// The same checks reserveMachine makes, once for the whole series
+async function resolveSeriesRequest(
+  user: AuthUser,
+  data: z.infer<typeof seriesSchema>
+): Promise<
+  | { success: true; request: SeriesRequest }
+  | { success: false; error: string; reasons?: string[] }
+> {
+  if (!(await isEmailVerified(user.id))) {
+    return { success: false, error: 'Verify your email address before reserving machines' }
+  }
+
+  const eligibility = await checkEligibility(user.id, data.machineId)
+  if (!eligibility.eligible) {
+    return {
+      success: false,
+      error: 'Not eligible to reserve this machine',
+      reasons: eligibility.reasons,
+    }
+  }
+
+  const machine = await db.query.machines.findFirst({
+    where: eq(machines.id, data.machineId),
+  })
+
+  if (!machine) {
+    return { success: false, error: 'Machine not found' }
+  }
+
+  if (!(await getSchedulingProvider().isConfigured(machine))) {
+    return { success: false, error: 'Machine not configured for scheduling' }
+  }
+
+  const durationError = validateBookingDuration(machine, data.durationMinutes)
+  if (durationError) {
+    return { success: false, error: durationError }
+  }
+
+  return {
+    success: true,
+    request: {
+      machine,
+      firstStart: new Date(data.startTime),
+      durationMinutes: data.durationMinutes,
+      frequency: data.frequency,
+      until: new Date(data.until),
+    },
+  }
+}
+
+export const previewReservationSeries = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) => seriesSchema.parse(data))
+  .handler(async ({ data }) => {
+    const user = await requireAuth()
+
+    const resolved = await resolveSeriesRequest(user, data)
+    if (!resolved.success) {
+      return resolved
+    }
+
+    const occurrences = await previewSeries(user.id, resolved.request)
+
+    return { success: true, occurrences }
+  })
+
+export const createReservationSeries = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) => seriesSchema.parse(data))
+  .handler(async ({ data }) => {
+    const user = await requireAuth()
+
+    const resolved = await resolveSeriesRequest(user, data)
+    if (!resolved.success) {
+      return resolved
+    }
+
+    return createSeries(user.id, resolved.request)
+  })
+
+export const cancelReservationSeries = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z
+      .object({
+        seriesId: z.string().uuid(),
+        reason: z.string().optional(),
+      })
+      .parse(data)
+  )
+  .handler(async ({ data }) => {
+    const user = await requireAuth()
+    return cancelSeries(user.id, data.seriesId, data.reason)
   })
@@ -1,4 +1,9 @@
-import { eventBus } from '../services/events'
+import {
+  eventBus,
+  getLatestEventId,
+  getMissedEvents,
+  type LiveEvent,
+} from '../services/events'
 import { getAuthService } from '../auth'
 import { SESSION_COOKIE_NAME } from '../auth/types'
 
@@ -34,15 +39,30 @@ export async function createSSEHandler(request: Request): Promise<Response> {
     return new Response('Unauthorized', { status: 401 })
   }
 
+  // Sent by the browser when it reconnects after a dropped connection
+  const lastEventId = parseInt(request.headers.get('last-event-id') || '', 10)
+  const resuming = Number.isInteger(lastEventId) && lastEventId >= 0
+
   // Create SSE stream
   const stream = new ReadableStream({
     start(controller) {
       const encoder = new TextEncoder()
+      // Live events wait here until missed ones have been replayed
+      let pending: LiveEvent[] | null = []
+      // Ids sent while catching up, so a queued live event isn't sent twice.
+      // Ids don't arrive in order, so this can't be a high-water mark.
+      let replayedIds: Set<number> | null = new Set()
+
+      const send = (event: LiveEvent) => {
+        if (event.id !== undefined && replayedIds) {
+          if (replayedIds.has(event.id)) return
+          replayedIds.add(event.id)
+        }
 
-      // Send initial connection message
-      controller.enqueue(
-        encoder.encode(`data: ${JSON.stringify({ type: 'connected' })}\n\n`)
-      )
+        const id = event.id !== undefined ? `id: ${event.id}\n` : ''
+        const payload = JSON.stringify({ id: event.id, event: event.event, data: event.data })
+        controller.enqueue(encoder.encode(`${id}data: ${payload}\n\n`))
+      }
 
       // Set up heartbeat
       const heartbeat = setInterval(() => {
@@ -54,16 +74,57 @@ export async function createSSEHandler(request: Request): Promise<Response> {
       }, 30000)
 
       // Subscribe to user events
-      const unsubscribe = eventBus.subscribeToUser(user.id, (eventData) => {
+      const unsubscribe = eventBus.subscribeToUser(user.id, (event) => {
         try {
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify(eventData)}\n\n`)
-          )
+          if (pending) {
+            pending.push(event)
+          } else {
+            send(event)
+          }
         } catch (error) {
           console.error('Error sending SSE event:', error)
         }
       })
 
+      const catchUp = async () => {
+        if (resuming) {
+          const missed = await getMissedEvents(user.id, lastEventId)
+
+          if (!missed.complete) {
+            // Too far behind to replay; the client reloads its data instead
+            controller.enqueue(
+              encoder.encode(`data: ${JSON.stringify({ event: 'resync', data: {} })}\n\n`)
+            )
+          }
+
+          for (const event of missed.events) {
+            send(event)
+          }
+        } else {
+          // Gives the browser an id to resume from even if nothing arrives before a drop
+          const latestId = await getLatestEventId()
+          controller.enqueue(
+            encoder.encode(`id: ${latestId}\ndata: ${JSON.stringify({ type: 'connected' })}\n\n`)
+          )
+        }
+      }
+
+      catchUp()
+        .catch((error) => {
+          console.error('Error replaying SSE events:', error)
+        })
+        .finally(() => {
+          const queued = pending ?? []
+          pending = null
+          try {
+            queued.forEach(send)
+          } catch {
+            // Client disconnected while catching up
+          }
+          // From here on each event arrives once, straight from the bus
+          replayedIds = null
+        })
+
       // Handle client disconnect
       request.signal.addEventListener('abort', () => {
         clearInterval(heartbeat)
@@ -9,6 +9,15 @@ import {
   getModuleProgress,
   getAllModulesWithProgress,
 } from '../services/training'
+import { getRefresherCutoffs } from '../services/eligibility'
+import { refreshEligibilityForModule } from '../services/eligibility-cache'
+import {
+  getQuizQuestions,
+  getQuizStatus,
+  getQuizUnlockPercent,
+  quizSubmissionSchema,
+  submitQuizAttempt,
+} from '../services/quiz'
 
 export const getModules = createServerFn({ method: 'GET' }).handler(async () => {
   const user = await requireAuth()
@@ -50,7 +59,56 @@ export const updateProgress = createServerFn({ method: 'POST' })
       return { success: false as const, error: result.error }
     }
 
-    return { success: true as const, watchedSeconds: result.watchedSeconds!, percentComplete: result.percentComplete! }
+    return {
+      success: true as const,
+      watchedSeconds: result.watchedSeconds!,
+      watchedIntervals: result.watchedIntervals!,
+      percentComplete: result.percentComplete!,
+    }
+  })
+
+export const getQuiz = createServerFn({ method: 'GET' })
+  .inputValidator((data: unknown) => z.object({ moduleId: z.string().uuid() }).parse(data))
+  .handler(async ({ data }) => {
+    const user = await requireAuth()
+
+    const cutoffs = await getRefresherCutoffs(user.id)
+    const status = await getQuizStatus(user.id, data.moduleId, cutoffs.get(data.moduleId))
+    const questions = await getQuizQuestions(data.moduleId)
+
+    // Correct answers never leave the server
+    return {
+      status,
+      questions: questions.map((q) => ({
+        id: q.id,
+        prompt: q.prompt,
+        options: q.options,
+      })),
+    }
+  })
+
+export const submitQuiz = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) => quizSubmissionSchema.parse(data))
+  .handler(async ({ data }) => {
+    const user = await requireAuth()
+
+    const progress = await getModuleProgress(user.id, data.moduleId)
+    const unlockPercent = await getQuizUnlockPercent(data.moduleId)
+
+    // The quiz opens at the lowest percentage a requirement on the module asks for
+    if (!progress || (!progress.completedAt && progress.percentComplete < unlockPercent)) {
+      return {
+        success: false,
+        error: `Watch at least ${unlockPercent}% of the video before taking the quiz`,
+      }
+    }
+
+    const cutoffs = await getRefresherCutoffs(user.id)
+    const result = await submitQuizAttempt(user.id, data, cutoffs.get(data.moduleId))
+
+    await refreshEligibilityForModule(data.moduleId, [user.id])
+
+    return result
   })
 
 export const getTrainingStatus = createServerFn({ method: 'GET' }).handler(
@@ -60,7 +118,7 @@ export const getTrainingStatus = createServerFn({ method: 'GET' }).handler(
     const modules = await getAllModulesWithProgress(user.id)
 
     const totalModules = modules.length
-    const completedModules = modules.filter((m) => m.completedAt).length
+    const completedModules = modules.filter((m) => m.completedAt && !m.quizPending).length
     const overallProgress =
       totalModules > 0 ? Math.floor((completedModules / totalModules) * 100) : 0
 
@@ -72,7 +130,7 @@ export const getTrainingStatus = createServerFn({ method: 'GET' }).handler(
         id: m.id,
         title: m.title,
         percentComplete: m.percentComplete,
-        completed: !!m.completedAt,
+        completed: !!m.completedAt && !m.quizPending,
       })),
     }
   }
@@ -0,0 +1,78 @@
+import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
+import { eq } from 'drizzle-orm'
+import { requireAuth } from '../auth'
+import { db, machines } from '~/lib/db'
+import { checkEligibility } from '../services/eligibility'
+import { validateBookingDuration } from '../services/scheduling'
+import { isEmailVerified } from '../services/account'
+import { joinWaitlist, leaveWaitlist, getUserWaitlist } from '../services/waitlist'
+
+export const getMyWaitlist = createServerFn({ method: 'GET' }).handler(async () => {
+  const user = await requireAuth()
+
+  const entries = await getUserWaitlist(user.id)
+
+  return { entries }
+})
+
+export const joinMachineWaitlist = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z
+      .object({
+        machineId: z.string().uuid(),
+        windowStart: z.string().datetime(),
+        windowEnd: z.string().datetime(),
+        durationMinutes: z.number().int().positive(),
+      })
+      .parse(data)
+  )
+  .handler(async ({ data }) => {
+    const user = await requireAuth()
+
+    if (!(await isEmailVerified(user.id))) {
+      return {
+        success: false,
+        error: 'Verify your email address before joining a waitlist',
+      }
+    }
+
+    const eligibility = await checkEligibility(user.id, data.machineId)
+    if (!eligibility.eligible) {
+      return {
+        success: false,
+        error: 'Not eligible to reserve this machine',
+        reasons: eligibility.reasons,
+      }
+    }
+
+    const machine = await db.query.machines.findFirst({
+      where: eq(machines.id, data.machineId),
+    })
+
+    if (!machine) {
+      return { success: false, error: 'Machine not found' }
+    }
+
+    const durationError = validateBookingDuration(machine, data.durationMinutes)
+    if (durationError) {
+      return { success: false, error: durationError }
+    }
+
+    return joinWaitlist(user.id, {
+      machineId: machine.id,
+      windowStart: new Date(data.windowStart),
+      windowEnd: new Date(data.windowEnd),
+      durationMinutes: data.durationMinutes,
+    })
+  })
+
+export const leaveMachineWaitlist = createServerFn({ method: 'POST' })
+  .inputValidator((data: unknown) =>
+    z.object({ entryId: z.string().uuid() }).parse(data)
+  )
+  .handler(async ({ data }) => {
+    const user = await requireAuth()
+
+    return leaveWaitlist(user.id, data.entryId)
+  })
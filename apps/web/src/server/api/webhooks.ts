@@ -1,130 +1,283 @@
-import { createServerFn } from '@tanstack/react-start'
+import { z } from 'zod'
 import { eq } from 'drizzle-orm'
 import { db, reservations } from '~/lib/db'
-import { webhookBookingSchema } from '../services/calcom'
+import { webhookBookingSchema, type WebhookPayload } from '../services/calcom'
 import { emitBookingEvent, broadcastMachineAvailabilityChange } from '../services/events'
+import { applyCalcomNoShow } from '../services/no-shows'
+import { refreshEligibilityAfterWrite } from '../services/eligibility-cache'
+import { offerFreedTime } from '../services/waitlist'
+import {
+  checkDeliveryAge,
+  finishWebhookDelivery,
+  getWebhookDelivery,
+  isRetryable,
+  recordWebhookDelivery,
+  rejectWebhookDelivery,
+  startWebhookRetry,
+  verifyCalcomSignature,
+  type InboundWebhook,
+} from '../services/webhook-deliveries'
 
-// Verify webhook comes from Cal.com (basic secret check)
-// In production, you might also want to verify based on IP or signature
-function verifyWebhookSecret(request: Request): boolean {
+function webhookError(status: number, error: string): Response {
+  return Response.json({ success: false, error }, { status })
+}
+
+// Entry point for /api/webhooks/calcom. Only signed, fresh deliveries that
+// weren't already handled are processed, since they can create reservations for
+// any member. Every delivery is logged, including refused ones.
+export async function handleCalcomWebhook(request: Request): Promise<Response> {
   const secret = process.env.CALCOM_WEBHOOK_SECRET
-  if (!secret) return true // Skip verification if no secret configured
+  const webhook: InboundWebhook = {
+    provider: 'calcom',
+    headers: request.headers,
+    body: await request.text(),
+    triggerEvent: null,
+    verified: false,
+  }
+
+  const reject = async (status: number, error: string) => {
+    await rejectWebhookDelivery(webhook, error)
+    return webhookError(status, error)
+  }
+
+  if (secret) {
+    if (!verifyCalcomSignature(webhook.body, request.headers.get('x-cal-signature-256'), secret)) {
+      return reject(401, 'Invalid signature')
+    }
+    webhook.verified = true
+  } else if (process.env.NODE_ENV === 'production') {
+    console.error('CALCOM_WEBHOOK_SECRET is not set; refusing Cal.com webhook')
+    return reject(503, 'Webhook secret not configured')
+  } else {
+    console.warn('CALCOM_WEBHOOK_SECRET is not set; accepting unsigned Cal.com webhook')
+    webhook.verified = true
+  }
+
+  let data: WebhookPayload
+  try {
+    data = webhookBookingSchema.parse(JSON.parse(webhook.body))
+  } catch (error) {
+    return reject(400, 'Invalid payload')
+  }
+
+  webhook.triggerEvent = data.triggerEvent
+
+  const ageError = checkDeliveryAge(data.createdAt)
+  if (ageError) {
+    return reject(400, ageError)
+  }
+
+  const delivery = await recordWebhookDelivery(webhook)
+  if (!delivery) {
+    return reject(409, 'Duplicate delivery')
+  }
+
+  const outcome = await runDelivery(delivery.id, data)
+
+  return outcome.error ? webhookError(500, outcome.error) : Response.json(outcome.result)
+}
+
+// Processes the delivery and records the outcome on its log entry
+async function runDelivery(
+  deliveryId: string,
+  data: WebhookPayload
+): Promise<{ result?: unknown; error?: string }> {
+  let outcome: { result?: unknown; error?: string }
 
-  const providedSecret = request.headers.get('x-cal-signature') ||
-                         request.headers.get('authorization')?.replace('Bearer ', '')
+  try {
+    outcome = { result: await processCalcomWebhook(data) }
+  } catch (error) {
+    console.error('Webhook error:', error)
+    outcome = { error: error instanceof Error ? error.message : 'Unknown error' }
+  }
 
-  return providedSecret === secret
+  await finishWebhookDelivery(deliveryId, outcome)
+
+  return outcome
 }
 
-export const handleCalcomWebhook = createServerFn({ method: 'POST' })
-  .inputValidator((data: unknown) => webhookBookingSchema.parse(data))
-  .handler(async ({ data }) => {
-    const { triggerEvent, payload } = data
+// Runs a failed or stalled delivery through the handler again, e.g. after
+// fixing the cause of the failure. Processed deliveries can't be re-run, as their event
+// may since have been superseded (a rescheduled or cancelled booking), and
+// refused ones can't, as they were never trusted.
+export async function reprocessWebhookDelivery(
+  deliveryId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  const delivery = await getWebhookDelivery(deliveryId)
+
+  if (!delivery) {
+    return { success: false, error: 'Delivery not found' }
+  }
+
+  if (!isRetryable(delivery)) {
+    return { success: false, error: 'Only failed or stalled deliveries can be reprocessed' }
+  }
+
+  const parsed = webhookBookingSchema.safeParse(JSON.parse(delivery.body))
+  if (!parsed.success) {
+    return { success: false, error: 'Stored body is no longer a valid payload' }
+  }
 
-    console.log(`Received Cal.com webhook: ${triggerEvent}`, payload.uid)
+  if (!(await startWebhookRetry(delivery.id))) {
+    return { success: false, error: 'Delivery is already being reprocessed' }
+  }
+
+  const outcome = await runDelivery(delivery.id, parsed.data)
+
+  return outcome.error ? { success: false, error: outcome.error } : { success: true }
+}
+
+async function processCalcomWebhook(
+  data: WebhookPayload
+): Promise<{ success: true; message?: string }> {
+  if (data.triggerEvent === 'BOOKING_NO_SHOW_UPDATED') {
+    const { payload } = data
+    console.log(`Received Cal.com webhook: ${data.triggerEvent}`, payload.bookingUid)
 
-    // Find the reservation by Cal.com booking UID
     const reservation = await db.query.reservations.findFirst({
-      where: eq(reservations.calcomBookingUid, payload.uid),
+      where: eq(reservations.calcomBookingUid, payload.bookingUid),
     })
 
     if (!reservation) {
-      // This might be a booking created outside our system
-      console.log(`No matching reservation found for booking UID: ${payload.uid}`)
-
-      // Try to create one if we have the metadata
-      if (payload.metadata?.machineId && payload.metadata?.userId) {
-        const [newReservation] = await db
-          .insert(reservations)
-          .values({
-            userId: payload.metadata.userId,
-            machineId: payload.metadata.machineId,
-            calcomBookingId: payload.bookingId.toString(),
-            calcomBookingUid: payload.uid,
-            startTime: new Date(payload.startTime),
-            endTime: new Date(payload.endTime),
-            status: triggerEvent === 'BOOKING_CANCELLED' ? 'cancelled' : 'confirmed',
-          })
-          .returning()
-
-        if (newReservation) {
-          emitBookingEvent(payload.metadata.userId, {
-            type: 'created',
-            bookingId: newReservation.id,
-            machineId: payload.metadata.machineId,
-            userId: payload.metadata.userId,
-            startTime: payload.startTime,
-            endTime: payload.endTime,
-          })
-
-          broadcastMachineAvailabilityChange(payload.metadata.machineId)
-        }
-      }
+      return { success: true, message: 'No matching reservation' }
+    }
+
+    // Our bookings have a single attendee: the member
+    await applyCalcomNoShow(
+      reservation,
+      payload.attendees.some((attendee) => attendee.noShow)
+    )
+    await refreshEligibilityAfterWrite({ userIds: [reservation.userId] })
+
+    return { success: true }
+  }
 
-      return { success: true, message: 'No matching reservation, attempted creation' }
+  const { triggerEvent, payload } = data
+
+  console.log(`Received Cal.com webhook: ${triggerEvent}`, payload.uid)
+
+  // Find the reservation by Cal.com booking UID
+  const reservation = await db.query.reservations.findFirst({
+    where: eq(reservations.calcomBookingUid, payload.uid),
+  })
+
+  if (!reservation) {
+    // Our own bookings name their reservation, which gets the booking's UID
+    // once the booking call returns; this can arrive before then
+    const reservationId = z.string().uuid().safeParse(payload.metadata?.reservationId)
+    if (reservationId.success) {
+      const pending = await db.query.reservations.findFirst({
+        where: eq(reservations.id, reservationId.data),
+        columns: { id: true },
+      })
+
+      if (pending) {
+        return { success: true, message: 'Reservation is still being saved' }
+      }
     }
 
-    switch (triggerEvent) {
-      case 'BOOKING_CREATED':
-        // Already created locally before Cal.com, just update if needed
-        await db
-          .update(reservations)
-          .set({
-            startTime: new Date(payload.startTime),
-            endTime: new Date(payload.endTime),
-            status: 'confirmed',
-            updatedAt: new Date(),
-          })
-          .where(eq(reservations.id, reservation.id))
-        break
-
-      case 'BOOKING_RESCHEDULED':
-        await db
-          .update(reservations)
-          .set({
-            startTime: new Date(payload.startTime),
-            endTime: new Date(payload.endTime),
-            updatedAt: new Date(),
-          })
-          .where(eq(reservations.id, reservation.id))
-
-        emitBookingEvent(reservation.userId, {
-          type: 'updated',
-          bookingId: reservation.id,
-          machineId: reservation.machineId,
-          userId: reservation.userId,
+    // This might be a booking created outside our system
+    console.log(`No matching reservation found for booking UID: ${payload.uid}`)
+
+    // Try to create one if we have the metadata
+    if (payload.metadata?.machineId && payload.metadata?.userId) {
+      const [newReservation] = await db
+        .insert(reservations)
+        .values({
+          userId: payload.metadata.userId,
+          machineId: payload.metadata.machineId,
+          calcomBookingId: payload.bookingId.toString(),
+          calcomBookingUid: payload.uid,
+          startTime: new Date(payload.startTime),
+          endTime: new Date(payload.endTime),
+          status: triggerEvent === 'BOOKING_CANCELLED' ? 'cancelled' : 'confirmed',
+          // Only if there is still time to check in
+          checkInRequired: new Date(payload.endTime) > new Date(),
+        })
+        .returning()
+
+      if (newReservation) {
+        emitBookingEvent(payload.metadata.userId, {
+          type: 'created',
+          bookingId: newReservation.id,
+          machineId: payload.metadata.machineId,
+          userId: payload.metadata.userId,
           startTime: payload.startTime,
           endTime: payload.endTime,
         })
 
-        broadcastMachineAvailabilityChange(reservation.machineId)
-        break
-
-      case 'BOOKING_CANCELLED':
-      case 'BOOKING_REJECTED':
-        await db
-          .update(reservations)
-          .set({
-            status: 'cancelled',
-            updatedAt: new Date(),
-          })
-          .where(eq(reservations.id, reservation.id))
-
-        emitBookingEvent(reservation.userId, {
-          type: 'cancelled',
-          bookingId: reservation.id,
-          machineId: reservation.machineId,
-          userId: reservation.userId,
-          startTime: reservation.startTime.toISOString(),
-          endTime: reservation.endTime.toISOString(),
+        broadcastMachineAvailabilityChange(payload.metadata.machineId)
+      }
+    }
+
+    return { success: true, message: 'No matching reservation, attempted creation' }
+  }
+
+  switch (triggerEvent) {
+    case 'BOOKING_CREATED':
+      // Already created locally before Cal.com, just update if needed
+      await db
+        .update(reservations)
+        .set({
+          startTime: new Date(payload.startTime),
+          endTime: new Date(payload.endTime),
+          status: 'confirmed',
+          updatedAt: new Date(),
+        })
+        .where(eq(reservations.id, reservation.id))
+      break
+
+    case 'BOOKING_RESCHEDULED':
+      await db
+        .update(reservations)
+        .set({
+          startTime: new Date(payload.startTime),
+          endTime: new Date(payload.endTime),
+          updatedAt: new Date(),
         })
+        .where(eq(reservations.id, reservation.id))
 
-        broadcastMachineAvailabilityChange(reservation.machineId)
-        break
+      emitBookingEvent(reservation.userId, {
+        type: 'updated',
+        bookingId: reservation.id,
+        machineId: reservation.machineId,
+        userId: reservation.userId,
+        startTime: payload.startTime,
+        endTime: payload.endTime,
+      })
 
-      default:
-        console.log(`Unhandled webhook event: ${triggerEvent}`)
-    }
+      broadcastMachineAvailabilityChange(reservation.machineId)
+      break
 
-    return { success: true }
-  })
+    case 'BOOKING_CANCELLED':
+    case 'BOOKING_REJECTED':
+      await db
+        .update(reservations)
+        .set({
+          status: 'cancelled',
+          updatedAt: new Date(),
+        })
+        .where(eq(reservations.id, reservation.id))
+
+      emitBookingEvent(reservation.userId, {
+        type: 'cancelled',
+        bookingId: reservation.id,
+        machineId: reservation.machineId,
+        userId: reservation.userId,
+        startTime: reservation.startTime.toISOString(),
+        endTime: reservation.endTime.toISOString(),
+      })
+
+      broadcastMachineAvailabilityChange(reservation.machineId)
+
+      if (reservation.status === 'confirmed') {
+        await offerFreedTime(reservation.machineId, reservation.startTime, reservation.endTime)
+      }
+      break
+
+    default:
+      console.log(`Unhandled webhook event: ${triggerEvent}`)
+  }
+
+  return { success: true }
+}
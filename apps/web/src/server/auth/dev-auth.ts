@@ -2,6 +2,7 @@ import { eq, lt } from 'drizzle-orm'
 import * as argon2 from 'argon2'
 import { db, users, sessions } from '~/lib/db'
 import type { AuthService, AuthUser, UserRole } from './types'
+import { OidcAuthService, getOidcConfig } from './oidc-auth'
 import { SESSION_DURATION_MS } from './types'
 
 function generateSessionToken(): string {
@@ -115,6 +116,7 @@ export class DevAuthService implements AuthService {
         passwordHash,
         name: name || null,
         role,
+        emailVerifiedAt: null,
       })
       .returning()
 
@@ -180,9 +182,9 @@ export function getAuthService(): AuthService {
 
     if (provider === 'dev') {
       authService = new DevAuthService()
-    } else if (provider === 'authentic') {
-      // TODO: Implement AuthenticAuthService
-      throw new Error('Authentic auth provider not yet implemented')
+    } else if (provider === 'oidc') {
+      // Sessions and users still live in our database; only sign-in moves to the IdP
+      authService = new OidcAuthService(getOidcConfig(), new DevAuthService())
     } else {
       throw new Error(`Unknown auth provider: ${provider}`)
     }
@@ -190,3 +192,9 @@ export function getAuthService(): AuthService {
 
   return authService
 }
+
+// The OIDC service when that provider is active, for the sign-in routes
+export function getOidcAuthService(): OidcAuthService | null {
+  const auth = getAuthService()
+  return auth instanceof OidcAuthService ? auth : null
+}
@@ -1,3 +1,4 @@
 export * from './types'
 export * from './dev-auth'
+export * from './oidc-auth'
 export * from './middleware'
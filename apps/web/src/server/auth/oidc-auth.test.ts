@@ -0,0 +1,147 @@
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test'
+import { eq } from 'drizzle-orm'
+import { db, users, auditEvents } from '~/lib/db'
+import { resetTestDatabase } from '~/test/db'
+import { startMockIdp } from '~/test/mock-idp'
+import { DevAuthService } from './dev-auth'
+import { OidcAuthService, type OidcLoginState } from './oidc-auth'
+
+const idp = startMockIdp()
+const redirectUri = 'http://localhost:3001/api/auth/oidc/callback'
+
+const auth = new OidcAuthService(
+  {
+    issuer: idp.issuer,
+    clientId: idp.clientId,
+    clientSecret: null,
+    redirectUri,
+    scopes: 'openid email profile groups',
+    groupsClaim: 'groups',
+    adminGroups: ['admins'],
+    managerGroups: ['managers'],
+  },
+  new DevAuthService()
+)
+
+// Goes through the IdP as a browser would and returns the callback's parameters
+async function authorize(): Promise<{ params: URLSearchParams; loginState: OidcLoginState }> {
+  const { url, loginState } = await auth.createAuthorizationRequest()
+  const response = await fetch(url, { redirect: 'manual' })
+  const callback = new URL(response.headers.get('location')!)
+
+  expect(callback.origin + callback.pathname).toBe(redirectUri)
+  return { params: callback.searchParams, loginState }
+}
+
+async function signIn(claims: Record<string, unknown> & { sub: string }) {
+  idp.signInAs(claims)
+  const { params, loginState } = await authorize()
+  return auth.completeAuthorization(params, loginState)
+}
+
+beforeEach(resetTestDatabase)
+afterAll(() => idp.stop())
+
+describe('OidcAuthService', () => {
+  test('creates a user on first sign-in with the role their groups map to', async () => {
+    const user = await signIn({
+      sub: 'idp-1',
+      email: 'New.Member@example.com',
+      email_verified: true,
+      name: 'New Member',
+      groups: ['managers'],
+    })
+
+    expect(user).toMatchObject({ email: 'new.member@example.com', name: 'New Member', role: 'manager' })
+
+    const stored = await db.query.users.findFirst({ where: eq(users.id, user.id) })
+    expect(stored?.oidcSubject).toBe('idp-1')
+  })
+
+  test('signs a known subject back in and re-syncs their role', async () => {
+    const first = await signIn({ sub: 'idp-2', email: 'a@example.com', groups: ['managers'] })
+    const second = await signIn({ sub: 'idp-2', email: 'a@example.com', groups: ['admins'] })
+
+    expect(second.id).toBe(first.id)
+    expect(second.role).toBe('admin')
+
+    const events = await db.query.auditEvents.findMany({
+      where: eq(auditEvents.entityId, first.id),
+    })
+    expect(events.map((e) => e.action)).toEqual(['user.role_synced'])
+  })
+
+  test('links an existing account when the provider verified the email', async () => {
+    const [existing] = await db
+      .insert(users)
+      .values({ email: 'admin@example.com', role: 'admin' })
+      .returning()
+
+    const user = await signIn({ sub: 'idp-3', email: 'admin@example.com', email_verified: true })
+
+    expect(user.id).toBe(existing.id)
+  })
+
+  test.each([
+    ['missing', {}],
+    ['false', { email_verified: false }],
+    ['a string', { email_verified: 'true' }],
+  ])('refuses to link an existing account when email_verified is %s', async (_, claim) => {
+    const [existing] = await db
+      .insert(users)
+      .values({ email: 'admin@example.com', role: 'admin' })
+      .returning()
+
+    await expect(
+      signIn({ sub: 'attacker', email: 'admin@example.com', ...claim })
+    ).rejects.toThrow()
+
+    const stored = await db.query.users.findFirst({ where: eq(users.id, existing.id) })
+    expect(stored?.oidcSubject).toBeNull()
+  })
+
+  test('refuses an email already linked to another subject', async () => {
+    await db.insert(users).values({ email: 'taken@example.com', oidcSubject: 'someone-else' })
+
+    await expect(
+      signIn({ sub: 'idp-4', email: 'taken@example.com', email_verified: true })
+    ).rejects.toThrow('already linked')
+  })
+
+  test('refuses suspended users', async () => {
+    await db
+      .insert(users)
+      .values({ email: 'gone@example.com', oidcSubject: 'idp-5', status: 'suspended' })
+
+    await expect(signIn({ sub: 'idp-5', email: 'gone@example.com' })).rejects.toThrow(
+      'suspended'
+    )
+  })
+
+  test('rejects a callback whose state does not match the login attempt', async () => {
+    idp.signInAs({ sub: 'idp-6', email: 'b@example.com' })
+    const { params, loginState } = await authorize()
+
+    await expect(
+      auth.completeAuthorization(params, { ...loginState, state: 'other' })
+    ).rejects.toThrow('Sign-in session expired')
+  })
+
+  test('rejects a code exchanged without the matching PKCE verifier', async () => {
+    idp.signInAs({ sub: 'idp-7', email: 'c@example.com' })
+    const { params, loginState } = await authorize()
+
+    await expect(
+      auth.completeAuthorization(params, { ...loginState, codeVerifier: 'guessed' })
+    ).rejects.toThrow('token exchange failed')
+  })
+
+  test('rejects an ID token minted for another login attempt', async () => {
+    idp.signInAs({ sub: 'idp-8', email: 'd@example.com' })
+    const { params, loginState } = await authorize()
+
+    await expect(
+      auth.completeAuthorization(params, { ...loginState, nonce: 'replayed' })
+    ).rejects.toThrow('does not match this sign-in attempt')
+  })
+})
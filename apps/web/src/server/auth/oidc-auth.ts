@@ -0,0 +1,421 @@
+import { eq } from 'drizzle-orm'
+import { db, users, type User } from '~/lib/db'
+import { recordAuditEvent } from '../services/audit'
+import type { AuthService, AuthUser, UserRole } from './types'
+
+export const OIDC_STATE_COOKIE_NAME = 'oidc_state'
+const OIDC_STATE_MAX_AGE = 10 * 60 // seconds to finish signing in at the IdP
+const CLOCK_SKEW_MS = 60 * 1000
+
+export interface OidcConfig {
+  issuer: string
+  clientId: string
+  clientSecret: string | null
+  redirectUri: string
+  scopes: string
+  groupsClaim: string
+  adminGroups: string[]
+  managerGroups: string[]
+}
+
+// Kept in a short-lived cookie between the redirect to the IdP and the callback
+export interface OidcLoginState {
+  state: string
+  nonce: string
+  codeVerifier: string
+}
+
+interface OidcDiscovery {
+  issuer: string
+  authorization_endpoint: string
+  token_endpoint: string
+  userinfo_endpoint?: string
+}
+
+type Claims = Record<string, unknown>
+
+function parseList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+export function getOidcConfig(): OidcConfig {
+  const issuer = process.env.OIDC_ISSUER
+  const clientId = process.env.OIDC_CLIENT_ID
+
+  if (!issuer || !clientId) {
+    throw new Error('OIDC_ISSUER and OIDC_CLIENT_ID must be set when AUTH_PROVIDER=oidc')
+  }
+
+  const publicUrl = process.env.PUBLIC_URL || 'http://localhost:3001'
+
+  return {
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || null,
+    redirectUri: process.env.OIDC_REDIRECT_URI || `${publicUrl}/api/auth/oidc/callback`,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    groupsClaim: process.env.OIDC_GROUPS_CLAIM || 'groups',
+    adminGroups: parseList(process.env.OIDC_ADMIN_GROUPS),
+    managerGroups: parseList(process.env.OIDC_MANAGER_GROUPS),
+  }
+}
+
+function randomToken(): string {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  return Buffer.from(bytes).toString('base64url')
+}
+
+async function pkceChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier))
+  return Buffer.from(digest).toString('base64url')
+}
+
+function decodeJwtPayload(token: string): Claims {
+  const [, payload] = token.split('.')
+  if (!payload) {
+    throw new Error('Malformed ID token')
+  }
+  return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+}
+
+export function createOidcStateCookie(loginState: OidcLoginState): string {
+  const secure = process.env.NODE_ENV === 'production'
+  const value = Buffer.from(JSON.stringify(loginState)).toString('base64url')
+  return `${OIDC_STATE_COOKIE_NAME}=${value}; Path=/api/auth/oidc; HttpOnly; SameSite=Lax; Max-Age=${OIDC_STATE_MAX_AGE}${secure ? '; Secure' : ''}`
+}
+
+export function clearOidcStateCookie(): string {
+  return `${OIDC_STATE_COOKIE_NAME}=; Path=/api/auth/oidc; HttpOnly; SameSite=Lax; Max-Age=0`
+}
+
+export function parseOidcStateCookie(cookieHeader: string | null): OidcLoginState | null {
+  const cookie = (cookieHeader || '')
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${OIDC_STATE_COOKIE_NAME}=`))
+
+  if (!cookie) return null
+
+  try {
+    const value = cookie.slice(OIDC_STATE_COOKIE_NAME.length + 1)
+    return JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+  } catch {
+    return null
+  }
+}
+
+// Signs users in through an OpenID Connect provider using the authorization
+// code flow with PKCE. Sessions and user lookups stay in the local database
+// and are delegated to `local`; passwords live only at the IdP.
+export class OidcAuthService implements AuthService {
+  private discovery: Promise<OidcDiscovery> | null = null
+
+  constructor(
+    private config: OidcConfig,
+    private local: AuthService
+  ) {}
+
+  createSession(userId: string): Promise<string> {
+    return this.local.createSession(userId)
+  }
+
+  validateSession(token: string): Promise<AuthUser | null> {
+    return this.local.validateSession(token)
+  }
+
+  invalidateSession(token: string): Promise<void> {
+    return this.local.invalidateSession(token)
+  }
+
+  invalidateUserSessions(userId: string): Promise<void> {
+    return this.local.invalidateUserSessions(userId)
+  }
+
+  async verifyCredentials(): Promise<AuthUser | null> {
+    return null
+  }
+
+  async hashPassword(): Promise<string> {
+    throw new Error('Passwords are managed by the identity provider')
+  }
+
+  async createUser(): Promise<AuthUser> {
+    throw new Error('Accounts are created by signing in with the identity provider')
+  }
+
+  getUserById(id: string): Promise<AuthUser | null> {
+    return this.local.getUserById(id)
+  }
+
+  getUserByEmail(email: string): Promise<AuthUser | null> {
+    return this.local.getUserByEmail(email)
+  }
+
+  async createAuthorizationRequest(): Promise<{ url: string; loginState: OidcLoginState }> {
+    const discovery = await this.getDiscovery()
+    const loginState: OidcLoginState = {
+      state: randomToken(),
+      nonce: randomToken(),
+      codeVerifier: randomToken(),
+    }
+
+    const url = new URL(discovery.authorization_endpoint)
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: this.config.redirectUri,
+      scope: this.config.scopes,
+      state: loginState.state,
+      nonce: loginState.nonce,
+      code_challenge: await pkceChallenge(loginState.codeVerifier),
+      code_challenge_method: 'S256',
+    }).toString()
+
+    return { url: url.toString(), loginState }
+  }
+
+  // Handles the IdP's redirect back to us and returns the signed-in local user
+  async completeAuthorization(
+    params: URLSearchParams,
+    loginState: OidcLoginState | null
+  ): Promise<AuthUser> {
+    const idpError = params.get('error')
+    if (idpError) {
+      throw new Error(params.get('error_description') || `Sign-in was rejected: ${idpError}`)
+    }
+
+    const code = params.get('code')
+    if (!code || !loginState || params.get('state') !== loginState.state) {
+      throw new Error('Sign-in session expired. Please try again.')
+    }
+
+    const discovery = await this.getDiscovery()
+    const tokens = await this.exchangeCode(discovery, code, loginState.codeVerifier)
+    const claims = this.validateIdToken(discovery, tokens.id_token, loginState.nonce)
+
+    if (discovery.userinfo_endpoint && tokens.access_token) {
+      Object.assign(claims, await this.fetchUserInfo(discovery, tokens.access_token, claims.sub))
+    }
+
+    return this.provisionUser(claims)
+  }
+
+  private getDiscovery(): Promise<OidcDiscovery> {
+    if (!this.discovery) {
+      this.discovery = fetch(`${this.config.issuer}/.well-known/openid-configuration`)
+        .then(async (response) => {
+          if (!response.ok) {
+            throw new Error(`OIDC discovery failed: ${response.status}`)
+          }
+          return (await response.json()) as OidcDiscovery
+        })
+        .catch((error) => {
+          this.discovery = null
+          throw error
+        })
+    }
+
+    return this.discovery
+  }
+
+  private async exchangeCode(
+    discovery: OidcDiscovery,
+    code: string,
+    codeVerifier: string
+  ): Promise<{ id_token: string; access_token?: string }> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    }
+
+    if (this.config.clientSecret) {
+      const credentials = `${encodeURIComponent(this.config.clientId)}:${encodeURIComponent(this.config.clientSecret)}`
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`
+    }
+
+    const response = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers,
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.config.redirectUri,
+        client_id: this.config.clientId,
+        code_verifier: codeVerifier,
+      }),
+    })
+
+    if (!response.ok) {
+      const text = await response.text()
+      throw new Error(`OIDC token exchange failed: ${response.status} - ${text}`)
+    }
+
+    const tokens = await response.json()
+    if (typeof tokens.id_token !== 'string') {
+      throw new Error('OIDC token response did not include an ID token')
+    }
+
+    return tokens
+  }
+
+  // The ID token comes straight from the token endpoint over TLS, so (per OIDC
+  // Core 3.1.3.7) we rely on that channel instead of checking its signature,
+  // but still check who issued it, for whom, when, and for which login attempt
+  private validateIdToken(discovery: OidcDiscovery, idToken: string, nonce: string): Claims {
+    const claims = decodeJwtPayload(idToken)
+    const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+
+    if (claims.iss !== discovery.issuer) {
+      throw new Error('ID token was issued by an unexpected issuer')
+    }
+    if (!audience.includes(this.config.clientId)) {
+      throw new Error('ID token was issued for a different client')
+    }
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now() - CLOCK_SKEW_MS) {
+      throw new Error('ID token has expired')
+    }
+    if (claims.nonce !== nonce) {
+      throw new Error('ID token does not match this sign-in attempt')
+    }
+    if (typeof claims.sub !== 'string' || !claims.sub) {
+      throw new Error('ID token has no subject')
+    }
+
+    return claims
+  }
+
+  private async fetchUserInfo(
+    discovery: OidcDiscovery,
+    accessToken: string,
+    subject: unknown
+  ): Promise<Claims> {
+    const response = await fetch(discovery.userinfo_endpoint!, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    })
+
+    if (!response.ok) {
+      throw new Error(`OIDC userinfo request failed: ${response.status}`)
+    }
+
+    const userInfo: Claims = await response.json()
+    if (userInfo.sub !== subject) {
+      throw new Error('OIDC userinfo belongs to a different user')
+    }
+
+    return userInfo
+  }
+
+  private getGroups(claims: Claims): string[] {
+    const value = claims[this.config.groupsClaim]
+    if (Array.isArray(value)) return value.filter((g): g is string => typeof g === 'string')
+    if (typeof value === 'string') return [value]
+    return []
+  }
+
+  // Null when no group mapping is configured, leaving roles to be managed in the app
+  private mapRole(groups: string[]): UserRole | null {
+    const { adminGroups, managerGroups } = this.config
+
+    if (adminGroups.length === 0 && managerGroups.length === 0) return null
+    if (groups.some((g) => adminGroups.includes(g))) return 'admin'
+    if (groups.some((g) => managerGroups.includes(g))) return 'manager'
+    return 'member'
+  }
+
+  // Finds the local user for the IdP account, linking an existing account by
+  // email on first sign-in or creating one, and syncs name and mapped role
+  private async provisionUser(claims: Claims): Promise<AuthUser> {
+    const subject = claims.sub as string
+    const email = typeof claims.email === 'string' ? claims.email.toLowerCase() : null
+    const name =
+      typeof claims.name === 'string'
+        ? claims.name
+        : typeof claims.preferred_username === 'string'
+          ? claims.preferred_username
+          : null
+    const role = this.mapRole(this.getGroups(claims))
+
+    let user: User | undefined = await db.query.users.findFirst({
+      where: eq(users.oidcSubject, subject),
+    })
+
+    if (!user) {
+      if (!email) {
+        throw new Error('The identity provider did not share an email address')
+      }
+      if (claims.email_verified === false) {
+        throw new Error('Verify your email address with the identity provider first')
+      }
+
+      user = await db.query.users.findFirst({
+        where: eq(users.email, email),
+      })
+
+      if (user?.oidcSubject) {
+        throw new Error('This email is already linked to another identity provider account')
+      }
+
+      // Linking hands the account, and its role, to whoever holds this IdP
+      // login, so the provider has to vouch that they own the address
+      if (user && claims.email_verified !== true) {
+        throw new Error(
+          'An account with this email already exists. Verify your email address with the identity provider to link it.'
+        )
+      }
+    }
+
+    if (!user) {
+      const [created] = await db
+        .insert(users)
+        .values({
+          email: email!,
+          name,
+          role: role ?? 'member',
+          oidcSubject: subject,
+        })
+        .returning()
+      user = created
+    } else {
+      const previousRole = user.role
+      const [updated] = await db
+        .update(users)
+        .set({
+          oidcSubject: subject,
+          name: name ?? user.name,
+          role: role ?? user.role,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, user.id))
+        .returning()
+      user = updated
+
+      if (user.role !== previousRole) {
+        await recordAuditEvent(
+          { id: user.id, email: user.email, name: user.name, role: user.role },
+          {
+            action: 'user.role_synced',
+            entityType: 'user',
+            entityId: user.id,
+            before: { role: previousRole },
+            after: { role: user.role },
+          }
+        )
+      }
+    }
+
+    if (user.status !== 'active') {
+      throw new Error('Your account is suspended')
+    }
+
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import { eq, and, gt, isNull } from 'drizzle-orm'
+import { db, users, userTokens, type UserTokenPurpose } from '~/lib/db'
+import { getAuthService } from '../auth'
+import { getMailTransport, getPublicUrl } from './mail'
+
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000 // 1 hour
+const EMAIL_VERIFICATION_TTL_MS = 48 * 60 * 60 * 1000 // 48 hours
+
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return Buffer.from(digest).toString('hex')
+}
+
+// Issues a new token, replacing any unused ones for the same purpose so only
+// the most recent email's link works
+async function issueToken(
+  userId: string,
+  purpose: UserTokenPurpose,
+  ttlMs: number
+): Promise<string> {
+  const bytes = new Uint8Array(32)
+  crypto.getRandomValues(bytes)
+  const token = Buffer.from(bytes).toString('base64url')
+
+  await db
+    .delete(userTokens)
+    .where(
+      and(
+        eq(userTokens.userId, userId),
+        eq(userTokens.purpose, purpose),
+        isNull(userTokens.usedAt)
+      )
+    )
+
+  await db.insert(userTokens).values({
+    userId,
+    purpose,
+    tokenHash: await hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMs),
+  })
+
+  return token
+}
+
+// Marks the token used and returns its user, or null if it is unknown, expired
+// or already used. The conditional update makes concurrent use of one link safe.
+async function consumeToken(token: string, purpose: UserTokenPurpose): Promise<string | null> {
+  const [consumed] = await db
+    .update(userTokens)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(userTokens.tokenHash, await hashToken(token)),
+        eq(userTokens.purpose, purpose),
+        isNull(userTokens.usedAt),
+        gt(userTokens.expiresAt, new Date())
+      )
+    )
+    .returning()
+
+  return consumed?.userId ?? null
+}
+
+// Sends a reset link if an active account exists. Callers should respond the
+// same way either way so the form can't be used to discover accounts.
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.email, email.toLowerCase()),
+  })
+
+  if (!user || user.status !== 'active') {
+    return
+  }
+
+  const token = await issueToken(user.id, 'password_reset', PASSWORD_RESET_TTL_MS)
+
+  await getMailTransport().send({
+    to: user.email,
+    subject: 'Reset your password',
+    text: [
+      `Hi ${user.name || user.email},`,
+      '',
+      'Someone asked to reset the password for your Training System account.',
+      'Use this link within the next hour to choose a new password:',
+      '',
+      `${getPublicUrl()}/reset-password?token=${token}`,
+      '',
+      "If this wasn't you, you can ignore this email; your password has not changed.",
+    ].join('\n'),
+  })
+}
+
+// Sets the new password and signs the user out everywhere
+export async function resetPassword(
+  token: string,
+  password: string
+): Promise<{ success: boolean; error?: string }> {
+  const userId = await consumeToken(token, 'password_reset')
+
+  if (!userId) {
+    return { success: false, error: 'This reset link is invalid or has expired' }
+  }
+
+  const auth = getAuthService()
+  const passwordHash = await auth.hashPassword(password)
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+  })
+
+  await db
+    .update(users)
+    .set({
+      passwordHash,
+      // The reset link reached their inbox, which proves they own the address
+      emailVerifiedAt: user?.emailVerifiedAt ?? new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, userId))
+
+  await auth.invalidateUserSessions(userId)
+
+  return { success: true }
+}
+
+export async function sendEmailVerification(user: {
+  id: string
+  email: string
+  name: string | null
+}): Promise<void> {
+  const token = await issueToken(user.id, 'email_verification', EMAIL_VERIFICATION_TTL_MS)
+
+  await getMailTransport().send({
+    to: user.email,
+    subject: 'Verify your email address',
+    text: [
+      `Hi ${user.name || user.email},`,
+      '',
+      'Please confirm your email address to start reserving machines:',
+      '',
+      `${getPublicUrl()}/verify-email?token=${token}`,
+      '',
+      'This link expires in 48 hours.',
+    ].join('\n'),
+  })
+}
+
+export async function verifyEmail(token: string): Promise<{ success: boolean; error?: string }> {
+  const userId = await consumeToken(token, 'email_verification')
+
+  if (!userId) {
+    return { success: false, error: 'This verification link is invalid or has expired' }
+  }
+
+  await db
+    .update(users)
+    .set({ emailVerifiedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(users.id, userId), isNull(users.emailVerifiedAt)))
+
+  return { success: true }
+}
+
+export async function isEmailVerified(userId: string): Promise<boolean> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { emailVerifiedAt: true },
+  })
+
+  return !!user?.emailVerifiedAt
+}
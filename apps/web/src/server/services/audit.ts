@@ -0,0 +1,126 @@
+import { and, desc, eq, gte, lt, type SQL } from 'drizzle-orm'
+import { z } from 'zod'
+import { db, auditEvents, type AuditEvent } from '~/lib/db'
+import type { AuthUser } from '../auth/types'
+
+const AUDIT_ENTITY_TYPES = [
+  'category',
+  'checkout',
+  'issue',
+  'machine',
+  'module',
+  'reconciliation',
+  'reservation',
+  'user',
+  'webhook',
+] as const
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number]
+
+export interface AuditEntry {
+  action: string
+  entityType: AuditEntityType
+  entityId: string
+  before?: unknown
+  after?: unknown
+}
+
+// Logged as the actor for changes the app makes on its own, from scheduled jobs
+const SYSTEM_ACTOR_EMAIL = 'system'
+
+// Audit events are only ever inserted; nothing in the app updates or deletes them.
+// The actor is null for changes no one asked for, such as a scheduled job's.
+export async function recordAuditEvent(
+  actor: AuthUser | null,
+  entry: AuditEntry
+): Promise<void> {
+  await db.insert(auditEvents).values({
+    actorId: actor?.id ?? null,
+    actorEmail: actor?.email ?? SYSTEM_ACTOR_EMAIL,
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: entry.entityId,
+    before: entry.before ?? null,
+    after: entry.after ?? null,
+  })
+}
+
+export const auditFilterSchema = z.object({
+  actorId: z.string().uuid().optional(),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().optional(),
+  from: z.string().date().optional(), // inclusive, YYYY-MM-DD
+  to: z.string().date().optional(), // inclusive, YYYY-MM-DD
+})
+
+export type AuditFilter = z.infer<typeof auditFilterSchema>
+
+export async function listAuditEvents(filter: AuditFilter, limit: number) {
+  const conditions: SQL[] = []
+
+  if (filter.actorId) {
+    conditions.push(eq(auditEvents.actorId, filter.actorId))
+  }
+  if (filter.entityType) {
+    conditions.push(eq(auditEvents.entityType, filter.entityType))
+  }
+  if (filter.entityId) {
+    conditions.push(eq(auditEvents.entityId, filter.entityId))
+  }
+  if (filter.from) {
+    conditions.push(gte(auditEvents.createdAt, new Date(`${filter.from}T00:00:00Z`)))
+  }
+  if (filter.to) {
+    const end = new Date(`${filter.to}T00:00:00Z`)
+    end.setUTCDate(end.getUTCDate() + 1)
+    conditions.push(lt(auditEvents.createdAt, end))
+  }
+
+  return db.query.auditEvents.findMany({
+    where: conditions.length > 0 ? and(...conditions) : undefined,
+    orderBy: [desc(auditEvents.createdAt)],
+    limit,
+  })
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return ''
+
+  const raw = typeof value === 'string' ? value : JSON.stringify(value)
+  // Names and reasons come from users, so a leading quote keeps them as text
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const header = [
+    'timestamp',
+    'actor_email',
+    'actor_id',
+    'action',
+    'entity_type',
+    'entity_id',
+    'before',
+    'after',
+  ]
+
+  const rows = events.map((event) =>
+    [
+      event.createdAt.toISOString(),
+      event.actorEmail,
+      event.actorId,
+      event.action,
+      event.entityType,
+      event.entityId,
+      event.before,
+      event.after,
+    ]
+      .map(csvField)
+      .join(',')
+  )
+
+  return [header.join(','), ...rows].join('\r\n') + '\r\n'
+}
@@ -0,0 +1,192 @@
+import { beforeEach, describe, expect, test } from 'bun:test'
+import { eq } from 'drizzle-orm'
+import {
+  db,
+  machineOpeningHours,
+  machines,
+  reservations,
+  users,
+  type Machine,
+  type User,
+} from '~/lib/db'
+import { resetTestDatabase } from '~/test/db'
+import { bookMachine } from './booking'
+import { NativeScheduler } from './native-scheduler'
+
+// Bookings are made with the native scheduler, which needs no outside service
+process.env.SCHEDULING_PROVIDER = 'native'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// A whole hour two days from now, well clear of any notice limits
+function hoursFromNow(offset: number): Date {
+  const hour = Math.ceil(Date.now() / HOUR_MS) * HOUR_MS
+  return new Date(hour + (48 + offset) * HOUR_MS)
+}
+
+let userCount = 0
+
+async function createUser(): Promise<User> {
+  userCount += 1
+  const [user] = await db
+    .insert(users)
+    .values({ email: `member${userCount}@example.com` })
+    .returning()
+  return user
+}
+
+// A machine open around the clock, booked in one-hour slots
+async function createMachine(
+  values: Partial<typeof machines.$inferInsert> = {}
+): Promise<Machine> {
+  const [machine] = await db
+    .insert(machines)
+    .values({ name: `Machine ${crypto.randomUUID()}`, ...values })
+    .returning()
+
+  await db.insert(machineOpeningHours).values(
+    [0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({
+      machineId: machine.id,
+      dayOfWeek,
+      opensAt: '00:00',
+      closesAt: '24:00',
+    }))
+  )
+
+  return machine
+}
+
+async function machineReservations(machine: Machine) {
+  return db.query.reservations.findMany({
+    where: eq(reservations.machineId, machine.id),
+  })
+}
+
+beforeEach(async () => {
+  await resetTestDatabase()
+})
+
+describe('bookMachine', () => {
+  test('books a free slot and links the reservation to the booking', async () => {
+    const machine = await createMachine()
+    const member = await createUser()
+    const start = hoursFromNow(0)
+
+    const result = await bookMachine({
+      userId: member.id,
+      machine,
+      start,
+      end: new Date(start.getTime() + HOUR_MS),
+    })
+
+    expect(result.success).toBe(true)
+    const [reservation] = await machineReservations(machine)
+    expect(reservation.status).toBe('confirmed')
+    expect(reservation.calcomBookingUid).not.toBeNull()
+    expect(reservation.startTime).toEqual(start)
+  })
+
+  test('refuses a slot that overlaps a confirmed reservation', async () => {
+    const machine = await createMachine({ maxBookingMinutes: 120 })
+    const first = await createUser()
+    const second = await createUser()
+    const start = hoursFromNow(0)
+
+    await bookMachine({
+      userId: first.id,
+      machine,
+      start,
+      end: new Date(start.getTime() + HOUR_MS),
+    })
+    const result = await bookMachine({
+      userId: second.id,
+      machine,
+      start: new Date(start.getTime() - HOUR_MS),
+      end: new Date(start.getTime() + HOUR_MS),
+    })
+
+    expect(result).toEqual({ success: false, error: 'Selected time slot is not available' })
+    expect(await machineReservations(machine)).toHaveLength(1)
+  })
+
+  test('books a contested slot for only one of two concurrent requests', async () => {
+    const machine = await createMachine()
+    const members = [await createUser(), await createUser()]
+    const start = hoursFromNow(0)
+
+    const results = await Promise.all(
+      members.map((member) =>
+        bookMachine({
+          userId: member.id,
+          machine,
+          start,
+          end: new Date(start.getTime() + HOUR_MS),
+        })
+      )
+    )
+
+    expect(results.filter((r) => r.success)).toHaveLength(1)
+    expect(await machineReservations(machine)).toHaveLength(1)
+  })
+
+  test('keeps concurrent requests from one member within the reservation limit', async () => {
+    const machine = await createMachine({ maxActiveReservations: 1 })
+    const member = await createUser()
+
+    const results = await Promise.all(
+      [0, 2, 4].map((offset) =>
+        bookMachine({
+          userId: member.id,
+          machine,
+          start: hoursFromNow(offset),
+          end: hoursFromNow(offset + 1),
+        })
+      )
+    )
+
+    expect(results.filter((r) => r.success)).toHaveLength(1)
+    expect(await machineReservations(machine)).toHaveLength(1)
+  })
+})
+
+describe('NativeScheduler.claimSlots', () => {
+  const scheduler = new NativeScheduler('America/New_York')
+
+  test('ignores the booking being moved', async () => {
+    const machine = await createMachine({ maxBookingMinutes: 120 })
+    const member = await createUser()
+    const start = hoursFromNow(0)
+    await db.insert(reservations).values({
+      userId: member.id,
+      machineId: machine.id,
+      calcomBookingUid: 'moving',
+      startTime: start,
+      endTime: new Date(start.getTime() + HOUR_MS),
+    })
+
+    const claim = (ignoreBookingUid?: string) =>
+      db.transaction((tx) =>
+        scheduler.claimSlots(
+          tx,
+          machine,
+          start,
+          new Date(start.getTime() + 2 * HOUR_MS),
+          ignoreBookingUid
+        )
+      )
+
+    await expect(claim()).rejects.toThrow('Selected time slot is not available')
+    expect(await claim('moving')).toBeUndefined()
+  })
+
+  test('refuses lengths that are not whole slots', async () => {
+    const machine = await createMachine()
+    const start = hoursFromNow(0)
+
+    await expect(
+      db.transaction((tx) =>
+        scheduler.claimSlots(tx, machine, start, new Date(start.getTime() + HOUR_MS / 2))
+      )
+    ).rejects.toThrow('Bookings must be in 60-minute increments')
+  })
+})
@@ -0,0 +1,193 @@
+import { eq } from 'drizzle-orm'
+import { db, reservations, users, type Machine, type NewReservation, type Reservation } from '~/lib/db'
+import { getSchedulingProvider, withMachineBookingLock } from './scheduling'
+import { checkBookingQuota } from './quotas'
+import { claimWaitlistHold, findConflictingHold, offerFreedTime } from './waitlist'
+import { emitBookingEvent, broadcastMachineAvailabilityChange } from './events'
+import { findMaintenanceConflict } from './maintenance'
+
+export interface BookMachineRequest {
+  userId: string
+  machine: Machine
+  start: Date
+  end: Date
+  seriesId?: string
+}
+
+export type BookMachineResult =
+  | { success: true; reservation: Reservation }
+  | { success: false; error: string; reasons?: string[] }
+
+// Books a machine the member is eligible for: checks fair-use limits and
+// waitlist holds, claims the time with a local reservation, then creates the
+// provider booking (removing the reservation if that fails).
+// Callers check eligibility and booking length first.
+export async function bookMachine({
+  userId,
+  machine,
+  start,
+  end,
+  seriesId,
+}: BookMachineRequest): Promise<BookMachineResult> {
+  // Get user details for booking
+  const userRecord = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+  })
+
+  if (!userRecord) {
+    return { success: false, error: 'User not found' }
+  }
+
+  const scheduler = getSchedulingProvider()
+
+  // The checks and the reservation row that claims the time share one lock,
+  // so concurrent requests can't both pass them for the same machine
+  const claim = await withMachineBookingLock(
+    machine.id,
+    async (tx): Promise<BookMachineResult> => {
+      const maintenanceConflict = await findMaintenanceConflict(machine, start, end, tx)
+      if (maintenanceConflict) {
+        return { success: false, error: maintenanceConflict }
+      }
+
+      // Fair-use limits are enforced before anything is booked with the provider
+      const quotaReasons = await checkBookingQuota({ userId, machine, start, end }, tx)
+      if (quotaReasons.length > 0) {
+        return {
+          success: false,
+          error: 'This booking exceeds the limits for this machine',
+          reasons: quotaReasons,
+        }
+      }
+
+      if (await findConflictingHold(machine.id, start, end, userId, tx)) {
+        return {
+          success: false,
+          error: 'This time is being held for a member on the waitlist',
+        }
+      }
+
+      try {
+        await scheduler.claimSlots?.(tx, machine, start, end)
+      } catch (error) {
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : 'Selected time slot is not available',
+        }
+      }
+
+      // Holds the time until the provider booking is made
+      const [reservation] = await tx
+        .insert(reservations)
+        .values({
+          userId,
+          machineId: machine.id,
+          startTime: start,
+          endTime: end,
+          status: 'confirmed',
+          checkInRequired: true,
+          seriesId,
+        } satisfies NewReservation)
+        .returning()
+
+      return { success: true, reservation }
+    }
+  )
+
+  if (!claim.success) {
+    return claim
+  }
+
+  // Create booking with the scheduling provider, outside the transaction
+  let booking
+  try {
+    booking = await scheduler.createBooking(machine, {
+      start,
+      end,
+      attendee: {
+        name: userRecord.name || userRecord.email,
+        email: userRecord.email,
+        timeZone: 'UTC',
+      },
+      metadata: {
+        machineId: machine.id,
+        userId,
+        reservationId: claim.reservation.id,
+      },
+    })
+  } catch (error) {
+    console.error(`Scheduling (${scheduler.name}) booking error:`, error)
+    await db.delete(reservations).where(eq(reservations.id, claim.reservation.id))
+    broadcastMachineAvailabilityChange(machine.id)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create booking',
+    }
+  }
+
+  const [reservation] = await db
+    .update(reservations)
+    .set({
+      calcomBookingId: booking.id,
+      calcomBookingUid: booking.uid,
+      updatedAt: new Date(),
+    })
+    .where(eq(reservations.id, claim.reservation.id))
+    .returning()
+
+  // Booking time offered from the waitlist uses up the hold
+  await claimWaitlistHold(userId, machine.id, start, end, reservation.id)
+
+  // Emit real-time event
+  emitBookingEvent(userId, {
+    type: 'created',
+    bookingId: reservation.id,
+    machineId: machine.id,
+    userId,
+    startTime: start.toISOString(),
+    endTime: end.toISOString(),
+  })
+
+  broadcastMachineAvailabilityChange(machine.id)
+
+  return { success: true, reservation }
+}
+
+// Cancels a reservation with the provider and locally, then offers the freed
+// time to the waitlist. Callers check the reservation may still be cancelled.
+export async function cancelBooking(reservation: Reservation, reason?: string): Promise<void> {
+  // Cancel with the scheduling provider if we have a booking UID
+  if (reservation.calcomBookingUid) {
+    const scheduler = getSchedulingProvider()
+    try {
+      await scheduler.cancelBooking(reservation.calcomBookingUid, reason)
+    } catch (error) {
+      console.error(`Scheduling (${scheduler.name}) cancellation error:`, error)
+      // Continue with local cancellation even if the provider fails
+    }
+  }
+
+  // Update local record
+  await db
+    .update(reservations)
+    .set({
+      status: 'cancelled',
+      updatedAt: new Date(),
+    })
+    .where(eq(reservations.id, reservation.id))
+
+  // Emit real-time event
+  emitBookingEvent(reservation.userId, {
+    type: 'cancelled',
+    bookingId: reservation.id,
+    machineId: reservation.machineId,
+    userId: reservation.userId,
+    startTime: reservation.startTime.toISOString(),
+    endTime: reservation.endTime.toISOString(),
+    reason,
+  })
+
+  broadcastMachineAvailabilityChange(reservation.machineId)
+
+  await offerFreedTime(reservation.machineId, reservation.startTime, reservation.endTime)
+}
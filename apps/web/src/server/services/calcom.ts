@@ -1,19 +1,48 @@
 import { z } from 'zod'
+import type { Machine } from '~/lib/db'
+import type {
+  AvailabilitySlot,
+  BookingRequest,
+  ProviderBooking,
+  RescheduleRequest,
+  SchedulingProvider,
+} from './scheduling'
 
 const CALCOM_API_URL = process.env.CALCOM_API_URL || 'http://localhost:5555'
 
-class CalcomClient {
+// Page size for the v2 bookings list
+const LIST_PAGE_SIZE = 100
+
+function requireEventTypeId(machine: Machine): number {
+  if (!machine.calcomEventTypeId) {
+    throw new Error('Machine not configured for scheduling')
+  }
+  return machine.calcomEventTypeId
+}
+
+// Whether a time Cal.com returned is the given instant
+function sameInstant(value: unknown, expected: Date): boolean {
+  return typeof value === 'string' && new Date(value).getTime() === expected.getTime()
+}
+
+export class CalcomClient implements SchedulingProvider {
+  readonly name = 'calcom' as const
   private baseUrl: string
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl.replace(/\/$/, '')
   }
 
+  async isConfigured(machine: Machine): Promise<boolean> {
+    return !!machine.calcomEventTypeId
+  }
+
   async getAvailability(
-    eventTypeId: number,
+    machine: Machine,
     startDate: Date,
     endDate: Date
   ): Promise<AvailabilitySlot[]> {
+    const eventTypeId = requireEventTypeId(machine)
     const input = JSON.stringify({
       json: {
         eventTypeId,
@@ -46,25 +75,54 @@ class CalcomClient {
     return allSlots
   }
 
-  async createBooking(params: CreateBookingParams): Promise<CalcomBooking> {
+  async createBooking(
+    machine: Machine,
+    request: BookingRequest
+  ): Promise<ProviderBooking> {
+    console.log(`[CalcomClient] POST book/event eventTypeId=${machine.calcomEventTypeId}`)
+    return this.bookEvent(requireEventTypeId(machine), request)
+  }
+
+  async reschedule(
+    machine: Machine,
+    bookingUid: string,
+    request: RescheduleRequest
+  ): Promise<ProviderBooking> {
+    console.log(`[CalcomClient] Rescheduling booking uid=${bookingUid}`)
+    return this.bookEvent(requireEventTypeId(machine), request, {
+      rescheduleUid: bookingUid,
+      rescheduledReason: request.reason,
+    })
+  }
+
+  // Cal.com books and reschedules through the same endpoint; a reschedule
+  // carries the uid of the booking it replaces. The booking must be for
+  // exactly the requested time: one Cal.com placed elsewhere (say, after the
+  // event type's length changed) is cancelled again and the request fails.
+  private async bookEvent(
+    eventTypeId: number,
+    request: BookingRequest,
+    extra: Record<string, unknown> = {}
+  ): Promise<ProviderBooking> {
     const url = `${this.baseUrl}/api/book/event`
-    console.log(`[CalcomClient] POST book/event eventTypeId=${params.eventTypeId}`)
 
-    // Calculate end time from event type length (60 min default)
-    const startTime = params.start
-    const endTime = new Date(startTime.getTime() + 60 * 60 * 1000)
+    // The caller decides the end time; Cal.com takes the length as `duration`
+    const startTime = request.start
+    const endTime = request.end
 
     const body = {
       start: startTime.toISOString(),
       end: endTime.toISOString(),
-      eventTypeId: params.eventTypeId,
-      timeZone: params.attendee.timeZone || 'America/New_York',
+      duration: Math.round((endTime.getTime() - startTime.getTime()) / 60000),
+      eventTypeId,
+      timeZone: request.attendee.timeZone || 'America/New_York',
       language: 'en',
       responses: {
-        name: params.attendee.name,
-        email: params.attendee.email,
+        name: request.attendee.name,
+        email: request.attendee.email,
       },
-      metadata: params.metadata || {},
+      metadata: request.metadata || {},
+      ...extra,
     }
 
     const response = await fetch(url, {
@@ -82,22 +140,93 @@ class CalcomClient {
 
     const data = await response.json()
 
+    if (!sameInstant(data.startTime, startTime) || !sameInstant(data.endTime, endTime)) {
+      if (data.uid) {
+        await this.cancelBooking(data.uid, 'Booked time did not match the request').catch(
+          (error) => console.error('[CalcomClient] Cancelling mismatched booking failed:', error)
+        )
+      }
+      throw new Error(
+        `Cal.com booked ${data.startTime ?? 'an unknown time'} to ${data.endTime ?? 'an unknown time'} instead of the requested time`
+      )
+    }
+
     return {
-      id: data.id || data.bookingId,
+      id: String(data.id || data.bookingId),
       uid: data.uid,
-      title: data.title || '',
-      startTime: data.startTime || startTime.toISOString(),
-      endTime: data.endTime || endTime.toISOString(),
+      startTime: data.startTime,
+      endTime: data.endTime,
       status: data.status || 'ACCEPTED',
-      attendees: data.attendees || [
-        {
-          email: params.attendee.email,
-          name: params.attendee.name,
-          timeZone: params.attendee.timeZone || 'America/New_York',
+    }
+  }
+
+  async listBookings(machine: Machine, start: Date, end: Date): Promise<ProviderBooking[]> {
+    return this.fetchBookings({
+      eventTypeId: requireEventTypeId(machine),
+      afterStart: start.toISOString(),
+      beforeEnd: end.toISOString(),
+    })
+  }
+
+  // Lists bookings through API v2, which needs CALCOM_API_KEY
+  private async fetchBookings(params: ListBookingsParams): Promise<ProviderBooking[]> {
+    const apiKey = process.env.CALCOM_API_KEY
+    if (!apiKey) {
+      throw new Error('CALCOM_API_KEY is required to list Cal.com bookings')
+    }
+
+    const bookings: ProviderBooking[] = []
+
+    for (let skip = 0; ; skip += LIST_PAGE_SIZE) {
+      const query = new URLSearchParams({ take: String(LIST_PAGE_SIZE), skip: String(skip) })
+      for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined) query.set(key, String(value))
+      }
+
+      console.log(`[CalcomClient] GET v2/bookings ${query}`)
+
+      const response = await fetch(`${this.baseUrl}/v2/bookings?${query}`, {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'cal-api-version': '2024-08-13',
         },
-      ],
-      metadata: data.metadata,
+      })
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => '')
+        throw new Error(`Cal.com bookings list error ${response.status}: ${text}`)
+      }
+
+      const { data } = (await response.json()) as {
+        data: Array<{
+          id: number
+          uid: string
+          start: string
+          end: string
+          status: string
+          metadata?: Record<string, string>
+          createdAt?: string
+          fromReschedule?: string | null
+        }>
+      }
+
+      for (const booking of data) {
+        bookings.push({
+          id: String(booking.id),
+          uid: booking.uid,
+          startTime: booking.start,
+          endTime: booking.end,
+          status: booking.status.toUpperCase(),
+          metadata: booking.metadata,
+          createdAt: booking.createdAt,
+          rescheduledFromUid: booking.fromReschedule ?? undefined,
+        })
+      }
+
+      if (data.length < LIST_PAGE_SIZE) break
     }
+
+    return bookings
   }
 
   async cancelBooking(bookingUid: string, reason?: string): Promise<void> {
@@ -132,44 +261,16 @@ class CalcomClient {
 }
 
 // Types
-export interface AvailabilitySlot {
-  time: string
-}
-
-export interface CreateBookingParams {
-  eventTypeId: number
-  start: Date
-  attendee: {
-    name: string
-    email: string
-    timeZone?: string
-  }
-  metadata?: Record<string, string>
-}
-
-export interface CalcomBooking {
-  id: number
-  uid: string
-  title: string
-  startTime: string
-  endTime: string
-  status: string
-  attendees: Array<{
-    email: string
-    name: string
-    timeZone: string
-  }>
-  metadata?: Record<string, string>
-}
-
 export interface ListBookingsParams {
   attendeeEmail?: string
   status?: string
   eventTypeId?: number
+  afterStart?: string
+  beforeEnd?: string
 }
 
 // Webhook payload schemas
-export const webhookBookingSchema = z.object({
+const bookingWebhookSchema = z.object({
   triggerEvent: z.enum([
     'BOOKING_CREATED',
     'BOOKING_RESCHEDULED',
@@ -177,8 +278,8 @@ export const webhookBookingSchema = z.object({
     'BOOKING_REJECTED',
     'BOOKING_REQUESTED',
     'BOOKING_PAYMENT_INITIATED',
-    'BOOKING_NO_SHOW_UPDATED',
   ]),
+  createdAt: z.string(), // when Cal.com sent it, checked against replays
   payload: z.object({
     bookingId: z.number(),
     uid: z.string(),
@@ -196,6 +297,28 @@ export const webhookBookingSchema = z.object({
   }),
 })
 
+// Sent when the host marks (or unmarks) attendees as no-shows
+const noShowWebhookSchema = z.object({
+  triggerEvent: z.literal('BOOKING_NO_SHOW_UPDATED'),
+  createdAt: z.string(),
+  payload: z.object({
+    bookingUid: z.string(),
+    bookingId: z.number().optional(),
+    message: z.string().optional(),
+    attendees: z.array(
+      z.object({
+        email: z.string(),
+        noShow: z.boolean(),
+      })
+    ),
+  }),
+})
+
+export const webhookBookingSchema = z.discriminatedUnion('triggerEvent', [
+  bookingWebhookSchema,
+  noShowWebhookSchema,
+])
+
 export type WebhookPayload = z.infer<typeof webhookBookingSchema>
 
 // Singleton client
@@ -207,15 +330,3 @@ export function getCalcomClient(): CalcomClient {
   }
   return calcomClient
 }
-
-// Convenience exports
-export const calcom = {
-  getAvailability: (eventTypeId: number, startDate: Date, endDate: Date) =>
-    getCalcomClient().getAvailability(eventTypeId, startDate, endDate),
-
-  createBooking: (params: CreateBookingParams) =>
-    getCalcomClient().createBooking(params),
-
-  cancelBooking: (bookingUid: string, reason?: string) =>
-    getCalcomClient().cancelBooking(bookingUid, reason),
-}
@@ -0,0 +1,338 @@
+import { and, eq, inArray, isNotNull, lte, sql } from 'drizzle-orm'
+import {
+  db,
+  eligibilityCache,
+  machineCategories,
+  machineRequirements,
+  machines,
+  users,
+  type EligibilityCacheEntry,
+  type RequirementRule,
+} from '~/lib/db'
+import { computeEligibility, type EligibilityResult } from './eligibility'
+import { emitEligibilityEvent } from './events'
+import { getRuleMachineIds, getRuleModules } from './requirement-rules'
+
+// Rows per upsert, well under Postgres' bind parameter limit
+const WRITE_BATCH_SIZE = 500
+
+export interface EligibilityScope {
+  // All users or all machines when omitted
+  userIds?: string[]
+  machineIds?: string[]
+}
+
+function toResult(entry: EligibilityCacheEntry): EligibilityResult {
+  const { checkoutExpiresAt, ...reasons } = entry.reasonJson
+  return {
+    eligible: entry.eligible,
+    ...reasons,
+    checkoutExpiresAt: checkoutExpiresAt ? new Date(checkoutExpiresAt) : null,
+  }
+}
+
+function isFresh(entry: EligibilityCacheEntry, now: Date): boolean {
+  // Entries cached before requirement rules existed lack requirementsMet
+  if (typeof entry.reasonJson.requirementsMet !== 'boolean') return false
+  return !entry.validUntil || entry.validUntil > now
+}
+
+// Recomputes and stores eligibility for every pair in scope, and tells members
+// whose eligibility flipped so open pages update. Returns the new results.
+export async function refreshEligibility(
+  scope: EligibilityScope = {},
+  now: Date = new Date()
+): Promise<Map<string, Map<string, EligibilityResult>>> {
+  const userIds =
+    scope.userIds ?? (await db.select({ id: users.id }).from(users)).map((u) => u.id)
+  const machineIds =
+    scope.machineIds ?? (await db.select({ id: machines.id }).from(machines)).map((m) => m.id)
+
+  const results = new Map<string, Map<string, EligibilityResult>>()
+  if (userIds.length === 0 || machineIds.length === 0) return results
+
+  const previous = await db
+    .select({
+      userId: eligibilityCache.userId,
+      machineId: eligibilityCache.machineId,
+      eligible: eligibilityCache.eligible,
+    })
+    .from(eligibilityCache)
+    .where(
+      and(
+        inArray(eligibilityCache.userId, userIds),
+        inArray(eligibilityCache.machineId, machineIds)
+      )
+    )
+  const wasEligible = new Map(previous.map((p) => [`${p.userId}:${p.machineId}`, p.eligible]))
+
+  const computed = await computeEligibility(userIds, machineIds, now)
+  const rows: Array<typeof eligibilityCache.$inferInsert> = []
+
+  for (const [userId, row] of computed) {
+    const userResults = new Map<string, EligibilityResult>()
+
+    for (const [machineId, { result, validUntil }] of row) {
+      userResults.set(machineId, result)
+      rows.push({
+        userId,
+        machineId,
+        eligible: result.eligible,
+        reasonJson: {
+          reasons: result.reasons,
+          requirementsMet: result.requirementsMet,
+          requirements: result.requirements,
+          hasCheckout: result.hasCheckout,
+          checkoutExpiresAt: result.checkoutExpiresAt?.toISOString() ?? null,
+        },
+        computedAt: now,
+        validUntil,
+      })
+
+      // Only flips are pushed; a first computation has nothing to compare with
+      const before = wasEligible.get(`${userId}:${machineId}`)
+      if (before !== undefined && before !== result.eligible) {
+        emitEligibilityEvent(userId, {
+          machineId,
+          eligible: result.eligible,
+          reasons: result.reasons,
+        })
+      }
+    }
+
+    results.set(userId, userResults)
+  }
+
+  for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+    await db
+      .insert(eligibilityCache)
+      .values(rows.slice(i, i + WRITE_BATCH_SIZE))
+      .onConflictDoUpdate({
+        target: [eligibilityCache.userId, eligibilityCache.machineId],
+        set: {
+          eligible: sql`excluded.eligible`,
+          reasonJson: sql`excluded.reason_json`,
+          computedAt: sql`excluded.computed_at`,
+          validUntil: sql`excluded.valid_until`,
+        },
+        // Concurrent refreshes can finish in any order; the newest result wins
+        setWhere: lte(eligibilityCache.computedAt, sql`excluded.computed_at`),
+      })
+  }
+
+  return results
+}
+
+// Marks entries in scope as outdated, so the next read or the expiry job
+// recomputes them
+async function markStale(scope: EligibilityScope, now: Date): Promise<void> {
+  await db
+    .update(eligibilityCache)
+    .set({ validUntil: now })
+    .where(
+      and(
+        scope.userIds ? inArray(eligibilityCache.userId, scope.userIds) : undefined,
+        scope.machineIds ? inArray(eligibilityCache.machineId, scope.machineIds) : undefined
+      )
+    )
+}
+
+// Refreshes after a change that has already been saved. The change stands
+// either way, so a failed refresh is logged rather than thrown at the caller,
+// and the affected entries are marked stale to be recomputed later. fallback
+// is what gets marked if working out the exact scope failed.
+async function refreshAfterWrite(
+  fallback: EligibilityScope,
+  getScope: () => Promise<EligibilityScope | null>
+): Promise<void> {
+  const now = new Date()
+  let scope = fallback
+
+  try {
+    const resolved = await getScope()
+    if (!resolved) return
+
+    scope = resolved
+    await refreshEligibility(scope, now)
+  } catch (error) {
+    console.error('Eligibility refresh failed:', error)
+
+    await markStale(scope, now).catch((staleError) => {
+      console.error('Marking eligibility stale failed:', staleError)
+    })
+  }
+}
+
+// Refreshes the given pairs after a change to them was saved
+export async function refreshEligibilityAfterWrite(scope: EligibilityScope): Promise<void> {
+  await refreshAfterWrite(scope, async () => scope)
+}
+
+// Refreshes the machines that require a module, directly or through their
+// category, or use it as their refresher
+export async function refreshEligibilityForModule(
+  moduleId: string,
+  userIds?: string[]
+): Promise<void> {
+  await refreshAfterWrite({ userIds }, async () => {
+    const [required, refreshers, ruledCategories] = await Promise.all([
+      db
+        .select({ machineId: machineRequirements.machineId })
+        .from(machineRequirements)
+        .where(eq(machineRequirements.moduleId, moduleId)),
+      db
+        .select({ id: machines.id })
+        .from(machines)
+        .where(eq(machines.refresherModuleId, moduleId)),
+      db
+        .select({ id: machineCategories.id, requirementRule: machineCategories.requirementRule })
+        .from(machineCategories)
+        .where(isNotNull(machineCategories.requirementRule)),
+    ])
+
+    // Category rules aren't listed in machine_requirements
+    const categoryIds = ruledCategories
+      .filter((c) => c.requirementRule && getRuleModules(c.requirementRule).has(moduleId))
+      .map((c) => c.id)
+    const inCategories =
+      categoryIds.length > 0
+        ? await db
+            .select({ id: machines.id })
+            .from(machines)
+            .where(inArray(machines.categoryId, categoryIds))
+        : []
+
+    const machineIds = [
+      ...new Set([
+        ...required.map((r) => r.machineId),
+        ...refreshers.map((m) => m.id),
+        ...inCategories.map((m) => m.id),
+      ]),
+    ]
+    return machineIds.length > 0 ? { userIds, machineIds } : null
+  })
+}
+
+// Machines whose rules, or whose categories' rules, require a checkout on
+// any of the given machines
+async function getDependentMachineIds(machineIds: string[]): Promise<string[]> {
+  const [ruled, ruledCategories] = await Promise.all([
+    db
+      .select({ id: machines.id, requirementRule: machines.requirementRule })
+      .from(machines)
+      .where(isNotNull(machines.requirementRule)),
+    db
+      .select({ id: machineCategories.id, requirementRule: machineCategories.requirementRule })
+      .from(machineCategories)
+      .where(isNotNull(machineCategories.requirementRule)),
+  ])
+
+  const requiresCheckout = (rule: RequirementRule | null) =>
+    !!rule && getRuleMachineIds(rule).some((id) => machineIds.includes(id))
+
+  const categoryIds = ruledCategories
+    .filter((c) => requiresCheckout(c.requirementRule))
+    .map((c) => c.id)
+  const inCategories =
+    categoryIds.length > 0
+      ? await db
+          .select({ id: machines.id })
+          .from(machines)
+          .where(inArray(machines.categoryId, categoryIds))
+      : []
+
+  return [
+    ...new Set([
+      ...ruled.filter((m) => requiresCheckout(m.requirementRule)).map((m) => m.id),
+      ...inCategories.map((m) => m.id),
+    ]),
+  ]
+}
+
+// Refreshes a machine and the machines whose rules require a checkout on it,
+// e.g. after a checkout on it is approved or revoked
+export async function refreshEligibilityForMachine(
+  machineId: string,
+  userIds?: string[]
+): Promise<void> {
+  await refreshAfterWrite({ userIds }, async () => {
+    const dependents = await getDependentMachineIds([machineId])
+    return { userIds, machineIds: [...new Set([machineId, ...dependents])] }
+  })
+}
+
+// Refreshes every machine in a category and the machines that depend on them,
+// e.g. after a category checkout or the category's requirements change
+export async function refreshEligibilityForCategory(
+  categoryId: string,
+  userIds?: string[]
+): Promise<void> {
+  await refreshAfterWrite({ userIds }, async () => {
+    const members = (
+      await db
+        .select({ id: machines.id })
+        .from(machines)
+        .where(eq(machines.categoryId, categoryId))
+    ).map((m) => m.id)
+    if (members.length === 0) return null
+
+    const dependents = await getDependentMachineIds(members)
+    return { userIds, machineIds: [...new Set([...members, ...dependents])] }
+  })
+}
+
+// Cached eligibility on each machine, keyed by machine id. One indexed read
+// when the cache is warm; missing or outdated entries are computed and stored.
+export async function getCachedEligibility(
+  userId: string,
+  machineIds: string[],
+  now: Date = new Date()
+): Promise<Map<string, EligibilityResult>> {
+  const results = new Map<string, EligibilityResult>()
+  if (machineIds.length === 0) return results
+
+  const entries = await db.query.eligibilityCache.findMany({
+    where: and(
+      eq(eligibilityCache.userId, userId),
+      inArray(eligibilityCache.machineId, machineIds)
+    ),
+  })
+
+  for (const entry of entries) {
+    if (isFresh(entry, now)) {
+      results.set(entry.machineId, toResult(entry))
+    }
+  }
+
+  const missing = machineIds.filter((id) => !results.has(id))
+  if (missing.length > 0) {
+    const refreshed = await refreshEligibility({ userIds: [userId], machineIds: missing }, now)
+    for (const [machineId, result] of refreshed.get(userId) ?? []) {
+      results.set(machineId, result)
+    }
+  }
+
+  return results
+}
+
+// Recomputes entries whose result has changed with time, e.g. a checkout that
+// just expired, so members are told without anything else happening
+export async function refreshExpiredEligibility(now: Date = new Date()): Promise<number> {
+  const expired = await db
+    .select({ userId: eligibilityCache.userId, machineId: eligibilityCache.machineId })
+    .from(eligibilityCache)
+    .where(lte(eligibilityCache.validUntil, now))
+
+  if (expired.length === 0) return 0
+
+  const machinesByUser = new Map<string, string[]>()
+  for (const { userId, machineId } of expired) {
+    machinesByUser.set(userId, [...(machinesByUser.get(userId) ?? []), machineId])
+  }
+
+  for (const [userId, machineIds] of machinesByUser) {
+    await refreshEligibility({ userIds: [userId], machineIds }, now)
+  }
+
+  return expired.length
+}
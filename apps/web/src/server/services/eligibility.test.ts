@@ -0,0 +1,359 @@
+import { beforeEach, describe, expect, test } from 'bun:test'
+import {
+  db,
+  machines,
+  machineRequirements,
+  managerCheckouts,
+  quizAttempts,
+  quizQuestions,
+  refresherProgress,
+  reservations,
+  trainingModules,
+  trainingProgress,
+  users,
+  type Machine,
+  type RequirementRule,
+  type TrainingModule,
+  type User,
+} from '~/lib/db'
+import { resetTestDatabase } from '~/test/db'
+import {
+  checkEligibility,
+  checkEligibilityBatch,
+  getCheckoutExpiry,
+  getPairEligibility,
+  getRenewalWindowStart,
+  type EligibilityResult,
+} from './eligibility'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function daysAgo(days: number): Date {
+  return new Date(Date.now() - days * DAY_MS)
+}
+
+let userCount = 0
+
+async function createUser(): Promise<User> {
+  userCount += 1
+  const [user] = await db
+    .insert(users)
+    .values({ email: `member${userCount}@example.com` })
+    .returning()
+  return user
+}
+
+async function createMachine(
+  values: Partial<typeof machines.$inferInsert> = {}
+): Promise<Machine> {
+  const [machine] = await db
+    .insert(machines)
+    .values({ name: `Machine ${crypto.randomUUID()}`, ...values })
+    .returning()
+  return machine
+}
+
+async function createModule(withQuiz = false): Promise<TrainingModule> {
+  const [module] = await db
+    .insert(trainingModules)
+    .values({ title: 'Safety basics', youtubeVideoId: 'abc123', durationSeconds: 600 })
+    .returning()
+
+  if (withQuiz) {
+    await db.insert(quizQuestions).values({
+      moduleId: module.id,
+      prompt: 'Where is the stop button?',
+      options: ['Red', 'Green'],
+      correctOption: 0,
+    })
+  }
+
+  return module
+}
+
+async function watch(
+  user: User,
+  module: TrainingModule,
+  watchedSeconds: number,
+  completedAt: Date | null = null
+): Promise<void> {
+  await db.insert(trainingProgress).values({
+    userId: user.id,
+    moduleId: module.id,
+    watchedIntervals: [{ start: 0, end: watchedSeconds }],
+    watchedSeconds,
+    completedAt,
+  })
+}
+
+async function passQuiz(user: User, module: TrainingModule, at: Date = new Date()) {
+  await db.insert(quizAttempts).values({
+    userId: user.id,
+    moduleId: module.id,
+    answers: [],
+    scorePercent: 100,
+    passed: true,
+    createdAt: at,
+  })
+}
+
+async function approveCheckout(
+  user: User,
+  machine: Machine,
+  approver: User,
+  values: Partial<typeof managerCheckouts.$inferInsert> = {}
+): Promise<void> {
+  await db.insert(managerCheckouts).values({
+    userId: user.id,
+    machineId: machine.id,
+    approvedBy: approver.id,
+    ...values,
+  })
+}
+
+async function recordNoShows(
+  user: User,
+  machine: Machine,
+  count: number,
+  values: Partial<typeof reservations.$inferInsert> = {}
+): Promise<void> {
+  for (let i = 1; i <= count; i++) {
+    await db.insert(reservations).values({
+      userId: user.id,
+      machineId: machine.id,
+      startTime: daysAgo(i),
+      endTime: new Date(daysAgo(i).getTime() + 60 * 60 * 1000),
+      status: 'no_show',
+      noShowSource: 'missed_check_in',
+      checkInRequired: true,
+      ...values,
+    })
+  }
+}
+
+// Checks every pair in one batch, then one at a time, and expects the same
+// answers; returns the batch results keyed by "userId:machineId"
+async function expectBatchMatchesPairs(
+  userList: User[],
+  machineList: Machine[]
+): Promise<Map<string, EligibilityResult>> {
+  const userIds = userList.map((u) => u.id)
+  const machineIds = machineList.map((m) => m.id)
+  const batch = await checkEligibilityBatch(userIds, machineIds)
+  const results = new Map<string, EligibilityResult>()
+
+  for (const userId of userIds) {
+    for (const machineId of machineIds) {
+      const fromBatch = getPairEligibility(batch, userId, machineId)
+      expect(await checkEligibility(userId, machineId)).toEqual(fromBatch)
+      results.set(`${userId}:${machineId}`, fromBatch)
+    }
+  }
+
+  return results
+}
+
+let manager: User
+
+beforeEach(async () => {
+  await resetTestDatabase()
+  manager = await createUser()
+})
+
+describe('checkEligibilityBatch', () => {
+  test('matches per-pair results for missing and met training requirements', async () => {
+    const module = await createModule()
+    const lathe = await createMachine()
+    const drill = await createMachine()
+    await db
+      .insert(machineRequirements)
+      .values({ machineId: lathe.id, moduleId: module.id, requiredWatchPercent: 90 })
+
+    const untrained = await createUser()
+    const partial = await createUser()
+    const trained = await createUser()
+    await watch(partial, module, 300)
+    await watch(trained, module, 600, new Date())
+    for (const user of [untrained, partial, trained]) {
+      await approveCheckout(user, lathe, manager)
+      await approveCheckout(user, drill, manager)
+    }
+
+    const results = await expectBatchMatchesPairs([untrained, partial, trained], [lathe, drill])
+
+    expect(results.get(`${untrained.id}:${lathe.id}`)!.eligible).toBe(false)
+    expect(results.get(`${partial.id}:${lathe.id}`)!.reasons).toEqual([
+      'Training "Safety basics" not completed (50% of 90% required)',
+    ])
+    expect(results.get(`${trained.id}:${lathe.id}`)!.eligible).toBe(true)
+    expect(results.get(`${untrained.id}:${drill.id}`)!.eligible).toBe(true)
+  })
+
+  test('matches per-pair results when a rule names a deleted module or machine', async () => {
+    const module = await createModule()
+    const removedModule = crypto.randomUUID()
+    const removedMachine = crypto.randomUUID()
+    const rule: RequirementRule = {
+      type: 'any',
+      rules: [
+        { type: 'module', moduleId: removedModule, requiredWatchPercent: 90 },
+        { type: 'checkout', machineId: removedMachine },
+      ],
+    }
+    const router = await createMachine({ requirementRule: rule })
+    const saw = await createMachine({
+      requirementRule: {
+        type: 'all',
+        rules: [
+          { type: 'module', moduleId: module.id, requiredWatchPercent: 90 },
+          { type: 'module', moduleId: removedModule, requiredWatchPercent: 90 },
+        ],
+      },
+    })
+
+    const member = await createUser()
+    await watch(member, module, 600, new Date())
+    await approveCheckout(member, router, manager)
+    await approveCheckout(member, saw, manager)
+
+    const results = await expectBatchMatchesPairs([member], [router, saw])
+
+    expect(results.get(`${member.id}:${router.id}`)!.requirementsMet).toBe(false)
+    expect(results.get(`${member.id}:${saw.id}`)!.reasons).toEqual([
+      'A required training module no longer exists; the requirements need updating',
+    ])
+  })
+
+  test('matches per-pair results for quiz passes', async () => {
+    const module = await createModule(true)
+    const machine = await createMachine()
+    await db
+      .insert(machineRequirements)
+      .values({ machineId: machine.id, moduleId: module.id, requiredWatchPercent: 90 })
+
+    const watchedOnly = await createUser()
+    const passed = await createUser()
+    for (const user of [watchedOnly, passed]) {
+      await watch(user, module, 600, new Date())
+      await approveCheckout(user, machine, manager)
+    }
+    await passQuiz(passed, module)
+
+    const results = await expectBatchMatchesPairs([watchedOnly, passed], [machine])
+
+    expect(results.get(`${watchedOnly.id}:${machine.id}`)!.reasons).toEqual([
+      'Quiz for "Safety basics" not passed',
+    ])
+    expect(results.get(`${passed.id}:${machine.id}`)!.eligible).toBe(true)
+  })
+
+  test('matches per-pair results for revoked and expired checkouts', async () => {
+    const machine = await createMachine({ checkoutValidityMonths: 12 })
+    const prerequisite = await createMachine()
+    const dependent = await createMachine({
+      requirementRule: { type: 'checkout', machineId: machine.id },
+    })
+
+    const revoked = await createUser()
+    const expired = await createUser()
+    const current = await createUser()
+    await approveCheckout(revoked, machine, manager, {
+      status: 'revoked',
+      revokedBy: manager.id,
+      revokedAt: new Date(),
+      revocationReason: 'Unsafe use',
+    })
+    await approveCheckout(expired, machine, manager, { approvedAt: daysAgo(400) })
+    await approveCheckout(current, machine, manager, { approvedAt: daysAgo(10) })
+    for (const user of [revoked, expired, current]) {
+      await approveCheckout(user, prerequisite, manager)
+      await approveCheckout(user, dependent, manager)
+    }
+
+    const results = await expectBatchMatchesPairs(
+      [revoked, expired, current],
+      [machine, prerequisite, dependent]
+    )
+
+    expect(results.get(`${revoked.id}:${machine.id}`)!.reasons).toEqual([
+      'Manager checkout revoked: Unsafe use',
+    ])
+    expect(results.get(`${expired.id}:${machine.id}`)!.reasons[0]).toStartWith(
+      'Manager checkout expired on'
+    )
+    expect(results.get(`${expired.id}:${dependent.id}`)!.eligible).toBe(false)
+    expect(results.get(`${current.id}:${machine.id}`)!.eligible).toBe(true)
+    expect(results.get(`${current.id}:${dependent.id}`)!.eligible).toBe(true)
+  })
+
+  test('matches per-pair results inside and after the refresher window', async () => {
+    const refresher = await createModule()
+    const machine = await createMachine({
+      checkoutValidityMonths: 12,
+      refresherModuleId: refresher.id,
+    })
+
+    // Due for renewal, but the checkout hasn't lapsed yet
+    const dueApproval = daysAgo(350)
+    const windowStart = getRenewalWindowStart(getCheckoutExpiry(dueApproval, 12)!)
+
+    const due = await createUser()
+    const renewed = await createUser()
+    const lapsed = await createUser()
+    for (const user of [due, renewed]) {
+      await watch(user, refresher, 600, daysAgo(360))
+      await approveCheckout(user, machine, manager, { approvedAt: dueApproval })
+    }
+    await db.insert(refresherProgress).values({
+      userId: renewed.id,
+      moduleId: refresher.id,
+      windowStart,
+      watchedSeconds: 600,
+      completedAt: new Date(),
+    })
+    await watch(lapsed, refresher, 600, daysAgo(400))
+    await approveCheckout(lapsed, machine, manager, { approvedAt: daysAgo(380) })
+
+    const results = await expectBatchMatchesPairs([due, renewed, lapsed], [machine])
+
+    const dueResult = results.get(`${due.id}:${machine.id}`)!
+    expect(dueResult.eligible).toBe(true)
+    expect(dueResult.requirementsMet).toBe(false)
+
+    const renewedResult = results.get(`${renewed.id}:${machine.id}`)!
+    expect(renewedResult.requirementsMet).toBe(true)
+
+    expect(results.get(`${lapsed.id}:${machine.id}`)!.reasons).toContain(
+      'Refresher training "Safety basics" not completed'
+    )
+  })
+
+  test('matches per-pair results for no-show blocks', async () => {
+    const machine = await createMachine()
+    const other = await createMachine()
+
+    const blocked = await createUser()
+    const belowLimit = await createUser()
+    const couldNotCheckIn = await createUser()
+    await recordNoShows(blocked, machine, 3)
+    await recordNoShows(belowLimit, machine, 2)
+    await recordNoShows(couldNotCheckIn, machine, 3, { checkInRequired: false })
+    for (const user of [blocked, belowLimit, couldNotCheckIn]) {
+      await approveCheckout(user, machine, manager)
+      await approveCheckout(user, other, manager)
+    }
+
+    const results = await expectBatchMatchesPairs(
+      [blocked, belowLimit, couldNotCheckIn],
+      [machine, other]
+    )
+
+    for (const target of [machine, other]) {
+      expect(results.get(`${blocked.id}:${target.id}`)!.reasons[0]).toStartWith(
+        'Booking suspended until'
+      )
+      expect(results.get(`${belowLimit.id}:${target.id}`)!.eligible).toBe(true)
+      expect(results.get(`${couldNotCheckIn.id}:${target.id}`)!.eligible).toBe(true)
+    }
+  })
+})
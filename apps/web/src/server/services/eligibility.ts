@@ -1,4 +1,4 @@
-import { eq, and } from 'drizzle-orm'
+import { eq, and, asc, desc, inArray, isNotNull, or } from 'drizzle-orm'
 import {
   db,
   users,
@@ -6,42 +6,456 @@ import {
   machineRequirements,
   trainingProgress,
   trainingModules,
+  refresherProgress,
   managerCheckouts,
+  quizQuestions,
+  quizAttempts,
+  type Machine,
+  type MachineCategory,
+  type ManagerCheckout,
+  type RefresherProgress,
+  type RequirementRule,
+  type RequirementStatus,
+  type TrainingModule,
+  type TrainingProgress,
+  type User,
 } from '~/lib/db'
+import { getBookingBlocks, type BookingBlock } from './no-shows'
+import {
+  getMachineRule,
+  getRuleMachineIds,
+  getRuleModules,
+  withCategoryRule,
+} from './requirement-rules'
 
 export interface EligibilityResult {
   eligible: boolean
   reasons: string[]
   requirements: RequirementStatus[]
+  // Training and prerequisite checkouts are done; only this machine's checkout may be missing
+  requirementsMet: boolean
   hasCheckout: boolean
+  checkoutExpiresAt: Date | null
+}
+
+export type { RequirementStatus }
+
+// Members are warned, and refreshers unlock, this many days before a checkout expires
+export const CHECKOUT_RENEWAL_WINDOW_DAYS = 30
+
+const REFRESHER_REQUIRED_PERCENT = 90
+
+export function getCheckoutExpiry(
+  approvedAt: Date,
+  validityMonths: number | null
+): Date | null {
+  if (!validityMonths) return null
+
+  const expiresAt = new Date(approvedAt)
+  expiresAt.setMonth(expiresAt.getMonth() + validityMonths)
+  return expiresAt
+}
+
+export function getRenewalWindowStart(expiresAt: Date): Date {
+  return new Date(expiresAt.getTime() - CHECKOUT_RENEWAL_WINDOW_DAYS * 24 * 60 * 60 * 1000)
 }
 
-export interface RequirementStatus {
-  moduleId: string
-  moduleTitle: string
-  requiredPercent: number
-  watchedPercent: number
-  completed: boolean
+export function formatExpiryDate(date: Date): string {
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
 }
 
 export async function checkEligibility(
   userId: string,
   machineId: string
 ): Promise<EligibilityResult> {
+  const matrix = await checkEligibilityBatch([userId], [machineId])
+  return getPairEligibility(matrix, userId, machineId)
+}
+
+// Results keyed by user id, then machine id
+export type EligibilityMatrix = Map<string, Map<string, EligibilityResult>>
+
+export function getPairEligibility(
+  matrix: EligibilityMatrix,
+  userId: string,
+  machineId: string
+): EligibilityResult {
+  const result = matrix.get(userId)?.get(machineId)
+  if (!result) {
+    throw new Error(`Eligibility was not computed for user ${userId} on machine ${machineId}`)
+  }
+  return result
+}
+
+// Everything eligibility depends on for a set of users and machines, loaded
+// with one query per table rather than per pair
+interface EligibilityData {
+  users: Map<string, User>
+  // The machines asked about, and the ones their rules require a checkout on
+  machines: Map<string, Machine>
+  categories: Map<string, MachineCategory>
+  // Each machine's rule, combined with its category's
+  rules: Map<string, RequirementRule>
+  // Modules the rules mention, and refreshers
+  modules: Map<string, TrainingModule>
+  progress: Map<string, TrainingProgress>
+  // Refresher passes, made apart from the original training
+  renewals: Map<string, RefresherProgress>
+  quizModules: Set<string>
+  quizPasses: Map<string, Date[]>
+  // Keyed by user and machine, or user and category; newest first
+  checkouts: Map<string, ManagerCheckout[]>
+  blocks: Map<string, BookingBlock>
+}
+
+function pairKey(a: string, b: string): string {
+  return `${a}:${b}`
+}
+
+function groupBy<T>(rows: T[], key: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const row of rows) {
+    const group = groups.get(key(row))
+    if (group) {
+      group.push(row)
+    } else {
+      groups.set(key(row), [row])
+    }
+  }
+  return groups
+}
+
+async function loadEligibilityData(
+  userIds: string[],
+  machineIds: string[],
+  now: Date
+): Promise<EligibilityData> {
+  const [userRows, machineRows, requirementRows, categoryRows, blocks] = await Promise.all([
+    db.query.users.findMany({ where: inArray(users.id, userIds) }),
+    db.query.machines.findMany({ where: inArray(machines.id, machineIds) }),
+    db.query.machineRequirements.findMany({
+      where: inArray(machineRequirements.machineId, machineIds),
+    }),
+    // Few enough to load whole; prerequisite machines need theirs too
+    db.query.machineCategories.findMany(),
+    getBookingBlocks(userIds, now),
+  ])
+
+  const categories = new Map(categoryRows.map((c) => [c.id, c]))
+  const requirementsByMachine = groupBy(requirementRows, (r) => r.machineId)
+  const rules = new Map(
+    machineRows.map((m) => [
+      m.id,
+      withCategoryRule(
+        getMachineRule(m, requirementsByMachine.get(m.id) ?? []),
+        m.categoryId ? categories.get(m.categoryId) : null
+      ),
+    ])
+  )
+
+  const ruleList = [...rules.values()]
+  const prerequisiteIds = [
+    ...new Set(ruleList.flatMap(getRuleMachineIds).filter((id) => !machineIds.includes(id))),
+  ]
+  const refresherIds = [
+    ...new Set(machineRows.flatMap((m) => (m.refresherModuleId ? [m.refresherModuleId] : []))),
+  ]
+  const moduleIds = [
+    ...new Set([...ruleList.flatMap((rule) => [...getRuleModules(rule).keys()]), ...refresherIds]),
+  ]
+  const checkoutMachineIds = [...machineIds, ...prerequisiteIds]
+
+  const [
+    prerequisiteRows,
+    checkoutRows,
+    moduleRows,
+    progressRows,
+    renewalRows,
+    questionRows,
+    passRows,
+  ] = await Promise.all([
+      prerequisiteIds.length > 0
+        ? db.query.machines.findMany({ where: inArray(machines.id, prerequisiteIds) })
+        : [],
+      db.query.managerCheckouts.findMany({
+        where: and(
+          inArray(managerCheckouts.userId, userIds),
+          or(
+            inArray(managerCheckouts.machineId, checkoutMachineIds),
+            isNotNull(managerCheckouts.categoryId)
+          )
+        ),
+        orderBy: [desc(managerCheckouts.approvedAt)],
+      }),
+      moduleIds.length > 0
+        ? db.query.trainingModules.findMany({ where: inArray(trainingModules.id, moduleIds) })
+        : [],
+      moduleIds.length > 0
+        ? db.query.trainingProgress.findMany({
+            where: and(
+              inArray(trainingProgress.userId, userIds),
+              inArray(trainingProgress.moduleId, moduleIds)
+            ),
+          })
+        : [],
+      refresherIds.length > 0
+        ? db.query.refresherProgress.findMany({
+            where: and(
+              inArray(refresherProgress.userId, userIds),
+              inArray(refresherProgress.moduleId, refresherIds)
+            ),
+          })
+        : [],
+      moduleIds.length > 0
+        ? db
+            .selectDistinct({ moduleId: quizQuestions.moduleId })
+            .from(quizQuestions)
+            .where(inArray(quizQuestions.moduleId, moduleIds))
+        : [],
+      moduleIds.length > 0
+        ? db.query.quizAttempts.findMany({
+            where: and(
+              inArray(quizAttempts.userId, userIds),
+              inArray(quizAttempts.moduleId, moduleIds),
+              eq(quizAttempts.passed, true)
+            ),
+            columns: { userId: true, moduleId: true, createdAt: true },
+          })
+        : [],
+    ])
+
+  const quizPasses = new Map<string, Date[]>()
+  for (const [key, passes] of groupBy(passRows, (p) => pairKey(p.userId, p.moduleId))) {
+    quizPasses.set(key, passes.map((p) => p.createdAt))
+  }
+
+  return {
+    users: new Map(userRows.map((u) => [u.id, u])),
+    machines: new Map([...machineRows, ...prerequisiteRows].map((m) => [m.id, m])),
+    categories,
+    rules,
+    modules: new Map(moduleRows.map((m) => [m.id, m])),
+    progress: new Map(progressRows.map((p) => [pairKey(p.userId, p.moduleId), p])),
+    renewals: new Map(renewalRows.map((r) => [pairKey(r.userId, r.moduleId), r])),
+    quizModules: new Set(questionRows.map((q) => q.moduleId)),
+    quizPasses,
+    checkouts: groupBy(checkoutRows, (c) => pairKey(c.userId, c.machineId ?? c.categoryId ?? '')),
+    blocks,
+  }
+}
+
+// Same answer as getQuizStatus(...).required / .passed, from preloaded data
+function getLoadedQuizStatus(
+  data: EligibilityData,
+  userId: string,
+  moduleId: string,
+  since?: Date
+): { required: boolean; passed: boolean } {
+  if (!data.quizModules.has(moduleId)) {
+    return { required: false, passed: true }
+  }
+
+  const passes = data.quizPasses.get(pairKey(userId, moduleId)) ?? []
+  return { required: true, passed: passes.some((at) => !since || at >= since) }
+}
+
+interface HeldCheckout {
+  checkout: ManagerCheckout
+  expiresAt: Date | null
+}
+
+// A user's checkouts that cover a machine, on the machine itself or on its
+// category, newest first. Each expires by the validity of what it was for.
+function getMachineCheckouts(
+  data: EligibilityData,
+  userId: string,
+  machine: Machine
+): HeldCheckout[] {
+  const category = machine.categoryId ? data.categories.get(machine.categoryId) : undefined
+
+  const own = (data.checkouts.get(pairKey(userId, machine.id)) ?? []).map((checkout) => ({
+    checkout,
+    expiresAt: getCheckoutExpiry(checkout.approvedAt, machine.checkoutValidityMonths),
+  }))
+  const inherited = category
+    ? (data.checkouts.get(pairKey(userId, category.id)) ?? []).map((checkout) => ({
+        checkout,
+        expiresAt: getCheckoutExpiry(checkout.approvedAt, category.checkoutValidityMonths),
+      }))
+    : []
+
+  return [...own, ...inherited].sort(
+    (a, b) => b.checkout.approvedAt.getTime() - a.checkout.approvedAt.getTime()
+  )
+}
+
+// Of the active checkouts, the one that lasts longest
+function getActiveCheckout(checkouts: HeldCheckout[]): HeldCheckout | undefined {
+  const lasts = (c: HeldCheckout) => c.expiresAt?.getTime() ?? Infinity
+  return checkouts
+    .filter((c) => c.checkout.status === 'active')
+    .sort((a, b) => lasts(b) - lasts(a))[0]
+}
+
+// The current checkout covering a machine and when it expires, if it hasn't yet
+function getCurrentCheckout(
+  data: EligibilityData,
+  userId: string,
+  machine: Machine,
+  now: Date
+): HeldCheckout | null {
+  const active = getActiveCheckout(getMachineCheckouts(data, userId, machine))
+  if (!active) return null
+
+  return active.expiresAt && active.expiresAt <= now ? null : active
+}
+
+interface RuleContext {
+  data: EligibilityData
+  user: User
+  now: Date
+  requirements: RequirementStatus[]
+  // Times the outcome changes by itself, e.g. a prerequisite checkout expiring
+  changesAt: Date[]
+}
+
+interface RuleOutcome {
+  met: boolean
+  reasons: string[]
+}
+
+// Walks a requirement rule, recording the status of every module it mentions
+// and a reason for each clause that isn't met
+function evaluateRule(
+  rule: RequirementRule,
+  ctx: RuleContext,
+  alternative = false
+): RuleOutcome {
+  switch (rule.type) {
+    case 'all': {
+      const outcomes = rule.rules.map((child) => evaluateRule(child, ctx, alternative))
+      return {
+        met: outcomes.every((o) => o.met),
+        reasons: outcomes.flatMap((o) => o.reasons),
+      }
+    }
+
+    case 'any': {
+      const outcomes = rule.rules.map((child) => evaluateRule(child, ctx, true))
+      if (outcomes.some((o) => o.met)) {
+        return { met: true, reasons: [] }
+      }
+      return {
+        met: false,
+        reasons: [`One of: ${outcomes.map((o) => o.reasons.join(' and ')).join('; or ')}`],
+      }
+    }
+
+    case 'module': {
+      if (rule.exemptRoles?.includes(ctx.user.role)) {
+        return { met: true, reasons: [] }
+      }
+
+      // A deleted module can't be completed, so the clause can't be met either
+      const module = ctx.data.modules.get(rule.moduleId)
+      if (!module) {
+        return {
+          met: false,
+          reasons: ['A required training module no longer exists; the requirements need updating'],
+        }
+      }
+
+      const progress = ctx.data.progress.get(pairKey(ctx.user.id, module.id))
+
+      const watchedSeconds = progress?.watchedSeconds || 0
+      const watchedPercent =
+        module.durationSeconds > 0
+          ? Math.floor((watchedSeconds / module.durationSeconds) * 100)
+          : 0
+
+      const watched = watchedPercent >= rule.requiredWatchPercent
+      const quiz = getLoadedQuizStatus(ctx.data, ctx.user.id, module.id)
+      const completed = watched && quiz.passed
+
+      ctx.requirements.push({
+        moduleId: module.id,
+        moduleTitle: module.title,
+        requiredPercent: rule.requiredWatchPercent,
+        watchedPercent,
+        completed,
+        quizRequired: quiz.required,
+        quizPassed: quiz.passed,
+        ...(alternative ? { alternative } : {}),
+      })
+
+      if (!watched) {
+        return {
+          met: false,
+          reasons: [
+            `Training "${module.title}" not completed (${watchedPercent}% of ${rule.requiredWatchPercent}% required)`,
+          ],
+        }
+      }
+      if (!quiz.passed) {
+        return { met: false, reasons: [`Quiz for "${module.title}" not passed`] }
+      }
+      return { met: true, reasons: [] }
+    }
+
+    case 'checkout': {
+      if (rule.exemptRoles?.includes(ctx.user.role)) {
+        return { met: true, reasons: [] }
+      }
+
+      const machine = ctx.data.machines.get(rule.machineId)
+      if (!machine) {
+        return {
+          met: false,
+          reasons: [
+            'A machine whose checkout is required no longer exists; the requirements need updating',
+          ],
+        }
+      }
+
+      const current = getCurrentCheckout(ctx.data, ctx.user.id, machine, ctx.now)
+      if (!current) {
+        return { met: false, reasons: [`Manager checkout on "${machine.name}" required first`] }
+      }
+
+      if (current.expiresAt) ctx.changesAt.push(current.expiresAt)
+      return { met: true, reasons: [] }
+    }
+  }
+}
+
+function evaluateEligibility(
+  data: EligibilityData,
+  userId: string,
+  machineId: string,
+  now: Date
+): TimedEligibility {
   const reasons: string[] = []
   const requirements: RequirementStatus[] = []
+  const ruleChangesAt: Date[] = []
 
   // 1. Check user exists and is active
-  const user = await db.query.users.findFirst({
-    where: eq(users.id, userId),
-  })
+  const user = data.users.get(userId)
 
   if (!user) {
     return {
-      eligible: false,
-      reasons: ['User not found'],
-      requirements: [],
-      hasCheckout: false,
+      result: {
+        eligible: false,
+        reasons: ['User not found'],
+        requirements: [],
+        requirementsMet: false,
+        hasCheckout: false,
+        checkoutExpiresAt: null,
+      },
+      validUntil: null,
     }
   }
 
@@ -50,16 +464,19 @@ export async function checkEligibility(
   }
 
   // 2. Check machine exists and is active
-  const machine = await db.query.machines.findFirst({
-    where: eq(machines.id, machineId),
-  })
+  const machine = data.machines.get(machineId)
 
   if (!machine) {
     return {
-      eligible: false,
-      reasons: ['Machine not found'],
-      requirements: [],
-      hasCheckout: false,
+      result: {
+        eligible: false,
+        reasons: ['Machine not found'],
+        requirements: [],
+        requirementsMet: false,
+        hasCheckout: false,
+        checkoutExpiresAt: null,
+      },
+      validUntil: null,
     }
   }
 
@@ -67,65 +484,336 @@ export async function checkEligibility(
     reasons.push('Machine is not available')
   }
 
-  // 3. Check all required training modules are completed
-  const machineReqs = await db.query.machineRequirements.findMany({
-    where: eq(machineRequirements.machineId, machineId),
-    with: {
-      module: true,
-    },
+  // 3. Check the machine's requirement rule: training modules and checkouts
+  // on other machines
+  const rule = evaluateRule(data.rules.get(machineId) ?? { type: 'all', rules: [] }, {
+    data,
+    user,
+    now,
+    requirements,
+    changesAt: ruleChangesAt,
   })
+  reasons.push(...rule.reasons)
 
-  for (const req of machineReqs) {
-    const progress = await db.query.trainingProgress.findFirst({
-      where: and(
-        eq(trainingProgress.userId, userId),
-        eq(trainingProgress.moduleId, req.moduleId)
-      ),
-    })
+  // 4. Check a manager checkout on the machine or its category exists and
+  // has not expired
+  const checkouts = getMachineCheckouts(data, userId, machine)
+  const checkout = getActiveCheckout(checkouts)
+
+  const checkoutExpiresAt = checkout?.expiresAt ?? null
+  const checkoutExpired = !!checkoutExpiresAt && checkoutExpiresAt <= now
+  const hasCheckout = !!checkout && !checkoutExpired
+
+  if (!checkout) {
+    const previous = checkouts[0]?.checkout
+
+    reasons.push(
+      previous?.status === 'revoked'
+        ? `Manager checkout revoked: ${previous.revocationReason}`
+        : 'Manager checkout not approved'
+    )
+  } else if (checkoutExpired) {
+    reasons.push(`Manager checkout expired on ${formatExpiryDate(checkoutExpiresAt)}`)
+  }
+
+  // 5. Once renewal is due, the refresher module must be watched again
+  const refresher = machine.refresherModuleId
+    ? data.modules.get(machine.refresherModuleId)
+    : undefined
+
+  if (checkoutExpiresAt && refresher && getRenewalWindowStart(checkoutExpiresAt) <= now) {
+    // Completions from before the renewal window don't count; the member
+    // watches the module again as a refresher pass for this renewal
+    const windowStart = getRenewalWindowStart(checkoutExpiresAt)
+    const original = data.progress.get(pairKey(userId, refresher.id))
+    const renewal = data.renewals.get(pairKey(userId, refresher.id))
+    const stale = !!original?.completedAt && original.completedAt < windowStart
+    const progress = !stale
+      ? original
+      : renewal && renewal.windowStart >= windowStart
+        ? renewal
+        : undefined
+    const watched = !!progress?.completedAt
+    const quiz = getLoadedQuizStatus(data, userId, refresher.id, windowStart)
+    const completed = watched && quiz.passed
 
-    const watchedSeconds = progress?.watchedSeconds || 0
-    const watchedPercent =
-      req.module.durationSeconds > 0
-        ? Math.floor((watchedSeconds / req.module.durationSeconds) * 100)
-        : 0
+    let watchedPercent = 0
+    if (watched) {
+      watchedPercent = 100
+    } else if (progress && refresher.durationSeconds > 0) {
+      watchedPercent = Math.floor((progress.watchedSeconds / refresher.durationSeconds) * 100)
+    }
 
-    const completed = watchedPercent >= req.requiredWatchPercent
+    // The refresher status supersedes a regular requirement on the same module
+    const regular = requirements.findIndex((r) => r.moduleId === refresher.id)
+    if (regular !== -1) {
+      requirements.splice(regular, 1)
+    }
 
     requirements.push({
-      moduleId: req.moduleId,
-      moduleTitle: req.module.title,
-      requiredPercent: req.requiredWatchPercent,
+      moduleId: refresher.id,
+      moduleTitle: refresher.title,
+      requiredPercent: REFRESHER_REQUIRED_PERCENT,
       watchedPercent,
       completed,
+      quizRequired: quiz.required,
+      quizPassed: quiz.passed,
+      refresher: true,
     })
 
-    if (!completed) {
-      reasons.push(
-        `Training "${req.module.title}" not completed (${watchedPercent}% of ${req.requiredWatchPercent}% required)`
-      )
+    // Only blocks access once the checkout has actually lapsed
+    if (!completed && checkoutExpired) {
+      reasons.push(`Refresher training "${refresher.title}" not completed`)
     }
   }
 
-  // 4. Check manager checkout exists
-  const checkout = await db.query.managerCheckouts.findFirst({
+  // 6. Repeated no-shows temporarily block booking on every machine
+  const block = data.blocks.get(userId)
+  if (block) {
+    reasons.push(
+      `Booking suspended until ${formatExpiryDate(block.until)} after ${block.noShowCount} no-shows`
+    )
+  }
+
+  // The checkout lapsing, the renewal window opening and the block ending all
+  // change the result without anything being written
+  const changesAt = [
+    checkoutExpiresAt,
+    checkoutExpiresAt && refresher ? getRenewalWindowStart(checkoutExpiresAt) : null,
+    block?.until ?? null,
+    ...ruleChangesAt,
+  ].filter((at): at is Date => !!at && at > now)
+
+  const refresherStatus = requirements.find((r) => r.refresher)
+
+  return {
+    result: {
+      eligible: reasons.length === 0,
+      reasons,
+      requirements,
+      requirementsMet: rule.met && (!refresherStatus || refresherStatus.completed),
+      hasCheckout,
+      checkoutExpiresAt,
+    },
+    validUntil:
+      changesAt.length > 0 ? new Date(Math.min(...changesAt.map((at) => at.getTime()))) : null,
+  }
+}
+
+export interface TimedEligibility {
+  result: EligibilityResult
+  // When the result will change with no other change, or null if it won't
+  validUntil: Date | null
+}
+
+// checkEligibilityBatch, also saying how long each result holds
+export async function computeEligibility(
+  userIds: string[],
+  machineIds: string[],
+  now: Date = new Date()
+): Promise<Map<string, Map<string, TimedEligibility>>> {
+  const matrix = new Map<string, Map<string, TimedEligibility>>()
+  if (userIds.length === 0 || machineIds.length === 0) return matrix
+
+  const data = await loadEligibilityData(userIds, machineIds, now)
+
+  for (const userId of userIds) {
+    const row = new Map<string, TimedEligibility>()
+    for (const machineId of machineIds) {
+      row.set(machineId, evaluateEligibility(data, userId, machineId, now))
+    }
+    matrix.set(userId, row)
+  }
+
+  return matrix
+}
+
+// checkEligibility for every pair of the given users and machines, with a
+// fixed number of queries however many pairs there are
+export async function checkEligibilityBatch(
+  userIds: string[],
+  machineIds: string[],
+  now: Date = new Date()
+): Promise<EligibilityMatrix> {
+  const timed = await computeEligibility(userIds, machineIds, now)
+  const matrix: EligibilityMatrix = new Map()
+
+  for (const [userId, row] of timed) {
+    matrix.set(userId, new Map([...row].map(([machineId, { result }]) => [machineId, result])))
+  }
+
+  return matrix
+}
+
+// Refresher completions from before these dates (keyed by module) are stale:
+// the member has a checkout due for renewal and must watch the module again
+export async function getRefresherCutoffs(userId: string): Promise<Map<string, Date>> {
+  const checkouts = await db.query.managerCheckouts.findMany({
+    where: and(eq(managerCheckouts.userId, userId), eq(managerCheckouts.status, 'active')),
+    with: {
+      machine: true,
+      category: {
+        with: {
+          machines: true,
+        },
+      },
+    },
+  })
+
+  const now = new Date()
+  const cutoffs = new Map<string, Date>()
+
+  for (const checkout of checkouts) {
+    // A category checkout is renewed with the refreshers of all its machines
+    const covered = checkout.machine ? [checkout.machine] : (checkout.category?.machines ?? [])
+    const validityMonths = checkout.machine
+      ? checkout.machine.checkoutValidityMonths
+      : (checkout.category?.checkoutValidityMonths ?? null)
+
+    const expiresAt = getCheckoutExpiry(checkout.approvedAt, validityMonths)
+    if (!expiresAt) continue
+
+    const windowStart = getRenewalWindowStart(expiresAt)
+    if (windowStart > now) continue
+
+    for (const machine of covered) {
+      const moduleId = machine.refresherModuleId
+      if (!moduleId) continue
+
+      const existing = cutoffs.get(moduleId)
+      if (!existing || windowStart > existing) {
+        cutoffs.set(moduleId, windowStart)
+      }
+    }
+  }
+
+  return cutoffs
+}
+
+export interface ExpiringCheckout {
+  checkoutId: string
+  userId: string
+  userEmail: string
+  userName: string | null
+  // One of the two is set, as on the checkout
+  machineId: string | null
+  categoryId: string | null
+  // The category's name for a category checkout
+  machineName: string
+  approvedAt: Date
+  expiresAt: Date
+  expired: boolean
+}
+
+// Checkouts that have expired or will expire within the renewal window
+export async function getExpiringCheckouts(userId?: string): Promise<ExpiringCheckout[]> {
+  const checkouts = await db.query.managerCheckouts.findMany({
+    where: and(
+      eq(managerCheckouts.status, 'active'),
+      userId ? eq(managerCheckouts.userId, userId) : undefined
+    ),
+    with: {
+      user: true,
+      machine: true,
+      category: true,
+    },
+  })
+
+  const now = new Date()
+  const expiring: ExpiringCheckout[] = []
+
+  for (const checkout of checkouts) {
+    if (checkout.machine?.active === false || checkout.user.status !== 'active') continue
+
+    const subject = checkout.machine ?? checkout.category
+    if (!subject) continue
+
+    const expiresAt = getCheckoutExpiry(checkout.approvedAt, subject.checkoutValidityMonths)
+    if (!expiresAt || getRenewalWindowStart(expiresAt) > now) continue
+
+    expiring.push({
+      checkoutId: checkout.id,
+      userId: checkout.userId,
+      userEmail: checkout.user.email,
+      userName: checkout.user.name,
+      machineId: checkout.machineId,
+      categoryId: checkout.categoryId,
+      machineName: subject.name,
+      approvedAt: checkout.approvedAt,
+      expiresAt,
+      expired: expiresAt <= now,
+    })
+  }
+
+  return expiring.sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime())
+}
+
+export interface CheckoutTimelineEvent {
+  type: 'approved' | 'reapproved' | 'expired' | 'revoked'
+  at: Date
+  by: string | null
+  notes: string | null
+}
+
+// Full checkout history for a user on one machine, oldest first. Expiry is
+// derived: a checkout expired if its validity ran out before it was closed.
+export async function getCheckoutTimeline(
+  userId: string,
+  machineId: string
+): Promise<CheckoutTimelineEvent[]> {
+  const machine = await db.query.machines.findFirst({
+    where: eq(machines.id, machineId),
+  })
+
+  const checkouts = await db.query.managerCheckouts.findMany({
     where: and(
       eq(managerCheckouts.userId, userId),
       eq(managerCheckouts.machineId, machineId)
     ),
+    orderBy: [asc(managerCheckouts.approvedAt)],
+    with: {
+      approver: true,
+      revoker: true,
+    },
   })
 
-  const hasCheckout = !!checkout
+  const now = new Date()
+  const events: CheckoutTimelineEvent[] = []
 
-  if (!hasCheckout) {
-    reasons.push('Manager checkout not approved')
-  }
+  checkouts.forEach((checkout, i) => {
+    events.push({
+      type: i === 0 ? 'approved' : 'reapproved',
+      at: checkout.approvedAt,
+      by: checkout.approver.name || checkout.approver.email,
+      notes: checkout.notes,
+    })
 
-  return {
-    eligible: reasons.length === 0,
-    reasons,
-    requirements,
-    hasCheckout,
-  }
+    const closedAt =
+      checkout.status === 'revoked'
+        ? checkout.revokedAt
+        : checkout.status === 'renewed'
+          ? checkouts[i + 1]?.approvedAt
+          : now
+    const expiresAt = getCheckoutExpiry(
+      checkout.approvedAt,
+      machine?.checkoutValidityMonths ?? null
+    )
+
+    if (expiresAt && closedAt && expiresAt <= closedAt) {
+      events.push({ type: 'expired', at: expiresAt, by: null, notes: null })
+    }
+
+    if (checkout.status === 'revoked' && checkout.revokedAt) {
+      events.push({
+        type: 'revoked',
+        at: checkout.revokedAt,
+        by: checkout.revoker ? checkout.revoker.name || checkout.revoker.email : null,
+        notes: checkout.revocationReason,
+      })
+    }
+  })
+
+  return events
 }
 
 export async function getMachineRequirements(machineId: string) {
@@ -148,9 +836,10 @@ export async function getUserTrainingProgress(userId: string) {
 
 export async function getUserCheckouts(userId: string) {
   return db.query.managerCheckouts.findMany({
-    where: eq(managerCheckouts.userId, userId),
+    where: and(eq(managerCheckouts.userId, userId), eq(managerCheckouts.status, 'active')),
     with: {
       machine: true,
+      category: true,
       approver: true,
     },
   })
@@ -1,14 +1,111 @@
-type EventCallback = (data: unknown) => void
+import type { Sql } from 'postgres'
+import { and, asc, eq, gt, gte, isNull, lt, or, max, min, sql } from 'drizzle-orm'
+import { client, db, realtimeEvents } from '~/lib/db'
+
+// What subscribers receive; id is missing if the event couldn't be stored
+export interface LiveEvent {
+  id?: number
+  event: string
+  data: unknown
+}
+
+type EventCallback = (event: LiveEvent) => void
 
 interface Subscription {
   userId: string
   callback: EventCallback
 }
 
+export type EventTransportName = 'memory' | 'postgres'
+
+// What travels between instances: an event for one channel, or for every
+// connected user when channel is null
+export interface BusMessage {
+  channel: string | null
+  data: unknown
+}
+
+export interface EventTransport {
+  readonly name: EventTransportName
+  publish(message: BusMessage): void
+  // Called once, before the first subscriber, with the function that hands
+  // messages to this instance's subscribers
+  start(deliver: (message: BusMessage) => void): void
+}
+
+// Delivers in-process only; enough for a single app instance
+export class MemoryEventTransport implements EventTransport {
+  readonly name = 'memory' as const
+  private deliver: ((message: BusMessage) => void) | null = null
+
+  start(deliver: (message: BusMessage) => void): void {
+    this.deliver = deliver
+  }
+
+  publish(message: BusMessage): void {
+    this.deliver?.(message)
+  }
+}
+
+const NOTIFY_CHANNEL = 'app_events'
+
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_NOTIFY_BYTES = 7900
+
+// Fans events out to every app instance through Postgres LISTEN/NOTIFY. Each
+// instance, this one included, delivers what it hears to its own subscribers.
+export class PostgresEventTransport implements EventTransport {
+  readonly name = 'postgres' as const
+  private deliver: ((message: BusMessage) => void) | null = null
+
+  constructor(private sql: Sql) {}
+
+  start(deliver: (message: BusMessage) => void): void {
+    this.deliver = deliver
+
+    // postgres.js keeps a dedicated connection for LISTEN and re-listens after reconnecting
+    this.sql
+      .listen(NOTIFY_CHANNEL, (payload) => {
+        try {
+          deliver(JSON.parse(payload) as BusMessage)
+        } catch (error) {
+          console.error('Invalid event bus payload:', error)
+        }
+      })
+      .catch((error) => {
+        console.error('Event bus LISTEN failed:', error)
+      })
+  }
+
+  publish(message: BusMessage): void {
+    const payload = JSON.stringify(message)
+
+    if (Buffer.byteLength(payload) > MAX_NOTIFY_BYTES) {
+      console.warn(`Event bus payload too large for NOTIFY (${payload.length} chars), delivering locally`)
+      this.deliver?.(message)
+      return
+    }
+
+    this.sql.notify(NOTIFY_CHANNEL, payload).catch((error) => {
+      // Other instances miss it, but this instance's subscribers still get it
+      console.error('Event bus NOTIFY failed:', error)
+      this.deliver?.(message)
+    })
+  }
+}
+
 class EventBus {
   private subscriptions: Map<string, Set<Subscription>> = new Map()
+  private started = false
+
+  constructor(private transport: EventTransport) {}
 
   subscribe(channel: string, userId: string, callback: EventCallback): () => void {
+    if (!this.started) {
+      this.started = true
+      this.transport.start((message) => this.dispatch(message))
+    }
+
     if (!this.subscriptions.has(channel)) {
       this.subscriptions.set(channel, new Set())
     }
@@ -22,23 +119,8 @@ class EventBus {
     }
   }
 
-  publish(channel: string, data: unknown, targetUserId?: string): void {
-    const subs = this.subscriptions.get(channel)
-    if (!subs) return
-
-    for (const sub of subs) {
-      if (!targetUserId || sub.userId === targetUserId) {
-        try {
-          sub.callback(data)
-        } catch (error) {
-          console.error('Error in event callback:', error)
-        }
-      }
-    }
-  }
-
   publishToUser(userId: string, event: string, data: unknown): void {
-    this.publish(`user:${userId}`, { event, data })
+    void this.publish(userId, event, data)
   }
 
   subscribeToUser(userId: string, callback: EventCallback): () => void {
@@ -47,22 +129,145 @@ class EventBus {
 
   // Broadcast to all connected users
   broadcast(event: string, data: unknown): void {
+    void this.publish(null, event, data)
+  }
+
+  // Stores the event so reconnecting clients can replay it, then fans it out
+  private async publish(userId: string | null, event: string, data: unknown): Promise<void> {
+    let id: number | undefined
+
+    try {
+      const [stored] = await db
+        .insert(realtimeEvents)
+        .values({ userId, event, data })
+        .returning({ id: realtimeEvents.id })
+      id = stored.id
+    } catch (error) {
+      // Still delivered live; it just can't be replayed
+      console.error('Failed to store real-time event:', error)
+    }
+
+    const message: LiveEvent = { id, event, data }
+    this.transport.publish({ channel: userId ? `user:${userId}` : null, data: message })
+  }
+
+  // Hands a message from the transport to this instance's subscribers
+  private dispatch(message: BusMessage): void {
     for (const [channel, subs] of this.subscriptions) {
-      if (channel.startsWith('user:')) {
-        for (const sub of subs) {
-          try {
-            sub.callback({ event, data })
-          } catch (error) {
-            console.error('Error in broadcast callback:', error)
-          }
+      const matches =
+        message.channel === null ? channel.startsWith('user:') : channel === message.channel
+      if (!matches) continue
+
+      for (const sub of subs) {
+        try {
+          sub.callback(message.data as LiveEvent)
+        } catch (error) {
+          console.error('Error in event callback:', error)
         }
       }
     }
   }
 }
 
+function getEventTransport(): EventTransport {
+  const transport = process.env.EVENT_BUS || 'memory'
+
+  if (transport === 'memory') {
+    return new MemoryEventTransport()
+  } else if (transport === 'postgres') {
+    return new PostgresEventTransport(client)
+  }
+
+  throw new Error(`Unknown event bus: ${transport}`)
+}
+
 // Singleton event bus
-export const eventBus = new EventBus()
+export const eventBus = new EventBus(getEventTransport())
+
+const HOUR_MS = 60 * 60 * 1000
+
+// How long events are kept for replay after a reconnect
+export function getEventRetentionHours(): number {
+  return parseInt(process.env.SSE_REPLAY_HOURS || '24')
+}
+
+// Events are stored without the publisher waiting, so a lower id can commit
+// after a higher one has already been sent. Replay reaches back this far before
+// the resume point to pick those up; clients skip ids they already handled.
+const REPLAY_OVERLAP_MS = 10_000
+
+// Highest event id handed out so far, whether or not the event is still
+// stored; 0 before the first event
+async function getLastIssuedEventId(): Promise<number> {
+  const [sequence] = await db
+    .select({
+      id: sql<number>`case when is_called then last_value else 0 end`.mapWith(Number),
+    })
+    .from(sql`realtime_events_id_seq`)
+  return sequence?.id ?? 0
+}
+
+// Events for the user (or everyone) after lastEventId, oldest first. complete
+// is false when some may already have been pruned, so the client should reload.
+export async function getMissedEvents(
+  userId: string,
+  lastEventId: number
+): Promise<{ events: LiveEvent[]; complete: boolean }> {
+  const [oldest] = await db.select({ id: min(realtimeEvents.id) }).from(realtimeEvents)
+  const [resumePoint] = await db
+    .select({ createdAt: realtimeEvents.createdAt })
+    .from(realtimeEvents)
+    .where(eq(realtimeEvents.id, lastEventId))
+
+  const rows = await db
+    .select({ id: realtimeEvents.id, event: realtimeEvents.event, data: realtimeEvents.data })
+    .from(realtimeEvents)
+    .where(
+      and(
+        or(
+          gt(realtimeEvents.id, lastEventId),
+          resumePoint
+            ? and(
+                lt(realtimeEvents.id, lastEventId),
+                gte(
+                  realtimeEvents.createdAt,
+                  new Date(resumePoint.createdAt.getTime() - REPLAY_OVERLAP_MS)
+                )
+              )
+            : undefined
+        ),
+        or(eq(realtimeEvents.userId, userId), isNull(realtimeEvents.userId))
+      )
+    )
+    .orderBy(asc(realtimeEvents.id))
+    .limit(500)
+
+  // With every event pruned, nothing was missed if none was issued after lastEventId
+  const complete =
+    oldest?.id != null
+      ? oldest.id <= lastEventId + 1
+      : lastEventId >= (await getLastIssuedEventId())
+
+  return { events: rows, complete: rows.length < 500 && complete }
+}
+
+// Id of the newest event, for a new client to resume from
+export async function getLatestEventId(): Promise<number> {
+  const [latest] = await db.select({ id: max(realtimeEvents.id) }).from(realtimeEvents)
+  return latest?.id ?? (await getLastIssuedEventId())
+}
+
+// Deletes events older than the retention window
+export async function pruneRealtimeEvents(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - getEventRetentionHours() * HOUR_MS)
+
+  const deleted = await db
+    .delete(realtimeEvents)
+    .where(lt(realtimeEvents.createdAt, cutoff))
+    .returning({ id: realtimeEvents.id })
+
+  return deleted.length
+}
 
 // Event types
 export interface BookingEvent {
@@ -72,13 +277,43 @@ export interface BookingEvent {
   userId: string
   startTime: string
   endTime: string
+  reason?: string // set when cancelled on the member's behalf, e.g. for maintenance
 }
 
 export interface CheckoutEvent {
   type: 'approved' | 'revoked'
   userId: string
+  // One of the two is set, as on the checkout
+  machineId: string | null
+  categoryId: string | null
+  machineName: string // the category's name for a category checkout
+  reason?: string // set when revoked
+}
+
+export interface WaitlistEvent {
+  type: 'offered' | 'expired'
+  entryId: string
   machineId: string
   machineName: string
+  startTime: string
+  endTime: string
+  holdExpiresAt: string
+}
+
+export interface IssueEvent {
+  type: 'reported'
+  issueId: string
+  machineId: string
+  machineName: string
+  severity: string
+  description: string
+  outOfService: boolean // the report took the machine out of service
+}
+
+export interface EligibilityEvent {
+  machineId: string
+  eligible: boolean
+  reasons: string[]
 }
 
 // Helper functions
@@ -90,6 +325,18 @@ export function emitCheckoutEvent(userId: string, event: CheckoutEvent): void {
   eventBus.publishToUser(userId, 'checkout', event)
 }
 
+export function emitWaitlistEvent(userId: string, event: WaitlistEvent): void {
+  eventBus.publishToUser(userId, 'waitlist', event)
+}
+
+export function emitIssueEvent(userId: string, event: IssueEvent): void {
+  eventBus.publishToUser(userId, 'issue', event)
+}
+
+export function emitEligibilityEvent(userId: string, event: EligibilityEvent): void {
+  eventBus.publishToUser(userId, 'eligibility', event)
+}
+
 export function broadcastMachineAvailabilityChange(machineId: string): void {
   eventBus.broadcast('machine_availability', { machineId })
 }
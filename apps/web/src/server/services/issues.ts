@@ -0,0 +1,247 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { eq, and, desc, inArray, type SQL } from 'drizzle-orm'
+import {
+  db,
+  machines,
+  machineIssues,
+  users,
+  type IssueSeverity,
+  type IssueStatus,
+  type MachineIssue,
+} from '~/lib/db'
+import type { AuthUser } from '../auth/types'
+import { recordAuditEvent } from './audit'
+import { emitIssueEvent } from './events'
+import { setOutOfService } from './machine-status'
+
+export const MAX_PHOTO_BYTES = 5 * 1024 * 1024
+
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+}
+
+// Statuses a manager can move an issue to from each status
+export const ISSUE_TRANSITIONS: Record<IssueStatus, IssueStatus[]> = {
+  open: ['acknowledged', 'in_progress', 'resolved', 'dismissed'],
+  acknowledged: ['in_progress', 'resolved', 'dismissed'],
+  in_progress: ['resolved', 'dismissed'],
+  resolved: ['open'],
+  dismissed: ['open'],
+}
+
+export const OPEN_ISSUE_STATUSES: IssueStatus[] = ['open', 'acknowledged', 'in_progress']
+
+function getUploadDir(): string {
+  return process.env.ISSUE_UPLOAD_DIR || './uploads/issues'
+}
+
+// Critical reports take the machine out of service unless this is turned off
+function criticalIssuesTakeOutOfService(): boolean {
+  return process.env.CRITICAL_ISSUES_OUT_OF_SERVICE !== 'false'
+}
+
+export interface IssueReport {
+  machineId: string
+  severity: IssueSeverity
+  description: string
+  photo?: File | null
+}
+
+type IssueResult =
+  | { success: true; issue: MachineIssue }
+  | { success: false; error: string }
+
+export async function reportIssue(reporter: AuthUser, report: IssueReport): Promise<IssueResult> {
+  const machine = await db.query.machines.findFirst({
+    where: eq(machines.id, report.machineId),
+  })
+
+  if (!machine || !machine.active) {
+    return { success: false, error: 'Machine not found' }
+  }
+
+  const photo = report.photo && report.photo.size > 0 ? report.photo : null
+  const extension = photo ? PHOTO_EXTENSIONS[photo.type] : undefined
+
+  if (photo && !extension) {
+    return { success: false, error: 'Photos must be JPEG, PNG or WebP images' }
+  }
+
+  if (photo && photo.size > MAX_PHOTO_BYTES) {
+    return { success: false, error: 'Photos can be at most 5 MB' }
+  }
+
+  const id = crypto.randomUUID()
+  let photoPath: string | null = null
+
+  if (photo && extension) {
+    // Named after the issue, never the upload, so nothing user-supplied reaches the path
+    photoPath = `${id}.${extension}`
+    await mkdir(getUploadDir(), { recursive: true })
+    await writeFile(path.join(getUploadDir(), photoPath), Buffer.from(await photo.arrayBuffer()))
+  }
+
+  const [issue] = await db
+    .insert(machineIssues)
+    .values({
+      id,
+      machineId: machine.id,
+      reportedBy: reporter.id,
+      severity: report.severity,
+      description: report.description,
+      photoPath,
+    })
+    .returning()
+
+  let outOfService = false
+
+  if (issue.severity === 'critical' && criticalIssuesTakeOutOfService() && !machine.outOfServiceAt) {
+    const result = await setOutOfService(reporter, machine.id, {
+      reason: `Critical issue reported: ${issue.description.slice(0, 200)}`,
+    })
+    outOfService = result.success
+  }
+
+  if (issue.severity === 'critical') {
+    await notifyManagers(issue, machine.name, outOfService)
+  }
+
+  return { success: true, issue }
+}
+
+async function notifyManagers(
+  issue: MachineIssue,
+  machineName: string,
+  outOfService: boolean
+): Promise<void> {
+  const managers = await db.query.users.findMany({
+    where: and(eq(users.status, 'active'), inArray(users.role, ['manager', 'admin'])),
+    columns: { id: true },
+  })
+
+  for (const manager of managers) {
+    emitIssueEvent(manager.id, {
+      type: 'reported',
+      issueId: issue.id,
+      machineId: issue.machineId,
+      machineName,
+      severity: issue.severity,
+      description: issue.description,
+      outOfService,
+    })
+  }
+}
+
+export async function updateIssueStatus(
+  actor: AuthUser,
+  issueId: string,
+  status: IssueStatus,
+  note?: string
+): Promise<IssueResult> {
+  const existing = await db.query.machineIssues.findFirst({
+    where: eq(machineIssues.id, issueId),
+  })
+
+  if (!existing) {
+    return { success: false, error: 'Issue not found' }
+  }
+
+  if (!ISSUE_TRANSITIONS[existing.status].includes(status)) {
+    return {
+      success: false,
+      error: `An issue that is ${existing.status.replace('_', ' ')} can't become ${status.replace('_', ' ')}`,
+    }
+  }
+
+  const closing = status === 'resolved' || status === 'dismissed'
+
+  const [issue] = await db
+    .update(machineIssues)
+    .set({
+      status,
+      handledBy: actor.id,
+      resolvedAt: closing ? new Date() : null,
+      resolutionNote: closing ? note || null : existing.resolutionNote,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(machineIssues.id, issueId), eq(machineIssues.status, existing.status)))
+    .returning()
+
+  if (!issue) {
+    return { success: false, error: 'The issue was changed by someone else; reload and try again' }
+  }
+
+  await recordAuditEvent(actor, {
+    action: 'issue.status_changed',
+    entityType: 'issue',
+    entityId: issue.id,
+    before: { status: existing.status },
+    after: { status: issue.status, resolutionNote: issue.resolutionNote },
+  })
+
+  return { success: true, issue }
+}
+
+export async function listIssues(filter: { status?: IssueStatus; machineId?: string }, limit: number) {
+  const conditions: SQL[] = []
+
+  if (filter.status) {
+    conditions.push(eq(machineIssues.status, filter.status))
+  } else {
+    conditions.push(inArray(machineIssues.status, OPEN_ISSUE_STATUSES))
+  }
+
+  if (filter.machineId) {
+    conditions.push(eq(machineIssues.machineId, filter.machineId))
+  }
+
+  return db.query.machineIssues.findMany({
+    where: and(...conditions),
+    with: {
+      machine: { columns: { id: true, name: true } },
+      reporter: { columns: { id: true, email: true, name: true } },
+      handler: { columns: { id: true, email: true, name: true } },
+    },
+    orderBy: [desc(machineIssues.createdAt)],
+    limit,
+  })
+}
+
+// Unresolved issues shown on the machine page so members don't report them twice
+export async function getOpenMachineIssues(machineId: string) {
+  return db.query.machineIssues.findMany({
+    where: and(
+      eq(machineIssues.machineId, machineId),
+      inArray(machineIssues.status, OPEN_ISSUE_STATUSES)
+    ),
+    columns: { id: true, severity: true, description: true, status: true, createdAt: true },
+    orderBy: [desc(machineIssues.createdAt)],
+  })
+}
+
+export async function getIssue(issueId: string) {
+  return db.query.machineIssues.findFirst({
+    where: eq(machineIssues.id, issueId),
+  })
+}
+
+export async function readIssuePhoto(
+  issue: MachineIssue
+): Promise<{ data: Buffer; contentType: string } | null> {
+  if (!issue.photoPath) return null
+
+  const extension = path.extname(issue.photoPath).slice(1)
+  const contentType = Object.keys(PHOTO_EXTENSIONS).find(
+    (type) => PHOTO_EXTENSIONS[type] === extension
+  )
+
+  try {
+    const data = await readFile(path.join(getUploadDir(), path.basename(issue.photoPath)))
+    return { data, contentType: contentType ?? 'application/octet-stream' }
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,96 @@
+import { finalizeReservations } from './usage'
+import { expireWaitlist } from './waitlist'
+import { pruneRealtimeEvents } from './events'
+import { pruneWebhookDeliveries } from './webhook-deliveries'
+import { reconcileBookings } from './reconciliation'
+import { refreshExpiredEligibility } from './eligibility-cache'
+
+const MINUTE_MS = 60 * 1000
+
+interface Job {
+  name: string
+  intervalMs: number
+  run: () => Promise<unknown>
+}
+
+// Jobs must be idempotent: every app instance runs them on its own timer
+const jobs: Job[] = [
+  {
+    name: 'finalize-reservations',
+    intervalMs: 5 * MINUTE_MS,
+    run: async () => {
+      const { completed, noShows } = await finalizeReservations()
+      if (completed > 0 || noShows > 0) {
+        console.log(`[jobs] Finalized reservations: ${completed} completed, ${noShows} no-shows`)
+      }
+    },
+  },
+  {
+    name: 'expire-waitlist',
+    intervalMs: MINUTE_MS,
+    run: async () => {
+      const { holds, reoffered, windows } = await expireWaitlist()
+      if (holds > 0 || windows > 0) {
+        console.log(
+          `[jobs] Waitlist: ${holds} holds expired (${reoffered} re-offered), ${windows} windows passed`
+        )
+      }
+    },
+  },
+  {
+    name: 'refresh-expired-eligibility',
+    intervalMs: 5 * MINUTE_MS,
+    run: refreshExpiredEligibility,
+  },
+  {
+    name: 'reconcile-bookings',
+    intervalMs: 15 * MINUTE_MS,
+    run: async () => {
+      const summary = await reconcileBookings(null)
+      if (!summary) return // another instance is reconciling
+
+      const { fixed, open } = summary
+      if (fixed > 0 || open > 0) {
+        console.log(`[jobs] Reconciliation: ${fixed} fixed, ${open} need attention`)
+      }
+    },
+  },
+  {
+    name: 'prune-realtime-events',
+    intervalMs: 60 * MINUTE_MS,
+    run: () => pruneRealtimeEvents(),
+  },
+  {
+    name: 'prune-webhook-deliveries',
+    intervalMs: 60 * MINUTE_MS,
+    run: () => pruneWebhookDeliveries(),
+  },
+]
+
+let started = false
+
+// Starts each job's timer; a run is skipped if the previous one is still going
+export function startBackgroundJobs(): void {
+  if (started || process.env.BACKGROUND_JOBS === 'false') return
+  started = true
+
+  for (const job of jobs) {
+    let running = false
+
+    const tick = async () => {
+      if (running) return
+      running = true
+
+      try {
+        await job.run()
+      } catch (error) {
+        console.error(`[jobs] ${job.name} failed:`, error)
+      } finally {
+        running = false
+      }
+    }
+
+    setInterval(tick, job.intervalMs).unref()
+    void tick()
+  }
+}
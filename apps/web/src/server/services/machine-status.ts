@@ -0,0 +1,222 @@
+import { eq, and, asc, gt, gte, lt } from 'drizzle-orm'
+import { db, machines, maintenanceWindows, reservations, type Machine, type MaintenanceWindow } from '~/lib/db'
+import type { AuthUser } from '../auth/types'
+import { recordAuditEvent } from './audit'
+import { cancelBooking } from './booking'
+import { broadcastMachineAvailabilityChange } from './events'
+
+type MachineStatusResult =
+  | { success: true; machine: Machine; cancelled: number }
+  | { success: false; error: string }
+
+type MaintenanceResult =
+  | { success: true; window: MaintenanceWindow; cancelled: number }
+  | { success: false; error: string }
+
+// Cancels confirmed reservations that haven't started and overlap [start, end);
+// with no end, every upcoming reservation. Members are told why via the booking event.
+async function cancelAffectedReservations(
+  machineId: string,
+  start: Date,
+  end: Date | null,
+  reason: string
+): Promise<number> {
+  const now = new Date()
+
+  const affected = await db.query.reservations.findMany({
+    where: and(
+      eq(reservations.machineId, machineId),
+      eq(reservations.status, 'confirmed'),
+      gte(reservations.startTime, now),
+      gt(reservations.endTime, start),
+      end ? lt(reservations.startTime, end) : undefined
+    ),
+    orderBy: [asc(reservations.startTime)],
+  })
+
+  for (const reservation of affected) {
+    await cancelBooking(reservation, reason)
+  }
+
+  return affected.length
+}
+
+export async function setOutOfService(
+  actor: AuthUser,
+  machineId: string,
+  options: { reason: string; expectedBackAt?: Date | null }
+): Promise<MachineStatusResult> {
+  const existing = await db.query.machines.findFirst({
+    where: eq(machines.id, machineId),
+  })
+
+  if (!existing) {
+    return { success: false, error: 'Machine not found' }
+  }
+
+  const now = new Date()
+  const expectedBackAt = options.expectedBackAt ?? null
+
+  if (expectedBackAt && expectedBackAt <= now) {
+    return { success: false, error: 'The expected return date must be in the future' }
+  }
+
+  const [machine] = await db
+    .update(machines)
+    .set({
+      // Keep the original date when only the reason or return date changes
+      outOfServiceAt: existing.outOfServiceAt ?? now,
+      outOfServiceReason: options.reason,
+      expectedBackAt,
+      updatedAt: now,
+    })
+    .where(eq(machines.id, machineId))
+    .returning()
+
+  const cancelled = await cancelAffectedReservations(
+    machineId,
+    now,
+    expectedBackAt,
+    `${machine.name} is out of service: ${options.reason}`
+  )
+
+  await recordAuditEvent(actor, {
+    action: 'machine.out_of_service',
+    entityType: 'machine',
+    entityId: machineId,
+    before: {
+      outOfServiceAt: existing.outOfServiceAt,
+      outOfServiceReason: existing.outOfServiceReason,
+      expectedBackAt: existing.expectedBackAt,
+    },
+    after: {
+      outOfServiceAt: machine.outOfServiceAt,
+      outOfServiceReason: machine.outOfServiceReason,
+      expectedBackAt: machine.expectedBackAt,
+      cancelledReservations: cancelled,
+    },
+  })
+
+  broadcastMachineAvailabilityChange(machineId)
+
+  return { success: true, machine, cancelled }
+}
+
+export async function returnToService(
+  actor: AuthUser,
+  machineId: string
+): Promise<MachineStatusResult> {
+  const existing = await db.query.machines.findFirst({
+    where: eq(machines.id, machineId),
+  })
+
+  if (!existing) {
+    return { success: false, error: 'Machine not found' }
+  }
+
+  if (!existing.outOfServiceAt) {
+    return { success: false, error: 'Machine is not out of service' }
+  }
+
+  const [machine] = await db
+    .update(machines)
+    .set({
+      outOfServiceAt: null,
+      outOfServiceReason: null,
+      expectedBackAt: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(machines.id, machineId))
+    .returning()
+
+  await recordAuditEvent(actor, {
+    action: 'machine.returned_to_service',
+    entityType: 'machine',
+    entityId: machineId,
+    before: {
+      outOfServiceAt: existing.outOfServiceAt,
+      outOfServiceReason: existing.outOfServiceReason,
+      expectedBackAt: existing.expectedBackAt,
+    },
+  })
+
+  broadcastMachineAvailabilityChange(machineId)
+
+  return { success: true, machine, cancelled: 0 }
+}
+
+export async function scheduleMaintenance(
+  actor: AuthUser,
+  machineId: string,
+  options: { startTime: Date; endTime: Date; reason: string }
+): Promise<MaintenanceResult> {
+  const machine = await db.query.machines.findFirst({
+    where: eq(machines.id, machineId),
+  })
+
+  if (!machine) {
+    return { success: false, error: 'Machine not found' }
+  }
+
+  if (options.endTime <= options.startTime) {
+    return { success: false, error: 'Maintenance must end after it starts' }
+  }
+
+  if (options.endTime <= new Date()) {
+    return { success: false, error: 'Maintenance must end in the future' }
+  }
+
+  const [window] = await db
+    .insert(maintenanceWindows)
+    .values({
+      machineId,
+      startTime: options.startTime,
+      endTime: options.endTime,
+      reason: options.reason,
+      createdBy: actor.id,
+    })
+    .returning()
+
+  const cancelled = await cancelAffectedReservations(
+    machineId,
+    options.startTime,
+    options.endTime,
+    `${machine.name} is closed for maintenance: ${options.reason}`
+  )
+
+  await recordAuditEvent(actor, {
+    action: 'machine.maintenance_scheduled',
+    entityType: 'machine',
+    entityId: machineId,
+    after: { ...window, cancelledReservations: cancelled },
+  })
+
+  broadcastMachineAvailabilityChange(machineId)
+
+  return { success: true, window, cancelled }
+}
+
+export async function removeMaintenance(
+  actor: AuthUser,
+  windowId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  const [window] = await db
+    .delete(maintenanceWindows)
+    .where(eq(maintenanceWindows.id, windowId))
+    .returning()
+
+  if (!window) {
+    return { success: false, error: 'Maintenance window not found' }
+  }
+
+  await recordAuditEvent(actor, {
+    action: 'machine.maintenance_removed',
+    entityType: 'machine',
+    entityId: window.machineId,
+    before: window,
+  })
+
+  broadcastMachineAvailabilityChange(window.machineId)
+
+  return { success: true }
+}
@@ -0,0 +1,107 @@
+import { afterAll, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { FileMailTransport, type MailMessage } from './mail'
+
+const outbox = await mkdtemp(join(tmpdir(), 'mail-test-'))
+const transport = new FileMailTransport(outbox)
+
+// Sends the message and returns the one .eml file it produced
+async function send(message: MailMessage): Promise<string> {
+  await transport.send(message)
+  const [file] = await readdir(outbox)
+  return readFile(join(outbox, file), 'utf8')
+}
+
+function header(eml: string, name: string): string | undefined {
+  const head = eml.split('\r\n\r\n')[0]
+  // Continuation lines start with whitespace and belong to the header above
+  const unfolded = head.replace(/\r\n[ \t]/g, ' ')
+  return unfolded
+    .split('\r\n')
+    .find((line) => line.startsWith(`${name}: `))
+    ?.slice(name.length + 2)
+}
+
+function decodeWords(value: string): string {
+  return value
+    .split(' ')
+    .map((word) => {
+      const match = word.match(/^=\?UTF-8\?B\?(.*)\?=$/)
+      return match ? Buffer.from(match[1], 'base64').toString('utf8') : word
+    })
+    .join('')
+}
+
+beforeEach(async () => {
+  await rm(outbox, { recursive: true, force: true })
+  process.env.MAIL_FROM = 'Training System <no-reply@example.com>'
+})
+
+afterAll(async () => {
+  await rm(outbox, { recursive: true, force: true })
+  delete process.env.MAIL_FROM
+})
+
+describe('FileMailTransport', () => {
+  test('writes headers and a dot-stuffed CRLF body', async () => {
+    const eml = await send({
+      to: 'member@example.com',
+      subject: 'Reset your password',
+      text: 'Hi,\n.\nThanks',
+    })
+
+    expect(header(eml, 'From')).toBe('Training System <no-reply@example.com>')
+    expect(header(eml, 'To')).toBe('member@example.com')
+    expect(header(eml, 'Subject')).toBe('Reset your password')
+    expect(eml.split('\r\n\r\n')[1]).toBe('Hi,\r\n..\r\nThanks')
+  })
+
+  test('encodes non-ASCII subjects and sender names', async () => {
+    process.env.MAIL_FROM = 'Atelier Münster <atelier@example.com>'
+    const subject = 'Réservation confirmée — ' + 'ü'.repeat(40)
+
+    const eml = await send({ to: 'member@example.com', subject, text: 'Hi' })
+
+    expect(eml).toMatch(/^[\x00-\x7f]*\r\n\r\n/)
+    for (const line of eml.split('\r\n\r\n')[0].split('\r\n')) {
+      expect(line.length).toBeLessThanOrEqual(78)
+    }
+    expect(decodeWords(header(eml, 'Subject')!)).toBe(subject)
+    expect(header(eml, 'From')).toEndWith(' <atelier@example.com>')
+    expect(decodeWords(header(eml, 'From')!.replace(/ <.*>$/, ''))).toBe('Atelier Münster')
+  })
+
+  test('quotes sender names with special characters', async () => {
+    process.env.MAIL_FROM = 'J. Smith, Makerspace <training@example.com>'
+
+    const eml = await send({ to: 'member@example.com', subject: 'Hi', text: 'Hi' })
+
+    expect(header(eml, 'From')).toBe('"J. Smith, Makerspace" <training@example.com>')
+  })
+
+  test('refuses line breaks in the subject', async () => {
+    await expect(
+      transport.send({
+        to: 'member@example.com',
+        subject: 'Hello\r\nBcc: victim@example.com',
+        text: 'Hi',
+      })
+    ).rejects.toThrow('line breaks')
+    expect(await readdir(outbox).catch(() => [])).toHaveLength(0)
+  })
+
+  test('refuses invalid recipient addresses', async () => {
+    for (const to of [
+      'member@example.com\r\nBcc: victim@example.com',
+      'member@example.com>\r\nRCPT TO:<victim@example.com',
+      'Member <member@example.com>',
+      'not-an-address',
+    ]) {
+      await expect(transport.send({ to, subject: 'Hi', text: 'Hi' })).rejects.toThrow(
+        'Invalid email address'
+      )
+    }
+  })
+})
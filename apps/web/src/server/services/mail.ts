@@ -0,0 +1,338 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { connect as connectTcp, type Socket } from 'node:net'
+import { join } from 'node:path'
+import { connect as connectTls, type TLSSocket } from 'node:tls'
+
+export type MailTransportName = 'console' | 'smtp' | 'file'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface MailTransport {
+  readonly name: MailTransportName
+  send(message: MailMessage): Promise<void>
+}
+
+function getMailFrom(): string {
+  return process.env.MAIL_FROM || 'Training System <no-reply@localhost>'
+}
+
+// Base URL for links in emails
+export function getPublicUrl(): string {
+  return process.env.PUBLIC_URL || 'http://localhost:3001'
+}
+
+// A bare address, without display name or comments. Stricter than RFC 5321
+// allows, but it keeps anything that could break out of a header or SMTP
+// command (line breaks, angle brackets, spaces) out.
+const ADDRESS_PATTERN = /^[^\s<>()[\]\\,;:"@]+@[^\s<>()[\]\\,;:"@]+$/
+
+function checkAddress(address: string): string {
+  if (!ADDRESS_PATTERN.test(address)) {
+    throw new Error(`Invalid email address: ${JSON.stringify(address)}`)
+  }
+  return address
+}
+
+// MAIL_FROM split into its address and optional display name
+function parseMailFrom(): { name: string | null; address: string } {
+  const from = getMailFrom()
+  const match = from.match(/^\s*(.*?)\s*<([^>]*)>\s*$/)
+
+  return match
+    ? { name: match[1] || null, address: checkAddress(match[2]) }
+    : { name: null, address: checkAddress(from.trim()) }
+}
+
+// Header text as is when it is printable ASCII, otherwise as RFC 2047 encoded
+// words, folded onto continuation lines
+function encodeHeaderText(text: string): string {
+  if (/[\r\n]/.test(text)) {
+    throw new Error('Mail header values cannot contain line breaks')
+  }
+
+  if (/^[\x20-\x7e]*$/.test(text)) {
+    return text
+  }
+
+  // 39 bytes of UTF-8 make 52 characters of base64, so even the first word
+  // fits a 78-character line after the header name; characters aren't split
+  const words: string[] = []
+  let chunk = ''
+  for (const char of text) {
+    if (Buffer.byteLength(chunk + char) > 39) {
+      words.push(chunk)
+      chunk = ''
+    }
+    chunk += char
+  }
+  words.push(chunk)
+
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`)
+    .join('\r\n ')
+}
+
+// Display names with characters that are special in addresses are quoted
+function formatMailbox(name: string | null, address: string): string {
+  if (!name) return address
+
+  const encoded = encodeHeaderText(name)
+  const display =
+    encoded === name && /[()<>[\]:;@\\,."]/.test(name)
+      ? `"${name.replace(/(["\\])/g, '\\$1')}"`
+      : encoded
+
+  return `${display} <${address}>`
+}
+
+// RFC 5322 message with a plain-text body. Throws if an address is invalid or
+// a header value would spill into other headers.
+function formatMessage(message: MailMessage): string {
+  const from = parseMailFrom()
+  const body = message.text
+    .replace(/\r?\n/g, '\r\n')
+    // Dot-stuffing so a line holding only "." doesn't end the SMTP DATA section
+    .replace(/^\./gm, '..')
+
+  return [
+    `From: ${formatMailbox(from.name, from.address)}`,
+    `To: ${checkAddress(message.to)}`,
+    `Subject: ${encodeHeaderText(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    body,
+  ].join('\r\n')
+}
+
+// Logs messages instead of sending them, for local development
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console' as const
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`)
+  }
+}
+
+// Writes each message to its own .eml file, so tests can read what was sent
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file' as const
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const data = formatMessage(message)
+    await mkdir(this.directory, { recursive: true })
+    const fileName = `${Date.now()}-${crypto.randomUUID()}.eml`
+    await writeFile(join(this.directory, fileName), data)
+  }
+}
+
+interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean
+  user: string | null
+  password: string | null
+}
+
+// Minimal SMTP client: enough for a local stand-in such as Mailpit or a relay
+// that accepts implicit-TLS connections or plain ones upgraded with STARTTLS,
+// with optional AUTH PLAIN
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp' as const
+
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: MailMessage): Promise<void> {
+    // Formatted first, so a message that can't be sent never reaches the server
+    const data = formatMessage(message)
+    const from = parseMailFrom().address
+    let socket: Socket = await this.connect()
+
+    try {
+      let session = new SmtpSession(socket)
+      await session.expect(220)
+      const helo = `EHLO ${process.env.SMTP_HELO_NAME || 'localhost'}`
+      const capabilities = await session.command(helo, 250)
+
+      // Upgrade a plain connection whenever the server offers it
+      let encrypted = this.config.secure
+      if (!encrypted && capabilities.some((line) => /^STARTTLS\b/i.test(line.slice(4)))) {
+        await session.command('STARTTLS', 220)
+        session.detach()
+        socket = await this.upgrade(socket)
+        session = new SmtpSession(socket)
+        await session.command(helo, 250)
+        encrypted = true
+      }
+
+      if (this.config.user && this.config.password) {
+        // AUTH PLAIN is the password itself, base64-encoded
+        if (!encrypted) {
+          throw new Error(
+            'SMTP server does not offer STARTTLS; refusing to send credentials unencrypted'
+          )
+        }
+
+        const credentials = Buffer.from(
+          `\0${this.config.user}\0${this.config.password}`
+        ).toString('base64')
+        await session.command(`AUTH PLAIN ${credentials}`, 235)
+      }
+
+      await session.command(`MAIL FROM:<${from}>`, 250)
+      await session.command(`RCPT TO:<${message.to}>`, 250)
+      await session.command('DATA', 354)
+      await session.command(`${data}\r\n.`, 250)
+      await session.command('QUIT', 221)
+    } finally {
+      socket.end()
+    }
+  }
+
+  private connect(): Promise<Socket> {
+    const { host, port, secure } = this.config
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? connectTls({ host, port, servername: host }, () => resolve(socket))
+        : connectTcp({ host, port }, () => resolve(socket))
+
+      socket.setTimeout(30_000, () => socket.destroy(new Error('SMTP connection timed out')))
+      socket.once('error', reject)
+    })
+  }
+
+  // TLS over the existing connection, after the server accepted STARTTLS
+  private upgrade(plain: Socket): Promise<TLSSocket> {
+    const { host } = this.config
+
+    return new Promise((resolve, reject) => {
+      const socket = connectTls({ socket: plain, servername: host }, () => resolve(socket))
+      socket.setTimeout(30_000, () => socket.destroy(new Error('SMTP connection timed out')))
+      socket.once('error', reject)
+    })
+  }
+}
+
+// Reads SMTP replies line by line; a reply ends at a line with a space after the code
+class SmtpSession {
+  private buffer = ''
+  private lines: string[] = []
+  private error: Error | null = null
+  private waiting: { resolve: (line: string) => void; reject: (error: Error) => void } | null =
+    null
+
+  constructor(private socket: Socket) {
+    // Decoded here rather than with setEncoding, which would break a later STARTTLS
+    socket.on('data', this.onData)
+    socket.on('error', this.onError)
+    socket.on('close', this.onClose)
+  }
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8')
+    let index: number
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      this.lines.push(this.buffer.slice(0, index))
+      this.buffer = this.buffer.slice(index + 2)
+    }
+    this.flush()
+  }
+
+  private onError = (error: Error) => {
+    this.error = error
+    this.flush()
+  }
+
+  private onClose = () => {
+    this.error ??= new Error('SMTP connection closed')
+    this.flush()
+  }
+
+  // Stops reading, so TLS can take over the connection
+  detach(): void {
+    this.socket.off('data', this.onData)
+    this.socket.off('error', this.onError)
+    this.socket.off('close', this.onClose)
+  }
+
+  async command(line: string, expectedCode: number): Promise<string[]> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(expectedCode)
+  }
+
+  // The reply's lines, once its code is the expected one
+  async expect(expectedCode: number): Promise<string[]> {
+    const reply: string[] = []
+    let line: string
+    do {
+      line = await this.nextLine()
+      reply.push(line)
+    } while (line[3] === '-')
+
+    const code = parseInt(line.slice(0, 3))
+    if (code !== expectedCode) {
+      throw new Error(`SMTP error: expected ${expectedCode}, got "${line}"`)
+    }
+    return reply
+  }
+
+  private nextLine(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+      this.flush()
+    })
+  }
+
+  private flush() {
+    const waiting = this.waiting
+    if (!waiting) return
+
+    if (this.lines.length > 0) {
+      this.waiting = null
+      waiting.resolve(this.lines.shift()!)
+    } else if (this.error) {
+      this.waiting = null
+      waiting.reject(this.error)
+    }
+  }
+}
+
+// Singleton instance
+let mailTransport: MailTransport | null = null
+
+export function getMailTransport(): MailTransport {
+  if (!mailTransport) {
+    // Printing reset links to the log is only safe in development
+    if (!process.env.MAIL_TRANSPORT && process.env.NODE_ENV === 'production') {
+      throw new Error('MAIL_TRANSPORT must be set in production')
+    }
+
+    const transport = process.env.MAIL_TRANSPORT || 'console'
+
+    if (transport === 'console') {
+      mailTransport = new ConsoleMailTransport()
+    } else if (transport === 'file') {
+      mailTransport = new FileMailTransport(process.env.MAIL_FILE_DIR || './mail-outbox')
+    } else if (transport === 'smtp') {
+      mailTransport = new SmtpMailTransport({
+        host: process.env.SMTP_HOST || 'localhost',
+        port: parseInt(process.env.SMTP_PORT || '1025'),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER || null,
+        password: process.env.SMTP_PASSWORD || null,
+      })
+    } else {
+      throw new Error(`Unknown mail transport: ${transport}`)
+    }
+  }
+
+  return mailTransport
+}
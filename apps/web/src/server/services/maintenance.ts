@@ -0,0 +1,66 @@
+import { eq, and, asc, gt, lt } from 'drizzle-orm'
+import { db, maintenanceWindows, type Machine } from '~/lib/db'
+import type { DbExecutor } from './scheduling'
+
+const MINUTE_MS = 60 * 1000
+
+export function isOutOfService(machine: Machine, at: Date = new Date()): boolean {
+  return (
+    !!machine.outOfServiceAt && (!machine.expectedBackAt || machine.expectedBackAt > at)
+  )
+}
+
+// Why the machine can't be booked between start and end, or null if it can
+export async function findMaintenanceConflict(
+  machine: Machine,
+  start: Date,
+  end: Date,
+  executor: DbExecutor = db
+): Promise<string | null> {
+  if (isOutOfService(machine, start)) {
+    return machine.outOfServiceReason
+      ? `${machine.name} is out of service: ${machine.outOfServiceReason}`
+      : `${machine.name} is out of service`
+  }
+
+  const window = await executor.query.maintenanceWindows.findFirst({
+    where: and(
+      eq(maintenanceWindows.machineId, machine.id),
+      lt(maintenanceWindows.startTime, end),
+      gt(maintenanceWindows.endTime, start)
+    ),
+  })
+
+  return window ? `Closed for maintenance: ${window.reason}` : null
+}
+
+// Drops availability slots during maintenance or while the machine is out of service
+export async function excludeMaintenanceSlots<T extends { time: string }>(
+  machine: Machine,
+  slots: T[]
+): Promise<T[]> {
+  if (slots.length === 0) return slots
+
+  const windows = await getUpcomingMaintenance(machine.id)
+  const slotMs = machine.slotMinutes * MINUTE_MS
+
+  return slots.filter((slot) => {
+    const slotStart = new Date(slot.time)
+    const slotEnd = new Date(slotStart.getTime() + slotMs)
+
+    if (isOutOfService(machine, slotStart)) return false
+
+    return !windows.some((window) => window.startTime < slotEnd && window.endTime > slotStart)
+  })
+}
+
+// Maintenance windows that haven't ended yet, soonest first
+export async function getUpcomingMaintenance(machineId: string) {
+  return db.query.maintenanceWindows.findMany({
+    where: and(
+      eq(maintenanceWindows.machineId, machineId),
+      gt(maintenanceWindows.endTime, new Date())
+    ),
+    orderBy: [asc(maintenanceWindows.startTime)],
+  })
+}
@@ -0,0 +1,211 @@
+import { eq, and, lt, gt } from 'drizzle-orm'
+import { db, machineOpeningHours, reservations, type Machine } from '~/lib/db'
+import type {
+  AvailabilitySlot,
+  BookingRequest,
+  BookingTransaction,
+  DbExecutor,
+  ProviderBooking,
+  RescheduleRequest,
+  SchedulingProvider,
+} from './scheduling'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+// Offset of the time zone from UTC at the given instant, in milliseconds
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date)
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value)
+
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  )
+
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+// Calendar day of an instant in the time zone, as UTC midnight of that date
+export function zonedDay(date: Date, timeZone: string): Date {
+  const shifted = new Date(date.getTime() + getTimeZoneOffset(date, timeZone))
+  return new Date(
+    Date.UTC(shifted.getUTCFullYear(), shifted.getUTCMonth(), shifted.getUTCDate())
+  )
+}
+
+// Instant of a wall-clock time (minutes after midnight) on a zoned calendar day
+export function zonedTime(day: Date, minutes: number, timeZone: string): Date {
+  const wallClock = day.getTime() + minutes * MINUTE_MS
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone)
+  // Re-check the offset at the guessed instant in case a DST change lies between
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone))
+}
+
+// Parse a Postgres time value ("HH:MM" or "HH:MM:SS") into minutes after midnight
+function parseTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number)
+  return hours * 60 + (minutes || 0)
+}
+
+export class NativeScheduler implements SchedulingProvider {
+  readonly name = 'native' as const
+
+  constructor(private timeZone: string) {}
+
+  async isConfigured(machine: Machine): Promise<boolean> {
+    const hours = await db.query.machineOpeningHours.findFirst({
+      where: eq(machineOpeningHours.machineId, machine.id),
+    })
+
+    return !!hours
+  }
+
+  async getAvailability(
+    machine: Machine,
+    startDate: Date,
+    endDate: Date
+  ): Promise<AvailabilitySlot[]> {
+    const slots = await this.getOpenSlots(machine, startDate, endDate)
+    return slots.map((start) => ({ time: start.toISOString() }))
+  }
+
+  // Every slot between start and end must be open for a multi-slot booking
+  async claimSlots(
+    tx: BookingTransaction,
+    machine: Machine,
+    start: Date,
+    end: Date,
+    ignoreBookingUid?: string
+  ): Promise<void> {
+    const slotMs = machine.slotMinutes * MINUTE_MS
+    const lengthMs = end.getTime() - start.getTime()
+
+    if (lengthMs <= 0 || lengthMs % slotMs !== 0) {
+      throw new Error(`Bookings must be in ${machine.slotMinutes}-minute increments`)
+    }
+
+    const openSlots = new Set(
+      (await this.getOpenSlots(machine, start, end, ignoreBookingUid, tx)).map((slot) =>
+        slot.getTime()
+      )
+    )
+
+    for (let t = start.getTime(); t < end.getTime(); t += slotMs) {
+      if (!openSlots.has(t)) {
+        throw new Error('Selected time slot is not available')
+      }
+    }
+  }
+
+  // The slots were claimed by claimSlots, so this only names the booking
+  async createBooking(
+    _machine: Machine,
+    request: BookingRequest
+  ): Promise<ProviderBooking> {
+    const uid = crypto.randomUUID()
+
+    return {
+      id: uid,
+      uid,
+      startTime: request.start.toISOString(),
+      endTime: request.end.toISOString(),
+      status: 'ACCEPTED',
+    }
+  }
+
+  // The reservations row is the booking, so cancelling it locally is enough
+  async cancelBooking(): Promise<void> {}
+
+  async reschedule(
+    _machine: Machine,
+    bookingUid: string,
+    request: RescheduleRequest
+  ): Promise<ProviderBooking> {
+    return {
+      id: bookingUid,
+      uid: bookingUid,
+      startTime: request.start.toISOString(),
+      endTime: request.end.toISOString(),
+      status: 'ACCEPTED',
+    }
+  }
+
+  // Slots starting within [startDate, endDate) that fall inside opening hours,
+  // are in the future and do not overlap a confirmed reservation
+  private async getOpenSlots(
+    machine: Machine,
+    startDate: Date,
+    endDate: Date,
+    ignoreBookingUid?: string,
+    executor: DbExecutor = db
+  ): Promise<Date[]> {
+    const hours = await executor.query.machineOpeningHours.findMany({
+      where: eq(machineOpeningHours.machineId, machine.id),
+    })
+
+    if (hours.length === 0) {
+      return []
+    }
+
+    const slotMs = machine.slotMinutes * MINUTE_MS
+
+    const booked = await executor.query.reservations.findMany({
+      where: and(
+        eq(reservations.machineId, machine.id),
+        eq(reservations.status, 'confirmed'),
+        lt(reservations.startTime, new Date(endDate.getTime() + slotMs)),
+        gt(reservations.endTime, startDate)
+      ),
+    })
+
+    const blocking = booked.filter(
+      (r) => !ignoreBookingUid || r.calcomBookingUid !== ignoreBookingUid
+    )
+
+    const now = Date.now()
+    const slotTimes = new Set<number>()
+
+    for (
+      let day = zonedDay(startDate, this.timeZone);
+      day.getTime() <= endDate.getTime();
+      day = new Date(day.getTime() + DAY_MS)
+    ) {
+      for (const window of hours) {
+        if (window.dayOfWeek !== day.getUTCDay()) continue
+
+        const opens = zonedTime(day, parseTime(window.opensAt), this.timeZone)
+        const closes = zonedTime(day, parseTime(window.closesAt), this.timeZone)
+
+        for (let t = opens.getTime(); t + slotMs <= closes.getTime(); t += slotMs) {
+          if (t < startDate.getTime() || t >= endDate.getTime() || t < now) continue
+
+          const overlaps = blocking.some(
+            (r) => r.startTime.getTime() < t + slotMs && r.endTime.getTime() > t
+          )
+
+          if (!overlaps) {
+            slotTimes.add(t)
+          }
+        }
+      }
+    }
+
+    return [...slotTimes].sort((a, b) => a - b).map((t) => new Date(t))
+  }
+}
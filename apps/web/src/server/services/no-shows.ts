@@ -0,0 +1,219 @@
+import { eq, and, or, ne, asc, desc, gte, inArray } from 'drizzle-orm'
+import { db, reservations, type Reservation } from '~/lib/db'
+import type { AuthUser } from '../auth/types'
+import { recordAuditEvent } from './audit'
+import { broadcastMachineAvailabilityChange } from './events'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface NoShowPolicy {
+  // No-shows within the window that trigger a block; 0 disables blocking
+  limit: number
+  windowDays: number
+  blockDays: number
+}
+
+export interface BookingBlock {
+  until: Date
+  noShowCount: number
+}
+
+export function getNoShowPolicy(): NoShowPolicy {
+  return {
+    limit: parseInt(process.env.NO_SHOW_LIMIT || '3'),
+    windowDays: parseInt(process.env.NO_SHOW_WINDOW_DAYS || '30'),
+    blockDays: parseInt(process.env.NO_SHOW_BLOCK_DAYS || '14'),
+  }
+}
+
+// A member is blocked for `blockDays` after any no-show that brings their count
+// within the preceding `windowDays` up to the limit. Returns the block that
+// ends last, or null if they can book.
+export async function getBookingBlock(
+  userId: string,
+  now: Date = new Date()
+): Promise<BookingBlock | null> {
+  const blocks = await getBookingBlocks([userId], now)
+  return blocks.get(userId) ?? null
+}
+
+// getBookingBlock for many members in one query; members who can book are absent
+export async function getBookingBlocks(
+  userIds: string[],
+  now: Date = new Date()
+): Promise<Map<string, BookingBlock>> {
+  const policy = getNoShowPolicy()
+  const blocks = new Map<string, BookingBlock>()
+  if (policy.limit <= 0 || userIds.length === 0) return blocks
+
+  // Anything older can neither trigger nor count toward a block still in force
+  const since = new Date(now.getTime() - (policy.windowDays + policy.blockDays) * DAY_MS)
+
+  const noShows = await db.query.reservations.findMany({
+    where: and(
+      inArray(reservations.userId, userIds),
+      eq(reservations.status, 'no_show'),
+      gte(reservations.startTime, since),
+      // A missed check-in only counts if the member could have checked in
+      or(
+        ne(reservations.noShowSource, 'missed_check_in'),
+        eq(reservations.checkInRequired, true)
+      )
+    ),
+    columns: { userId: true, startTime: true },
+    orderBy: [asc(reservations.startTime)],
+  })
+
+  const startTimesByUser = new Map<string, Date[]>()
+  for (const noShow of noShows) {
+    const startTimes = startTimesByUser.get(noShow.userId) ?? []
+    startTimes.push(noShow.startTime)
+    startTimesByUser.set(noShow.userId, startTimes)
+  }
+
+  for (const [userId, startTimes] of startTimesByUser) {
+    const block = findBookingBlock(startTimes, policy, now)
+    if (block) blocks.set(userId, block)
+  }
+
+  return blocks
+}
+
+// `startTimes` must be in ascending order
+function findBookingBlock(
+  startTimes: Date[],
+  policy: NoShowPolicy,
+  now: Date
+): BookingBlock | null {
+  const windowMs = policy.windowDays * DAY_MS
+  const blockMs = policy.blockDays * DAY_MS
+
+  let block: BookingBlock | null = null
+
+  for (const [index, startTime] of startTimes.entries()) {
+    const triggeredAt = startTime.getTime()
+    const count = startTimes
+      .slice(0, index + 1)
+      .filter((t) => t.getTime() > triggeredAt - windowMs).length
+
+    const until = new Date(triggeredAt + blockMs)
+    if (count >= policy.limit && until > now && (!block || until > block.until)) {
+      block = { until, noShowCount: count }
+    }
+  }
+
+  return block
+}
+
+type NoShowResult =
+  | { success: true; reservation: Reservation }
+  | { success: false; error: string }
+
+// Manager records that a member didn't turn up for a reservation that has started
+export async function markNoShow(actor: AuthUser, reservationId: string): Promise<NoShowResult> {
+  const reservation = await db.query.reservations.findFirst({
+    where: eq(reservations.id, reservationId),
+  })
+
+  if (!reservation) {
+    return { success: false, error: 'Reservation not found' }
+  }
+
+  if (reservation.status !== 'confirmed' || reservation.checkedInAt) {
+    return { success: false, error: 'Only reservations without a check-in can be marked as no-shows' }
+  }
+
+  if (reservation.startTime > new Date()) {
+    return { success: false, error: 'This reservation has not started yet' }
+  }
+
+  const [updated] = await db
+    .update(reservations)
+    .set({ status: 'no_show', noShowSource: 'manager', updatedAt: new Date() })
+    .where(eq(reservations.id, reservation.id))
+    .returning()
+
+  await recordAuditEvent(actor, {
+    action: 'reservation.no_show_marked',
+    entityType: 'reservation',
+    entityId: reservation.id,
+    before: { status: reservation.status },
+    after: { status: updated.status, noShowSource: updated.noShowSource },
+  })
+
+  // The rest of the booked time is free again
+  if (updated.endTime > new Date()) {
+    broadcastMachineAvailabilityChange(updated.machineId)
+  }
+
+  return { success: true, reservation: updated }
+}
+
+// Clears a no-show so it no longer counts toward a booking block
+export async function excuseNoShow(actor: AuthUser, reservationId: string): Promise<NoShowResult> {
+  const reservation = await db.query.reservations.findFirst({
+    where: eq(reservations.id, reservationId),
+  })
+
+  if (!reservation || reservation.status !== 'no_show') {
+    return { success: false, error: 'No-show not found' }
+  }
+
+  const [updated] = await db
+    .update(reservations)
+    .set({ status: 'cancelled', noShowSource: null, updatedAt: new Date() })
+    .where(eq(reservations.id, reservation.id))
+    .returning()
+
+  await recordAuditEvent(actor, {
+    action: 'reservation.no_show_excused',
+    entityType: 'reservation',
+    entityId: reservation.id,
+    before: { status: reservation.status, noShowSource: reservation.noShowSource },
+    after: { status: updated.status },
+  })
+
+  return { success: true, reservation: updated }
+}
+
+// Applies a no-show flag set or cleared by the host in Cal.com
+export async function applyCalcomNoShow(reservation: Reservation, noShow: boolean): Promise<void> {
+  if (noShow && (reservation.status === 'confirmed' || reservation.status === 'completed')) {
+    await db
+      .update(reservations)
+      .set({ status: 'no_show', noShowSource: 'calcom', updatedAt: new Date() })
+      .where(eq(reservations.id, reservation.id))
+  } else if (!noShow && reservation.status === 'no_show' && reservation.noShowSource === 'calcom') {
+    // A booking that hasn't ended yet goes back to holding its time
+    const now = new Date()
+    const upcoming = reservation.endTime > now
+
+    await db
+      .update(reservations)
+      .set({
+        status: upcoming ? 'confirmed' : 'completed',
+        noShowSource: null,
+        updatedAt: now,
+      })
+      .where(eq(reservations.id, reservation.id))
+
+    if (upcoming) {
+      broadcastMachineAvailabilityChange(reservation.machineId)
+    }
+  }
+}
+
+export async function getRecentNoShows(machineId: string | undefined, limit: number) {
+  return db.query.reservations.findMany({
+    where: and(
+      eq(reservations.status, 'no_show'),
+      machineId ? eq(reservations.machineId, machineId) : undefined
+    ),
+    with: {
+      machine: { columns: { id: true, name: true } },
+      user: { columns: { id: true, email: true, name: true } },
+    },
+    orderBy: [desc(reservations.startTime)],
+    limit,
+  })
+}
@@ -0,0 +1,249 @@
+import { eq, and, asc, desc, inArray, isNotNull } from 'drizzle-orm'
+import {
+  db,
+  quizQuestions,
+  quizAttempts,
+  trainingModules,
+  machineRequirements,
+  machineCategories,
+  type QuizAnswer,
+  type QuizAttempt,
+} from '~/lib/db'
+import { z } from 'zod'
+import { getRuleModules } from './requirement-rules'
+
+// A module counts as watched at this percentage, which also opens its quiz
+// when no machine asks for less
+const COMPLETION_PERCENT = 90
+
+export const quizSubmissionSchema = z.object({
+  moduleId: z.string().uuid(),
+  answers: z.array(
+    z.object({
+      questionId: z.string().uuid(),
+      selectedOption: z.number().int().min(0),
+    })
+  ),
+})
+
+export type QuizSubmission = z.infer<typeof quizSubmissionSchema>
+
+export interface QuizStatus {
+  required: boolean
+  passed: boolean
+  passPercent: number
+  // How much of the video must be watched before the quiz can be taken
+  unlockPercent: number
+  lastAttempt: Pick<QuizAttempt, 'scorePercent' | 'passed' | 'createdAt'> | null
+  nextAttemptAt: Date | null
+}
+
+// Failed attempts lock the quiz until the module's cooldown has passed
+function getNextAttemptAt(
+  lastAttempt: QuizAttempt | undefined,
+  cooldownMinutes: number
+): Date | null {
+  if (!lastAttempt || lastAttempt.passed) return null
+
+  const nextAttemptAt = new Date(lastAttempt.createdAt.getTime() + cooldownMinutes * 60 * 1000)
+  return nextAttemptAt > new Date() ? nextAttemptAt : null
+}
+
+export async function getQuizQuestions(moduleId: string) {
+  return db.query.quizQuestions.findMany({
+    where: eq(quizQuestions.moduleId, moduleId),
+    orderBy: [asc(quizQuestions.sortOrder)],
+  })
+}
+
+// The lowest watch percentage any machine's requirement, or category's, asks
+// of the module; the quiz opens there so it never holds a requirement back
+export async function getQuizUnlockPercent(moduleId: string): Promise<number> {
+  const [required, ruledCategories] = await Promise.all([
+    db
+      .select({ requiredWatchPercent: machineRequirements.requiredWatchPercent })
+      .from(machineRequirements)
+      .where(eq(machineRequirements.moduleId, moduleId)),
+    db
+      .select({ requirementRule: machineCategories.requirementRule })
+      .from(machineCategories)
+      .where(isNotNull(machineCategories.requirementRule)),
+  ])
+
+  const percents = [
+    ...required.map((r) => r.requiredWatchPercent),
+    ...ruledCategories.flatMap((c) => {
+      const percent = c.requirementRule
+        ? getRuleModules(c.requirementRule).get(moduleId)
+        : undefined
+      return percent === undefined ? [] : [percent]
+    }),
+  ]
+
+  return Math.min(COMPLETION_PERCENT, ...percents)
+}
+
+// Only passes at or after `since` count, so refreshers can require a fresh pass
+export async function getQuizStatus(
+  userId: string,
+  moduleId: string,
+  since?: Date
+): Promise<QuizStatus> {
+  const module = await db.query.trainingModules.findFirst({
+    where: eq(trainingModules.id, moduleId),
+  })
+
+  const question = await db.query.quizQuestions.findFirst({
+    where: eq(quizQuestions.moduleId, moduleId),
+  })
+
+  if (!module || !question) {
+    return {
+      required: false,
+      passed: true,
+      passPercent: module?.quizPassPercent ?? 0,
+      unlockPercent: COMPLETION_PERCENT,
+      lastAttempt: null,
+      nextAttemptAt: null,
+    }
+  }
+
+  const attempts = await db.query.quizAttempts.findMany({
+    where: and(eq(quizAttempts.userId, userId), eq(quizAttempts.moduleId, moduleId)),
+    orderBy: [desc(quizAttempts.createdAt)],
+  })
+
+  const lastAttempt = attempts[0]
+
+  return {
+    required: true,
+    passed: attempts.some((a) => a.passed && (!since || a.createdAt >= since)),
+    passPercent: module.quizPassPercent,
+    unlockPercent: await getQuizUnlockPercent(moduleId),
+    lastAttempt: lastAttempt
+      ? {
+          scorePercent: lastAttempt.scorePercent,
+          passed: lastAttempt.passed,
+          createdAt: lastAttempt.createdAt,
+        }
+      : null,
+    nextAttemptAt: getNextAttemptAt(lastAttempt, module.quizCooldownMinutes),
+  }
+}
+
+// Modules (of those given) that have a quiz the user has not passed. Passes from
+// before a module's refresher cutoff don't count.
+export async function getUnpassedQuizModules(
+  userId: string,
+  moduleIds: string[],
+  refresherCutoffs: Map<string, Date> = new Map()
+): Promise<Set<string>> {
+  if (moduleIds.length === 0) return new Set()
+
+  const questions = await db.query.quizQuestions.findMany({
+    where: inArray(quizQuestions.moduleId, moduleIds),
+    columns: { moduleId: true },
+  })
+
+  const passes = await db.query.quizAttempts.findMany({
+    where: and(
+      eq(quizAttempts.userId, userId),
+      inArray(quizAttempts.moduleId, moduleIds),
+      eq(quizAttempts.passed, true)
+    ),
+    columns: { moduleId: true, createdAt: true },
+  })
+
+  const passedModules = new Set(
+    passes
+      .filter((p) => {
+        const cutoff = refresherCutoffs.get(p.moduleId)
+        return !cutoff || p.createdAt >= cutoff
+      })
+      .map((p) => p.moduleId)
+  )
+
+  return new Set(
+    questions.map((q) => q.moduleId).filter((moduleId) => !passedModules.has(moduleId))
+  )
+}
+
+export async function submitQuizAttempt(
+  userId: string,
+  submission: QuizSubmission,
+  since?: Date
+): Promise<{
+  success: boolean
+  error?: string
+  scorePercent?: number
+  passed?: boolean
+  nextAttemptAt?: Date | null
+}> {
+  const module = await db.query.trainingModules.findFirst({
+    where: eq(trainingModules.id, submission.moduleId),
+  })
+
+  if (!module) {
+    return { success: false, error: 'Module not found' }
+  }
+
+  const questions = await getQuizQuestions(submission.moduleId)
+
+  if (questions.length === 0) {
+    return { success: false, error: 'This module has no quiz' }
+  }
+
+  const status = await getQuizStatus(userId, submission.moduleId, since)
+
+  if (status.passed) {
+    return { success: false, error: 'Quiz already passed' }
+  }
+
+  if (status.nextAttemptAt) {
+    return {
+      success: false,
+      error: 'Please wait before retaking the quiz',
+      nextAttemptAt: status.nextAttemptAt,
+    }
+  }
+
+  const selected = new Map(
+    submission.answers.map((a) => [a.questionId, a.selectedOption])
+  )
+
+  if (questions.some((q) => !selected.has(q.id))) {
+    return { success: false, error: 'Answer every question before submitting' }
+  }
+
+  const answers: QuizAnswer[] = questions.map((q) => {
+    const selectedOption = selected.get(q.id)!
+    return {
+      questionId: q.id,
+      prompt: q.prompt,
+      selectedOption,
+      correct: selectedOption === q.correctOption,
+    }
+  })
+
+  const correctCount = answers.filter((a) => a.correct).length
+  const scorePercent = Math.floor((correctCount / questions.length) * 100)
+  const passed = scorePercent >= module.quizPassPercent
+
+  const [attempt] = await db
+    .insert(quizAttempts)
+    .values({
+      userId,
+      moduleId: submission.moduleId,
+      answers,
+      scorePercent,
+      passed,
+    })
+    .returning()
+
+  return {
+    success: true,
+    scorePercent,
+    passed,
+    nextAttemptAt: getNextAttemptAt(attempt, module.quizCooldownMinutes),
+  }
+}
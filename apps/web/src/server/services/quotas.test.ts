@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, test } from 'bun:test'
+import { db, machines, reservations, users, type Machine, type User } from '~/lib/db'
+import { resetTestDatabase } from '~/test/db'
+import { checkBookingQuota } from './quotas'
+
+// Quota weeks follow the scheduling time zone (America/New_York by default),
+// which leaves daylight saving time on Sunday 1 November 2026
+const now = new Date('2026-10-20T12:00:00Z')
+
+let member: User
+let machine: Machine
+
+beforeEach(async () => {
+  await resetTestDatabase()
+  ;[member] = await db.insert(users).values({ email: 'member@example.com' }).returning()
+  ;[machine] = await db
+    .insert(machines)
+    .values({ name: 'Laser cutter', maxHoursPerWeek: 1 })
+    .returning()
+
+  // Monday 26 October, 10:00 EDT
+  await db.insert(reservations).values({
+    userId: member.id,
+    machineId: machine.id,
+    startTime: new Date('2026-10-26T14:00:00Z'),
+    endTime: new Date('2026-10-26T15:00:00Z'),
+  })
+})
+
+function check(start: string) {
+  const startTime = new Date(start)
+  return checkBookingQuota({
+    userId: member.id,
+    machine,
+    start: startTime,
+    end: new Date(startTime.getTime() + 60 * 60 * 1000),
+    now,
+  })
+}
+
+describe('checkBookingQuota', () => {
+  test('counts the last hour of a week that ends on standard time', async () => {
+    // Sunday 1 November, 23:00 EST
+    expect(await check('2026-11-02T04:00:00Z')).toEqual([
+      'This machine is limited to 1 hours per member per week; you have 0 hours left that week',
+    ])
+  })
+
+  test('starts the next week at Monday midnight in the scheduling time zone', async () => {
+    // Monday 2 November, 00:00 EST
+    expect(await check('2026-11-02T05:00:00Z')).toEqual([])
+  })
+})
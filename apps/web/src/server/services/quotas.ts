@@ -0,0 +1,123 @@
+import { eq, and, gt, gte, lt, ne, inArray, type SQL } from 'drizzle-orm'
+import { db, reservations, type Machine } from '~/lib/db'
+import { getSchedulingTimeZone, type DbExecutor } from './scheduling'
+import { zonedDay, zonedTime } from './native-scheduler'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+export interface BookingQuotaCheck {
+  userId: string
+  machine: Machine
+  start: Date
+  end: Date
+  // The reservation being rescheduled, so it doesn't count against itself
+  ignoreReservationId?: string
+  now?: Date
+}
+
+// Quota weeks run from Monday midnight to Monday midnight in the scheduling
+// time zone, so a week that changes to or from DST is 167 or 169 hours long
+function getQuotaWeek(date: Date): { start: Date; end: Date } {
+  const timeZone = getSchedulingTimeZone()
+  const day = zonedDay(date, timeZone)
+  const monday = new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS)
+
+  return {
+    start: zonedTime(monday, 0, timeZone),
+    end: zonedTime(new Date(monday.getTime() + 7 * DAY_MS), 0, timeZone),
+  }
+}
+
+function formatHours(minutes: number): string {
+  const hours = minutes / 60
+  return Number.isInteger(hours) ? `${hours}` : hours.toFixed(1)
+}
+
+// Checks a prospective booking against the machine's fair-use limits and
+// returns a reason for each limit it would break (empty when it's allowed).
+// Pass the booking transaction when the result decides whether to book.
+export async function checkBookingQuota(
+  { userId, machine, start, end, ignoreReservationId, now = new Date() }: BookingQuotaCheck,
+  executor: DbExecutor = db
+): Promise<string[]> {
+  const reasons: string[] = []
+
+  if (machine.minNoticeMinutes !== null) {
+    if (start.getTime() - now.getTime() < machine.minNoticeMinutes * MINUTE_MS) {
+      reasons.push(
+        `Bookings must be made at least ${machine.minNoticeMinutes} minutes in advance`
+      )
+    }
+  }
+
+  if (machine.maxAdvanceDays !== null) {
+    if (start.getTime() - now.getTime() > machine.maxAdvanceDays * DAY_MS) {
+      reasons.push(`Bookings can be made at most ${machine.maxAdvanceDays} days in advance`)
+    }
+  }
+
+  if (machine.maxActiveReservations === null && machine.maxHoursPerWeek === null) {
+    return reasons
+  }
+
+  const conditions: SQL[] = [
+    eq(reservations.userId, userId),
+    eq(reservations.machineId, machine.id),
+  ]
+
+  if (ignoreReservationId) {
+    conditions.push(ne(reservations.id, ignoreReservationId))
+  }
+
+  if (machine.maxActiveReservations !== null) {
+    const active = await executor.query.reservations.findMany({
+      where: and(
+        ...conditions,
+        eq(reservations.status, 'confirmed'),
+        gt(reservations.endTime, now)
+      ),
+      columns: { id: true },
+    })
+
+    if (active.length >= machine.maxActiveReservations) {
+      reasons.push(
+        `You can hold at most ${machine.maxActiveReservations} upcoming reservation${
+          machine.maxActiveReservations === 1 ? '' : 's'
+        } for this machine`
+      )
+    }
+  }
+
+  if (machine.maxHoursPerWeek !== null) {
+    const week = getQuotaWeek(start)
+
+    // No-shows are penalised separately, so only booked and used time counts
+    const booked = await executor.query.reservations.findMany({
+      where: and(
+        ...conditions,
+        inArray(reservations.status, ['confirmed', 'completed']),
+        gte(reservations.startTime, week.start),
+        lt(reservations.startTime, week.end)
+      ),
+      columns: { startTime: true, endTime: true },
+    })
+
+    const bookedMinutes = booked.reduce(
+      (total, r) => total + (r.endTime.getTime() - r.startTime.getTime()) / MINUTE_MS,
+      0
+    )
+    const requestedMinutes = (end.getTime() - start.getTime()) / MINUTE_MS
+
+    if (bookedMinutes + requestedMinutes > machine.maxHoursPerWeek * 60) {
+      const remaining = Math.max(0, machine.maxHoursPerWeek * 60 - bookedMinutes)
+      reasons.push(
+        `This machine is limited to ${machine.maxHoursPerWeek} hours per member per week; you have ${formatHours(
+          remaining
+        )} hours left that week`
+      )
+    }
+  }
+
+  return reasons
+}
@@ -0,0 +1,462 @@
+import { eq, and, desc, gte, inArray, lt, lte, sql } from 'drizzle-orm'
+import {
+  db,
+  machines,
+  reservations,
+  reconciliationFindings,
+  type Machine,
+  type ReconciliationKind,
+  type Reservation,
+} from '~/lib/db'
+import type { AuthUser } from '../auth/types'
+import { getSchedulingProvider, type ProviderBooking } from './scheduling'
+import { recordAuditEvent } from './audit'
+import { emitBookingEvent, broadcastMachineAvailabilityChange } from './events'
+import { offerFreedTime } from './waitlist'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+// Recent bookings can still be cancelled or moved late, so look back a day
+const LOOKBACK_MS = DAY_MS
+
+// A provider booking this new may still be getting its reservation row
+const ORPHAN_GRACE_MS = 10 * MINUTE_MS
+
+// Advisory lock key, so only one instance reconciles at a time
+const RECONCILE_LOCK = 'reconcile-bookings'
+
+const ACTIVE_STATUSES = ['ACCEPTED', 'PENDING']
+const CANCELLED_STATUSES = ['CANCELLED', 'REJECTED']
+
+export function getReconcileDaysAhead(): number {
+  return parseInt(process.env.RECONCILE_DAYS_AHEAD || '60')
+}
+
+interface Finding {
+  machineId: string
+  reservationId?: string
+  bookingUid: string
+  kind: ReconciliationKind
+  detail: string
+  fixed: boolean
+}
+
+function sameTime(a: Date, b: string): boolean {
+  return a.getTime() === new Date(b).getTime()
+}
+
+// Tries a provider cancellation; the finding stays open with the error if it fails
+async function cancelAtProvider(
+  finding: Omit<Finding, 'fixed'>,
+  reason: string
+): Promise<Finding> {
+  const provider = getSchedulingProvider()
+
+  try {
+    await provider.cancelBooking(finding.bookingUid, reason)
+    return { ...finding, fixed: true }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { ...finding, detail: `${finding.detail} Cancelling failed: ${message}`, fixed: false }
+  }
+}
+
+// Applies a cancellation made at the provider, as the BOOKING_CANCELLED webhook would have
+async function cancelLocally(reservation: Reservation, actor: AuthUser | null): Promise<void> {
+  const [cancelled] = await db
+    .update(reservations)
+    .set({ status: 'cancelled', updatedAt: new Date() })
+    .where(and(eq(reservations.id, reservation.id), eq(reservations.status, 'confirmed')))
+    .returning()
+
+  if (!cancelled) return
+
+  await recordAuditEvent(actor, {
+    action: 'reservation.cancelled_at_provider',
+    entityType: 'reservation',
+    entityId: reservation.id,
+    before: { status: reservation.status },
+    after: { status: cancelled.status },
+  })
+
+  emitBookingEvent(reservation.userId, {
+    type: 'cancelled',
+    bookingId: reservation.id,
+    machineId: reservation.machineId,
+    userId: reservation.userId,
+    startTime: reservation.startTime.toISOString(),
+    endTime: reservation.endTime.toISOString(),
+  })
+
+  broadcastMachineAvailabilityChange(reservation.machineId)
+
+  await offerFreedTime(reservation.machineId, reservation.startTime, reservation.endTime)
+}
+
+// Applies a move made at the provider, as the BOOKING_RESCHEDULED webhook would have
+async function moveLocally(
+  reservation: Reservation,
+  booking: ProviderBooking,
+  actor: AuthUser | null
+): Promise<void> {
+  const [moved] = await db
+    .update(reservations)
+    .set({
+      calcomBookingId: booking.id,
+      calcomBookingUid: booking.uid,
+      startTime: new Date(booking.startTime),
+      endTime: new Date(booking.endTime),
+      updatedAt: new Date(),
+    })
+    .where(eq(reservations.id, reservation.id))
+    .returning()
+
+  await recordAuditEvent(actor, {
+    action: 'reservation.moved_at_provider',
+    entityType: 'reservation',
+    entityId: reservation.id,
+    before: {
+      calcomBookingUid: reservation.calcomBookingUid,
+      startTime: reservation.startTime,
+      endTime: reservation.endTime,
+    },
+    after: {
+      calcomBookingUid: moved.calcomBookingUid,
+      startTime: moved.startTime,
+      endTime: moved.endTime,
+    },
+  })
+
+  emitBookingEvent(reservation.userId, {
+    type: 'updated',
+    bookingId: reservation.id,
+    machineId: reservation.machineId,
+    userId: reservation.userId,
+    startTime: booking.startTime,
+    endTime: booking.endTime,
+  })
+
+  broadcastMachineAvailabilityChange(reservation.machineId)
+}
+
+// Diffs one machine's provider bookings against its reservations, fixing what
+// is safe to fix: anything that only brings one side in line with a decision
+// already made on the other
+async function reconcileMachine(
+  machine: Machine,
+  bookings: ProviderBooking[],
+  start: Date,
+  end: Date,
+  now: Date,
+  actor: AuthUser | null
+): Promise<Finding[]> {
+  // The same window the provider listed, or bookings straddling its end would
+  // look missing there on every run
+  const local = await db.query.reservations.findMany({
+    where: and(
+      eq(reservations.machineId, machine.id),
+      gte(reservations.startTime, start),
+      lte(reservations.endTime, end)
+    ),
+  })
+
+  const byUid = new Map(
+    local
+      .filter((r) => r.calcomBookingUid)
+      .map((r) => [r.calcomBookingUid!, r] as const)
+  )
+  const remoteUids = new Set(bookings.map((b) => b.uid))
+  // Old bookings replaced by a reschedule show as cancelled; the move is handled via the new one
+  const replacedUids = new Set(
+    bookings
+      .filter((b) => ACTIVE_STATUSES.includes(b.status) && b.rescheduledFromUid)
+      .map((b) => b.rescheduledFromUid!)
+  )
+  const findings: Finding[] = []
+
+  for (const booking of bookings) {
+    const active = ACTIVE_STATUSES.includes(booking.status)
+    const reservation = byUid.get(booking.uid)
+
+    if (!reservation) {
+      if (!active) continue
+
+      // Moved at the provider under a new uid while we kept the old one
+      const replaced = booking.rescheduledFromUid ? byUid.get(booking.rescheduledFromUid) : undefined
+      if (replaced && replaced.status === 'confirmed') {
+        await moveLocally(replaced, booking, actor)
+        byUid.delete(replaced.calcomBookingUid!)
+        findings.push({
+          machineId: machine.id,
+          reservationId: replaced.id,
+          bookingUid: booking.uid,
+          kind: 'time_changed',
+          detail: `Rescheduled at the provider to ${booking.startTime}; reservation updated.`,
+          fixed: true,
+        })
+        continue
+      }
+
+      const createdAt = booking.createdAt ? new Date(booking.createdAt).getTime() : 0
+      if (now.getTime() - createdAt < ORPHAN_GRACE_MS) continue
+
+      if (booking.metadata?.machineId === machine.id && booking.metadata.userId) {
+        // The member was told the booking failed, so nobody expects it
+        findings.push(
+          await cancelAtProvider(
+            {
+              machineId: machine.id,
+              bookingUid: booking.uid,
+              kind: 'orphaned_booking',
+              detail: `Booking at ${booking.startTime} for user ${booking.metadata.userId} was never recorded here; cancelled at the provider.`,
+            },
+            'Booking was not recorded by the training system'
+          )
+        )
+      } else {
+        findings.push({
+          machineId: machine.id,
+          bookingUid: booking.uid,
+          kind: 'unknown_booking',
+          detail: `Booking at ${booking.startTime} was made outside this app and blocks the machine.`,
+          fixed: false,
+        })
+      }
+      continue
+    }
+
+    if (reservation.status === 'cancelled' && active) {
+      findings.push(
+        await cancelAtProvider(
+          {
+            machineId: machine.id,
+            reservationId: reservation.id,
+            bookingUid: booking.uid,
+            kind: 'cancel_not_sent',
+            detail: 'Reservation was cancelled here but the provider booking was still active; cancelled at the provider.',
+          },
+          'Reservation cancelled'
+        )
+      )
+    } else if (
+      reservation.status === 'confirmed' &&
+      CANCELLED_STATUSES.includes(booking.status) &&
+      !replacedUids.has(booking.uid)
+    ) {
+      await cancelLocally(reservation, actor)
+      findings.push({
+        machineId: machine.id,
+        reservationId: reservation.id,
+        bookingUid: booking.uid,
+        kind: 'cancelled_at_provider',
+        detail: `Booking was ${booking.status.toLowerCase()} at the provider; reservation cancelled.`,
+        fixed: true,
+      })
+    } else if (
+      reservation.status === 'confirmed' &&
+      active &&
+      (!sameTime(reservation.startTime, booking.startTime) ||
+        !sameTime(reservation.endTime, booking.endTime))
+    ) {
+      await moveLocally(reservation, booking, actor)
+      findings.push({
+        machineId: machine.id,
+        reservationId: reservation.id,
+        bookingUid: booking.uid,
+        kind: 'time_changed',
+        detail: `Provider has ${booking.startTime} – ${booking.endTime}; reservation updated.`,
+        fixed: true,
+      })
+    }
+  }
+
+  // Upcoming reservations the provider doesn't know about can't be fixed
+  // without guessing, so they are only reported
+  for (const reservation of local) {
+    if (
+      reservation.status === 'confirmed' &&
+      reservation.calcomBookingUid &&
+      reservation.startTime > now &&
+      !remoteUids.has(reservation.calcomBookingUid)
+    ) {
+      findings.push({
+        machineId: machine.id,
+        reservationId: reservation.id,
+        bookingUid: reservation.calcomBookingUid,
+        kind: 'missing_at_provider',
+        detail: `Confirmed reservation at ${reservation.startTime.toISOString()} has no booking at the provider, so the slot may be double-booked.`,
+        fixed: false,
+      })
+    }
+  }
+
+  return findings
+}
+
+async function recordFindings(findings: Finding[], checkedMachineIds: string[], now: Date) {
+  for (const finding of findings) {
+    const status = finding.fixed ? ('fixed' as const) : ('open' as const)
+
+    await db
+      .insert(reconciliationFindings)
+      .values({
+        machineId: finding.machineId,
+        reservationId: finding.reservationId,
+        bookingUid: finding.bookingUid,
+        kind: finding.kind,
+        status,
+        detail: finding.detail,
+        firstSeenAt: now,
+        lastSeenAt: now,
+        resolvedAt: finding.fixed ? now : null,
+      })
+      .onConflictDoUpdate({
+        target: [reconciliationFindings.kind, reconciliationFindings.bookingUid],
+        set: {
+          reservationId: finding.reservationId,
+          detail: finding.detail,
+          lastSeenAt: now,
+          resolvedAt: finding.fixed ? now : null,
+          // A dismissed finding stays dismissed while the drift persists
+          status: finding.fixed
+            ? status
+            : sql`case when ${reconciliationFindings.status} = 'dismissed' then 'dismissed'::reconciliation_status else 'open'::reconciliation_status end`,
+        },
+      })
+  }
+
+  // Open findings on machines checked this run that weren't seen again have gone away
+  if (checkedMachineIds.length > 0) {
+    await db
+      .update(reconciliationFindings)
+      .set({ status: 'resolved', resolvedAt: now })
+      .where(
+        and(
+          eq(reconciliationFindings.status, 'open'),
+          inArray(reconciliationFindings.machineId, checkedMachineIds),
+          lt(reconciliationFindings.lastSeenAt, now)
+        )
+      )
+  }
+}
+
+// Runs fn while holding an advisory lock, or returns null if another instance
+// holds it. The lock belongs to a transaction that stays open for the run, so
+// it is released when the run ends, even if the process dies; fn's own writes
+// go through db and commit as they happen.
+async function withReconcileLock<T>(fn: () => Promise<T>): Promise<T | null> {
+  return db.transaction(async (tx) => {
+    const [{ locked }] = await tx
+      .select({ locked: sql<boolean>`pg_try_advisory_xact_lock(hashtext(${RECONCILE_LOCK}))` })
+      .from(sql`(select 1) as lock`)
+    if (!locked) return null
+
+    return fn()
+  })
+}
+
+// Compares every machine's provider bookings with its reservations from a day
+// ago to RECONCILE_DAYS_AHEAD ahead. Providers without their own booking list
+// (the native scheduler) have nothing to reconcile. Returns null if another
+// instance is already reconciling. Fixes are audited under the admin who
+// started the run, or the system for scheduled runs.
+export async function reconcileBookings(
+  actor: AuthUser | null,
+  now: Date = new Date()
+): Promise<{ machines: number; fixed: number; open: number } | null> {
+  const provider = getSchedulingProvider()
+
+  if (!provider.listBookings) {
+    return { machines: 0, fixed: 0, open: 0 }
+  }
+  const listBookings = provider.listBookings.bind(provider)
+
+  const start = new Date(now.getTime() - LOOKBACK_MS)
+  const end = new Date(now.getTime() + getReconcileDaysAhead() * DAY_MS)
+
+  return withReconcileLock(async () => {
+    const machineList = await db.query.machines.findMany({
+      where: eq(machines.active, true),
+    })
+
+    const findings: Finding[] = []
+    const checked: string[] = []
+
+    for (const machine of machineList) {
+      if (!(await provider.isConfigured(machine))) continue
+
+      let bookings: ProviderBooking[]
+      try {
+        bookings = await listBookings(machine, start, end)
+      } catch (error) {
+        console.error(`Reconciliation: listing bookings for ${machine.name} failed:`, error)
+        continue
+      }
+
+      checked.push(machine.id)
+      findings.push(...(await reconcileMachine(machine, bookings, start, end, now, actor)))
+    }
+
+    await recordFindings(findings, checked, now)
+
+    const fixed = findings.filter((f) => f.fixed).length
+
+    return { machines: checked.length, fixed, open: findings.length - fixed }
+  })
+}
+
+// Open findings, and the ones fixed or resolved in the last week
+export async function getReconciliationFindings() {
+  const since = new Date(Date.now() - 7 * DAY_MS)
+
+  const [open, recent] = await Promise.all([
+    db.query.reconciliationFindings.findMany({
+      where: eq(reconciliationFindings.status, 'open'),
+      with: { machine: { columns: { id: true, name: true } } },
+      orderBy: [desc(reconciliationFindings.lastSeenAt)],
+    }),
+    db.query.reconciliationFindings.findMany({
+      where: and(
+        inArray(reconciliationFindings.status, ['fixed', 'resolved', 'dismissed']),
+        gte(reconciliationFindings.lastSeenAt, since)
+      ),
+      with: { machine: { columns: { id: true, name: true } } },
+      orderBy: [desc(reconciliationFindings.lastSeenAt)],
+      limit: 100,
+    }),
+  ])
+
+  return { open, recent }
+}
+
+export async function dismissReconciliationFinding(
+  actor: AuthUser,
+  findingId: string
+): Promise<{ success: true } | { success: false; error: string }> {
+  const [finding] = await db
+    .update(reconciliationFindings)
+    .set({ status: 'dismissed', resolvedAt: new Date() })
+    .where(and(eq(reconciliationFindings.id, findingId), eq(reconciliationFindings.status, 'open')))
+    .returning()
+
+  if (!finding) {
+    return { success: false, error: 'Finding not found or no longer open' }
+  }
+
+  await recordAuditEvent(actor, {
+    action: 'reconciliation.dismissed',
+    entityType: 'reconciliation',
+    entityId: findingId,
+    before: { status: 'open', resolvedAt: null },
+    after: {
+      status: finding.status,
+      resolvedAt: finding.resolvedAt,
+      kind: finding.kind,
+      bookingUid: finding.bookingUid,
+      detail: finding.detail,
+    },
+  })
+
+  return { success: true }
+}
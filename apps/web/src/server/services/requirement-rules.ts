@@ -0,0 +1,149 @@
+import { inArray } from 'drizzle-orm'
+import { z } from 'zod'
+import {
+  db,
+  machines,
+  trainingModules,
+  type MachineRequirement,
+  type RequirementRule,
+} from '~/lib/db'
+
+// Groups inside groups inside the top-level group, and no deeper
+export const MAX_RULE_DEPTH = 3
+
+const exemptRolesSchema = z.array(z.enum(['member', 'manager', 'admin'])).optional()
+
+export const requirementRuleSchema: z.ZodType<RequirementRule> = z.lazy(() =>
+  z.discriminatedUnion('type', [
+    z.object({
+      type: z.enum(['all', 'any']),
+      rules: z.array(requirementRuleSchema),
+    }),
+    z.object({
+      type: z.literal('module'),
+      moduleId: z.string().uuid(),
+      requiredWatchPercent: z.number().int().min(0).max(100),
+      exemptRoles: exemptRolesSchema,
+    }),
+    z.object({
+      type: z.literal('checkout'),
+      machineId: z.string().uuid(),
+      exemptRoles: exemptRolesSchema,
+    }),
+  ])
+)
+
+// The rule a machine without its own expresses: every listed module
+export function getMachineRule(
+  machine: { requirementRule: RequirementRule | null },
+  requirements: Pick<MachineRequirement, 'moduleId' | 'requiredWatchPercent'>[]
+): RequirementRule {
+  return (
+    machine.requirementRule ?? {
+      type: 'all',
+      rules: requirements.map((r) => ({
+        type: 'module',
+        moduleId: r.moduleId,
+        requiredWatchPercent: r.requiredWatchPercent,
+      })),
+    }
+  )
+}
+
+// A machine's rule combined with its category's, when the category has one
+export function withCategoryRule(
+  rule: RequirementRule,
+  category: { requirementRule: RequirementRule | null } | null | undefined
+): RequirementRule {
+  if (!category?.requirementRule) return rule
+  return { type: 'all', rules: [category.requirementRule, rule] }
+}
+
+function collectClauses(rule: RequirementRule, clauses: RequirementRule[]): RequirementRule[] {
+  if (rule.type === 'all' || rule.type === 'any') {
+    for (const child of rule.rules) collectClauses(child, clauses)
+  } else {
+    clauses.push(rule)
+  }
+  return clauses
+}
+
+// Modules the rule mentions, with the highest percentage asked of each
+export function getRuleModules(rule: RequirementRule): Map<string, number> {
+  const modules = new Map<string, number>()
+
+  for (const clause of collectClauses(rule, [])) {
+    if (clause.type === 'module') {
+      modules.set(
+        clause.moduleId,
+        Math.max(modules.get(clause.moduleId) ?? 0, clause.requiredWatchPercent)
+      )
+    }
+  }
+
+  return modules
+}
+
+// Machines whose checkout the rule asks for
+export function getRuleMachineIds(rule: RequirementRule): string[] {
+  const machineIds = new Set<string>()
+
+  for (const clause of collectClauses(rule, [])) {
+    if (clause.type === 'checkout') machineIds.add(clause.machineId)
+  }
+
+  return [...machineIds]
+}
+
+function ruleDepth(rule: RequirementRule): number {
+  if (rule.type !== 'all' && rule.type !== 'any') return 0
+  return 1 + Math.max(0, ...rule.rules.map(ruleDepth))
+}
+
+function hasEmptyAnyGroup(rule: RequirementRule): boolean {
+  if (rule.type !== 'all' && rule.type !== 'any') return false
+  return (rule.type === 'any' && rule.rules.length === 0) || rule.rules.some(hasEmptyAnyGroup)
+}
+
+// Why the rule can't be saved, or null if it can. appliesTo is the machine the
+// rule is for, or every machine in the category it is for.
+export async function validateRequirementRule(
+  appliesTo: string[],
+  rule: RequirementRule
+): Promise<string | null> {
+  if (ruleDepth(rule) > MAX_RULE_DEPTH) {
+    return `Groups can be nested at most ${MAX_RULE_DEPTH} deep`
+  }
+
+  if (hasEmptyAnyGroup(rule)) {
+    return 'An "any of" group needs at least one rule'
+  }
+
+  const moduleIds = [...getRuleModules(rule).keys()]
+  if (moduleIds.length > 0) {
+    const found = await db
+      .select({ id: trainingModules.id })
+      .from(trainingModules)
+      .where(inArray(trainingModules.id, moduleIds))
+    if (found.length !== moduleIds.length) {
+      return 'A rule refers to a training module that no longer exists'
+    }
+  }
+
+  const machineIds = getRuleMachineIds(rule)
+  if (machineIds.some((id) => appliesTo.includes(id))) {
+    return "A machine can't require a checkout on itself"
+  }
+
+  if (machineIds.length > 0) {
+    const found = await db
+      .select({ id: machines.id })
+      .from(machines)
+      .where(inArray(machines.id, machineIds))
+    if (found.length !== machineIds.length) {
+      return 'A rule refers to a machine that no longer exists'
+    }
+  }
+
+  return null
+}
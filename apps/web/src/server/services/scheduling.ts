@@ -0,0 +1,137 @@
+import { sql } from 'drizzle-orm'
+import { db, type Machine } from '~/lib/db'
+import { getCalcomClient } from './calcom'
+import { NativeScheduler } from './native-scheduler'
+
+export type SchedulingProviderName = 'calcom' | 'native'
+
+export interface AvailabilitySlot {
+  time: string
+}
+
+export interface BookingRequest {
+  start: Date
+  end: Date
+  attendee: {
+    name: string
+    email: string
+    timeZone?: string
+  }
+  metadata?: Record<string, string>
+}
+
+export interface RescheduleRequest extends BookingRequest {
+  reason?: string
+}
+
+export interface ProviderBooking {
+  id: string
+  uid: string
+  startTime: string
+  endTime: string
+  status: string // upper case, e.g. ACCEPTED or CANCELLED
+  metadata?: Record<string, string>
+  createdAt?: string
+  rescheduledFromUid?: string // the booking this one replaced
+}
+
+export interface SchedulingProvider {
+  readonly name: SchedulingProviderName
+
+  // Whether the machine has enough configuration to be booked through this provider
+  isConfigured(machine: Machine): Promise<boolean>
+
+  getAvailability(
+    machine: Machine,
+    startDate: Date,
+    endDate: Date
+  ): Promise<AvailabilitySlot[]>
+
+  // Throws unless every slot between start and end is free in the provider's
+  // own calendar. Runs inside the machine's booking lock before the reservation
+  // is written; providers that refuse clashing bookings themselves leave it out.
+  claimSlots?(
+    tx: BookingTransaction,
+    machine: Machine,
+    start: Date,
+    end: Date,
+    ignoreBookingUid?: string
+  ): Promise<void>
+
+  // Called after the reservation row holds the time, outside any transaction
+  createBooking(machine: Machine, request: BookingRequest): Promise<ProviderBooking>
+  cancelBooking(bookingUid: string, reason?: string): Promise<void>
+  reschedule(
+    machine: Machine,
+    bookingUid: string,
+    request: RescheduleRequest
+  ): Promise<ProviderBooking>
+
+  // Bookings for the machine starting at or after start and ending by end, for
+  // providers that keep their own record of bookings that can drift from ours
+  listBookings?(machine: Machine, start: Date, end: Date): Promise<ProviderBooking[]>
+}
+
+// Check a requested duration against the machine's slot length and booking limits
+export function validateBookingDuration(
+  machine: Machine,
+  durationMinutes: number
+): string | null {
+  if (durationMinutes % machine.slotMinutes !== 0) {
+    return `Bookings must be in ${machine.slotMinutes}-minute increments`
+  }
+
+  if (durationMinutes < machine.minBookingMinutes) {
+    return `Bookings must be at least ${machine.minBookingMinutes} minutes`
+  }
+
+  if (durationMinutes > machine.maxBookingMinutes) {
+    return `Bookings can be at most ${machine.maxBookingMinutes} minutes`
+  }
+
+  return null
+}
+
+export type BookingTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0]
+
+// Either the shared connection pool or a transaction from it
+export type DbExecutor = typeof db | BookingTransaction
+
+// Runs the booking checks and the reservation write under a per-machine lock,
+// so two requests can't both see a slot as free and both book it. The lock is
+// held until the transaction commits, so the next request sees the new row.
+// Everything in fn must go through tx: the lock's connection is already taken
+// from the pool, and calls to the provider belong after the commit.
+export async function withMachineBookingLock<T>(
+  machineId: string,
+  fn: (tx: BookingTransaction) => Promise<T>
+): Promise<T> {
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${'booking:' + machineId}))`)
+    return fn(tx)
+  })
+}
+
+// Time zone that opening hours and recurring bookings are expressed in
+export function getSchedulingTimeZone(): string {
+  return process.env.SCHEDULING_TIMEZONE || 'America/New_York'
+}
+
+// Singleton instance
+let schedulingProvider: SchedulingProvider | null = null
+
+export function getSchedulingProvider(): SchedulingProvider {
+  if (!schedulingProvider) {
+    const provider = process.env.SCHEDULING_PROVIDER || 'calcom'
+
+    if (provider === 'calcom') {
+      schedulingProvider = getCalcomClient()
+    } else if (provider === 'native') {
+      schedulingProvider = new NativeScheduler(getSchedulingTimeZone())
+    } else {
+      throw new Error(`Unknown scheduling provider: ${provider}`)
+    }
+  }
+
+  return schedulingProvider
+}
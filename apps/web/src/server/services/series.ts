@@ -0,0 +1,220 @@
+import { eq, and, asc, gt } from 'drizzle-orm'
+import {
+  db,
+  reservations,
+  reservationSeries,
+  type Machine,
+  type RecurrenceFrequency,
+  type Reservation,
+  type ReservationSeries,
+} from '~/lib/db'
+import { getSchedulingProvider, getSchedulingTimeZone } from './scheduling'
+import { getTimeZoneOffset } from './native-scheduler'
+import { checkBookingQuota } from './quotas'
+import { findConflictingHold } from './waitlist'
+import { bookMachine, cancelBooking } from './booking'
+import { findMaintenanceConflict } from './maintenance'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+export const MAX_SERIES_OCCURRENCES = 26
+
+const INTERVAL_DAYS: Record<RecurrenceFrequency, number> = {
+  weekly: 7,
+  biweekly: 14,
+}
+
+export interface SeriesRequest {
+  machine: Machine
+  firstStart: Date
+  durationMinutes: number
+  frequency: RecurrenceFrequency
+  until: Date
+}
+
+export interface OccurrencePreview {
+  startTime: string
+  endTime: string
+  // Why the occurrence can't be booked, or null if it can
+  conflict: string | null
+}
+
+// Occurrence start times up to `until`, keeping the same wall-clock time in
+// the scheduling time zone across daylight saving changes
+export function getSeriesOccurrences(request: SeriesRequest): Array<{ start: Date; end: Date }> {
+  const timeZone = getSchedulingTimeZone()
+  const firstOffset = getTimeZoneOffset(request.firstStart, timeZone)
+  const occurrences: Array<{ start: Date; end: Date }> = []
+
+  for (let i = 0; i < MAX_SERIES_OCCURRENCES; i++) {
+    const shifted = new Date(
+      request.firstStart.getTime() + i * INTERVAL_DAYS[request.frequency] * DAY_MS
+    )
+    const start = new Date(shifted.getTime() + firstOffset - getTimeZoneOffset(shifted, timeZone))
+
+    if (start > request.until) break
+
+    occurrences.push({
+      start,
+      end: new Date(start.getTime() + request.durationMinutes * MINUTE_MS),
+    })
+  }
+
+  return occurrences
+}
+
+async function findConflict(
+  userId: string,
+  machine: Machine,
+  start: Date,
+  end: Date
+): Promise<string | null> {
+  if (start <= new Date()) {
+    return 'This time has already passed'
+  }
+
+  const maintenanceConflict = await findMaintenanceConflict(machine, start, end)
+  if (maintenanceConflict) {
+    return maintenanceConflict
+  }
+
+  const quotaReasons = await checkBookingQuota({ userId, machine, start, end })
+  if (quotaReasons.length > 0) {
+    return quotaReasons.join('; ')
+  }
+
+  if (await findConflictingHold(machine.id, start, end, userId)) {
+    return 'Held for a member on the waitlist'
+  }
+
+  // Every slot the occurrence covers must be free
+  const slots = await getSchedulingProvider().getAvailability(machine, start, end)
+  const freeTimes = new Set(slots.map((slot) => new Date(slot.time).getTime()))
+  const slotMs = machine.slotMinutes * MINUTE_MS
+
+  for (let t = start.getTime(); t < end.getTime(); t += slotMs) {
+    if (!freeTimes.has(t)) {
+      return 'Already booked or outside opening hours'
+    }
+  }
+
+  return null
+}
+
+// Checks each occurrence without booking anything, so the member can review
+// conflicts before confirming
+export async function previewSeries(
+  userId: string,
+  request: SeriesRequest
+): Promise<OccurrencePreview[]> {
+  const previews: OccurrencePreview[] = []
+
+  for (const { start, end } of getSeriesOccurrences(request)) {
+    previews.push({
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+      conflict: await findConflict(userId, request.machine, start, end),
+    })
+  }
+
+  return previews
+}
+
+type CreateSeriesResult =
+  | {
+      success: true
+      series: ReservationSeries
+      booked: Reservation[]
+      skipped: OccurrencePreview[]
+    }
+  | { success: false; error: string; reasons?: string[] }
+
+// Books every occurrence that is free, skipping the ones that conflict.
+// Each occurrence is a normal reservation linked to the series.
+export async function createSeries(
+  userId: string,
+  request: SeriesRequest
+): Promise<CreateSeriesResult> {
+  const occurrences = getSeriesOccurrences(request)
+
+  if (occurrences.length < 2) {
+    return { success: false, error: 'A series needs at least two occurrences' }
+  }
+
+  const [series] = await db
+    .insert(reservationSeries)
+    .values({
+      userId,
+      machineId: request.machine.id,
+      frequency: request.frequency,
+      firstStartTime: request.firstStart,
+      durationMinutes: request.durationMinutes,
+      until: request.until,
+    })
+    .returning()
+
+  const booked: Reservation[] = []
+  const skipped: OccurrencePreview[] = []
+
+  for (const { start, end } of occurrences) {
+    // Re-checked here: earlier occurrences count toward the weekly limits
+    const conflict = await findConflict(userId, request.machine, start, end)
+
+    const result = conflict
+      ? { success: false as const, error: conflict }
+      : await bookMachine({ userId, machine: request.machine, start, end, seriesId: series.id })
+
+    if (result.success) {
+      booked.push(result.reservation)
+    } else {
+      skipped.push({
+        startTime: start.toISOString(),
+        endTime: end.toISOString(),
+        conflict: result.error,
+      })
+    }
+  }
+
+  if (booked.length === 0) {
+    await db.delete(reservationSeries).where(eq(reservationSeries.id, series.id))
+    return { success: false, error: 'None of the occurrences could be booked' }
+  }
+
+  return { success: true, series, booked, skipped }
+}
+
+// Cancels every upcoming occurrence of the member's series
+export async function cancelSeries(
+  userId: string,
+  seriesId: string,
+  reason?: string
+): Promise<{ success: true; cancelled: number } | { success: false; error: string }> {
+  const series = await db.query.reservationSeries.findFirst({
+    where: and(eq(reservationSeries.id, seriesId), eq(reservationSeries.userId, userId)),
+  })
+
+  if (!series) {
+    return { success: false, error: 'Series not found' }
+  }
+
+  const upcoming = await db.query.reservations.findMany({
+    where: and(
+      eq(reservations.seriesId, series.id),
+      eq(reservations.status, 'confirmed'),
+      gt(reservations.startTime, new Date())
+    ),
+    orderBy: [asc(reservations.startTime)],
+  })
+
+  for (const reservation of upcoming) {
+    await cancelBooking(reservation, reason)
+  }
+
+  await db
+    .update(reservationSeries)
+    .set({ cancelledAt: new Date(), updatedAt: new Date() })
+    .where(eq(reservationSeries.id, series.id))
+
+  return { success: true, cancelled: upcoming.length }
+}
@@ -1,13 +1,27 @@
 import { eq, and } from 'drizzle-orm'
-import { db, trainingProgress, trainingModules } from '~/lib/db'
+import {
+  db,
+  trainingProgress,
+  trainingModules,
+  refresherProgress,
+  type RefresherProgress,
+  type TrainingProgress,
+  type WatchedInterval,
+} from '~/lib/db'
 import { z } from 'zod'
+import { clipIntervals, coveredSeconds, mergeIntervals } from '~/lib/watch-intervals'
+import { getRefresherCutoffs } from './eligibility'
+import { refreshEligibilityForModule } from './eligibility-cache'
+import { getUnpassedQuizModules } from './quiz'
 
 export const progressUpdateSchema = z.object({
   moduleId: z.string().uuid(),
-  watchedSeconds: z.number().int().min(0),
+  // Stretches played since the last update
+  intervals: z
+    .array(z.object({ start: z.number().min(0), end: z.number().min(0) }))
+    .max(100),
   currentPosition: z.number().int().min(0),
   sessionDuration: z.number().int().min(0),
-  videoDuration: z.number().int().min(0).optional(),
 })
 
 export type ProgressUpdate = z.infer<typeof progressUpdateSchema>
@@ -17,21 +31,55 @@ interface ProgressValidationResult {
   reason?: string
 }
 
+// Coverage may grow by at most this many seconds per second, a margin over
+// the player's top playback speed
+const MAX_PROGRESS_RATE = 2.5
+
+// Real time not yet used by saved coverage is honoured this far back, so
+// reports queued while offline still count but idle time doesn't bank credit
+const MAX_BACKLOG_SECONDS = 15 * 60
+
+// The first report of a pass may cover at most one batch of watching
+const FIRST_REPORT_SECONDS = 5 * 60
+
+// Where the real time available to new coverage starts, by the server's clock
+function creditStart(creditedUntil: Date | null | undefined, now: Date): number {
+  if (!creditedUntil) {
+    return now.getTime() - FIRST_REPORT_SECONDS * 1000
+  }
+  return Math.max(creditedUntil.getTime(), now.getTime() - MAX_BACKLOG_SECONDS * 1000)
+}
+
+// availableSeconds is the real time, by the server's clock, that new coverage
+// may account for; the client's sessionDuration is only checked for consistency
 export function validateProgressUpdate(
-  existingWatchedSeconds: number,
+  existingIntervals: WatchedInterval[],
   update: ProgressUpdate,
-  moduleDurationSeconds: number
+  moduleDurationSeconds: number,
+  availableSeconds: number
 ): ProgressValidationResult {
-  // Reject if watched seconds exceed video duration
-  if (update.watchedSeconds > moduleDurationSeconds) {
-    return {
-      valid: false,
-      reason: 'Watched seconds exceed video duration',
+  for (const interval of update.intervals) {
+    if (interval.end <= interval.start) {
+      return {
+        valid: false,
+        reason: 'Watched intervals must end after they start',
+      }
+    }
+
+    // Reject intervals past the end of the video (a second's leeway for rounding)
+    if (interval.end > moduleDurationSeconds + 1) {
+      return {
+        valid: false,
+        reason: 'Watched interval extends past the end of the video',
+      }
     }
   }
 
-  // Calculate the delta being claimed
-  const claimedDelta = update.watchedSeconds - existingWatchedSeconds
+  // Calculate the new coverage being claimed; rewatching adds none
+  const claimedDelta = Math.floor(
+    coveredSeconds(mergeIntervals([...existingIntervals, ...update.intervals])) -
+      coveredSeconds(existingIntervals)
+  )
 
   // If they're not claiming new progress, allow it (position updates)
   if (claimedDelta <= 0) {
@@ -40,7 +88,7 @@ export function validateProgressUpdate(
 
   // Reject if claimed progress is more than 2.5x the session duration
   // (allows for some buffer with playback speed variations)
-  const maxAllowedDelta = update.sessionDuration * 2.5
+  const maxAllowedDelta = update.sessionDuration * MAX_PROGRESS_RATE
 
   if (claimedDelta > maxAllowedDelta) {
     return {
@@ -58,13 +106,37 @@ export function validateProgressUpdate(
     }
   }
 
+  if (claimedDelta > availableSeconds * MAX_PROGRESS_RATE) {
+    return {
+      valid: false,
+      reason: 'Progress is ahead of the time spent watching',
+    }
+  }
+
   return { valid: true }
 }
 
+// Progress saved before intervals were tracked only has a total, which is
+// taken to be the start of the video
+function storedIntervals(
+  progress: Pick<TrainingProgress, 'watchedIntervals' | 'watchedSeconds'>
+): WatchedInterval[] {
+  if (progress.watchedIntervals.length === 0 && progress.watchedSeconds > 0) {
+    return [{ start: 0, end: progress.watchedSeconds }]
+  }
+  return progress.watchedIntervals
+}
+
 export async function updateTrainingProgress(
   userId: string,
   update: ProgressUpdate
-): Promise<{ success: boolean; error?: string; watchedSeconds?: number; percentComplete?: number }> {
+): Promise<{
+  success: boolean
+  error?: string
+  watchedSeconds?: number
+  watchedIntervals?: WatchedInterval[]
+  percentComplete?: number
+}> {
   // Get module info
   const module = await db.query.trainingModules.findFirst({
     where: eq(trainingModules.id, update.moduleId),
@@ -78,15 +150,8 @@ export async function updateTrainingProgress(
     return { success: false, error: 'Module is not active' }
   }
 
-  // Auto-correct module duration from the actual YouTube video duration
-  let effectiveDuration = module.durationSeconds
-  if (update.videoDuration && update.videoDuration > 0 && update.videoDuration !== module.durationSeconds) {
-    effectiveDuration = update.videoDuration
-    await db
-      .update(trainingModules)
-      .set({ durationSeconds: update.videoDuration })
-      .where(eq(trainingModules.id, update.moduleId))
-  }
+  // Set by admins from the video's metadata; never taken from the player
+  const effectiveDuration = module.durationSeconds
 
   // Get existing progress
   const existing = await db.query.trainingProgress.findFirst({
@@ -96,57 +161,133 @@ export async function updateTrainingProgress(
     ),
   })
 
-  const existingWatchedSeconds = existing?.watchedSeconds || 0
+  // A refresher that is due again is watched from the beginning, as a separate
+  // pass; the original completion stays for machines that require the module
+  const refresherCutoff = existing?.completedAt
+    ? (await getRefresherCutoffs(userId)).get(update.moduleId)
+    : undefined
+  const refreshing =
+    !!refresherCutoff && !!existing?.completedAt && existing.completedAt < refresherCutoff
+
+  const renewal = refreshing
+    ? await db.query.refresherProgress.findFirst({
+        where: and(
+          eq(refresherProgress.userId, userId),
+          eq(refresherProgress.moduleId, update.moduleId)
+        ),
+      })
+    : undefined
+  // A pass made for an earlier renewal starts over
+  const current = refreshing ? currentRenewal(renewal, refresherCutoff) : existing
+
+  const existingIntervals = current ? storedIntervals(current) : []
+  const previousCompletedAt = current?.completedAt
+
+  const now = new Date()
+  const creditFrom = creditStart(current?.creditedUntil, now)
 
   // Validate the update
   const validation = validateProgressUpdate(
-    existingWatchedSeconds,
+    existingIntervals,
     update,
-    effectiveDuration
+    effectiveDuration,
+    (now.getTime() - creditFrom) / 1000
   )
 
   if (!validation.valid) {
     return { success: false, error: validation.reason }
   }
 
-  // Cap watched seconds at the effective duration (fixes inflated values from old bugs)
-  const savedWatchedSeconds = Math.min(
-    Math.max(existingWatchedSeconds, update.watchedSeconds),
+  // Clip to the duration (it may have been shortened since the intervals were saved)
+  const savedIntervals = clipIntervals(
+    mergeIntervals([...existingIntervals, ...update.intervals]),
     effectiveDuration
   )
+  const savedWatchedSeconds = Math.floor(coveredSeconds(savedIntervals))
 
-  // Calculate if completed (90% threshold)
+  // Calculate if completed (90% of the timeline covered)
   const watchPercent = (savedWatchedSeconds / effectiveDuration) * 100
   const isCompleted = watchPercent >= 90
-  const completedAt = isCompleted && !existing?.completedAt ? new Date() : existing?.completedAt
+  const completedAt = isCompleted && !previousCompletedAt ? new Date() : previousCompletedAt
+
+  // New coverage uses up real time at the top rate; rewatching uses none
+  const gainedSeconds = Math.max(0, savedWatchedSeconds - coveredSeconds(existingIntervals))
+  const creditedUntil = new Date(
+    Math.min(creditFrom + (gainedSeconds / MAX_PROGRESS_RATE) * 1000, now.getTime())
+  )
 
-  if (existing) {
-    // Update existing record - only update watched seconds if it's greater
+  const saved = {
+    watchedIntervals: savedIntervals,
+    watchedSeconds: savedWatchedSeconds,
+    lastPosition: update.currentPosition,
+    completedAt: completedAt ?? null,
+    creditedUntil,
+    updatedAt: now,
+  }
+
+  if (refreshing && refresherCutoff) {
     await db
-      .update(trainingProgress)
-      .set({
-        watchedSeconds: savedWatchedSeconds,
-        lastPosition: update.currentPosition,
-        completedAt,
-        updatedAt: new Date(),
+      .insert(refresherProgress)
+      .values({
+        userId,
+        moduleId: update.moduleId,
+        windowStart: refresherCutoff,
+        ...saved,
+      })
+      .onConflictDoUpdate({
+        target: [refresherProgress.userId, refresherProgress.moduleId],
+        set: { windowStart: refresherCutoff, ...saved },
       })
+  } else if (existing) {
+    // Update existing record - intervals only ever grow
+    await db
+      .update(trainingProgress)
+      .set(saved)
       .where(eq(trainingProgress.id, existing.id))
   } else {
     // Create new record
     await db.insert(trainingProgress).values({
       userId,
       moduleId: update.moduleId,
-      watchedSeconds: savedWatchedSeconds,
-      lastPosition: update.currentPosition,
-      completedAt,
+      ...saved,
     })
   }
 
+  await refreshEligibilityForModule(update.moduleId, [userId])
+
   const percentComplete = effectiveDuration > 0
     ? Math.min(Math.floor((savedWatchedSeconds / effectiveDuration) * 100), 100)
     : 0
 
-  return { success: true, watchedSeconds: savedWatchedSeconds, percentComplete }
+  return {
+    success: true,
+    watchedSeconds: savedWatchedSeconds,
+    watchedIntervals: savedIntervals,
+    percentComplete,
+  }
+}
+
+// A refresher pass counts only for the renewal it was made for
+function currentRenewal(
+  renewal: RefresherProgress | undefined,
+  refresherCutoff: Date | undefined
+): RefresherProgress | undefined {
+  return renewal && refresherCutoff && renewal.windowStart >= refresherCutoff
+    ? renewal
+    : undefined
+}
+
+// Progress as the member should see it: once a refresher is due, the pass for
+// that renewal takes the place of a completion from before it
+function currentProgress(
+  progress: TrainingProgress | undefined,
+  renewal: RefresherProgress | undefined,
+  refresherCutoff: Date | undefined
+): TrainingProgress | RefresherProgress | undefined {
+  if (progress?.completedAt && refresherCutoff && progress.completedAt < refresherCutoff) {
+    return currentRenewal(renewal, refresherCutoff)
+  }
+  return progress
 }
 
 export async function getModuleProgress(userId: string, moduleId: string) {
@@ -165,15 +306,26 @@ export async function getModuleProgress(userId: string, moduleId: string) {
     return null
   }
 
+  const renewal = await db.query.refresherProgress.findFirst({
+    where: and(
+      eq(refresherProgress.userId, userId),
+      eq(refresherProgress.moduleId, moduleId)
+    ),
+  })
+
+  const cutoffs = await getRefresherCutoffs(userId)
+  const current = currentProgress(progress, renewal, cutoffs.get(moduleId))
+
   return {
     moduleId,
     moduleTitle: module.title,
     durationSeconds: module.durationSeconds,
-    watchedSeconds: progress?.watchedSeconds || 0,
-    lastPosition: progress?.lastPosition || 0,
-    completedAt: progress?.completedAt,
+    watchedSeconds: current?.watchedSeconds || 0,
+    watchedIntervals: current ? storedIntervals(current) : [],
+    lastPosition: current?.lastPosition || 0,
+    completedAt: current?.completedAt,
     percentComplete: module.durationSeconds > 0
-      ? Math.floor(((progress?.watchedSeconds || 0) / module.durationSeconds) * 100)
+      ? Math.floor(((current?.watchedSeconds || 0) / module.durationSeconds) * 100)
       : 0,
   }
 }
@@ -187,17 +339,33 @@ export async function getAllModulesWithProgress(userId: string) {
     where: eq(trainingProgress.userId, userId),
   })
 
+  const userRenewals = await db.query.refresherProgress.findMany({
+    where: eq(refresherProgress.userId, userId),
+  })
+
   const progressMap = new Map(
     userProgress.map((p) => [p.moduleId, p])
   )
+  const renewalMap = new Map(userRenewals.map((r) => [r.moduleId, r]))
+  const cutoffs = await getRefresherCutoffs(userId)
+  const unpassedQuizzes = await getUnpassedQuizModules(
+    userId,
+    modules.map((m) => m.id),
+    cutoffs
+  )
 
   return modules.map((module) => {
-    const progress = progressMap.get(module.id)
+    const progress = currentProgress(
+      progressMap.get(module.id),
+      renewalMap.get(module.id),
+      cutoffs.get(module.id)
+    )
     return {
       ...module,
       watchedSeconds: progress?.watchedSeconds || 0,
       lastPosition: progress?.lastPosition || 0,
       completedAt: progress?.completedAt,
+      quizPending: unpassedQuizzes.has(module.id),
       percentComplete: module.durationSeconds > 0
         ? Math.floor(((progress?.watchedSeconds || 0) / module.durationSeconds) * 100)
         : 0,
@@ -0,0 +1,195 @@
+import { eq, and, or, desc, isNull, isNotNull, lte, sql, type SQL } from 'drizzle-orm'
+import { db, reservations, type Reservation } from '~/lib/db'
+import type { AuthUser } from '../auth/types'
+import { broadcastMachineAvailabilityChange, emitBookingEvent } from './events'
+import { refreshEligibilityAfterWrite } from './eligibility-cache'
+
+// How early before the booked start a member may check in
+export const CHECK_IN_EARLY_MINUTES = 15
+// How long after the booked end a member may still check out before the
+// background job closes the reservation for them
+export const CHECK_OUT_GRACE_MINUTES = 15
+
+const MINUTE_MS = 60 * 1000
+
+type UsageResult =
+  | { success: true; reservation: Reservation }
+  | { success: false; error: string }
+
+async function findReservationFor(actor: AuthUser, reservationId: string) {
+  const reservation = await db.query.reservations.findFirst({
+    where: eq(reservations.id, reservationId),
+  })
+
+  // Managers can check members in and out, e.g. from a kiosk at the machine
+  const canAct =
+    reservation &&
+    (reservation.userId === actor.id || actor.role === 'manager' || actor.role === 'admin')
+
+  return canAct ? reservation : null
+}
+
+export async function checkIn(actor: AuthUser, reservationId: string): Promise<UsageResult> {
+  const reservation = await findReservationFor(actor, reservationId)
+
+  if (!reservation) {
+    return { success: false, error: 'Reservation not found' }
+  }
+
+  if (reservation.status !== 'confirmed') {
+    return { success: false, error: 'Only confirmed reservations can be checked in' }
+  }
+
+  if (reservation.checkedInAt) {
+    return { success: false, error: 'Already checked in' }
+  }
+
+  const now = new Date()
+
+  if (now.getTime() < reservation.startTime.getTime() - CHECK_IN_EARLY_MINUTES * MINUTE_MS) {
+    return {
+      success: false,
+      error: `Check-in opens ${CHECK_IN_EARLY_MINUTES} minutes before your reservation`,
+    }
+  }
+
+  if (now >= reservation.endTime) {
+    return { success: false, error: 'This reservation has already ended' }
+  }
+
+  const [updated] = await db
+    .update(reservations)
+    .set({ checkedInAt: now, updatedAt: now })
+    .where(and(eq(reservations.id, reservation.id), isNull(reservations.checkedInAt)))
+    .returning()
+
+  if (!updated) {
+    return { success: false, error: 'Already checked in' }
+  }
+
+  return { success: true, reservation: updated }
+}
+
+export async function checkOut(actor: AuthUser, reservationId: string): Promise<UsageResult> {
+  const reservation = await findReservationFor(actor, reservationId)
+
+  if (!reservation) {
+    return { success: false, error: 'Reservation not found' }
+  }
+
+  if (!reservation.checkedInAt) {
+    return { success: false, error: 'Check in before checking out' }
+  }
+
+  if (reservation.checkedOutAt || reservation.status !== 'confirmed') {
+    return { success: false, error: 'Already checked out' }
+  }
+
+  const now = new Date()
+
+  const [updated] = await db
+    .update(reservations)
+    .set({ checkedOutAt: now, status: 'completed', updatedAt: now })
+    .where(and(eq(reservations.id, reservation.id), isNull(reservations.checkedOutAt)))
+    .returning()
+
+  if (!updated) {
+    return { success: false, error: 'Already checked out' }
+  }
+
+  // Finishing early frees the rest of the booked time
+  if (now < reservation.endTime) {
+    emitBookingEvent(updated.userId, {
+      type: 'updated',
+      bookingId: updated.id,
+      machineId: updated.machineId,
+      userId: updated.userId,
+      startTime: updated.startTime.toISOString(),
+      endTime: updated.endTime.toISOString(),
+    })
+    broadcastMachineAvailabilityChange(updated.machineId)
+  }
+
+  return { success: true, reservation: updated }
+}
+
+// Closes confirmed reservations whose check-out grace period has passed:
+// checked-in ones become completed (checked out at the booked end), the rest
+// become no-shows. Reservations the member had no way to check in to, such as
+// ones booked before check-in existed, are completed with no recorded use.
+// Safe to run repeatedly or from several instances at once.
+export async function finalizeReservations(
+  now: Date = new Date()
+): Promise<{ completed: number; noShows: number }> {
+  const cutoff = new Date(now.getTime() - CHECK_OUT_GRACE_MINUTES * MINUTE_MS)
+
+  const completed = await db
+    .update(reservations)
+    .set({
+      status: 'completed',
+      // Only sessions that were checked in have a use to close
+      checkedOutAt: sql`case when ${reservations.checkedInAt} is not null then ${reservations.endTime} end`,
+      updatedAt: now,
+    })
+    .where(
+      and(
+        eq(reservations.status, 'confirmed'),
+        or(isNotNull(reservations.checkedInAt), eq(reservations.checkInRequired, false)),
+        lte(reservations.endTime, cutoff)
+      )
+    )
+    .returning({ id: reservations.id })
+
+  const noShows = await db
+    .update(reservations)
+    .set({ status: 'no_show', noShowSource: 'missed_check_in', updatedAt: now })
+    .where(
+      and(
+        eq(reservations.status, 'confirmed'),
+        isNull(reservations.checkedInAt),
+        eq(reservations.checkInRequired, true),
+        lte(reservations.endTime, cutoff)
+      )
+    )
+    .returning({ id: reservations.id, userId: reservations.userId })
+
+  // Missed check-ins count toward booking blocks
+  if (noShows.length > 0) {
+    await refreshEligibilityAfterWrite({ userIds: [...new Set(noShows.map((n) => n.userId))] })
+  }
+
+  return { completed: completed.length, noShows: noShows.length }
+}
+
+// Recorded machine use, most recent first, including sessions still in progress
+export async function getUsageLog(machineId: string | undefined, limit: number) {
+  const conditions: SQL[] = [isNotNull(reservations.checkedInAt)]
+
+  if (machineId) {
+    conditions.push(eq(reservations.machineId, machineId))
+  }
+
+  return db.query.reservations.findMany({
+    where: and(...conditions),
+    with: {
+      machine: { columns: { id: true, name: true } },
+      user: { columns: { id: true, email: true, name: true } },
+    },
+    orderBy: [desc(reservations.checkedInAt)],
+    limit,
+  })
+}
+
+// Total recorded use per machine in minutes, for hour meters
+export async function getMachineHourMeters(): Promise<Map<string, number>> {
+  const rows = await db
+    .select({
+      machineId: reservations.machineId,
+      minutes: sql<string>`coalesce(sum(extract(epoch from (${reservations.checkedOutAt} - ${reservations.checkedInAt})) / 60), 0)`,
+    })
+    .from(reservations)
+    .where(and(isNotNull(reservations.checkedInAt), isNotNull(reservations.checkedOutAt)))
+    .groupBy(reservations.machineId)
+
+  return new Map(rows.map((row) => [row.machineId, Math.round(Number(row.minutes))]))
+}
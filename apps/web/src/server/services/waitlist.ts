@@ -0,0 +1,388 @@
+import { eq, and, asc, gt, lt, lte, ne, inArray } from 'drizzle-orm'
+import {
+  db,
+  machines,
+  reservations,
+  users,
+  waitlistEntries,
+  type Machine,
+  type WaitlistEntry,
+} from '~/lib/db'
+import { checkEligibility } from './eligibility'
+import { checkBookingQuota } from './quotas'
+import { getSchedulingTimeZone, type DbExecutor } from './scheduling'
+import { findMaintenanceConflict } from './maintenance'
+import { emitWaitlistEvent } from './events'
+import { getMailTransport, getPublicUrl } from './mail'
+
+const MINUTE_MS = 60 * 1000
+
+// Entries a member may have waiting or offered at once, across all machines
+export const MAX_WAITLIST_ENTRIES = 5
+
+export function getWaitlistHoldMinutes(): number {
+  return parseInt(process.env.WAITLIST_HOLD_MINUTES || '30')
+}
+
+export interface JoinWaitlistRequest {
+  machineId: string
+  windowStart: Date
+  windowEnd: Date
+  durationMinutes: number
+}
+
+type WaitlistResult =
+  | { success: true; entry: WaitlistEntry }
+  | { success: false; error: string }
+
+export async function joinWaitlist(
+  userId: string,
+  request: JoinWaitlistRequest
+): Promise<WaitlistResult> {
+  const now = new Date()
+
+  if (request.windowEnd <= now) {
+    return { success: false, error: 'The time window has already passed' }
+  }
+
+  if (
+    request.windowEnd.getTime() - request.windowStart.getTime() <
+    request.durationMinutes * MINUTE_MS
+  ) {
+    return { success: false, error: 'The time window is shorter than the booking length' }
+  }
+
+  const open = await db.query.waitlistEntries.findMany({
+    where: and(
+      eq(waitlistEntries.userId, userId),
+      inArray(waitlistEntries.status, ['waiting', 'offered'])
+    ),
+  })
+
+  if (open.length >= MAX_WAITLIST_ENTRIES) {
+    return {
+      success: false,
+      error: `You can be on at most ${MAX_WAITLIST_ENTRIES} waitlists at a time`,
+    }
+  }
+
+  const overlapping = open.some(
+    (entry) =>
+      entry.machineId === request.machineId &&
+      entry.windowStart < request.windowEnd &&
+      entry.windowEnd > request.windowStart
+  )
+
+  if (overlapping) {
+    return { success: false, error: 'You are already waiting for this machine at that time' }
+  }
+
+  const [entry] = await db
+    .insert(waitlistEntries)
+    .values({
+      userId,
+      machineId: request.machineId,
+      windowStart: request.windowStart,
+      windowEnd: request.windowEnd,
+      durationMinutes: request.durationMinutes,
+    })
+    .returning()
+
+  return { success: true, entry }
+}
+
+// Takes the member off the waitlist; a hold they were offered goes to the next in line
+export async function leaveWaitlist(userId: string, entryId: string): Promise<WaitlistResult> {
+  const [entry] = await db
+    .update(waitlistEntries)
+    .set({ status: 'cancelled', updatedAt: new Date() })
+    .where(
+      and(
+        eq(waitlistEntries.id, entryId),
+        eq(waitlistEntries.userId, userId),
+        inArray(waitlistEntries.status, ['waiting', 'offered'])
+      )
+    )
+    .returning()
+
+  if (!entry) {
+    return { success: false, error: 'Waitlist entry not found' }
+  }
+
+  if (entry.offeredStart && entry.offeredEnd) {
+    await offerFreedTime(entry.machineId, entry.offeredStart, entry.offeredEnd)
+  }
+
+  return { success: true, entry }
+}
+
+function formatSlotTime(date: Date): string {
+  return date.toLocaleString('en-US', {
+    timeZone: getSchedulingTimeZone(),
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
+
+async function notifyOffer(entry: WaitlistEntry, machine: Machine): Promise<void> {
+  const startTime = entry.offeredStart!
+  const endTime = entry.offeredEnd!
+  const holdExpiresAt = entry.holdExpiresAt!
+
+  emitWaitlistEvent(entry.userId, {
+    type: 'offered',
+    entryId: entry.id,
+    machineId: machine.id,
+    machineName: machine.name,
+    startTime: startTime.toISOString(),
+    endTime: endTime.toISOString(),
+    holdExpiresAt: holdExpiresAt.toISOString(),
+  })
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, entry.userId),
+  })
+
+  if (!user) return
+
+  try {
+    await getMailTransport().send({
+      to: user.email,
+      subject: `${machine.name} is available`,
+      text: [
+        `Hi ${user.name || user.email},`,
+        '',
+        `${machine.name} has become free from`,
+        `${formatSlotTime(startTime)} to ${formatSlotTime(endTime)}.`,
+        '',
+        `We're holding it for you until ${formatSlotTime(holdExpiresAt)}. Confirm it here:`,
+        '',
+        `${getPublicUrl()}/reservations`,
+        '',
+        "If you don't confirm in time, it goes to the next member on the waitlist.",
+      ].join('\n'),
+    })
+  } catch (error) {
+    // The SSE notification and My Reservations still show the offer
+    console.error('Failed to send waitlist email:', error)
+  }
+}
+
+// Offers time that has just become free to the longest-waiting eligible member
+// whose window fits it, holding it for them for a limited time. One offer is
+// made per freed booking. Returns the entry that received the offer, if any.
+export async function offerFreedTime(
+  machineId: string,
+  start: Date,
+  end: Date,
+  now: Date = new Date()
+): Promise<WaitlistEntry | null> {
+  if (end <= now) return null
+
+  const machine = await db.query.machines.findFirst({
+    where: eq(machines.id, machineId),
+  })
+
+  if (!machine || !machine.active) return null
+
+  // Freed by maintenance or an outage rather than a member
+  if (await findMaintenanceConflict(machine, start, end)) return null
+
+  // Someone may have booked it in the meantime, e.g. directly in Cal.com
+  const clash = await db.query.reservations.findFirst({
+    where: and(
+      eq(reservations.machineId, machineId),
+      eq(reservations.status, 'confirmed'),
+      lt(reservations.startTime, end),
+      gt(reservations.endTime, start)
+    ),
+  })
+
+  if (clash) return null
+
+  const candidates = await db.query.waitlistEntries.findMany({
+    where: and(
+      eq(waitlistEntries.machineId, machineId),
+      eq(waitlistEntries.status, 'waiting'),
+      lt(waitlistEntries.windowStart, end),
+      gt(waitlistEntries.windowEnd, start)
+    ),
+    orderBy: [asc(waitlistEntries.createdAt)],
+  })
+
+  const slotMs = machine.slotMinutes * MINUTE_MS
+  const holdMs = getWaitlistHoldMinutes() * MINUTE_MS
+
+  for (const candidate of candidates) {
+    // Start on the slot grid of the freed booking, inside the member's window
+    const offset = Math.max(0, candidate.windowStart.getTime() - start.getTime())
+    const offeredStart = new Date(start.getTime() + Math.ceil(offset / slotMs) * slotMs)
+    const offeredEnd = new Date(offeredStart.getTime() + candidate.durationMinutes * MINUTE_MS)
+
+    if (offeredStart <= now || offeredEnd > end || offeredEnd > candidate.windowEnd) {
+      continue
+    }
+
+    // Skip members who couldn't book it anyway; they stay on the waitlist
+    const eligibility = await checkEligibility(candidate.userId, machineId)
+    if (!eligibility.eligible) continue
+
+    const quotaReasons = await checkBookingQuota({
+      userId: candidate.userId,
+      machine,
+      start: offeredStart,
+      end: offeredEnd,
+      now,
+    })
+    if (quotaReasons.length > 0) continue
+
+    const holdExpiresAt = new Date(Math.min(now.getTime() + holdMs, offeredStart.getTime()))
+
+    const [offered] = await db
+      .update(waitlistEntries)
+      .set({ status: 'offered', offeredStart, offeredEnd, holdExpiresAt, updatedAt: now })
+      .where(and(eq(waitlistEntries.id, candidate.id), eq(waitlistEntries.status, 'waiting')))
+      .returning()
+
+    if (!offered) continue
+
+    await notifyOffer(offered, machine)
+    return offered
+  }
+
+  return null
+}
+
+// Another member's unexpired hold overlapping the given time, if any
+export async function findConflictingHold(
+  machineId: string,
+  start: Date,
+  end: Date,
+  userId: string,
+  executor: DbExecutor = db
+): Promise<WaitlistEntry | null> {
+  const hold = await executor.query.waitlistEntries.findFirst({
+    where: and(
+      eq(waitlistEntries.machineId, machineId),
+      eq(waitlistEntries.status, 'offered'),
+      ne(waitlistEntries.userId, userId),
+      gt(waitlistEntries.holdExpiresAt, new Date()),
+      lt(waitlistEntries.offeredStart, end),
+      gt(waitlistEntries.offeredEnd, start)
+    ),
+  })
+
+  return hold ?? null
+}
+
+// Drops availability slots that overlap time held for other members
+export async function excludeHeldSlots<T extends { time: string }>(
+  machine: Machine,
+  slots: T[],
+  userId: string
+): Promise<T[]> {
+  const holds = await db.query.waitlistEntries.findMany({
+    where: and(
+      eq(waitlistEntries.machineId, machine.id),
+      eq(waitlistEntries.status, 'offered'),
+      ne(waitlistEntries.userId, userId),
+      gt(waitlistEntries.holdExpiresAt, new Date())
+    ),
+  })
+
+  if (holds.length === 0) return slots
+
+  const slotMs = machine.slotMinutes * MINUTE_MS
+
+  return slots.filter((slot) => {
+    const slotStart = new Date(slot.time).getTime()
+    return !holds.some(
+      (hold) =>
+        hold.offeredStart!.getTime() < slotStart + slotMs &&
+        hold.offeredEnd!.getTime() > slotStart
+    )
+  })
+}
+
+// Marks the member's hold as used once they book time overlapping it
+export async function claimWaitlistHold(
+  userId: string,
+  machineId: string,
+  start: Date,
+  end: Date,
+  reservationId: string
+): Promise<void> {
+  await db
+    .update(waitlistEntries)
+    .set({ status: 'booked', reservationId, updatedAt: new Date() })
+    .where(
+      and(
+        eq(waitlistEntries.userId, userId),
+        eq(waitlistEntries.machineId, machineId),
+        eq(waitlistEntries.status, 'offered'),
+        lt(waitlistEntries.offeredStart, end),
+        gt(waitlistEntries.offeredEnd, start)
+      )
+    )
+}
+
+// Expires lapsed holds, passing their time to the next member in line, and
+// waiting entries whose window has passed. Safe to run repeatedly.
+export async function expireWaitlist(
+  now: Date = new Date()
+): Promise<{ holds: number; reoffered: number; windows: number }> {
+  const lapsed = await db
+    .update(waitlistEntries)
+    .set({ status: 'expired', updatedAt: now })
+    .where(
+      and(eq(waitlistEntries.status, 'offered'), lte(waitlistEntries.holdExpiresAt, now))
+    )
+    .returning()
+
+  let reoffered = 0
+
+  for (const entry of lapsed) {
+    const machine = await db.query.machines.findFirst({
+      where: eq(machines.id, entry.machineId),
+    })
+
+    emitWaitlistEvent(entry.userId, {
+      type: 'expired',
+      entryId: entry.id,
+      machineId: entry.machineId,
+      machineName: machine?.name ?? '',
+      startTime: entry.offeredStart!.toISOString(),
+      endTime: entry.offeredEnd!.toISOString(),
+      holdExpiresAt: entry.holdExpiresAt!.toISOString(),
+    })
+
+    if (await offerFreedTime(entry.machineId, entry.offeredStart!, entry.offeredEnd!, now)) {
+      reoffered++
+    }
+  }
+
+  const windows = await db
+    .update(waitlistEntries)
+    .set({ status: 'expired', updatedAt: now })
+    .where(and(eq(waitlistEntries.status, 'waiting'), lte(waitlistEntries.windowEnd, now)))
+    .returning({ id: waitlistEntries.id })
+
+  return { holds: lapsed.length, reoffered, windows: windows.length }
+}
+
+// The member's waiting and offered entries, soonest window first
+export async function getUserWaitlist(userId: string) {
+  return db.query.waitlistEntries.findMany({
+    where: and(
+      eq(waitlistEntries.userId, userId),
+      inArray(waitlistEntries.status, ['waiting', 'offered'])
+    ),
+    with: {
+      machine: { columns: { id: true, name: true } },
+    },
+    orderBy: [asc(waitlistEntries.windowStart)],
+  })
+}
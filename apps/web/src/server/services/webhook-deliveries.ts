@@ -0,0 +1,226 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto'
+import { and, desc, eq, lt, or, sql, type SQL } from 'drizzle-orm'
+import {
+  db,
+  webhookDeliveries,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+} from '~/lib/db'
+
+const MINUTE_MS = 60 * 1000
+
+// Deliveries sent longer ago than this (or this far in the future) are refused
+export function getWebhookMaxAgeMinutes(): number {
+  return parseInt(process.env.WEBHOOK_MAX_AGE_MINUTES || '5')
+}
+
+// An attempt still processing after this long is taken to have died with its
+// process (a crash or restart), and the delivery can be claimed again
+export function getWebhookProcessingTimeoutMinutes(): number {
+  return parseInt(process.env.WEBHOOK_PROCESSING_TIMEOUT_MINUTES || '10')
+}
+
+// Matches deliveries that may be claimed for another attempt: failed ones,
+// and ones whose attempt stalled
+function retryable(now: Date): SQL {
+  const stalledBefore = new Date(now.getTime() - getWebhookProcessingTimeoutMinutes() * MINUTE_MS)
+
+  return or(
+    eq(webhookDeliveries.status, 'failed'),
+    and(
+      eq(webhookDeliveries.status, 'processing'),
+      lt(webhookDeliveries.startedAt, stalledBefore)
+    )
+  )!
+}
+
+// Whether the admin reprocess action applies to the delivery
+export function isRetryable(delivery: WebhookDelivery, now: Date = new Date()): boolean {
+  return (
+    delivery.status === 'failed' ||
+    (delivery.status === 'processing' &&
+      now.getTime() - delivery.startedAt.getTime() >
+        getWebhookProcessingTimeoutMinutes() * MINUTE_MS)
+  )
+}
+
+// Checks Cal.com's X-Cal-Signature-256 header: hex HMAC-SHA256 of the raw body
+export function verifyCalcomSignature(
+  rawBody: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature) return false
+
+  const expected = Buffer.from(createHmac('sha256', secret).update(rawBody).digest('hex'))
+  const provided = Buffer.from(signature.trim().toLowerCase())
+
+  return provided.length === expected.length && timingSafeEqual(provided, expected)
+}
+
+// Why a delivery's send time is unacceptable, or null if it is recent enough
+export function checkDeliveryAge(sentAt: string, now: Date = new Date()): string | null {
+  const sent = new Date(sentAt)
+
+  if (Number.isNaN(sent.getTime())) {
+    return 'Invalid createdAt'
+  }
+
+  if (Math.abs(now.getTime() - sent.getTime()) > getWebhookMaxAgeMinutes() * MINUTE_MS) {
+    return 'Stale delivery'
+  }
+
+  return null
+}
+
+export interface InboundWebhook {
+  provider: string
+  headers: Headers
+  body: string
+  triggerEvent: string | null
+  verified: boolean // the signature checked out, or there was no secret to check
+}
+
+// Anyone can send an unverified request, so only the start of its body is logged
+const MAX_UNVERIFIED_BODY_LENGTH = 2000
+
+// Headers worth keeping for debugging; credentials are dropped
+function storedHeaders(headers: Headers): Record<string, string> {
+  const stored: Record<string, string> = {}
+
+  headers.forEach((value, name) => {
+    if (name !== 'authorization' && name !== 'cookie') {
+      stored[name] = value
+    }
+  })
+
+  return stored
+}
+
+// Records a delivery before it is processed; null if the same body was
+// already accepted, i.e. the delivery is a replay. A body whose earlier
+// delivery failed or stalled is Cal.com retrying, so that entry is claimed and
+// run again.
+export async function recordWebhookDelivery(
+  webhook: InboundWebhook
+): Promise<WebhookDelivery | null> {
+  const bodyHash = createHash('sha256').update(webhook.body).digest('hex')
+
+  const [delivery] = await db
+    .insert(webhookDeliveries)
+    .values({
+      provider: webhook.provider,
+      bodyHash,
+      triggerEvent: webhook.triggerEvent,
+      headers: storedHeaders(webhook.headers),
+      body: webhook.body,
+    })
+    .onConflictDoNothing()
+    .returning()
+
+  if (delivery) return delivery
+
+  // Only one of several concurrent retries gets the entry
+  const now = new Date()
+  const [retry] = await db
+    .update(webhookDeliveries)
+    .set({
+      status: 'processing',
+      attempts: sql`${webhookDeliveries.attempts} + 1`,
+      startedAt: now,
+    })
+    .where(
+      and(
+        eq(webhookDeliveries.provider, webhook.provider),
+        eq(webhookDeliveries.bodyHash, bodyHash),
+        retryable(now)
+      )
+    )
+    .returning()
+
+  return retry ?? null
+}
+
+function storedBody(webhook: InboundWebhook): string {
+  if (webhook.verified || webhook.body.length <= MAX_UNVERIFIED_BODY_LENGTH) {
+    return webhook.body
+  }
+
+  const kept = webhook.body.slice(0, MAX_UNVERIFIED_BODY_LENGTH)
+  return `${kept}… (truncated from ${webhook.body.length} characters)`
+}
+
+// Logs a delivery that was refused before processing (bad signature, stale, replayed)
+export async function rejectWebhookDelivery(webhook: InboundWebhook, error: string): Promise<void> {
+  await db.insert(webhookDeliveries).values({
+    provider: webhook.provider,
+    triggerEvent: webhook.triggerEvent,
+    headers: storedHeaders(webhook.headers),
+    body: storedBody(webhook),
+    status: 'rejected',
+    error,
+    processedAt: new Date(),
+  })
+}
+
+export async function finishWebhookDelivery(
+  id: string,
+  outcome: { result?: unknown; error?: string }
+): Promise<void> {
+  await db
+    .update(webhookDeliveries)
+    .set({
+      status: outcome.error ? 'failed' : 'processed',
+      result: outcome.result ?? null,
+      error: outcome.error ?? null,
+      processedAt: new Date(),
+    })
+    .where(eq(webhookDeliveries.id, id))
+}
+
+// Claims a failed or stalled delivery to be processed again, for the admin
+// reprocess action; false if it isn't retryable (any more)
+export async function startWebhookRetry(id: string): Promise<boolean> {
+  const now = new Date()
+  const claimed = await db
+    .update(webhookDeliveries)
+    .set({
+      status: 'processing',
+      attempts: sql`${webhookDeliveries.attempts} + 1`,
+      startedAt: now,
+    })
+    .where(and(eq(webhookDeliveries.id, id), retryable(now)))
+    .returning({ id: webhookDeliveries.id })
+
+  return claimed.length > 0
+}
+
+export async function getWebhookDelivery(id: string) {
+  return db.query.webhookDeliveries.findFirst({
+    where: eq(webhookDeliveries.id, id),
+  })
+}
+
+export async function listWebhookDeliveries(
+  filter: { status?: WebhookDeliveryStatus },
+  limit: number
+) {
+  return db.query.webhookDeliveries.findMany({
+    where: filter.status ? eq(webhookDeliveries.status, filter.status) : undefined,
+    orderBy: [desc(webhookDeliveries.receivedAt)],
+    limit,
+  })
+}
+
+// Deletes log entries older than WEBHOOK_LOG_DAYS (default 30)
+export async function pruneWebhookDeliveries(now: Date = new Date()): Promise<number> {
+  const days = parseInt(process.env.WEBHOOK_LOG_DAYS || '30')
+  const cutoff = new Date(now.getTime() - days * 24 * 60 * MINUTE_MS)
+
+  const deleted = await db
+    .delete(webhookDeliveries)
+    .where(lt(webhookDeliveries.receivedAt, cutoff))
+    .returning({ id: webhookDeliveries.id })
+
+  return deleted.length
+}
@@ -0,0 +1,24 @@
+import { PGlite } from '@electric-sql/pglite'
+import { drizzle } from 'drizzle-orm/pglite'
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api'
+import * as schema from '../../drizzle/schema'
+
+// An in-memory Postgres (PGlite) with the app's schema, so tests need no database server
+const client = new PGlite()
+
+for (const statement of await generateMigration(
+  generateDrizzleJson({}),
+  generateDrizzleJson(schema)
+)) {
+  await client.exec(statement)
+}
+
+export const testDb = drizzle(client, { schema })
+
+// Empties every table, for a clean slate between tests
+export async function resetTestDatabase(): Promise<void> {
+  const { rows } = await client.query<{ tablename: string }>(
+    `select tablename from pg_tables where schemaname = 'public'`
+  )
+  await client.exec(`truncate ${rows.map((r) => `"${r.tablename}"`).join(', ')} cascade`)
+}
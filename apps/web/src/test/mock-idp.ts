@@ -0,0 +1,149 @@
+// A minimal OpenID Connect provider for tests: discovery, an authorization
+// endpoint that signs in whoever signInAs() named without a login form, a
+// token endpoint that checks the code, redirect URI and PKCE verifier, and
+// userinfo. ID tokens are unsigned, which the app accepts from its token
+// endpoint (see OidcAuthService.validateIdToken).
+
+type Claims = Record<string, unknown>
+
+interface PendingCode {
+  clientId: string
+  redirectUri: string
+  nonce: string
+  codeChallenge: string
+  claims: Claims
+}
+
+export interface MockIdp {
+  issuer: string
+  clientId: string
+  // Who the next authorization request signs in; sub is required
+  signInAs(claims: Claims & { sub: string }): void
+  stop(): void
+}
+
+function base64url(value: string | ArrayBuffer): string {
+  return Buffer.from(typeof value === 'string' ? value : new Uint8Array(value)).toString(
+    'base64url'
+  )
+}
+
+async function s256(verifier: string): Promise<string> {
+  return base64url(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier)))
+}
+
+function tokenError(error: string): Response {
+  return Response.json({ error }, { status: 400 })
+}
+
+export function startMockIdp(clientId = 'training'): MockIdp {
+  const codes = new Map<string, PendingCode>()
+  const accessTokens = new Map<string, Claims>()
+  let nextClaims: Claims | null = null
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request): Promise<Response> {
+      const url = new URL(request.url)
+      const issuer = `http://localhost:${server.port}`
+
+      switch (url.pathname) {
+        case '/.well-known/openid-configuration':
+          return Response.json({
+            issuer,
+            authorization_endpoint: `${issuer}/authorize`,
+            token_endpoint: `${issuer}/token`,
+            userinfo_endpoint: `${issuer}/userinfo`,
+          })
+
+        case '/authorize': {
+          const params = url.searchParams
+          const redirectUri = params.get('redirect_uri')
+          if (!redirectUri || params.get('client_id') !== clientId) {
+            return new Response('Unknown client', { status: 400 })
+          }
+
+          const callback = new URL(redirectUri)
+          callback.searchParams.set('state', params.get('state') ?? '')
+
+          if (!nextClaims || params.get('code_challenge_method') !== 'S256') {
+            callback.searchParams.set('error', 'access_denied')
+          } else {
+            const code = crypto.randomUUID()
+            codes.set(code, {
+              clientId,
+              redirectUri,
+              nonce: params.get('nonce') ?? '',
+              codeChallenge: params.get('code_challenge') ?? '',
+              claims: nextClaims,
+            })
+            callback.searchParams.set('code', code)
+          }
+
+          return Response.redirect(callback.toString(), 302)
+        }
+
+        case '/token': {
+          const form = new URLSearchParams(await request.text())
+          const code = form.get('code') ?? ''
+          const pending = codes.get(code)
+          codes.delete(code)
+
+          if (!pending || form.get('grant_type') !== 'authorization_code') {
+            return tokenError('invalid_grant')
+          }
+          if (
+            form.get('client_id') !== pending.clientId ||
+            form.get('redirect_uri') !== pending.redirectUri
+          ) {
+            return tokenError('invalid_grant')
+          }
+          if ((await s256(form.get('code_verifier') ?? '')) !== pending.codeChallenge) {
+            return tokenError('invalid_grant')
+          }
+
+          const now = Math.floor(Date.now() / 1000)
+          const payload = {
+            ...pending.claims,
+            iss: issuer,
+            aud: pending.clientId,
+            iat: now,
+            exp: now + 300,
+            nonce: pending.nonce,
+          }
+          const accessToken = crypto.randomUUID()
+          accessTokens.set(accessToken, pending.claims)
+
+          return Response.json({
+            token_type: 'Bearer',
+            access_token: accessToken,
+            id_token: [
+              base64url(JSON.stringify({ alg: 'none', typ: 'JWT' })),
+              base64url(JSON.stringify(payload)),
+              '',
+            ].join('.'),
+          })
+        }
+
+        case '/userinfo': {
+          const token = request.headers.get('authorization')?.replace(/^Bearer /, '') ?? ''
+          const claims = accessTokens.get(token)
+          return claims ? Response.json(claims) : new Response('Unauthorized', { status: 401 })
+        }
+      }
+
+      return new Response('Not found', { status: 404 })
+    },
+  })
+
+  return {
+    issuer: `http://localhost:${server.port}`,
+    clientId,
+    signInAs(claims) {
+      nextClaims = claims
+    },
+    stop() {
+      server.stop(true)
+    },
+  }
+}
@@ -0,0 +1,7 @@
+import { mock } from 'bun:test'
+import * as schema from '../../drizzle/schema'
+import { testDb } from './db'
+
+// Preloaded by bun test (see bunfig.toml): the app's database is the in-memory one.
+// There is no postgres-js client for LISTEN/NOTIFY; tests use the memory event bus.
+mock.module('~/lib/db', () => ({ ...schema, db: testDb, client: null }))